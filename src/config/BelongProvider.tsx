@@ -1,23 +1,44 @@
-import React, { useEffect, useMemo, createContext } from 'react';
+import React, { useEffect, useMemo, useState, createContext } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { BelongClient, BelongClientConfig, createBelongClient } from './client';
+import type { OfflineConfig } from '@/features/offline/types';
+import {
+  createOfflineQueue,
+  registerOfflineMutations,
+  type OfflineQueue,
+} from '@/features/offline/utils';
+import { useRealtimeNotifications } from '@/features/notifications/hooks/useRealtimeNotifications';
 
 // Client context for dependency injection following architecture pattern
 export const ClientContext = createContext<BelongClient | undefined>(undefined);
 
+// Persisted offline queue, when enabled through config.offline
+export const OfflineQueueContext = createContext<OfflineQueue | undefined>(
+  undefined,
+);
+
+// True while notifications arrive over realtime, so notification hooks can
+// stop polling
+export const RealtimeNotificationsContext = createContext(false);
+
 /**
  * Props for the BelongProvider component.
  */
 interface BelongProviderProps {
   /** React children to render within the provider context */
   children: React.ReactNode;
-  /** Configuration object for initializing Belong clients */
+  /**
+   * Configuration object for initializing Belong clients. May be created
+   * inline; clients are only rebuilt when the Supabase URL, anon key or
+   * Mapbox token change. Supabase client options are read on mount.
+   */
   config: BelongClientConfig;
 }
 
 /**
- * Internal realtime manager that handles all real-time subscriptions.
- * Note: Notification subscriptions have been replaced with polling.
+ * Internal realtime manager that handles app-wide real-time subscriptions.
+ * Notifications use realtime when realtimeNotifications is enabled, and
+ * polling otherwise or while the channel is down.
  *
  * @internal
  */
@@ -25,11 +46,67 @@ const RealtimeManager: React.FC<{
   children: React.ReactNode;
   client: BelongClient;
   enableRealtime: boolean;
-}> = ({ children }) => {
-  // Notifications now use polling instead of real-time subscriptions
+  realtimeNotifications: boolean;
+}> = ({ children, realtimeNotifications }) => {
+  if (realtimeNotifications) {
+    return (
+      <NotificationsRealtimeManager>{children}</NotificationsRealtimeManager>
+    );
+  }
+
   return <>{children}</>;
 };
 
+/**
+ * Internal manager for the realtime notifications channel. Tells notification
+ * hooks whether it is live so they only poll while it is down.
+ *
+ * @internal
+ */
+const NotificationsRealtimeManager: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const isNotificationsLive = useRealtimeNotifications();
+
+  return (
+    <RealtimeNotificationsContext.Provider value={isNotificationsLive}>
+      {children}
+    </RealtimeNotificationsContext.Provider>
+  );
+};
+
+/**
+ * Internal offline manager that restores mutations queued in a previous
+ * session and persists the queue as it changes.
+ *
+ * @internal
+ */
+const OfflineManager: React.FC<{
+  children: React.ReactNode;
+  client: BelongClient;
+  offline: OfflineConfig;
+}> = ({ children, client, offline: { storage, storageKey } }) => {
+  const queryClient = useQueryClient();
+
+  // Depends on the storage rather than the offline config object, which is
+  // usually created inline and would rebuild the queue on every render
+  const offlineQueue = useMemo(() => {
+    registerOfflineMutations(queryClient, client.supabase);
+    return createOfflineQueue(queryClient, { storage, storageKey });
+  }, [queryClient, client.supabase, storage, storageKey]);
+
+  useEffect(() => {
+    offlineQueue.start();
+    return () => offlineQueue.stop();
+  }, [offlineQueue]);
+
+  return (
+    <OfflineQueueContext.Provider value={offlineQueue}>
+      {children}
+    </OfflineQueueContext.Provider>
+  );
+};
+
 /**
  * Internal context provider that manages authentication state changes.
  * Handles automatic cache invalidation when users sign in/out.
@@ -40,7 +117,8 @@ const BelongContextProvider: React.FC<{
   children: React.ReactNode;
   client: BelongClient;
   enableRealtime: boolean;
-}> = ({ children, client, enableRealtime }) => {
+  realtimeNotifications: boolean;
+}> = ({ children, client, enableRealtime, realtimeNotifications }) => {
   const queryClient = useQueryClient();
 
   // Simplified auth state management following architecture document
@@ -64,7 +142,11 @@ const BelongContextProvider: React.FC<{
 
   if (enableRealtime) {
     return (
-      <RealtimeManager client={client} enableRealtime={enableRealtime}>
+      <RealtimeManager
+        client={client}
+        enableRealtime={enableRealtime}
+        realtimeNotifications={realtimeNotifications}
+      >
         {children}
       </RealtimeManager>
     );
@@ -111,6 +193,28 @@ const BelongContextProvider: React.FC<{
  *
  * @example
  * ```tsx
+ * // Queue mutations while offline and keep them across restarts
+ * <BelongProvider config={{
+ *   supabase: { supabaseUrl, supabaseAnonKey },
+ *   offline: { storage: window.localStorage }
+ * }}>
+ *   <YourApp />
+ * </BelongProvider>
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Receive notifications over realtime instead of polling
+ * <BelongProvider config={{
+ *   supabase: { supabaseUrl, supabaseAnonKey },
+ *   realtimeNotifications: true
+ * }}>
+ *   <YourApp />
+ * </BelongProvider>
+ * ```
+ *
+ * @example
+ * ```tsx
  * // Minimal setup without Mapbox
  * function MinimalApp() {
  *   return (
@@ -134,14 +238,39 @@ export const BelongProvider: React.FC<BelongProviderProps> = ({
   children,
   config,
 }) => {
-  // Create client from config
-  const client = useMemo(() => createBelongClient(config), [config]);
+  const { supabaseUrl, supabaseAnonKey } = config.supabase;
+  const { mapboxPublicToken } = config;
+  // Supabase client options are read once, since they are usually an inline
+  // object too
+  const [supabaseOptions] = useState(config.supabase.options);
+
+  // Create client from config. The config object is usually created inline,
+  // so only rebuild the clients when the connection settings change
+  const client = useMemo(
+    () =>
+      createBelongClient({
+        supabase: { supabaseUrl, supabaseAnonKey, options: supabaseOptions },
+        mapboxPublicToken,
+      }),
+    [supabaseUrl, supabaseAnonKey, supabaseOptions, mapboxPublicToken],
+  );
   const enableRealtime = config.enableRealtime ?? true;
+  const realtimeNotifications = config.realtimeNotifications ?? false;
 
   return (
     <ClientContext.Provider value={client}>
-      <BelongContextProvider client={client} enableRealtime={enableRealtime}>
-        {children}
+      <BelongContextProvider
+        client={client}
+        enableRealtime={enableRealtime}
+        realtimeNotifications={realtimeNotifications}
+      >
+        {config.offline ? (
+          <OfflineManager client={client} offline={config.offline}>
+            {children}
+          </OfflineManager>
+        ) : (
+          children
+        )}
       </BelongContextProvider>
     </ClientContext.Provider>
   );
@@ -5,6 +5,7 @@ import type {
   SupabaseClientOptions,
 } from '@supabase/supabase-js';
 import type { Database } from '@/shared/types/database';
+import type { OfflineConfig } from '@/features/offline/types';
 
 /**
  * Configuration options for the Belong Network Platform client
@@ -21,6 +22,14 @@ export interface BelongClientConfig {
   mapboxPublicToken?: string;
   /** Enable realtime subscriptions (default: true) */
   enableRealtime?: boolean;
+  /**
+   * Receive notifications over realtime instead of polling (default: false).
+   * Polling resumes while the realtime connection is down. Requires
+   * enableRealtime.
+   */
+  realtimeNotifications?: boolean;
+  /** Persist mutations queued while offline (optional) */
+  offline?: OfflineConfig;
 }
 
 /**
@@ -29,6 +38,8 @@ export interface BelongClientConfig {
 export interface BelongClient {
   /** Configured Supabase client */
   supabase: SupabaseClient<Database>;
+  /** Supabase project URL, for links to edge functions */
+  supabaseUrl: string;
   /** Configured Mapbox client (null if no token provided) */
   mapbox: ReturnType<typeof createMapboxClient> | null;
 }
@@ -73,6 +84,7 @@ export function createBelongClient(config: BelongClientConfig): BelongClient {
 
   return {
     supabase,
+    supabaseUrl,
     mapbox,
   };
 }
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  escapeICalendarText,
+  foldICalendarLine,
+  formatICalendarDate,
+  toICalendar,
+} from '../../utils/icalendar';
+import {
+  toCalendarEvent,
+  toCalendarFeedEvent,
+} from '../../utils/calendarEvents';
+import { buildCalendarFeedUrl } from '../../utils/calendarFeedUrl';
+
+const encoder = new TextEncoder();
+
+describe('icalendar', () => {
+  const createdAt = new Date('2025-11-20T10:00:00Z');
+  const updatedAt = new Date('2025-11-21T10:00:00Z');
+
+  const resource = {
+    title: 'Potluck, backyard; bring a dish',
+    description: 'Line one\nLine two',
+    locationName: '12 Elm St',
+    coordinates: { lat: 47.6, lng: -122.3 },
+    status: 'active' as const,
+    updatedAt: createdAt,
+  };
+
+  const timeslot = {
+    id: '6f1c2a8e-3b4d-4f5a-9c7e-1a2b3c4d5e6f',
+    startTime: new Date('2025-12-01T18:00:00Z'),
+    endTime: new Date('2025-12-01T20:30:00Z'),
+    status: 'active' as const,
+    sequence: 0,
+    updatedAt: createdAt,
+  };
+
+  it('should escape TEXT values', () => {
+    expect(escapeICalendarText('a\\b;c,d\r\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+  });
+
+  it('should format dates in UTC', () => {
+    expect(formatICalendarDate(new Date('2025-12-01T18:00:05.123Z'))).toBe(
+      '20251201T180005Z',
+    );
+  });
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'é'.repeat(100)}`;
+    const folded = foldICalendarLine(line).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    folded.forEach((part) => {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    });
+    expect(folded.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(folded.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(
+      line,
+    );
+  });
+
+  it('should build a calendar with one event per timeslot', () => {
+    const ics = toICalendar({
+      name: 'Potluck',
+      timeZone: 'America/Los_Angeles',
+      events: [toCalendarEvent(resource, timeslot)],
+    });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('X-WR-TIMEZONE:America/Los_Angeles');
+    expect(ics).toContain(`UID:${timeslot.id}@belong.network`);
+    expect(ics).toContain('DTSTART:20251201T180000Z');
+    expect(ics).toContain('DTEND:20251201T203000Z');
+    expect(ics).toContain('SUMMARY:Potluck\\, backyard\\; bring a dish');
+    expect(ics).toContain('DESCRIPTION:Line one\\nLine two');
+    expect(ics).toContain('GEO:47.6;-122.3');
+    expect(ics).toContain('STATUS:CONFIRMED');
+    expect(ics).toContain('SEQUENCE:0');
+  });
+
+  it('should mark cancellations with a higher sequence', () => {
+    const event = toCalendarEvent(resource, {
+      ...timeslot,
+      status: 'cancelled',
+      sequence: 3,
+      updatedAt,
+    });
+
+    expect(event.status).toBe('CANCELLED');
+    expect(event.sequence).toBe(3);
+    expect(event.lastModified).toEqual(updatedAt);
+  });
+
+  it('should cancel events for cancelled resources and claims', () => {
+    expect(
+      toCalendarEvent({ ...resource, status: 'cancelled' }, timeslot).status,
+    ).toBe('CANCELLED');
+    expect(
+      toCalendarEvent(resource, timeslot, { cancelled: true, updatedAt })
+        .sequence,
+    ).toBe(1);
+  });
+
+  it('should mark proposed timeslots as tentative', () => {
+    expect(
+      toCalendarEvent(resource, { ...timeslot, status: 'proposed' }).status,
+    ).toBe('TENTATIVE');
+  });
+
+  it('should build events from calendar feed rows', () => {
+    const event = toCalendarFeedEvent({
+      timeslot_id: timeslot.id,
+      start_time: '2025-12-01T18:00:00+00:00',
+      end_time: '2025-12-01T20:30:00+00:00',
+      title: resource.title,
+      description: '',
+      location_name: resource.locationName,
+      lat: 47.6,
+      lng: -122.3,
+      status: 'CANCELLED',
+      sequence: 4,
+      last_modified: updatedAt.toISOString(),
+    });
+
+    expect(event).toEqual({
+      uid: `${timeslot.id}@belong.network`,
+      start: timeslot.startTime,
+      end: timeslot.endTime,
+      summary: resource.title,
+      description: undefined,
+      location: '12 Elm St',
+      coordinates: { lat: 47.6, lng: -122.3 },
+      status: 'CANCELLED',
+      sequence: 4,
+      lastModified: updatedAt,
+    });
+  });
+
+  it('should build calendar feed subscription URLs', () => {
+    expect(
+      buildCalendarFeedUrl(
+        'https://project.supabase.co',
+        'abc123',
+        'America/Los_Angeles',
+      ),
+    ).toBe(
+      'https://project.supabase.co/functions/v1/calendar-feed?token=abc123&tz=America%2FLos_Angeles',
+    );
+    expect(buildCalendarFeedUrl('http://127.0.0.1:54321/', 'abc123')).toBe(
+      'http://127.0.0.1:54321/functions/v1/calendar-feed?token=abc123',
+    );
+  });
+});
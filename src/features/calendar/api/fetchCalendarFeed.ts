@@ -0,0 +1,48 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { CALENDAR_FEED_LOOKBACK_DAYS } from '../constants';
+import { toCalendarFeedEvent, toICalendar } from '../utils';
+
+/**
+ * Builds the current user's calendar feed: timeslots they claimed, and the
+ * timeslots of events they own. This is the same feed calendar apps
+ * subscribe to through the calendar-feed edge function.
+ *
+ * Timeslots that ended more than CALENDAR_FEED_LOOKBACK_DAYS ago are left
+ * out. Cancelled claims, timeslots and events are included as cancelled
+ * events so subscribed calendars drop them.
+ *
+ * @param timeZone - IANA time zone calendar apps should display times in
+ */
+export async function fetchCalendarFeed(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  timeZone?: string,
+): Promise<string> {
+  const since = new Date(
+    Date.now() - CALENDAR_FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  const { data, error } = await supabase.rpc('get_calendar_feed_events', {
+    p_since: since,
+  });
+
+  if (error) {
+    logger.error('📅 API: Failed to fetch calendar feed', { error, userId });
+    throw error;
+  }
+
+  const events = (data ?? []).map(toCalendarFeedEvent);
+
+  logger.debug('📅 API: Built calendar feed', {
+    userId,
+    eventCount: events.length,
+  });
+
+  return toICalendar({
+    name: 'Belong',
+    timeZone,
+    events,
+  });
+}
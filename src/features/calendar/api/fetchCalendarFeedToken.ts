@@ -0,0 +1,39 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+
+/**
+ * Fetches the current user's calendar feed token, creating it on first use.
+ * Anyone holding the token can read the user's calendar feed.
+ */
+export async function fetchCalendarFeedToken(
+  supabase: SupabaseClient<Database>,
+): Promise<string> {
+  const { data, error } = await supabase.rpc('get_calendar_feed_token');
+
+  if (error) {
+    logger.error('📅 API: Failed to fetch calendar feed token', { error });
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Replaces the current user's calendar feed token. Calendars subscribed with
+ * the old token stop receiving updates.
+ */
+export async function resetCalendarFeedToken(
+  supabase: SupabaseClient<Database>,
+): Promise<string> {
+  const { data, error } = await supabase.rpc('reset_calendar_feed_token');
+
+  if (error) {
+    logger.error('📅 API: Failed to reset calendar feed token', { error });
+    throw error;
+  }
+
+  logger.info('📅 API: Reset calendar feed token');
+
+  return data;
+}
@@ -0,0 +1,60 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { fetchResourceById } from '@/features/resources/api';
+import { toCalendarEvent, toICalendar } from '../utils';
+
+/**
+ * Builds the .ics file for an event, with one calendar event per timeslot.
+ * Times are shown in the time zone of the event's first community.
+ *
+ * @returns The iCalendar document, or null if the event does not exist
+ */
+export async function fetchEventCalendar(
+  supabase: SupabaseClient<Database>,
+  resourceId: string,
+): Promise<string | null> {
+  const resource = await fetchResourceById(supabase, resourceId);
+
+  if (!resource) {
+    logger.debug('📅 API: Event not found for calendar export', {
+      resourceId,
+    });
+    return null;
+  }
+
+  if (resource.type !== 'event') {
+    throw new Error('Only events can be exported to a calendar');
+  }
+
+  const { data: community, error } = await supabase
+    .from('communities')
+    .select('time_zone')
+    .in('id', resource.communityIds)
+    .not('time_zone', 'is', null)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('📅 API: Failed to fetch community time zone', {
+      error,
+      resourceId,
+    });
+    throw error;
+  }
+
+  const calendar = toICalendar({
+    name: resource.title,
+    timeZone: community?.time_zone ?? undefined,
+    events: resource.timeslots.map((timeslot) =>
+      toCalendarEvent(resource, timeslot),
+    ),
+  });
+
+  logger.debug('📅 API: Built event calendar', {
+    resourceId,
+    timeslotCount: resource.timeslots.length,
+  });
+
+  return calendar;
+}
@@ -0,0 +1,3 @@
+export * from './fetchCalendarFeed';
+export * from './fetchEventCalendar';
+export * from './fetchCalendarFeedToken';
@@ -0,0 +1,11 @@
+/** Domain that qualifies calendar event UIDs */
+export const CALENDAR_UID_DOMAIN = 'belong.network';
+
+/** PRODID of generated iCalendar files */
+export const CALENDAR_PRODUCT_ID = '-//Belong Network//Platform//EN';
+
+/** How far back the subscription feed reaches for past timeslots */
+export const CALENDAR_FEED_LOOKBACK_DAYS = 30;
+
+/** Edge function that serves subscription feeds to calendar apps */
+export const CALENDAR_FEED_FUNCTION = 'calendar-feed';
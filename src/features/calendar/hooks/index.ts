@@ -0,0 +1,4 @@
+export * from './useCalendarFeed';
+export * from './useEventCalendar';
+export * from './useCalendarFeedUrl';
+export * from './useResetCalendarFeedToken';
@@ -0,0 +1,34 @@
+import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
+import { STANDARD_CACHE_TIME } from '@/config';
+import { fetchCalendarFeed } from '../api';
+import { calendarKeys } from '../queries';
+
+/**
+ * Hook for the current user's calendar feed (.ics): the timeslots they are
+ * approved for or going to, and the events they own.
+ *
+ * @param timeZone - IANA time zone calendar apps should display times in
+ * @returns Query state with the .ics contents
+ */
+export function useCalendarFeed(
+  timeZone?: string,
+  options?: Partial<UseQueryOptions<string, Error>>,
+) {
+  const supabase = useSupabase();
+  const { data: currentUser } = useCurrentUser();
+
+  return useQuery<string, Error>({
+    queryKey: calendarKeys.feed(currentUser?.id ?? '', timeZone),
+    queryFn: () => {
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      return fetchCalendarFeed(supabase, currentUser.id, timeZone);
+    },
+    enabled: !!supabase && !!currentUser,
+    staleTime: STANDARD_CACHE_TIME,
+    ...options,
+  });
+}
@@ -0,0 +1,42 @@
+import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import { useSupabase, useSupabaseUrl } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
+import { STANDARD_CACHE_TIME } from '@/config';
+import { fetchCalendarFeedToken } from '../api';
+import { calendarKeys } from '../queries';
+import { buildCalendarFeedUrl } from '../utils';
+
+/**
+ * Hook for the URL calendar apps subscribe to for the current user's
+ * calendar feed. The URL contains the user's secret feed token.
+ *
+ * @param timeZone - IANA time zone calendar apps should display times in
+ * @returns Query state with the subscription URL
+ *
+ * @example
+ * ```tsx
+ * function SubscribeLink() {
+ *   const { data: url } = useCalendarFeedUrl('America/Los_Angeles');
+ *   if (!url) return null;
+ *
+ *   return <a href={url.replace(/^https?:/, 'webcal:')}>Subscribe</a>;
+ * }
+ * ```
+ */
+export function useCalendarFeedUrl(
+  timeZone?: string,
+  options?: Partial<UseQueryOptions<string, Error>>,
+) {
+  const supabase = useSupabase();
+  const supabaseUrl = useSupabaseUrl();
+  const { data: currentUser } = useCurrentUser();
+
+  return useQuery<string, Error, string>({
+    queryKey: calendarKeys.feedToken(currentUser?.id ?? ''),
+    queryFn: () => fetchCalendarFeedToken(supabase),
+    select: (token) => buildCalendarFeedUrl(supabaseUrl, token, timeZone),
+    enabled: !!supabase && !!currentUser,
+    staleTime: STANDARD_CACHE_TIME,
+    ...options,
+  });
+}
@@ -0,0 +1,37 @@
+import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { STANDARD_CACHE_TIME } from '@/config';
+import { fetchEventCalendar } from '../api';
+import { calendarKeys } from '../queries';
+
+/**
+ * Hook for an event's iCalendar (.ics) file.
+ *
+ * @param resourceId - The event to export
+ * @returns Query state with the .ics contents, or null if the event is missing
+ *
+ * @example
+ * ```tsx
+ * function AddToCalendarLink({ eventId }) {
+ *   const { data: ics } = useEventCalendar(eventId);
+ *   if (!ics) return null;
+ *
+ *   const href = URL.createObjectURL(new Blob([ics], { type: 'text/calendar' }));
+ *   return <a href={href} download="event.ics">Add to calendar</a>;
+ * }
+ * ```
+ */
+export function useEventCalendar(
+  resourceId: string,
+  options?: Partial<UseQueryOptions<string | null, Error>>,
+) {
+  const supabase = useSupabase();
+
+  return useQuery<string | null, Error>({
+    queryKey: calendarKeys.event(resourceId),
+    queryFn: () => fetchEventCalendar(supabase, resourceId),
+    enabled: !!supabase && !!resourceId,
+    staleTime: STANDARD_CACHE_TIME,
+    ...options,
+  });
+}
@@ -0,0 +1,30 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { logger, useSupabase } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
+import { resetCalendarFeedToken } from '../api';
+import { calendarKeys } from '../queries';
+
+/**
+ * Hook for replacing the current user's calendar feed token, e.g. after the
+ * subscription URL was shared by mistake. Calendars subscribed with the old
+ * URL stop receiving updates, and useCalendarFeedUrl returns the new one.
+ *
+ * @returns Mutation object resolving to the new token
+ */
+export function useResetCalendarFeedToken() {
+  const queryClient = useQueryClient();
+  const supabase = useSupabase();
+  const { data: currentUser } = useCurrentUser();
+
+  return useMutation<string, Error, void>({
+    mutationFn: () => resetCalendarFeedToken(supabase),
+    onSuccess: (token) => {
+      if (currentUser?.id) {
+        queryClient.setQueryData(calendarKeys.feedToken(currentUser.id), token);
+      }
+    },
+    onError: (error) => {
+      logger.error('📅 API: Failed to reset calendar feed token', { error });
+    },
+  });
+}
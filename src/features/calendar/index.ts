@@ -0,0 +1,4 @@
+export * from './hooks';
+export * from './types';
+export * from './utils';
+export * from './constants';
@@ -0,0 +1,10 @@
+// Calendar
+export const calendarKeys = {
+  all: ['calendar'] as const,
+  event: (resourceId: string) =>
+    [...calendarKeys.all, 'event', resourceId] as const,
+  feed: (userId: string, timeZone?: string) =>
+    [...calendarKeys.all, 'feed', userId, timeZone] as const,
+  feedToken: (userId: string) =>
+    [...calendarKeys.all, 'feedToken', userId] as const,
+};
@@ -0,0 +1,28 @@
+import { Coordinates } from '@/shared';
+
+export type CalendarEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+/**
+ * One VEVENT in an iCalendar file. Each event timeslot becomes one calendar
+ * event, identified by the timeslot id so calendar apps update it in place.
+ */
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  coordinates?: Coordinates;
+  status: CalendarEventStatus;
+  // Increases every time the event changes, including cancellation
+  sequence: number;
+  lastModified: Date;
+}
+
+export interface Calendar {
+  name: string;
+  // IANA time zone calendar apps should display the events in
+  timeZone?: string;
+  events: CalendarEvent[];
+}
@@ -0,0 +1,4 @@
+import type { Database } from '@/shared/types/database';
+
+export type CalendarFeedEventRow =
+  Database['public']['Functions']['get_calendar_feed_events']['Returns'][number];
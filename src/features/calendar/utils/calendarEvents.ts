@@ -0,0 +1,92 @@
+import type { Resource, ResourceTimeslot } from '@/features/resources';
+import type {
+  CalendarEvent,
+  CalendarEventStatus,
+  CalendarFeedEventRow,
+} from '../types';
+import { CALENDAR_UID_DOMAIN } from '../constants';
+
+export type CalendarResource = Pick<
+  Resource,
+  | 'title'
+  | 'description'
+  | 'locationName'
+  | 'coordinates'
+  | 'status'
+  | 'updatedAt'
+>;
+
+export type CalendarTimeslot = Pick<
+  ResourceTimeslot,
+  'id' | 'startTime' | 'endTime' | 'status' | 'sequence' | 'updatedAt'
+>;
+
+/**
+ * Turns a resource timeslot into a calendar event.
+ *
+ * The event is cancelled when the timeslot or the resource is, or when
+ * `cancelled` is set (e.g. the user's claim was cancelled). Proposed
+ * timeslots of events that are still voting are tentative.
+ *
+ * SEQUENCE is the timeslot's stored revision, plus one when `cancelled` is
+ * set so calendars pick up the cancellation.
+ */
+export function toCalendarEvent(
+  resource: CalendarResource,
+  timeslot: CalendarTimeslot,
+  options: { cancelled?: boolean; updatedAt?: Date } = {},
+): CalendarEvent {
+  const lastModified = new Date(
+    Math.max(
+      resource.updatedAt.getTime(),
+      timeslot.updatedAt.getTime(),
+      options.updatedAt?.getTime() ?? 0,
+    ),
+  );
+
+  let status: CalendarEventStatus = 'CONFIRMED';
+  if (
+    options.cancelled ||
+    timeslot.status === 'cancelled' ||
+    resource.status === 'cancelled'
+  ) {
+    status = 'CANCELLED';
+  } else if (timeslot.status === 'proposed') {
+    status = 'TENTATIVE';
+  }
+
+  return {
+    uid: `${timeslot.id}@${CALENDAR_UID_DOMAIN}`,
+    start: timeslot.startTime,
+    end: timeslot.endTime,
+    summary: resource.title,
+    description: resource.description || undefined,
+    location: resource.locationName || undefined,
+    coordinates: resource.coordinates,
+    status,
+    sequence: timeslot.sequence + (options.cancelled ? 1 : 0),
+    lastModified,
+  };
+}
+
+/**
+ * Turns a row of the calendar_feed_events function into a calendar event.
+ * The function has already worked out the status and sequence.
+ */
+export function toCalendarFeedEvent(row: CalendarFeedEventRow): CalendarEvent {
+  return {
+    uid: `${row.timeslot_id}@${CALENDAR_UID_DOMAIN}`,
+    start: new Date(row.start_time),
+    end: new Date(row.end_time),
+    summary: row.title,
+    description: row.description || undefined,
+    location: row.location_name || undefined,
+    coordinates:
+      row.lat != null && row.lng != null
+        ? { lat: row.lat, lng: row.lng }
+        : undefined,
+    status: row.status as CalendarEventStatus,
+    sequence: row.sequence,
+    lastModified: new Date(row.last_modified),
+  };
+}
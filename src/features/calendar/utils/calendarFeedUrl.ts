@@ -0,0 +1,25 @@
+import { CALENDAR_FEED_FUNCTION } from '../constants';
+
+/**
+ * Builds the URL calendar apps subscribe to. The token authorizes the
+ * request, so the URL should be treated like a password.
+ *
+ * @param supabaseUrl - Supabase project URL the edge function is served from
+ * @param token - The user's calendar feed token
+ * @param timeZone - IANA time zone calendar apps should display times in
+ */
+export function buildCalendarFeedUrl(
+  supabaseUrl: string,
+  token: string,
+  timeZone?: string,
+): string {
+  const url = new URL(
+    `functions/v1/${CALENDAR_FEED_FUNCTION}`,
+    supabaseUrl.endsWith('/') ? supabaseUrl : `${supabaseUrl}/`,
+  );
+  url.searchParams.set('token', token);
+  if (timeZone) {
+    url.searchParams.set('tz', timeZone);
+  }
+  return url.toString();
+}
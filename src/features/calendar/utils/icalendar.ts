@@ -0,0 +1,114 @@
+import type { Calendar, CalendarEvent } from '../types';
+import { CALENDAR_PRODUCT_ID } from '../constants';
+
+// RFC 5545 limits content lines to 75 octets, excluding the CRLF
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11).
+ */
+export function escapeICalendarText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Formats a date as a UTC DATE-TIME, e.g. 20251122T180000Z.
+ */
+export function formatICalendarDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/\.\d{3}/, '')
+    .replace(/[-:]/g, '');
+}
+
+/**
+ * Folds a content line into 75-octet chunks. Continuation lines start with a
+ * space, and multi-byte characters are never split.
+ */
+export function foldICalendarLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (chunkOctets + octets > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkOctets = 0;
+    }
+
+    chunk += char;
+    chunkOctets += octets;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICalendarDate(event.lastModified)}`,
+    `LAST-MODIFIED:${formatICalendarDate(event.lastModified)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `DTSTART:${formatICalendarDate(event.start)}`,
+    `DTEND:${formatICalendarDate(event.end)}`,
+    `SUMMARY:${escapeICalendarText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeICalendarText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeICalendarText(event.location)}`);
+  }
+  if (event.coordinates) {
+    lines.push(`GEO:${event.coordinates.lat};${event.coordinates.lng}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serializes a calendar to an iCalendar (RFC 5545) document.
+ *
+ * Times are written in UTC, so no VTIMEZONE definitions are needed; the
+ * calendar's time zone is passed as X-WR-TIMEZONE for display. Cancelled
+ * events stay in the document with STATUS:CANCELLED and a higher SEQUENCE,
+ * which is how subscribed calendar apps learn to remove them.
+ */
+export function toICalendar(calendar: Calendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalendarText(calendar.name)}`,
+  ];
+
+  if (calendar.timeZone) {
+    lines.push(`X-WR-TIMEZONE:${calendar.timeZone}`);
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...eventLines(event));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldICalendarLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,3 @@
+export * from './calendarEvents';
+export * from './icalendar';
+export * from './calendarFeedUrl';
@@ -1,18 +1,52 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSupabase, logger } from '@/shared';
 import { useCurrentUser } from '@/features/auth';
-import type { CommentInput } from '../types';
+import type { Comment, CommentFilter, CommentInput } from '../types';
 import { createComment } from '../api';
 import { commentKeys } from '../queries';
 import { resourceKeys } from '@/features/resources/queries';
 import { shoutoutKeys } from '@/features/shoutouts/queries';
+import { offlineMutationOptions } from '@/features/offline/mutations';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Adds a comment to a cached comment list if the list's filter includes it.
+ * Replies are nested under their parent comment.
+ */
+function addCommentToList(
+  comments: Comment[],
+  filter: CommentFilter | undefined,
+  comment: Comment,
+): Comment[] {
+  if (
+    (filter?.resourceId && filter.resourceId !== comment.resourceId) ||
+    (filter?.shoutoutId && filter.shoutoutId !== comment.shoutoutId)
+  ) {
+    return comments;
+  }
+
+  if (!comment.parentId) {
+    return filter?.parentId ? comments : [...comments, comment];
+  }
+
+  if (filter?.parentId === comment.parentId) {
+    return [...comments, comment];
+  }
+
+  return comments.map((parent) =>
+    parent.id === comment.parentId
+      ? { ...parent, replies: [...(parent.replies ?? []), comment] }
+      : parent,
+  );
+}
 
 /**
  * Hook for creating new comments.
  *
  * This hook provides functionality for creating comments on resources or shoutouts
- * with support for threading (parent/child relationships). Automatically invalidates
- * related queries on successful creation including comment lists and parent entity counts.
+ * with support for threading (parent/child relationships). The comment is shown
+ * optimistically and queued while offline. Automatically invalidates related queries
+ * on successful creation including comment lists and parent entity counts.
  * Must be used within a BelongProvider context.
  *
  * @returns React Query mutation result with create function and state
@@ -56,7 +90,13 @@ export function useCreateComment() {
   const queryClient = useQueryClient();
   const { data: currentUser } = useCurrentUser();
 
-  return useMutation({
+  return useMutation<
+    Comment,
+    Error,
+    CommentInput,
+    { previousLists: [readonly unknown[], Comment[] | undefined][] }
+  >({
+    ...offlineMutationOptions('createComment'),
     mutationFn: (input: CommentInput) => {
       if (!currentUser) {
         throw new Error('User not authenticated');
@@ -64,6 +104,45 @@ export function useCreateComment() {
       logger.debug('💬 useCreateComment: Creating comment', { input });
       return createComment(supabase, currentUser.id, input);
     },
+    onMutate: async (input) => {
+      await queryClient.cancelQueries({ queryKey: commentKeys.lists() });
+
+      const previousLists = queryClient.getQueriesData<Comment[]>({
+        queryKey: commentKeys.lists(),
+      });
+      if (!currentUser) {
+        return { previousLists };
+      }
+
+      const now = new Date();
+      const optimisticComment: Comment = {
+        ...input,
+        id: `optimistic-${uuidv4()}`,
+        authorId: currentUser.id,
+        author: {
+          id: currentUser.id,
+          firstName: currentUser.firstName,
+          lastName: currentUser.lastName,
+          fullName: currentUser.fullName,
+          avatarUrl: currentUser.avatarUrl,
+        },
+        isEdited: false,
+        isDeleted: false,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      previousLists.forEach(([queryKey, comments]) => {
+        if (!comments) return;
+        const filter = queryKey[2] as CommentFilter | undefined;
+        queryClient.setQueryData(
+          queryKey,
+          addCommentToList(comments, filter, optimisticComment),
+        );
+      });
+
+      return { previousLists };
+    },
     onSuccess: (comment) => {
       logger.info('💬 useCreateComment: Successfully created comment', {
         id: comment.id,
@@ -87,8 +166,13 @@ export function useCreateComment() {
         });
       }
     },
-    onError: (error) => {
+    onError: (error, _input, context) => {
       logger.error('💬 useCreateComment: Failed to create comment', { error });
+
+      // Roll back the optimistic comment
+      context?.previousLists.forEach(([queryKey, comments]) => {
+        queryClient.setQueryData(queryKey, comments);
+      });
     },
   });
 }
\ No newline at end of file
@@ -122,6 +122,8 @@ export function createFakeCommunityRow(
       color: faker.helpers.arrayElement([faker.internet.color(), null]),
       boundary: null,
       boundary_geometry: null,
+      enforce_player_powers: false,
+      join_policy: 'open',
       ...overrides,
     };
   }
@@ -160,6 +162,8 @@ export function createFakeCommunityRow(
     boundary_geometry: faker.helpers.maybe(() =>
       `SRID=4326;POLYGON((${faker.location.longitude()} ${faker.location.latitude()},${faker.location.longitude()} ${faker.location.latitude()},${faker.location.longitude()} ${faker.location.latitude()},${faker.location.longitude()} ${faker.location.latitude()}))`
     ) ?? null,
+    enforce_player_powers: false,
+    join_policy: 'open',
     ...overrides,
   };
 }
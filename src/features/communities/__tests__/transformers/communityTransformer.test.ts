@@ -11,6 +11,7 @@ import {
   createFakeCommunityInput,
   createFakeCommunityRow,
 } from '../../__fakes__';
+import type { IsochroneBoundary } from '../../types';
 
 describe('communityTransformer', () => {
   describe('toCommunityInsertRow', () => {
@@ -21,11 +22,11 @@ describe('communityTransformer', () => {
 
       // Should have boundary JSON without center
       expect(result.boundary).toEqual({
-        type: communityData.boundary!.type,
-        travelMode: communityData.boundary!.travelMode,
-        travelTimeMin: communityData.boundary!.travelTimeMin,
-        polygon: communityData.boundary!.polygon,
-        areaSqKm: communityData.boundary!.areaSqKm,
+        type: (communityData.boundary as IsochroneBoundary).type,
+        travelMode: (communityData.boundary as IsochroneBoundary).travelMode,
+        travelTimeMin: (communityData.boundary as IsochroneBoundary).travelTimeMin,
+        polygon: (communityData.boundary as IsochroneBoundary).polygon,
+        areaSqKm: (communityData.boundary as IsochroneBoundary).areaSqKm,
       });
 
       // Boundary should NOT include center field
@@ -37,7 +38,7 @@ describe('communityTransformer', () => {
 
       // Should have boundary geometry
       expect(result.boundary_geometry).toBeDefined();
-      expect(result.boundary_geometry).toBe(communityData.boundary!.polygon);
+      expect(result.boundary_geometry).toBe((communityData.boundary as IsochroneBoundary).polygon);
     });
 
     it('should work with null boundary', () => {
@@ -103,7 +104,35 @@ describe('communityTransformer', () => {
 
       // Should have boundary_geometry when boundary is provided
       expect(result.boundary_geometry).toBeDefined();
-      expect(result.boundary_geometry).toBe(communityData.boundary!.polygon);
+      expect(result.boundary_geometry).toBe((communityData.boundary as IsochroneBoundary).polygon);
+    });
+
+    it('should use the custom geometry as boundary_geometry', () => {
+      const geometry = {
+        type: 'MultiPolygon' as const,
+        coordinates: [
+          [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+          [[[2, 0], [3, 0], [3, 1], [2, 1], [2, 0]]],
+        ],
+      };
+
+      const result = toCommunityUpdateRow({
+        id: faker.string.uuid(),
+        boundary: { type: 'custom', geometry },
+      });
+
+      expect(result.boundary).toEqual({ type: 'custom', geometry });
+      expect(result.boundary_geometry).toBe(geometry);
+    });
+
+    it('should leave radius boundary_geometry to the database', () => {
+      const result = toCommunityUpdateRow({
+        id: faker.string.uuid(),
+        boundary: { type: 'radius', radiusKm: 2 },
+      });
+
+      expect(result.boundary).toEqual({ type: 'radius', radiusKm: 2 });
+      expect(result.boundary_geometry).toBeUndefined();
     });
 
     it('should handle undefined boundary', () => {
@@ -3,10 +3,38 @@ import {
   validateBoundaryData,
   transformBoundaryToDb,
   transformBoundaryFromDb,
+  getBoundaryArea,
   type BoundaryDbData,
 } from '../../utils/boundaryUtils';
 import { createFakeCommunityInput } from '../../__fakes__';
-import type { IsochroneBoundary } from '../../types/community';
+import type {
+  CustomBoundary,
+  IsochroneBoundary,
+  RadiusBoundary,
+} from '../../types/community';
+
+// Unit square with a smaller square hole
+const squareWithHole: CustomBoundary = {
+  type: 'custom',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]],
+      [[0.25, 0.25], [0.75, 0.25], [0.75, 0.75], [0.25, 0.75], [0.25, 0.25]],
+    ],
+  },
+};
+
+const twoSquares: CustomBoundary = {
+  type: 'custom',
+  geometry: {
+    type: 'MultiPolygon',
+    coordinates: [
+      [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+      [[[2, 0], [3, 0], [3, 1], [2, 1], [2, 0]]],
+    ],
+  },
+};
 
 describe('boundaryUtils', () => {
   describe('validateBoundaryData', () => {
@@ -26,12 +54,67 @@ describe('boundaryUtils', () => {
       expect(() => validateBoundaryData(boundary)).not.toThrow();
     });
 
+    it('should validate custom polygons with holes and multipolygons', () => {
+      expect(() => validateBoundaryData(squareWithHole)).not.toThrow();
+      expect(() => validateBoundaryData(twoSquares)).not.toThrow();
+    });
+
+    it('should reject custom geometries that are not polygons', () => {
+      const boundary = {
+        type: 'custom',
+        geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] },
+      } as unknown as CustomBoundary;
+
+      expect(() => validateBoundaryData(boundary)).toThrow(
+        'Invalid custom geometry: must be a GeoJSON Polygon or MultiPolygon'
+      );
+    });
+
+    it('should reject unclosed rings', () => {
+      const boundary: CustomBoundary = {
+        type: 'custom',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]],
+        },
+      };
+
+      expect(() => validateBoundaryData(boundary)).toThrow(
+        'Invalid polygon geometry: rings must be closed'
+      );
+    });
+
+    it('should reject positions outside longitude and latitude ranges', () => {
+      const boundary: CustomBoundary = {
+        type: 'custom',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [[[0, 0], [0, 91], [1, 1], [0, 0]]],
+        },
+      };
+
+      expect(() => validateBoundaryData(boundary)).toThrow(
+        'Invalid polygon geometry: positions must be [longitude, latitude]'
+      );
+    });
+
+    it('should validate radius boundaries', () => {
+      const boundary: RadiusBoundary = { type: 'radius', radiusKm: 2.5 };
+
+      expect(() => validateBoundaryData(boundary)).not.toThrow();
+      expect(() =>
+        validateBoundaryData({ type: 'radius', radiusKm: 0 })
+      ).toThrow('Radius must be between 0 and 100 km');
+      expect(() =>
+        validateBoundaryData({ type: 'radius', radiusKm: 150 })
+      ).toThrow('Radius must be between 0 and 100 km');
+    });
   });
 
   describe('transformBoundaryToDb', () => {
     it('should transform boundary without including center field', () => {
       const communityData = createFakeCommunityInput();
-      const boundary = communityData.boundary!;
+      const boundary = communityData.boundary as IsochroneBoundary;
 
       const result = transformBoundaryToDb(boundary);
 
@@ -50,13 +133,78 @@ describe('boundaryUtils', () => {
 
     it('should generate WKT geometry from polygon', () => {
       const communityData = createFakeCommunityInput();
-      const boundary = communityData.boundary!;
+      const boundary = communityData.boundary as IsochroneBoundary;
 
       const result = transformBoundaryToDb(boundary);
 
       expect(result.boundaryGeometry).toBeDefined();
       expect(result.boundaryGeometry).toMatch(/^POLYGON\(\(.+\)\)$/);
     });
+
+    it('should include holes in custom polygon WKT', () => {
+      const result = transformBoundaryToDb(squareWithHole);
+
+      expect(result.boundaryGeometry).toBe(
+        'POLYGON((0 0,1 0,1 1,0 1,0 0),(0.25 0.25,0.75 0.25,0.75 0.75,0.25 0.75,0.25 0.25))'
+      );
+    });
+
+    it('should generate MULTIPOLYGON WKT for multipolygons', () => {
+      const result = transformBoundaryToDb(twoSquares);
+
+      expect(result.boundaryGeometry).toBe(
+        'MULTIPOLYGON(((0 0,1 0,1 1,0 1,0 0)),((2 0,3 0,3 1,2 1,2 0)))'
+      );
+    });
+
+    it('should leave radius geometry to the database', () => {
+      const boundary: RadiusBoundary = { type: 'radius', radiusKm: 3 };
+
+      const result = transformBoundaryToDb(boundary);
+
+      expect(result).toEqual({ boundaryJson: boundary, boundaryGeometry: null });
+    });
+  });
+
+  describe('getBoundaryArea', () => {
+    it('should compute the area of a circle for radius boundaries', () => {
+      expect(getBoundaryArea({ type: 'radius', radiusKm: 2 })).toBeCloseTo(
+        Math.PI * 4
+      );
+    });
+
+    it('should subtract holes from custom polygon area', () => {
+      const withoutHole: CustomBoundary = {
+        type: 'custom',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [squareWithHole.geometry.coordinates[0] as number[][]],
+        },
+      };
+
+      const fullArea = getBoundaryArea(withoutHole);
+      const areaWithHole = getBoundaryArea(squareWithHole);
+
+      // One degree square at the equator is roughly 12,364 km²
+      expect(fullArea).toBeGreaterThan(12000);
+      expect(fullArea).toBeLessThan(12500);
+      expect(areaWithHole).toBeCloseTo(fullArea * 0.75, -1);
+    });
+
+    it('should sum the polygons of a multipolygon', () => {
+      const single: CustomBoundary = {
+        type: 'custom',
+        geometry: {
+          type: 'Polygon',
+          coordinates: twoSquares.geometry.coordinates[0] as number[][][],
+        },
+      };
+
+      expect(getBoundaryArea(twoSquares)).toBeCloseTo(
+        getBoundaryArea(single) * 2,
+        -1
+      );
+    });
   });
 
   describe('transformBoundaryFromDb', () => {
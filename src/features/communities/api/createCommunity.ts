@@ -8,11 +8,12 @@ import {
 import { logger } from '@/shared';
 import { commitImageUrls } from '@/features/images/api/imageCommit';
 import { updateCommunity } from './updateCommunity';
+import { validateBoundaryData } from '../utils/boundaryUtils';
 
 /**
  * Validates community input based on type
  * Virtual communities cannot have location data
- * Non-virtual communities require center and timeZone
+ * Non-virtual communities require center and timeZone, and a valid boundary if any
  */
 function validateCommunityInput(communityData: CommunityInput): void {
   if (communityData.type === 'virtual') {
@@ -26,6 +27,9 @@ function validateCommunityInput(communityData: CommunityInput): void {
     if (!communityData.timeZone) {
       throw new Error(`${communityData.type} communities require a timeZone`);
     }
+    if (communityData.boundary) {
+      validateBoundaryData(communityData.boundary);
+    }
   }
 }
 
@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { MembershipRequest } from '../types';
+import { toDomainMembershipRequest } from '../transformers/membershipRequestTransformer';
+import { logger } from '@/shared';
+
+/**
+ * Fetches the pending membership requests for a community, oldest first.
+ * Only organizers and founders of the community can see other users' requests.
+ */
+export async function fetchPendingMembershipRequests(
+  supabase: SupabaseClient<Database>,
+  communityId: string,
+): Promise<MembershipRequest[]> {
+  const { data, error } = await supabase
+    .from('community_membership_requests')
+    .select('*')
+    .eq('community_id', communityId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('🏘️ API: Failed to fetch pending membership requests', {
+      error,
+      communityId,
+    });
+    throw error;
+  }
+
+  return (data ?? []).map(toDomainMembershipRequest);
+}
@@ -8,3 +8,9 @@ export * from './joinCommunityWithCode';
 export * from './leaveCommunity';
 export * from './fetchCommunityMemberships';
 export * from './fetchUserCommunities';
+export * from './updateMemberRole';
+export * from './removeMember';
+export * from './transferFoundership';
+export * from './requestToJoinCommunity';
+export * from './fetchPendingMembershipRequests';
+export * from './reviewMembershipRequest';
@@ -6,6 +6,8 @@ import {
   toCommunityMembershipInsertRow,
 } from '../transformers/communityTransformer';
 import { logger } from '@/shared';
+import { toPlayerPowerError } from '@/features/trust-scores/errors';
+import { MESSAGE_COMMUNITY_NOT_OPEN } from '@/shared/constants';
 
 export async function joinCommunity(
   supabase: SupabaseClient<Database>,
@@ -59,7 +61,13 @@ export async function joinCommunity(
         error,
         communityId,
       });
-      throw error;
+
+      // RLS only allows direct joins to open communities
+      if (error.code === '42501') {
+        throw new Error(MESSAGE_COMMUNITY_NOT_OPEN);
+      }
+
+      throw toPlayerPowerError(error) ?? error;
     }
 
     if (!data) {
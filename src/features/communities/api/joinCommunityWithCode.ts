@@ -1,15 +1,13 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/shared/types/database';
 import type { CommunityMembership } from '../types';
-import {
-  toDomainMembershipInfo,
-  toCommunityMembershipInsertRow,
-} from '../transformers/communityTransformer';
+import { toDomainMembershipInfo } from '../transformers/communityTransformer';
 import {
   normalizeConnectionCode,
   isValidConnectionCode,
 } from '@/features/invitations/utils/codeUtils';
 import { logger } from '@/shared';
+import { toPlayerPowerError } from '@/features/trust-scores/errors';
 
 export async function joinCommunityWithCode(
   supabase: SupabaseClient<Database>,
@@ -95,16 +93,10 @@ export async function joinCommunityWithCode(
       throw error;
     }
 
-    // Join the community
-    const membershipData = toCommunityMembershipInsertRow({
-      userId: currentUserId,
-      communityId,
-    });
-
+    // Join the community; the code is checked again in the database, which
+    // lets it admit members to invite-only and request-to-join communities
     const { data, error } = await supabase
-      .from('community_memberships')
-      .insert(membershipData)
-      .select()
+      .rpc('join_community_with_code', { p_code: normalizedCode })
       .single();
 
     if (error) {
@@ -113,7 +105,7 @@ export async function joinCommunityWithCode(
         communityId,
         code: normalizedCode,
       });
-      throw error;
+      throw toPlayerPowerError(error) ?? error;
     }
 
     if (!data) {
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { MESSAGE_NOT_AUTHORIZED } from '@/shared/constants';
+
+/**
+ * Removes a member from a community. Only organizers and founders may remove
+ * members, only founders may remove a founder, and the last founder cannot
+ * be removed. The removed member is notified and may rejoin later.
+ */
+export async function removeMember(
+  supabase: SupabaseClient<Database>,
+  communityId: string,
+  userId: string,
+): Promise<void> {
+  logger.debug('🏘️ API: Removing member', { communityId, userId });
+
+  const { data, error } = await supabase
+    .from('community_memberships')
+    .delete()
+    .eq('community_id', communityId)
+    .eq('user_id', userId)
+    .select('user_id');
+
+  if (error) {
+    logger.error('🏘️ API: Failed to remove member', {
+      error,
+      communityId,
+      userId,
+    });
+    throw error;
+  }
+
+  // RLS hides the row from anyone who is not an organizer
+  if (!data || data.length === 0) {
+    logger.error('🏘️ API: Member not found or not authorized', {
+      communityId,
+      userId,
+    });
+    throw new Error(MESSAGE_NOT_AUTHORIZED);
+  }
+
+  logger.debug('🏘️ API: Successfully removed member', {
+    communityId,
+    userId,
+  });
+}
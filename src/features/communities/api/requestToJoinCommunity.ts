@@ -0,0 +1,47 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { MembershipRequest, MembershipRequestInput } from '../types';
+import {
+  toDomainMembershipRequest,
+  toMembershipRequestInsertRow,
+} from '../transformers/membershipRequestTransformer';
+import { logger } from '@/shared';
+
+/**
+ * Asks to join a community whose join policy is 'request'. Organizers are
+ * notified and approve or reject the request.
+ */
+export async function requestToJoinCommunity(
+  supabase: SupabaseClient<Database>,
+  input: MembershipRequestInput,
+): Promise<MembershipRequest> {
+  logger.debug('🏘️ API: Requesting to join community', {
+    communityId: input.communityId,
+  });
+
+  const { data, error } = await supabase
+    .from('community_membership_requests')
+    .insert(toMembershipRequestInsertRow(input))
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('🏘️ API: Failed to request to join community', {
+      error,
+      communityId: input.communityId,
+    });
+
+    if (error.code === '23505') {
+      throw new Error('You already have a pending request for this community');
+    }
+
+    throw error;
+  }
+
+  logger.debug('🏘️ API: Successfully requested to join community', {
+    communityId: input.communityId,
+    requestId: data.id,
+  });
+
+  return toDomainMembershipRequest(data);
+}
@@ -0,0 +1,36 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { MembershipRequest, ReviewMembershipRequestInput } from '../types';
+import { toDomainMembershipRequest } from '../transformers/membershipRequestTransformer';
+import { logger } from '@/shared';
+
+/**
+ * Approves or rejects a pending membership request. Approving adds the
+ * requester as a member; either way the requester is notified.
+ */
+export async function reviewMembershipRequest(
+  supabase: SupabaseClient<Database>,
+  input: ReviewMembershipRequestInput,
+): Promise<MembershipRequest> {
+  const { data, error } = await supabase
+    .rpc('review_membership_request', {
+      p_request_id: input.requestId,
+      p_status: input.status,
+    })
+    .single();
+
+  if (error) {
+    logger.error('🏘️ API: Failed to review membership request', {
+      error,
+      requestId: input.requestId,
+    });
+    throw error;
+  }
+
+  logger.debug('🏘️ API: Successfully reviewed membership request', {
+    requestId: input.requestId,
+    status: input.status,
+  });
+
+  return toDomainMembershipRequest(data);
+}
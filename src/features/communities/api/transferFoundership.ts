@@ -0,0 +1,37 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+
+/**
+ * Hands the founder role to another member. The current user must be a
+ * founder; they become an organizer once the new founder is in place.
+ */
+export async function transferFoundership(
+  supabase: SupabaseClient<Database>,
+  communityId: string,
+  newFounderId: string,
+): Promise<void> {
+  logger.debug('🏘️ API: Transferring foundership', {
+    communityId,
+    newFounderId,
+  });
+
+  const { error } = await supabase.rpc('transfer_community_foundership', {
+    p_community_id: communityId,
+    p_new_founder_id: newFounderId,
+  });
+
+  if (error) {
+    logger.error('🏘️ API: Failed to transfer foundership', {
+      error,
+      communityId,
+      newFounderId,
+    });
+    throw error;
+  }
+
+  logger.debug('🏘️ API: Successfully transferred foundership', {
+    communityId,
+    newFounderId,
+  });
+}
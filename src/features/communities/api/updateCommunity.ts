@@ -10,6 +10,7 @@ import {
   toDomainCommunity,
 } from '@/features/communities/transformers/communityTransformer';
 import { logger } from '@/shared';
+import { validateBoundaryData } from '@/features/communities/utils/boundaryUtils';
 
 export async function updateCommunity(
   supabase: SupabaseClient<Database>,
@@ -20,6 +21,10 @@ export async function updateCommunity(
     name: updateData.name,
   });
 
+  if (updateData.boundary) {
+    validateBoundaryData(updateData.boundary);
+  }
+
   const dbData = toCommunityUpdateRow(updateData);
 
   const { data, error } = (await supabase
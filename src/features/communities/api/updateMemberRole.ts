@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { CommunityMembership, AssignableMembershipRole } from '../types';
+import { toDomainMembershipInfo } from '../transformers/communityTransformer';
+import { logger } from '@/shared';
+import { ERROR_CODES, MESSAGE_NOT_AUTHORIZED } from '@/shared/constants';
+
+/**
+ * Promotes a member to organizer or demotes an organizer to member.
+ * Only organizers and founders of the community may change roles, and only
+ * founders may demote another founder. Use transferFoundership to hand over
+ * the founder role.
+ */
+export async function updateMemberRole(
+  supabase: SupabaseClient<Database>,
+  communityId: string,
+  userId: string,
+  role: AssignableMembershipRole,
+): Promise<CommunityMembership> {
+  logger.debug('🏘️ API: Updating member role', { communityId, userId, role });
+
+  const { data, error } = await supabase
+    .from('community_memberships')
+    .update({ role })
+    .eq('community_id', communityId)
+    .eq('user_id', userId)
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error('🏘️ API: Failed to update member role', {
+      error,
+      communityId,
+      userId,
+      role,
+    });
+
+    // RLS hides the row from anyone who is not an organizer
+    if (error.code === ERROR_CODES.NOT_FOUND) {
+      throw new Error(MESSAGE_NOT_AUTHORIZED);
+    }
+
+    throw error;
+  }
+
+  logger.debug('🏘️ API: Successfully updated member role', {
+    communityId,
+    userId,
+    role,
+  });
+
+  return toDomainMembershipInfo(data);
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useRemoveMember } from '../useRemoveMember';
+import { removeMember } from '../../api/removeMember';
+import { createFakeCommunity } from '../../__fakes__';
+import { createFakeUser } from '../../../users/__fakes__';
+import { createTestWrapper } from '@/test-utils/testWrapper';
+import {
+  communityKeys,
+  communityMembersKeys,
+  userCommunitiesKeys,
+} from '../../queries';
+import type { Database } from '@/shared/types/database';
+import * as sharedHooks from '@/shared/hooks';
+
+// Mock the API function
+vi.mock('../../api/removeMember', () => ({
+  removeMember: vi.fn(),
+}));
+
+vi.mock('@/shared/hooks', () => ({
+  useSupabase: vi.fn(),
+}));
+
+describe('useRemoveMember', () => {
+  const mockSupabaseClient = {} as SupabaseClient<Database>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sharedHooks.useSupabase).mockReturnValue(mockSupabaseClient);
+  });
+
+  it('should remove the member through the API', async () => {
+    const community = createFakeCommunity();
+    const member = createFakeUser();
+
+    vi.mocked(removeMember).mockResolvedValue();
+
+    const { wrapper } = createTestWrapper();
+    const { result } = renderHook(() => useRemoveMember(), { wrapper });
+    await result.current.mutateAsync({
+      communityId: community.id,
+      userId: member.id,
+    });
+
+    expect(removeMember).toHaveBeenCalledWith(
+      expect.anything(),
+      community.id,
+      member.id,
+    );
+  });
+
+  it('should invalidate community, member and removed user caches', async () => {
+    const community = createFakeCommunity();
+    const member = createFakeUser();
+
+    vi.mocked(removeMember).mockResolvedValue();
+
+    const { wrapper, queryClient } = createTestWrapper();
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries');
+
+    const { result } = renderHook(() => useRemoveMember(), { wrapper });
+    await result.current.mutateAsync({
+      communityId: community.id,
+      userId: member.id,
+    });
+
+    await waitFor(() => {
+      expect(invalidateSpy).toHaveBeenCalledWith({
+        queryKey: communityKeys.lists(),
+      });
+      expect(invalidateSpy).toHaveBeenCalledWith({
+        queryKey: communityMembersKeys.list(community.id),
+      });
+      expect(invalidateSpy).toHaveBeenCalledWith({
+        queryKey: userCommunitiesKeys.list(member.id),
+      });
+    });
+  });
+});
@@ -3,6 +3,7 @@ export * from './useCommunities';
 export * from './useCommunity';
 export * from './useCommunityMembers';
 export * from './useUserCommunities';
+export * from './usePendingMembershipRequests';
 
 // Mutation hooks
 export * from './useCreateCommunity';
@@ -10,4 +11,9 @@ export * from './useUpdateCommunity';
 export * from './useDeleteCommunity';
 export * from './useJoinCommunity';
 export * from './useJoinCommunityWithCode';
-export * from './useLeaveCommunity';
\ No newline at end of file
+export * from './useLeaveCommunity';
+export * from './useUpdateMemberRole';
+export * from './useRemoveMember';
+export * from './useTransferFoundership';
+export * from './useRequestToJoinCommunity';
+export * from './useReviewMembershipRequest';
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { SHORT_CACHE_TIME } from '@/config';
+import { fetchPendingMembershipRequests } from '@/features/communities/api';
+import { membershipRequestKeys } from '../queries';
+
+/**
+ * Hook for an organizer's queue of pending membership requests.
+ *
+ * @param communityId - The community whose requests to fetch
+ * @returns Query state for the pending requests, oldest first
+ */
+export function usePendingMembershipRequests(communityId: string) {
+  const supabase = useSupabase();
+
+  return useQuery({
+    queryKey: membershipRequestKeys.pending(communityId),
+    queryFn: () => fetchPendingMembershipRequests(supabase, communityId),
+    enabled: !!communityId,
+    staleTime: SHORT_CACHE_TIME,
+  });
+}
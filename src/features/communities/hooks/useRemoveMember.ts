@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { logger, useSupabase } from '@/shared';
+import { removeMember } from '@/features/communities/api';
+import {
+  communityKeys,
+  communityMembersKeys,
+  userCommunitiesKeys,
+} from '../queries';
+
+export type RemoveMemberInput = {
+  communityId: string;
+  userId: string;
+};
+
+/**
+ * Hook for removing a member from a community.
+ * Only organizers and founders of the community can remove members.
+ *
+ * @example
+ * ```tsx
+ * const removeMember = useRemoveMember();
+ * removeMember.mutate({ communityId, userId });
+ * ```
+ */
+export function useRemoveMember() {
+  const queryClient = useQueryClient();
+  const supabase = useSupabase();
+
+  return useMutation<void, Error, RemoveMemberInput>({
+    mutationFn: ({ communityId, userId }) =>
+      removeMember(supabase, communityId, userId),
+    onSuccess: (_, { communityId, userId }) => {
+      // Invalidate community lists (memberCount changed)
+      queryClient.invalidateQueries({ queryKey: communityKeys.lists() });
+
+      queryClient.invalidateQueries({
+        queryKey: communityMembersKeys.list(communityId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: userCommunitiesKeys.list(userId),
+      });
+
+      logger.info('🏘️ API: Successfully removed member', {
+        communityId,
+        userId,
+      });
+    },
+    onError: (error) => {
+      logger.error('🏘️ API: Failed to remove member', { error });
+    },
+  });
+}
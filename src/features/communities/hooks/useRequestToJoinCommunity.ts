@@ -0,0 +1,30 @@
+import { useMutation } from '@tanstack/react-query';
+import { logger, useSupabase } from '@/shared';
+import { requestToJoinCommunity } from '@/features/communities/api';
+import type { MembershipRequest, MembershipRequestInput } from '../types';
+
+/**
+ * Hook for asking to join a community whose join policy is 'request'.
+ *
+ * @example
+ * ```tsx
+ * const requestToJoin = useRequestToJoinCommunity();
+ * requestToJoin.mutate({ communityId, message: 'I live on Elm St' });
+ * ```
+ */
+export function useRequestToJoinCommunity() {
+  const supabase = useSupabase();
+
+  return useMutation<MembershipRequest, Error, MembershipRequestInput>({
+    mutationFn: (input) => requestToJoinCommunity(supabase, input),
+    onSuccess: (request) => {
+      logger.info('🏘️ API: Successfully requested to join community', {
+        communityId: request.communityId,
+        requestId: request.id,
+      });
+    },
+    onError: (error) => {
+      logger.error('🏘️ API: Failed to request to join community', { error });
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { logger, useSupabase } from '@/shared';
+import { reviewMembershipRequest } from '@/features/communities/api';
+import type { MembershipRequest, ReviewMembershipRequestInput } from '../types';
+import {
+  communityKeys,
+  communityMembersKeys,
+  membershipRequestKeys,
+  userCommunitiesKeys,
+} from '../queries';
+
+/**
+ * Hook for approving or rejecting a membership request.
+ * Only organizers and founders of the community can review requests.
+ *
+ * @example
+ * ```tsx
+ * const reviewRequest = useReviewMembershipRequest();
+ * reviewRequest.mutate({ requestId: request.id, status: 'approved' });
+ * ```
+ */
+export function useReviewMembershipRequest() {
+  const queryClient = useQueryClient();
+  const supabase = useSupabase();
+
+  return useMutation<MembershipRequest, Error, ReviewMembershipRequestInput>({
+    mutationFn: (input) => reviewMembershipRequest(supabase, input),
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({
+        queryKey: membershipRequestKeys.pending(request.communityId),
+      });
+
+      // Approved requesters are now members
+      if (request.status === 'approved') {
+        queryClient.invalidateQueries({ queryKey: communityKeys.lists() });
+        queryClient.invalidateQueries({
+          queryKey: communityMembersKeys.list(request.communityId),
+        });
+        queryClient.invalidateQueries({
+          queryKey: userCommunitiesKeys.list(request.userId),
+        });
+      }
+
+      logger.info('🏘️ API: Successfully reviewed membership request', {
+        requestId: request.id,
+        status: request.status,
+      });
+    },
+    onError: (error) => {
+      logger.error('🏘️ API: Failed to review membership request', { error });
+    },
+  });
+}
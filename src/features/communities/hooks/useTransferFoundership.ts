@@ -0,0 +1,59 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { logger, useSupabase } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
+import { transferFoundership } from '@/features/communities/api';
+import { communityMembersKeys, userCommunitiesKeys } from '../queries';
+import { trustScoreKeys } from '@/features/trust-scores/queries';
+
+export type TransferFoundershipInput = {
+  communityId: string;
+  newFounderId: string;
+};
+
+/**
+ * Hook for handing the founder role to another member. The current user
+ * must be a founder and becomes an organizer.
+ *
+ * @example
+ * ```tsx
+ * const transferFoundership = useTransferFoundership();
+ * transferFoundership.mutate({ communityId, newFounderId: member.userId });
+ * ```
+ */
+export function useTransferFoundership() {
+  const queryClient = useQueryClient();
+  const supabase = useSupabase();
+  const { data: currentUser } = useCurrentUser();
+
+  return useMutation<void, Error, TransferFoundershipInput>({
+    mutationFn: ({ communityId, newFounderId }) =>
+      transferFoundership(supabase, communityId, newFounderId),
+    onSuccess: (_, { communityId, newFounderId }) => {
+      queryClient.invalidateQueries({
+        queryKey: communityMembersKeys.list(communityId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: userCommunitiesKeys.list(newFounderId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: trustScoreKeys.actionAccessByUser(newFounderId),
+      });
+      if (currentUser?.id) {
+        queryClient.invalidateQueries({
+          queryKey: userCommunitiesKeys.list(currentUser.id),
+        });
+        queryClient.invalidateQueries({
+          queryKey: trustScoreKeys.actionAccessByUser(currentUser.id),
+        });
+      }
+
+      logger.info('🏘️ API: Successfully transferred foundership', {
+        communityId,
+        newFounderId,
+      });
+    },
+    onError: (error) => {
+      logger.error('🏘️ API: Failed to transfer foundership', { error });
+    },
+  });
+}
@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { logger, useSupabase } from '@/shared';
+import { updateMemberRole } from '@/features/communities/api';
+import type { AssignableMembershipRole, CommunityMembership } from '../types';
+import { communityMembersKeys, userCommunitiesKeys } from '../queries';
+import { trustScoreKeys } from '@/features/trust-scores/queries';
+
+export type UpdateMemberRoleInput = {
+  communityId: string;
+  userId: string;
+  role: AssignableMembershipRole;
+};
+
+/**
+ * Hook for promoting a member to organizer or demoting an organizer.
+ * Only organizers and founders of the community can change roles.
+ *
+ * @example
+ * ```tsx
+ * const updateMemberRole = useUpdateMemberRole();
+ * updateMemberRole.mutate({ communityId, userId, role: 'organizer' });
+ * ```
+ */
+export function useUpdateMemberRole() {
+  const queryClient = useQueryClient();
+  const supabase = useSupabase();
+
+  return useMutation<CommunityMembership, Error, UpdateMemberRoleInput>({
+    mutationFn: ({ communityId, userId, role }) =>
+      updateMemberRole(supabase, communityId, userId, role),
+    onSuccess: (membership) => {
+      queryClient.invalidateQueries({
+        queryKey: communityMembersKeys.list(membership.communityId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: userCommunitiesKeys.list(membership.userId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: trustScoreKeys.actionAccessByUser(membership.userId),
+      });
+
+      logger.info('🏘️ API: Successfully updated member role', {
+        communityId: membership.communityId,
+        userId: membership.userId,
+        role: membership.role,
+      });
+    },
+    onError: (error) => {
+      logger.error('🏘️ API: Failed to update member role', { error });
+    },
+  });
+}
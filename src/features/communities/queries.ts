@@ -22,3 +22,9 @@ export const userCommunitiesKeys = {
   lists: () => [...userCommunitiesKeys.all, 'list'] as const,
   list: (userId: string) => [...userCommunitiesKeys.lists(), userId] as const,
 };
+
+export const membershipRequestKeys = {
+  all: ['membershipRequests'] as const,
+  pending: (communityId: string) =>
+    [...membershipRequestKeys.all, 'pending', communityId] as const,
+};
@@ -35,10 +35,36 @@ function boundaryForDatabase(boundary: CommunityBoundary): any {
       areaSqKm: isochroneBoundary.areaSqKm,
     };
   }
-  console.log('boundaryForDatabase');
+  if (boundary.type === 'custom') {
+    return {
+      type: boundary.type,
+      geometry: boundary.geometry,
+    };
+  }
+  if (boundary.type === 'radius') {
+    return {
+      type: boundary.type,
+      radiusKm: boundary.radiusKm,
+    };
+  }
   return boundary;
 }
 
+/**
+ * Geometry for the boundary_geometry column. Radius boundaries have none here;
+ * the database buffers them around the community center.
+ */
+function boundaryGeometryForDatabase(boundary: CommunityBoundary) {
+  switch (boundary.type) {
+    case 'isochrone':
+      return boundary.polygon;
+    case 'custom':
+      return boundary.geometry;
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Transform a database community record to a domain community object
  */
@@ -59,6 +85,8 @@ export function toDomainCommunity(dbCommunity: CommunityRow): Community {
     updatedAt: new Date(dbCommunity.updated_at),
     timeZone: dbCommunity.time_zone ?? undefined,
     color: dbCommunity.color ?? undefined,
+    enforcePlayerPowers: dbCommunity.enforce_player_powers,
+    joinPolicy: dbCommunity.join_policy,
     boundary: dbCommunity.boundary
       ? JSON.parse(JSON.stringify(dbCommunity.boundary))
       : undefined,
@@ -77,11 +105,15 @@ export function toCommunityInsertRow(
     center,
     centerName,
     bannerImageUrl,
+    enforcePlayerPowers,
+    joinPolicy,
     type,
     ...rest
   } = community;
 
-  const boundaryGeometry = boundary ? boundary.polygon : undefined;
+  const boundaryGeometry = boundary
+    ? boundaryGeometryForDatabase(boundary)
+    : undefined;
 
   // Virtual communities have null location data
   if (type === 'virtual') {
@@ -89,6 +121,8 @@ export function toCommunityInsertRow(
       ...rest,
       type,
       banner_image_url: bannerImageUrl,
+      enforce_player_powers: enforcePlayerPowers,
+      join_policy: joinPolicy,
       time_zone: null,
       member_count: 0,
       center: null,
@@ -103,6 +137,8 @@ export function toCommunityInsertRow(
     ...rest,
     type,
     banner_image_url: bannerImageUrl,
+    enforce_player_powers: enforcePlayerPowers,
+    join_policy: joinPolicy,
     time_zone: timeZone!,
     member_count: 0, // Default for new communities
     center: toPostGisPoint(center!),
@@ -116,7 +152,7 @@ export function toCommunityUpdateRow(
   community: Partial<CommunityInput> & { id: string },
 ): CommunityUpdateRow {
   const boundaryGeometry = community.boundary
-    ? community.boundary.polygon
+    ? boundaryGeometryForDatabase(community.boundary)
     : undefined;
 
   // Note: We don't allow changing to/from virtual via this function
@@ -132,6 +168,8 @@ export function toCommunityUpdateRow(
     center: community.center ? toPostGisPoint(community.center) : undefined,
     center_name: community.centerName,
     color: community.color,
+    enforce_player_powers: community.enforcePlayerPowers,
+    join_policy: community.joinPolicy,
     boundary: community.boundary
       ? boundaryForDatabase(community.boundary)
       : undefined,
@@ -0,0 +1,29 @@
+import type { MembershipRequest, MembershipRequestInput } from '../types';
+import type {
+  MembershipRequestInsertRow,
+  MembershipRequestRow,
+} from '../types/communityRow';
+
+export function toDomainMembershipRequest(
+  row: MembershipRequestRow,
+): MembershipRequest {
+  return {
+    id: row.id,
+    communityId: row.community_id,
+    userId: row.user_id,
+    message: row.message ?? undefined,
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null,
+    reviewedBy: row.reviewed_by,
+  };
+}
+
+export function toMembershipRequestInsertRow(
+  input: MembershipRequestInput,
+): MembershipRequestInsertRow {
+  return {
+    community_id: input.communityId,
+    message: input.message ?? null,
+  };
+}
@@ -1,4 +1,4 @@
-import { Polygon } from './geojson';
+import { MultiPolygon, Polygon } from './geojson';
 import { Coordinates, IsPersisted } from '@/shared';
 import type { Database } from '@/shared/types/database';
 
@@ -32,7 +32,7 @@ export type CommunityInput = {
   center?: Coordinates;
   centerName?: string; // Human-readable name for the community center location
 
-  // Boundary configuration (optional isochrone support)
+  // Boundary configuration (isochrone, custom or radius)
   boundary?: CommunityBoundary;
 
   // Time zone (required for non-virtual communities)
@@ -40,8 +40,19 @@ export type CommunityInput = {
 
   // Color customization
   color?: string;
+
+  // Require the player level that unlocks each gated action (default true)
+  enforcePlayerPowers?: boolean;
+
+  // How people become members (default 'open')
+  joinPolicy?: CommunityJoinPolicy;
 };
 
+// open: anyone can join; invite_only: invitation code required;
+// request: organizers approve membership requests (codes still work)
+export type CommunityJoinPolicy =
+  Database['public']['Enums']['community_join_policy'];
+
 // Community types (scale-based: neighbors, close, far, virtual)
 export type CommunityType = Database['public']['Enums']['community_type'];
 
@@ -56,7 +67,23 @@ export type IsochroneBoundary = {
   areaSqKm: number; // Area in square kilometers
 };
 
-export type CommunityBoundary = IsochroneBoundary;
+// Hand-drawn boundary, e.g. following neighbourhood or school-district lines.
+// Inner rings of a polygon are holes.
+export type CustomBoundary = {
+  type: 'custom';
+  geometry: Polygon | MultiPolygon;
+};
+
+// Circle around the community center
+export type RadiusBoundary = {
+  type: 'radius';
+  radiusKm: number; // Radius in kilometers (0-100]
+};
+
+export type CommunityBoundary =
+  | IsochroneBoundary
+  | CustomBoundary
+  | RadiusBoundary;
 
 // For filtering communities
 export type CommunityFilter = {
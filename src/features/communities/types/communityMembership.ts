@@ -10,6 +10,12 @@ export type CommunityMembership = Omit<
 
 export type CommunityMembershipRole = Database['public']['Enums']['community_membership_role'];
 
+// Roles organizers can assign directly; founders change via transferFoundership
+export type AssignableMembershipRole = Exclude<
+  CommunityMembershipRole,
+  'founder'
+>;
+
 export type CommunityMembershipInput = {
   userId: string;
   communityId: string;
@@ -16,3 +16,8 @@ export type CommunityMembershipInsertRow =
   Database['public']['Tables']['community_memberships']['Insert'];
 export type CommunityMembershipUpdateRow =
   Database['public']['Tables']['community_memberships']['Update'];
+
+export type MembershipRequestRow =
+  Database['public']['Tables']['community_membership_requests']['Row'];
+export type MembershipRequestInsertRow =
+  Database['public']['Tables']['community_membership_requests']['Insert'];
@@ -2,3 +2,8 @@ export interface Polygon {
   type: 'Polygon';
   coordinates: number[][][];
 }
+
+export interface MultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
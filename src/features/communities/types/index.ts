@@ -1,6 +1,7 @@
 export * from './community';
 export * from './communityRow';
 export * from './communityMembership';
+export * from './membershipRequest';
 export * from './geojson';
 
 // Don't export db types
@@ -0,0 +1,30 @@
+import type { Database } from '@/shared/types/database';
+
+export type MembershipRequestStatus =
+  Database['public']['Enums']['membership_request_status'];
+
+/**
+ * A request to join a community whose join policy is 'request'.
+ */
+export interface MembershipRequest {
+  id: string;
+  communityId: string;
+  userId: string;
+  /** Optional note from the requester to the organizers */
+  message?: string;
+  status: MembershipRequestStatus;
+  createdAt: Date;
+  reviewedAt?: Date | null;
+  reviewedBy?: string | null;
+}
+
+export interface MembershipRequestInput {
+  communityId: string;
+  message?: string;
+}
+
+export interface ReviewMembershipRequestInput {
+  requestId: string;
+  /** Approving adds the requester as a member */
+  status: Exclude<MembershipRequestStatus, 'pending'>;
+}
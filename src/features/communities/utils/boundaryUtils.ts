@@ -1,9 +1,14 @@
 import type {
   CommunityBoundary,
+  CustomBoundary,
   IsochroneBoundary,
+  RadiusBoundary,
   TravelMode,
 } from '../types/community';
-import { Polygon } from '../types/geojson';
+import { MultiPolygon, Polygon } from '../types/geojson';
+
+const EARTH_RADIUS_KM = 6371;
+const MAX_RADIUS_KM = 100;
 
 /**
  * Database representation of boundary data for transformation
@@ -21,8 +26,6 @@ export interface BoundaryDbTransform {
   boundaryGeometry: string | null; // WKT string for PostGIS
 }
 
-
-
 /**
  * Validates an isochrone boundary
  */
@@ -55,6 +58,90 @@ export function validateIsochroneBoundary(boundary: IsochroneBoundary): void {
   }
 }
 
+/**
+ * Validates a GeoJSON linear ring: at least four [lng, lat] positions within
+ * range, with the first and last positions equal
+ */
+function validateRing(ring: number[][]): void {
+  if (!Array.isArray(ring) || ring.length < 4) {
+    throw new Error(
+      'Invalid polygon geometry: each ring must have at least 4 positions'
+    );
+  }
+
+  for (const position of ring) {
+    const [lng, lat] = position ?? [];
+    if (
+      !Number.isFinite(lng) ||
+      !Number.isFinite(lat) ||
+      lng < -180 ||
+      lng > 180 ||
+      lat < -90 ||
+      lat > 90
+    ) {
+      throw new Error(
+        'Invalid polygon geometry: positions must be [longitude, latitude]'
+      );
+    }
+  }
+
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    throw new Error('Invalid polygon geometry: rings must be closed');
+  }
+}
+
+/**
+ * Validates the rings of one polygon. The first ring is the exterior, any
+ * further rings are holes.
+ */
+function validatePolygonRings(rings: number[][][]): void {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    throw new Error('Invalid polygon geometry: polygon must have coordinates');
+  }
+
+  rings.forEach(validateRing);
+}
+
+/**
+ * Validates a custom (hand-drawn) boundary
+ */
+export function validateCustomBoundary(boundary: CustomBoundary): void {
+  const { geometry } = boundary;
+
+  switch (geometry?.type) {
+    case 'Polygon':
+      validatePolygonRings(geometry.coordinates);
+      break;
+    case 'MultiPolygon':
+      if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+        throw new Error(
+          'Invalid multipolygon geometry: must have at least one polygon'
+        );
+      }
+      geometry.coordinates.forEach(validatePolygonRings);
+      break;
+    default:
+      throw new Error(
+        'Invalid custom geometry: must be a GeoJSON Polygon or MultiPolygon'
+      );
+  }
+}
+
+/**
+ * Validates a radius boundary
+ */
+export function validateRadiusBoundary(boundary: RadiusBoundary): void {
+  if (
+    !Number.isFinite(boundary.radiusKm) ||
+    boundary.radiusKm <= 0 ||
+    boundary.radiusKm > MAX_RADIUS_KM
+  ) {
+    throw new Error(`Radius must be between 0 and ${MAX_RADIUS_KM} km`);
+  }
+}
+
 /**
  * Validates boundary data based on its type
  */
@@ -67,6 +154,12 @@ export function validateBoundaryData(boundary: CommunityBoundary): void {
     case 'isochrone':
       validateIsochroneBoundary(boundary);
       break;
+    case 'custom':
+      validateCustomBoundary(boundary);
+      break;
+    case 'radius':
+      validateRadiusBoundary(boundary);
+      break;
     default:
       throw new Error(
         `Unknown boundary type: ${(boundary as { type: string }).type}`
@@ -75,15 +168,58 @@ export function validateBoundaryData(boundary: CommunityBoundary): void {
 }
 
 /**
- * Converts a GeoJSON polygon to WKT (Well-Known Text) format for PostGIS storage
+ * Converts polygon rings (exterior first, then holes) to a WKT ring list
+ */
+function ringsToWKT(rings: number[][][]): string {
+  const wktRings = rings.map(
+    (ring) =>
+      `(${ring.map((coord: number[]) => `${coord[0]} ${coord[1]}`).join(',')})`
+  );
+
+  return `(${wktRings.join(',')})`;
+}
+
+/**
+ * Converts a GeoJSON polygon or multipolygon to WKT (Well-Known Text) format
+ * for PostGIS storage
  */
-function polygonToWKT(polygon: Polygon): string {
-  const coordinates = polygon.coordinates[0]; // Get exterior ring
-  const wktCoords = coordinates
-    .map((coord: number[]) => `${coord[0]} ${coord[1]}`)
-    .join(',');
+function polygonToWKT(polygon: Polygon | MultiPolygon): string {
+  if (polygon.type === 'MultiPolygon') {
+    return `MULTIPOLYGON(${polygon.coordinates.map(ringsToWKT).join(',')})`;
+  }
 
-  return `POLYGON((${wktCoords}))`;
+  return `POLYGON${ringsToWKT(polygon.coordinates)}`;
+}
+
+/**
+ * Approximate area of a ring on the sphere (in km²)
+ */
+function ringAreaSqKm(ring: number[][]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  let total = 0;
+
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[i + 1];
+    total +=
+      toRadians(lng2 - lng1) *
+      (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+
+  return Math.abs((total * EARTH_RADIUS_KM * EARTH_RADIUS_KM) / 2);
+}
+
+/**
+ * Approximate area of a polygon or multipolygon (in km²), excluding holes
+ */
+function polygonAreaSqKm(polygon: Polygon | MultiPolygon): number {
+  const polygons =
+    polygon.type === 'MultiPolygon' ? polygon.coordinates : [polygon.coordinates];
+
+  return polygons.reduce((area, [exterior, ...holes]) => {
+    const holeArea = holes.reduce((sum, hole) => sum + ringAreaSqKm(hole), 0);
+    return area + ringAreaSqKm(exterior) - holeArea;
+  }, 0);
 }
 
 
@@ -98,7 +234,7 @@ export function createPostGisGeometry(coordinates: [number, number]): string {
 /**
  * Creates a PostGIS polygon from GeoJSON for spatial operations
  */
-export function createPostGisPolygon(polygon: Polygon): string {
+export function createPostGisPolygon(polygon: Polygon | MultiPolygon): string {
   const wkt = polygonToWKT(polygon);
   return `ST_GeomFromText('${wkt}', 4326)`;
 }
@@ -121,6 +257,19 @@ export function transformBoundaryToDb(
       };
     }
 
+    case 'custom':
+      return {
+        boundaryJson: boundary,
+        boundaryGeometry: polygonToWKT(boundary.geometry),
+      };
+
+    case 'radius':
+      // The circle is buffered around the community center by the database
+      return {
+        boundaryJson: boundary,
+        boundaryGeometry: null,
+      };
+
     default:
       throw new Error(
         `Unknown boundary type: ${(boundary as { type: string }).type}`
@@ -155,7 +304,23 @@ export function isIsochroneBoundary(
   return boundary.type === 'isochrone';
 }
 
+/**
+ * Utility to check if a boundary is a custom type
+ */
+export function isCustomBoundary(
+  boundary: CommunityBoundary
+): boundary is CustomBoundary {
+  return boundary.type === 'custom';
+}
 
+/**
+ * Utility to check if a boundary is a radius type
+ */
+export function isRadiusBoundary(
+  boundary: CommunityBoundary
+): boundary is RadiusBoundary {
+  return boundary.type === 'radius';
+}
 
 /**
  * Get the approximate area from any boundary type (in km²)
@@ -164,6 +329,10 @@ export function getBoundaryArea(boundary: CommunityBoundary): number {
   switch (boundary.type) {
     case 'isochrone':
       return boundary.areaSqKm;
+    case 'custom':
+      return polygonAreaSqKm(boundary.geometry);
+    case 'radius':
+      return Math.PI * boundary.radiusKm * boundary.radiusKm;
     default:
       throw new Error(
         `Unknown boundary type: ${(boundary as { type: string }).type}`
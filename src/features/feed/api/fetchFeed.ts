@@ -1,129 +1,84 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/shared/types/database';
-import { fetchUserCommunities } from '../../communities/api';
-import { Feed, FeedItem } from '../types';
-import { logger } from '@/shared';
-
+import { Feed, FeedItem, FeedPageParams } from '../types';
+import { FEED_PAGE_SIZE } from '../constants';
+import { decodePageCursor, encodePageCursor, logger } from '@/shared';
+
+/**
+ * Fetches one page of the user's feed.
+ *
+ * Items come from every community the user belongs to, newest first. Expired
+ * resources and past events are filtered out by the database, and pages are
+ * keyed on (created_at, id) so new items never shift later pages.
+ *
+ * The feed is always the authenticated user's; the database derives the user
+ * from the session, and the user ID argument is only kept for compatibility.
+ */
 export async function fetchFeed(
   supabase: SupabaseClient<Database>,
-  userId: string,
+  _userId: string,
+  params: FeedPageParams = {},
 ): Promise<Feed> {
-  logger.debug('📰 API: Fetching feed data');
-
-  const authId = userId;
-
-  // Get user's communities
-  const userCommunities = await fetchUserCommunities(supabase, authId);
-
-  if (userCommunities.length === 0) {
-    return { items: [], hasMore: false };
-  }
-
-  // Extract community IDs
-  const communityIds = userCommunities.map(
-    (membership) => membership.communityId,
-  );
-
-  // Fetch resource IDs, creation dates, and category for sorting and categorization
-  // Also fetch timeslots for events to filter out past events
-  // Include fields needed for expiration checking
-  const { data: resourceData, error: resourceError } = await supabase
-    .from('resources')
-    .select(
-      `
-        id,
-        type,
-        created_at,
-        last_renewed_at,
-        resource_communities!inner(community_id),
-        resource_timeslots(start_time, end_time),
-        is_active
-      `,
-    )
-    .in('status', ['voting', 'active'])
-    .in('resource_communities.community_id', communityIds);
-
-  if (resourceError) {
-    throw resourceError;
-  }
-
-  // Filter out expired resources and past events
-  const now = new Date();
-  const filteredResources =
-    resourceData?.filter((resource) => {
-      // First check: Filter out expired resources (inactive according to renewal rules)
-      if (!resource.is_active) {
-        return false;
-      }
-
-      // Second check: For events, filter out past events (events where all timeslots have ended)
-      if (resource.type === 'event') {
-        const timeslots = resource.resource_timeslots || [];
-
-        // If no timeslots, include the event (shouldn't happen but be safe)
-        if (timeslots.length === 0) {
-          return true;
-        }
+  logger.debug('📰 API: Fetching feed data', params);
 
-        // Keep event if at least one timeslot hasn't ended yet
-        return timeslots.some((slot) => {
-          const endTime = new Date(slot.end_time);
-          return endTime >= now;
-        });
-      }
+  const limit = params.limit ?? FEED_PAGE_SIZE;
+  const cursor = params.cursor ? decodePageCursor(params.cursor) : undefined;
 
-      // Non-event resources that are active pass through
-      return true;
-    }) || [];
-
-  // Fetch shoutout IDs and creation dates for sorting
-  const { data: shoutoutData, error: shoutoutError } = await supabase
-    .from('shoutouts')
-    .select('id, created_at')
-    .in('community_id', communityIds);
+  const { data, error } = await supabase.rpc('get_feed', {
+    p_limit: limit,
+    p_cursor_created_at: cursor?.createdAt,
+    p_cursor_id: cursor?.id,
+  });
 
-  if (shoutoutError) {
-    throw shoutoutError;
+  if (error) {
+    throw error;
   }
 
-  // Combine items with their creation dates for sorting
-  const itemsWithDates = [
-    ...(filteredResources || []).map((r) => ({
-      id: r.id,
-      type: r.type === 'event' ? ('event' as const) : ('resource' as const),
-      createdAt: r.created_at,
-    })),
-    ...(shoutoutData || []).map((s) => ({
-      id: s.id,
-      type: 'shoutout' as const,
-      createdAt: s.created_at,
-    })),
-  ];
-
-  // Sort by created_at (newest first)
-  itemsWithDates.sort((a, b) => {
-    const aDate = new Date(a.createdAt);
-    const bDate = new Date(b.createdAt);
-    return bDate.getTime() - aDate.getTime();
-  });
+  // The function returns one extra row when another page exists
+  const rows = data ?? [];
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
 
-  // Convert to final FeedItem format (without createdAt)
-  const allItems: FeedItem[] = itemsWithDates.map(({ id, type }) => ({
-    id,
-    type,
+  const items: FeedItem[] = pageRows.map((row) => ({
+    id: row.id,
+    type: row.item_type as FeedItem['type'],
   }));
 
+  const lastRow = pageRows[pageRows.length - 1];
+
   logger.debug('📰 API: Successfully fetched feed data', {
-    totalItems: allItems.length,
-    resourceCount:
-      filteredResources?.filter((r) => r.type !== 'event').length || 0,
-    eventCount:
-      filteredResources?.filter((r) => r.type === 'event').length || 0,
-    shoutoutCount: shoutoutData?.length || 0,
+    totalItems: items.length,
+    hasMore,
   });
 
   return {
-    items: allItems,
-    hasMore: false, // No pagination for MVP
+    items,
+    hasMore,
+    nextCursor:
+      hasMore && lastRow
+        ? encodePageCursor({ createdAt: lastRow.created_at, id: lastRow.id })
+        : undefined,
   };
 }
+
+/**
+ * Fetches the user's whole feed by following its pages to the end.
+ *
+ * Prefer paging with fetchFeed for anything user-facing; this exists for
+ * callers that need every item at once.
+ */
+export async function fetchFullFeed(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+): Promise<Feed> {
+  const items: FeedItem[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchFeed(supabase, userId, { cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return { items, hasMore: false };
+}
@@ -0,0 +1,2 @@
+/** Default number of feed items fetched per page */
+export const FEED_PAGE_SIZE = 20;
@@ -1 +1,2 @@
-export * from './useFeed';
\ No newline at end of file
+export * from './useFeed';
+export * from './useInfiniteFeed';
@@ -2,7 +2,7 @@ import { useQuery, UseQueryOptions } from '@tanstack/react-query';
 import { useSupabase } from '@/shared';
 import { useCurrentUser } from '@/features/auth';
 import { SHORT_CACHE_TIME } from '@/config';
-import { fetchFeed } from '../api';
+import { fetchFullFeed } from '../api';
 
 import type { Feed } from '../types';
 import { feedKeys } from '../queries';
@@ -11,7 +11,11 @@ import { feedKeys } from '../queries';
  * Hook for fetching the user's feed.
  *
  * Provides a chronologically ordered feed of resources and shoutouts from
- * all communities the user has joined.
+ * all communities the user has joined. Every page is loaded before the query
+ * resolves.
+ *
+ * @deprecated Loads the entire feed up front; use useInfiniteFeed to page
+ * through it instead.
  *
  * @returns Query state for feed data
  *
@@ -47,7 +51,7 @@ export function useFeed(options?: Partial<UseQueryOptions<Feed, Error>>) {
       if (!currentUser) {
         throw new Error('User not authenticated');
       }
-      return fetchFeed(supabase, currentUser.id);
+      return fetchFullFeed(supabase, currentUser.id);
     },
     enabled: !!supabase && !!currentUser,
     staleTime: SHORT_CACHE_TIME,
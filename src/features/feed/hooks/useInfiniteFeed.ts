@@ -0,0 +1,67 @@
+import { InfiniteData, useInfiniteQuery } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
+import { SHORT_CACHE_TIME } from '@/config';
+import { fetchFeed } from '../api';
+import { FEED_PAGE_SIZE } from '../constants';
+
+import type { Feed } from '../types';
+import { feedKeys } from '../queries';
+
+/**
+ * Hook for paging through the user's feed.
+ *
+ * Loads the feed one page at a time using keyset pagination, so large
+ * communities never load their full history up front.
+ *
+ * @param limit - Number of items per page
+ * @returns Infinite query state; `data.pages` holds each loaded page
+ *
+ * @example
+ * ```tsx
+ * function FeedScreen() {
+ *   const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+ *     useInfiniteFeed();
+ *
+ *   const items = data?.pages.flatMap((page) => page.items) ?? [];
+ *
+ *   return (
+ *     <div>
+ *       {items.map(item => (
+ *         <FeedItem key={`${item.type}-${item.id}`} item={item} />
+ *       ))}
+ *       {hasNextPage && (
+ *         <button onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+ *           Load more
+ *         </button>
+ *       )}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useInfiniteFeed(limit: number = FEED_PAGE_SIZE) {
+  const supabase = useSupabase();
+  const { data: currentUser } = useCurrentUser();
+
+  return useInfiniteQuery<
+    Feed,
+    Error,
+    InfiniteData<Feed, string | undefined>,
+    readonly unknown[],
+    string | undefined
+  >({
+    queryKey: [...feedKeys.infiniteFeed(), limit],
+    queryFn: ({ pageParam }) => {
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      return fetchFeed(supabase, currentUser.id, { cursor: pageParam, limit });
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.hasMore ? lastPage.nextCursor : undefined,
+    enabled: !!supabase && !!currentUser,
+    staleTime: SHORT_CACHE_TIME,
+  });
+}
@@ -1,2 +1,3 @@
 export * from './types';
-export * from './hooks';
\ No newline at end of file
+export * from './hooks';
+export * from './constants';
@@ -9,4 +9,9 @@ export interface Feed {
   nextCursor?: string;
 }
 
-
+export interface FeedPageParams {
+  /** Opaque cursor returned as `nextCursor` by the previous page */
+  cursor?: string;
+  /** Maximum number of items to return (defaults to FEED_PAGE_SIZE) */
+  limit?: number;
+}
@@ -10,7 +10,22 @@ export type EntityType =
   | 'resource'
   | 'community'
   | 'user'
-  | 'shoutout';
+  | 'shoutout'
+  | 'message';
+
+/**
+ * Private bucket holding message images
+ */
+export const MESSAGE_IMAGE_BUCKET = 'message-images';
+
+/**
+ * Private buckets for entity types whose images must not be public. Images
+ * committed for these types are returned as storage paths and read through
+ * signed URLs, so storage policies decide who can see them.
+ */
+export const PRIVATE_IMAGE_BUCKETS: Partial<Record<EntityType, string>> = {
+  message: MESSAGE_IMAGE_BUCKET,
+};
 
 /**
  * Input parameters for committing image URLs
@@ -35,8 +50,11 @@ export interface CommitImageUrlsParams {
  * 3. Returns updated URLs with permanent paths
  * 4. Leaves already-permanent URLs unchanged
  *
+ * Images of entity types listed in PRIVATE_IMAGE_BUCKETS are moved into that
+ * bucket instead, and their storage paths are returned in place of URLs.
+ *
  * @param params - Object containing supabase client, imageUrls, entityType, and entityId
- * @returns Promise<string[]> - Array of permanent image URLs
+ * @returns Promise<string[]> - Array of permanent image URLs (or paths, for private buckets)
  *
  * @example
  * ```typescript
@@ -71,6 +89,7 @@ export async function commitImageUrls({
     entityId,
   });
 
+  const privateBucket = PRIVATE_IMAGE_BUCKETS[entityType];
   const committedUrls: string[] = [];
 
   for (const url of imageUrls) {
@@ -91,6 +110,11 @@ export async function commitImageUrls({
     const filename = pathParts[pathParts.length - 1]; // Get last part (filename)
 
     if (!filename.includes('temp-upload-')) {
+      if (privateBucket) {
+        logger.warn('🖼️ Image Commit: Skipping non-temporary image', { url });
+        continue;
+      }
+
       // Already permanent, keep as-is
       committedUrls.push(url);
       logger.debug('🖼️ Image Commit: URL already permanent', { url });
@@ -117,18 +141,40 @@ export async function commitImageUrls({
     logger.debug('🖼️ Image Commit: Moving file', {
       from: currentPath,
       to: permanentPath,
+      bucket: privateBucket,
     });
 
     try {
       // Move the file in storage
       const { error } = await supabase.storage
         .from('images')
-        .move(currentPath, permanentPath);
+        .move(
+          currentPath,
+          permanentPath,
+          privateBucket ? { destinationBucket: privateBucket } : undefined,
+        );
 
       if (error) {
-        throw new Error(
-          `Failed to commit image ${currentPath}: ${error.message}`,
-        );
+        // A retried commit finds images it moved before already in place
+        const { data: alreadyCommitted } = await supabase.storage
+          .from(privateBucket ?? 'images')
+          .exists(permanentPath);
+
+        if (!alreadyCommitted) {
+          throw new Error(
+            `Failed to commit image ${currentPath}: ${error.message}`,
+          );
+        }
+      }
+
+      if (privateBucket) {
+        committedUrls.push(permanentPath);
+        logger.info('✅ Image Commit: Successfully committed', {
+          from: currentPath,
+          to: permanentPath,
+          bucket: privateBucket,
+        });
+        continue;
       }
 
       // Get the new public URL
@@ -162,3 +208,58 @@ export async function commitImageUrls({
 
   return committedUrls;
 }
+
+/**
+ * Removes images that commitImageUrls moved for an entity, for use when the
+ * entity fails to be written afterwards. Only images committed under the
+ * given entity ID are removed; images that were already permanent are left
+ * alone.
+ *
+ * Failures are logged rather than thrown, so the caller can surface the error
+ * that caused the cleanup.
+ *
+ * @param params - The committed URLs (or paths, for private buckets), with the entity they were committed for
+ */
+export async function discardCommittedImages({
+  supabase,
+  imageUrls,
+  entityType,
+  entityId,
+}: CommitImageUrlsParams): Promise<void> {
+  const privateBucket = PRIVATE_IMAGE_BUCKETS[entityType];
+  const entityPrefix = `${entityType}-${entityId}-`;
+
+  const paths = imageUrls
+    .map((url) =>
+      privateBucket ? url : StorageManager.extractPathFromUrl(url),
+    )
+    .filter((path): path is string => {
+      if (!path) return false;
+      const filename = path.split('/').pop() ?? '';
+      return filename.startsWith(entityPrefix);
+    });
+
+  if (paths.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.storage
+    .from(privateBucket ?? 'images')
+    .remove(paths);
+
+  if (error) {
+    logger.error('❌ Image Commit: Failed to discard committed images', {
+      paths,
+      entityType,
+      entityId,
+      error,
+    });
+    return;
+  }
+
+  logger.info('🧹 Image Commit: Discarded committed images', {
+    count: paths.length,
+    entityType,
+    entityId,
+  });
+}
@@ -1,3 +1,8 @@
-export { commitImageUrls } from './imageCommit';
+export {
+  commitImageUrls,
+  discardCommittedImages,
+  MESSAGE_IMAGE_BUCKET,
+  PRIVATE_IMAGE_BUCKETS,
+} from './imageCommit';
 export { uploadImage } from './imageUpload';
 export { cleanupTempImages, cleanupEntityImages, findOrphanedImages, isImageOrphaned } from './imageCleanup';
\ No newline at end of file
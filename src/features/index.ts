@@ -1,4 +1,5 @@
 export * from './auth';
+export * from './calendar';
 export * from './comments';
 export * from './communities';
 export * from './connections';
@@ -7,6 +8,7 @@ export * from './feed';
 export * from './images';
 export * from './messaging';
 export * from './notifications';
+export * from './offline';
 export * from './resources';
 export * from './shoutouts';
 export * from './trust-scores';
@@ -9,6 +9,9 @@ export function createFakeInvitationCode(
     userId: faker.string.uuid(),
     communityId: faker.string.uuid(),
     isActive: true,
+    isPersonal: true,
+    useCount: 0,
+    role: 'member',
     createdAt: faker.date.recent(),
     updatedAt: faker.date.recent(),
     ...overrides,
@@ -24,6 +27,11 @@ export function createFakeInvitationCodeRow(
     user_id: faker.string.uuid(),
     community_id: faker.string.uuid(),
     is_active: true,
+    is_personal: true,
+    max_uses: null,
+    use_count: 0,
+    expires_at: null,
+    role: 'member',
     created_at: faker.date.recent().toISOString(),
     updated_at: faker.date.recent().toISOString(),
     ...overrides,
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { toDomainInvitationCode } from '../../transformers/invitationTransformer';
+import {
+  toDomainInvitationCode,
+  toDomainInvitationCodeRedemption,
+} from '../../transformers/invitationTransformer';
 import { createFakeInvitationCodeRow } from '../../__fakes__';
 
 describe('invitationTransformer', () => {
@@ -21,6 +24,11 @@ describe('invitationTransformer', () => {
         userId: 'user-123',
         communityId: 'community-456',
         isActive: true,
+        isPersonal: true,
+        maxUses: undefined,
+        useCount: 0,
+        expiresAt: undefined,
+        role: 'member',
         createdAt: new Date('2024-01-01T12:00:00Z'),
         updatedAt: new Date('2024-01-02T12:00:00Z'),
       });
@@ -35,5 +43,45 @@ describe('invitationTransformer', () => {
 
       expect(result.isActive).toBe(false);
     });
+
+    it('should transform limits of minted codes', () => {
+      const dbRow = createFakeInvitationCodeRow({
+        is_personal: false,
+        max_uses: 5,
+        use_count: 2,
+        expires_at: '2024-02-01T12:00:00Z',
+        role: 'organizer',
+      });
+
+      const result = toDomainInvitationCode(dbRow);
+
+      expect(result.isPersonal).toBe(false);
+      expect(result.maxUses).toBe(5);
+      expect(result.useCount).toBe(2);
+      expect(result.expiresAt).toEqual(new Date('2024-02-01T12:00:00Z'));
+      expect(result.role).toBe('organizer');
+    });
+  });
+
+  describe('toDomainInvitationCodeRedemption', () => {
+    it('should transform database row to domain format', () => {
+      const result = toDomainInvitationCodeRedemption({
+        id: 'redemption-1',
+        code: 'ABCD2345',
+        community_id: 'community-456',
+        user_id: 'user-789',
+        role: 'member',
+        created_at: '2024-01-03T12:00:00Z',
+      });
+
+      expect(result).toEqual({
+        id: 'redemption-1',
+        code: 'ABCD2345',
+        communityId: 'community-456',
+        userId: 'user-789',
+        role: 'member',
+        createdAt: new Date('2024-01-03T12:00:00Z'),
+      });
+    });
   });
 });
@@ -0,0 +1,49 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { InvitationCode, InvitationCodeInput } from '../types';
+import { toDomainInvitationCode } from '../transformers';
+import { logger } from '@/shared';
+import { toPlayerPowerError } from '@/features/trust-scores/errors';
+
+/**
+ * Mints an invitation code alongside the member's personal code. Codes can
+ * be limited in uses and lifetime; organizers can also mint codes that admit
+ * new members as organizers.
+ */
+export async function createInvitationCode(
+  supabase: SupabaseClient<Database>,
+  input: InvitationCodeInput,
+): Promise<InvitationCode> {
+  logger.debug('🔗 API: Creating invitation code', {
+    communityId: input.communityId,
+  });
+
+  const { data, error } = await supabase
+    .rpc('create_invitation_code', {
+      p_community_id: input.communityId,
+      p_max_uses: input.maxUses,
+      p_expires_at: input.expiresAt?.toISOString(),
+      p_role: input.role,
+    })
+    .single();
+
+  if (error) {
+    logger.error('🔗 API: Failed to create invitation code', {
+      error,
+      communityId: input.communityId,
+    });
+    throw toPlayerPowerError(error) ?? error;
+  }
+
+  if (!data) {
+    throw new Error('No data returned after creating invitation code');
+  }
+
+  const invitationCode = toDomainInvitationCode(data);
+  logger.info('🔗 API: Successfully created invitation code', {
+    communityId: invitationCode.communityId,
+    code: invitationCode.code,
+  });
+
+  return invitationCode;
+}
@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { InvitationCodeRedemption } from '../types';
+import { toDomainInvitationCodeRedemption } from '../transformers';
+import { logger } from '@/shared';
+
+/**
+ * Lists who joined with an invitation code, newest first.
+ */
+export async function fetchInvitationCodeRedemptions(
+  supabase: SupabaseClient<Database>,
+  code: string,
+): Promise<InvitationCodeRedemption[]> {
+  logger.debug('🔗 API: Fetching invitation code redemptions', { code });
+
+  const { data, error } = await supabase
+    .from('invitation_code_redemptions')
+    .select('*')
+    .eq('code', code)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('🔗 API: Failed to fetch invitation code redemptions', {
+      error,
+      code,
+    });
+    throw error;
+  }
+
+  return (data || []).map(toDomainInvitationCodeRedemption);
+}
@@ -0,0 +1,40 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { InvitationCode, InvitationCodeFilter } from '../types';
+import { toDomainInvitationCode } from '../transformers';
+import { logger } from '@/shared';
+
+/**
+ * Lists minted invitation codes in a community, newest first, including
+ * revoked ones. Organizers see every code; pass userId to list only the
+ * codes one member minted.
+ */
+export async function fetchInvitationCodes(
+  supabase: SupabaseClient<Database>,
+  filter: InvitationCodeFilter,
+): Promise<InvitationCode[]> {
+  logger.debug('🔗 API: Fetching invitation codes', { filter });
+
+  let query = supabase
+    .from('invitation_codes')
+    .select('*')
+    .eq('community_id', filter.communityId)
+    .eq('is_personal', false)
+    .order('created_at', { ascending: false });
+
+  if (filter.userId) {
+    query = query.eq('user_id', filter.userId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('🔗 API: Failed to fetch invitation codes', {
+      error,
+      filter,
+    });
+    throw error;
+  }
+
+  return (data || []).map(toDomainInvitationCode);
+}
@@ -3,6 +3,7 @@ import type { Database } from '@/shared/types/database';
 import type { InvitationCode } from '../types';
 import { toDomainInvitationCode } from '../transformers';
 import { logger } from '@/shared';
+import { assertCanPerform } from '@/features/trust-scores/api';
 
 export async function getInvitationCode(
   supabase: SupabaseClient<Database>,
@@ -14,6 +15,9 @@ export async function getInvitationCode(
   try {
     const currentUserId = userId;
 
+    // Sharing a code is how members invite friends
+    await assertCanPerform(supabase, 'invite_friend', communityId);
+
     // Get the user's code for this community
     // Note: Codes are now auto-generated by database trigger when users join communities
     const { data: existingCode, error: fetchError } = await supabase
@@ -22,6 +26,7 @@ export async function getInvitationCode(
       .eq('user_id', currentUserId)
       .eq('community_id', communityId)
       .eq('is_active', true)
+      .eq('is_personal', true)
       .maybeSingle();
 
     if (fetchError) {
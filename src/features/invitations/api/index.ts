@@ -1,3 +1,7 @@
 export * from './getInvitationCode';
 export * from './regenerateInvitationCode';
-export * from './fetchInvitationDetails';
\ No newline at end of file
+export * from './fetchInvitationDetails';
+export * from './createInvitationCode';
+export * from './fetchInvitationCodes';
+export * from './revokeInvitationCode';
+export * from './fetchInvitationCodeRedemptions';
\ No newline at end of file
@@ -3,6 +3,7 @@ import type { Database } from '@/shared/types/database';
 import type { InvitationCode } from '../types';
 import { toDomainInvitationCode } from '../transformers';
 import { logger } from '@/shared';
+import { toPlayerPowerError } from '@/features/trust-scores/errors';
 
 export async function regenerateInvitationCode(
   supabase: SupabaseClient<Database>,
@@ -26,7 +27,7 @@ export async function regenerateInvitationCode(
         error: functionError,
         communityId,
       });
-      throw functionError;
+      throw toPlayerPowerError(functionError) ?? functionError;
     }
 
     const newCode = newCodeData as string;
@@ -39,6 +40,7 @@ export async function regenerateInvitationCode(
       .eq('user_id', currentUserId)
       .eq('community_id', communityId)
       .eq('is_active', true)
+      .eq('is_personal', true)
       .single();
 
     if (fetchError || !codeRecord) {
@@ -0,0 +1,32 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { InvitationCode } from '../types';
+import { toDomainInvitationCode } from '../transformers';
+import { logger } from '@/shared';
+
+/**
+ * Deactivates an invitation code. The owner of the code and the community's
+ * organizers can revoke it.
+ */
+export async function revokeInvitationCode(
+  supabase: SupabaseClient<Database>,
+  code: string,
+): Promise<InvitationCode> {
+  logger.debug('🔗 API: Revoking invitation code', { code });
+
+  const { data, error } = await supabase
+    .rpc('revoke_invitation_code', { p_code: code })
+    .single();
+
+  if (error) {
+    logger.error('🔗 API: Failed to revoke invitation code', { error, code });
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('No data returned after revoking invitation code');
+  }
+
+  logger.info('🔗 API: Successfully revoked invitation code', { code });
+  return toDomainInvitationCode(data);
+}
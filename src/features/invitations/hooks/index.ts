@@ -1,3 +1,7 @@
 export * from './useInvitation';
 export * from './useRegenerateMemberCode';
-export * from './useConnectionDetails';
\ No newline at end of file
+export * from './useConnectionDetails';
+export * from './useInvitationCodes';
+export * from './useInvitationCodeRedemptions';
+export * from './useCreateInvitationCode';
+export * from './useRevokeInvitationCode';
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { createInvitationCode } from '../api';
+import { invitationKeys } from '../queries';
+import type { InvitationCode, InvitationCodeInput } from '../types';
+
+export function useCreateInvitationCode() {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation<InvitationCode, Error, InvitationCodeInput>({
+    mutationFn: (input) => createInvitationCode(supabase, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.codeLists() });
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { fetchInvitationCodeRedemptions } from '../api';
+import { invitationKeys } from '../queries';
+
+export function useInvitationCodeRedemptions(code: string) {
+  const supabase = useSupabase();
+
+  return useQuery({
+    queryKey: invitationKeys.redemptions(code),
+    queryFn: () => fetchInvitationCodeRedemptions(supabase, code),
+    enabled: !!code,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { fetchInvitationCodes } from '../api';
+import { invitationKeys } from '../queries';
+import type { InvitationCodeFilter } from '../types';
+
+export function useInvitationCodes(filter: InvitationCodeFilter) {
+  const supabase = useSupabase();
+
+  return useQuery({
+    queryKey: invitationKeys.codeList(filter),
+    queryFn: () => fetchInvitationCodes(supabase, filter),
+    enabled: !!filter.communityId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
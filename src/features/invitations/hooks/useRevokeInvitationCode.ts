@@ -0,0 +1,25 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { revokeInvitationCode } from '../api';
+import { invitationKeys } from '../queries';
+import type { InvitationCode } from '../types';
+
+export function useRevokeInvitationCode() {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation<InvitationCode, Error, string>({
+    mutationFn: (code) => revokeInvitationCode(supabase, code),
+    onSuccess: (invitationCode) => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.codeLists() });
+
+      // Revoking a personal code leaves the member without one until they
+      // regenerate it
+      if (invitationCode.isPersonal) {
+        queryClient.invalidateQueries({
+          queryKey: invitationKeys.memberCode(invitationCode.communityId),
+        });
+      }
+    },
+  });
+}
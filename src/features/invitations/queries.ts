@@ -1,3 +1,5 @@
+import type { InvitationCodeFilter } from './types';
+
 // Query keys for React Query
 export const invitationKeys = {
   all: ['invitations'] as const,
@@ -8,4 +10,9 @@ export const invitationKeys = {
   details: () => [...invitationKeys.all, 'details'] as const,
   detail: (memberConnectionCode: string) =>
     [...invitationKeys.details(), memberConnectionCode] as const,
+  codeLists: () => [...invitationKeys.all, 'codes'] as const,
+  codeList: (filter: InvitationCodeFilter) =>
+    [...invitationKeys.codeLists(), filter] as const,
+  redemptions: (code: string) =>
+    [...invitationKeys.all, 'redemptions', code] as const,
 } as const;
\ No newline at end of file
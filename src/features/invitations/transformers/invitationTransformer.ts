@@ -1,4 +1,9 @@
-import type { InvitationCodeRow, InvitationCode } from '../types';
+import type {
+  InvitationCodeRow,
+  InvitationCode,
+  InvitationCodeRedemptionRow,
+  InvitationCodeRedemption,
+} from '../types';
 
 export function toDomainInvitationCode(row: InvitationCodeRow): InvitationCode {
   return {
@@ -6,7 +11,25 @@ export function toDomainInvitationCode(row: InvitationCodeRow): InvitationCode {
     userId: row.user_id,
     communityId: row.community_id,
     isActive: row.is_active,
+    isPersonal: row.is_personal,
+    maxUses: row.max_uses ?? undefined,
+    useCount: row.use_count,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    role: row.role,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
 }
+
+export function toDomainInvitationCodeRedemption(
+  row: InvitationCodeRedemptionRow,
+): InvitationCodeRedemption {
+  return {
+    id: row.id,
+    code: row.code,
+    communityId: row.community_id,
+    userId: row.user_id,
+    role: row.role,
+    createdAt: new Date(row.created_at),
+  };
+}
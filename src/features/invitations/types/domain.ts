@@ -1,14 +1,44 @@
 import type { UserSummary } from '@/features/users/types';
+import type { CommunityMembershipRole } from '@/features/communities/types';
 
 export interface InvitationCode {
   code: string;
   userId: string;
   communityId: string;
   isActive: boolean;
+  // Personal codes are generated on join; the rest are minted with limits
+  isPersonal: boolean;
+  maxUses?: number;
+  useCount: number;
+  expiresAt?: Date;
+  // Role granted to whoever redeems the code; organizer codes admit members
+  // once their creator is no longer an organizer
+  role: CommunityMembershipRole;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface InvitationCodeInput {
+  communityId: string;
+  maxUses?: number;
+  expiresAt?: Date;
+  role?: Exclude<CommunityMembershipRole, 'founder'>;
+}
+
+export interface InvitationCodeFilter {
+  communityId: string;
+  userId?: string;
+}
+
+export interface InvitationCodeRedemption {
+  id: string;
+  code: string;
+  communityId: string;
+  userId: string;
+  role: CommunityMembershipRole;
+  createdAt: Date;
+}
+
 export interface ProcessInvitationResponse {
   success: boolean;
   connectionId?: string;
@@ -25,9 +25,11 @@ export function createFakeMessage(overrides: Partial<Message> = {}): Message {
     conversationId: faker.string.uuid(),
     senderId: sender.id,
     content: faker.lorem.sentence(),
+    imagePaths: [],
     isEdited: faker.datatype.boolean(),
     isDeleted: false,
     encryptionVersion: 1,
+    receiptStatus: 'sent',
     createdAt: now,
     updatedAt: now,
     ...overrides,
@@ -202,6 +204,8 @@ export function createFakeConversationParticipantRow(
     conversation_id: faker.string.uuid(),
     user_id: faker.string.uuid(),
     joined_at: now,
+    last_delivered_message_id: null,
+    last_read_message_id: null,
     read_at: faker.helpers.maybe(() => faker.date.recent().toISOString()) ?? null,
     ...overrides,
   };
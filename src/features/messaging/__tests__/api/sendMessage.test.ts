@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { sendMessage } from '../../api/sendMessage';
+import { createFakeSendMessageInput } from '../../__fakes__';
+import {
+  commitImageUrls,
+  discardCommittedImages,
+} from '../../../images/api/imageCommit';
+
+vi.mock('../../../images/api/imageCommit', () => ({
+  commitImageUrls: vi.fn(),
+  discardCommittedImages: vi.fn(),
+}));
+
+describe('sendMessage', () => {
+  const committedPath = 'user-1/message-m-123-abc.jpg';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(commitImageUrls).mockResolvedValue([committedPath]);
+  });
+
+  it('should discard committed images when the message fails to be inserted', async () => {
+    const insertError = new Error('insert failed');
+    const query = {
+      insert: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: null, error: insertError }),
+    };
+    const supabase = {
+      getChannels: vi.fn().mockReturnValue([]),
+      channel: vi.fn().mockReturnValue({
+        send: vi.fn().mockResolvedValue('ok'),
+      }),
+      from: vi.fn().mockReturnValue(query),
+    } as unknown as SupabaseClient<Database>;
+
+    await expect(
+      sendMessage(
+        supabase,
+        'user-1',
+        createFakeSendMessageInput({
+          imageUrls: [
+            'https://proj.supabase.co/storage/v1/object/public/images/user-1/temp-upload-123-abc.jpg',
+          ],
+        }),
+      ),
+    ).rejects.toThrow('insert failed');
+
+    const [{ entityId }] = vi.mocked(commitImageUrls).mock.calls[0];
+    expect(discardCommittedImages).toHaveBeenCalledWith({
+      supabase,
+      imageUrls: [committedPath],
+      entityType: 'message',
+      entityId,
+    });
+  });
+});
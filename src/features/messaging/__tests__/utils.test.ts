@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addMessageToPages,
+  applyReceiptToPages,
+  flattenMessagePages,
+  MessagePagesData,
+  onlineUsersFromPresenceState,
+  receiptStatusForMessage,
+  removeMessageFromPages,
+  updateMessageInPages,
+} from '../utils';
+import { createFakeMessage } from '../__fakes__';
+
+describe('message pages', () => {
+  const oldest = createFakeMessage({ content: 'oldest' });
+  const older = createFakeMessage({ content: 'older' });
+  const newer = createFakeMessage({ content: 'newer' });
+  const newest = createFakeMessage({ content: 'newest' });
+
+  // pages[0] is the most recent page; later pages were loaded via "load older"
+  const data: MessagePagesData = {
+    pages: [
+      { messages: [newer, newest], hasMore: true, nextCursor: 'cursor-1' },
+      { messages: [oldest, older], hasMore: false },
+    ],
+    pageParams: [undefined, 'cursor-1'],
+  };
+
+  it('should flatten pages oldest first', () => {
+    expect(flattenMessagePages(data)).toEqual([oldest, older, newer, newest]);
+    expect(flattenMessagePages(undefined)).toEqual([]);
+  });
+
+  it('should append new messages to the newest page', () => {
+    const incoming = createFakeMessage();
+
+    const result = addMessageToPages(data, incoming);
+
+    expect(flattenMessagePages(result)).toEqual([
+      oldest,
+      older,
+      newer,
+      newest,
+      incoming,
+    ]);
+    expect(result?.pageParams).toEqual(data.pageParams);
+  });
+
+  it('should not duplicate a message that is already cached', () => {
+    expect(addMessageToPages(data, older)).toBe(data);
+  });
+
+  it('should not create history that has not been loaded', () => {
+    expect(addMessageToPages(undefined, createFakeMessage())).toBeUndefined();
+  });
+
+  it('should update and remove messages on any page', () => {
+    const edited = { ...oldest, content: 'edited', isEdited: true };
+
+    expect(flattenMessagePages(updateMessageInPages(data, edited))[0]).toEqual(
+      edited,
+    );
+    expect(flattenMessagePages(removeMessageFromPages(data, older.id))).toEqual(
+      [oldest, newer, newest],
+    );
+  });
+});
+
+describe('onlineUsersFromPresenceState', () => {
+  it('should return one entry per user with their earliest online time', () => {
+    const state = {
+      'user-1': [
+        {
+          presence_ref: 'ref-1',
+          user_id: 'user-1',
+          online_at: '2025-11-27T12:05:00.000Z',
+        },
+        {
+          presence_ref: 'ref-2',
+          user_id: 'user-1',
+          online_at: '2025-11-27T12:00:00.000Z',
+        },
+      ],
+      'user-2': [
+        {
+          presence_ref: 'ref-3',
+          user_id: 'user-2',
+          online_at: '2025-11-27T12:10:00.000Z',
+        },
+      ],
+    };
+
+    expect(onlineUsersFromPresenceState(state)).toEqual([
+      { userId: 'user-1', onlineAt: new Date('2025-11-27T12:00:00.000Z') },
+      { userId: 'user-2', onlineAt: new Date('2025-11-27T12:10:00.000Z') },
+    ]);
+  });
+
+  it('should return no users for an empty state', () => {
+    expect(onlineUsersFromPresenceState({})).toEqual([]);
+  });
+});
+
+describe('read receipts', () => {
+  const sender = 'sender-id';
+  const recipient = 'recipient-id';
+  const earlier = createFakeMessage({
+    senderId: sender,
+    receiptStatus: 'sent',
+    createdAt: new Date('2025-11-28T12:00:00.000Z'),
+  });
+  const later = createFakeMessage({
+    senderId: sender,
+    receiptStatus: 'sent',
+    createdAt: new Date('2025-11-28T12:05:00.000Z'),
+  });
+  const reply = createFakeMessage({
+    senderId: recipient,
+    receiptStatus: 'sent',
+    createdAt: new Date('2025-11-28T12:06:00.000Z'),
+  });
+
+  it("should derive the status from the other participant's receipt", () => {
+    const receipts = [
+      { userId: sender, readUpTo: reply.createdAt },
+      {
+        userId: recipient,
+        deliveredUpTo: later.createdAt,
+        readUpTo: earlier.createdAt,
+      },
+    ];
+
+    expect(receiptStatusForMessage(earlier, receipts)).toBe('read');
+    expect(receiptStatusForMessage(later, receipts)).toBe('delivered');
+    expect(receiptStatusForMessage(reply, receipts)).toBe('read');
+    expect(receiptStatusForMessage(later, [{ userId: recipient }])).toBe(
+      'sent',
+    );
+  });
+
+  it('should apply a receipt to earlier messages from others only', () => {
+    const data: MessagePagesData = {
+      pages: [{ messages: [earlier, later, reply], hasMore: false }],
+      pageParams: [undefined],
+    };
+
+    const result = applyReceiptToPages(data, {
+      userId: recipient,
+      status: 'read',
+      upTo: earlier.createdAt,
+    });
+
+    expect(flattenMessagePages(result).map((m) => m.receiptStatus)).toEqual([
+      'read',
+      'sent',
+      'sent',
+    ]);
+  });
+
+  it('should not move a status backwards', () => {
+    const data: MessagePagesData = {
+      pages: [
+        {
+          messages: [{ ...earlier, receiptStatus: 'read' }],
+          hasMore: false,
+        },
+      ],
+      pageParams: [undefined],
+    };
+
+    const result = applyReceiptToPages(data, {
+      userId: recipient,
+      status: 'delivered',
+      upTo: later.createdAt,
+    });
+
+    expect(flattenMessagePages(result)[0].receiptStatus).toBe('read');
+  });
+});
@@ -2,11 +2,23 @@ import type { QueryClient } from '@tanstack/react-query';
 import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
 import { logger } from '@/shared/logger';
 import {
+  addMessageToPages,
+  applyReceiptToPages,
   messagesChannelForCommunity,
   messagesChannelForConversation,
+  MessagePagesData,
+  removeMessageFromPages,
+  updateMessageInPages,
 } from '../utils';
 import { communityChatKeys, conversationKeys } from '../queries';
+import { DELIVERY_RECEIPT_DELAY_MS } from '../constants';
+import {
+  setRealtimeAuth,
+  subscribeWithStatus,
+} from '@/shared/utils/realtimeChannel';
+import { markAsDelivered } from './markAsDelivered';
 import type { Database } from '@/shared/types/database';
+import type { MessageReceiptStatus } from '../types';
 
 // Simple types for diagnostic version
 interface Message {
@@ -15,9 +27,11 @@ interface Message {
   communityId?: string;
   senderId: string;
   content: string;
+  imagePaths: string[];
   isEdited: boolean;
   isDeleted: boolean;
   encryptionVersion: number;
+  receiptStatus?: MessageReceiptStatus;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,10 +42,23 @@ interface RealtimeBroadcastEvent {
     message_id: string;
     sender_id: string;
     content: string;
+    image_paths?: string[];
+    sent_at: string;
+  };
+}
+
+// Sent by the database when a participant's receipt moves forward
+interface RealtimeReceiptEvent {
+  event: 'message.delivered' | 'message.read';
+  payload: {
+    user_id: string;
+    message_id: string;
     sent_at: string;
   };
 }
 
+const RECEIPT_EVENTS = ['message.delivered', 'message.read'];
+
 export interface CreateMessageSubscriptionParams {
   supabase: SupabaseClient<Database>;
   queryClient: QueryClient;
@@ -68,15 +95,7 @@ export async function createMessageSubscription({
 
   logger.info('=== CREATING MESSAGE SUBSCRIPTION ===', channelName);
 
-  // Check current auth state
-  await supabase.auth.getSession();
-
-  try {
-    await supabase.realtime.setAuth();
-  } catch (authError) {
-    logger.error('❌ Failed to set realtime auth:', authError);
-    throw authError;
-  }
+  await setRealtimeAuth(supabase);
 
   const channel = supabase
     .channel(channelName, {
@@ -89,6 +108,11 @@ export async function createMessageSubscription({
       },
     })
     .on('broadcast', { event: '*' }, async (event: RealtimeBroadcastEvent) => {
+      if (RECEIPT_EVENTS.includes(event.event)) {
+        handleReceiptReceived(event as unknown as RealtimeReceiptEvent);
+        return;
+      }
+
       try {
         logger.debug(
           '💬 === BROADCAST MESSAGE RECEIVED ===',
@@ -102,9 +126,14 @@ export async function createMessageSubscription({
           communityId,
           senderId: event.payload.sender_id,
           content: event.payload.content,
+          imagePaths: event.payload.image_paths ?? [],
           isEdited: event.event === 'message.updated',
           isDeleted: event.event === 'message.deleted',
           encryptionVersion: 1,
+          receiptStatus:
+            conversationId && event.event === 'message.created'
+              ? 'sent'
+              : undefined,
           createdAt: new Date(event.payload.sent_at),
           updatedAt: new Date(event.payload.sent_at),
         };
@@ -137,53 +166,17 @@ export async function createMessageSubscription({
     });
 
   // Subscribe and return the channel
-  return channel.subscribe((status, err) => {
-    const timestamp = new Date().toISOString();
-    logger.debug(
-      '=== MESSAGE SUBSCRIPTION STATUS ===',
-      `[${timestamp}] ${channelName}:`,
-      status,
-      err ? { error: err, errorMessage: err.message } : 'no error',
-    );
-
-    // Enhanced status logging and status change callback
-    switch (status) {
-      case 'SUBSCRIBED':
-        logger.info('🟢 Channel successfully subscribed');
-        if (onStatusChange) {
-          // Add a small delay to ensure subscription is fully established
-          setTimeout(() => onStatusChange(status, false), 50);
-        }
-        break;
-      case 'CHANNEL_ERROR':
-        logger.error('🔴 Channel error occurred:', { error: err, timestamp });
-        if (onStatusChange) {
-          setTimeout(() => onStatusChange(status, false), 100);
-        }
-        break;
-      case 'TIMED_OUT':
-        logger.warn('⏰ Channel timed out:', { error: err, timestamp });
-        if (onStatusChange) {
-          setTimeout(() => onStatusChange(status, false), 100);
-        }
-        break;
-      case 'CLOSED':
-        logger.warn('🚪 Channel closed:', { error: err, timestamp });
-        if (onStatusChange) {
-          setTimeout(() => onStatusChange(status, false), 100);
-        }
-        break;
-    }
-  });
+  return subscribeWithStatus(channel, channelName, onStatusChange);
 
   function handleCreateReceived(message: Message) {
     logger.debug('Handling message created', message);
 
-    queryClient.setQueryData<Message[]>(
+    // Merge into the newest page so older pages loaded via "load older" are kept
+    queryClient.setQueryData<MessagePagesData>(
       conversationId
         ? conversationKeys.messages(conversationId)
         : communityChatKeys.messages(communityId!),
-      (prev: Message[] | undefined) => [...(prev || []), message],
+      (prev) => addMessageToPages(prev, message),
     );
 
     // Increment unread count for conversation
@@ -212,17 +205,28 @@ export async function createMessageSubscription({
         queryKey: communityChatKeys.list(),
       });
     }
+
+    // Let the sender know the message reached us
+    if (conversationId) {
+      setTimeout(() => {
+        markAsDelivered(supabase, conversationId).catch((error) =>
+          logger.warn('⚠️ Failed to mark message as delivered', {
+            error,
+            conversationId,
+          }),
+        );
+      }, DELIVERY_RECEIPT_DELAY_MS);
+    }
   }
 
   function handleUpdateReceived(message: Message) {
     logger.debug('Handling message updated', { messageId: message.id });
 
-    queryClient.setQueryData<Message[]>(
+    queryClient.setQueryData<MessagePagesData>(
       message.conversationId
         ? conversationKeys.messages(message.conversationId)
         : communityChatKeys.messages(message.communityId!),
-      (prev: Message[] | undefined) =>
-        prev?.map((m) => (m.id === message.id ? message : m)),
+      (prev) => updateMessageInPages(prev, message),
     );
 
     // Invalidate conversations list to update last message if edited
@@ -237,14 +241,29 @@ export async function createMessageSubscription({
     }
   }
 
+  function handleReceiptReceived(event: RealtimeReceiptEvent) {
+    logger.debug('Handling receipt', event);
+    if (!conversationId) return;
+
+    queryClient.setQueryData<MessagePagesData>(
+      conversationKeys.messages(conversationId),
+      (prev) =>
+        applyReceiptToPages(prev, {
+          userId: event.payload.user_id,
+          status: event.event === 'message.read' ? 'read' : 'delivered',
+          upTo: new Date(event.payload.sent_at),
+        }),
+    );
+  }
+
   function handleDeleteReceived(message: Message) {
     logger.debug('Handling message deleted', { messageId: message.id });
 
-    queryClient.setQueryData<Message[]>(
+    queryClient.setQueryData<MessagePagesData>(
       message.conversationId
         ? conversationKeys.messages(message.conversationId)
         : communityChatKeys.messages(message.communityId!),
-      (prev: Message[] | undefined) => prev?.filter((m) => m.id !== message.id),
+      (prev) => removeMessageFromPages(prev, message.id),
     );
 
     // Invalidate conversations list to update last message if deleted
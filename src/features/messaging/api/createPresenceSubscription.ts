@@ -0,0 +1,64 @@
+import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { logger } from '@/shared/logger';
+import {
+  onlineUsersFromPresenceState,
+  presenceChannelForCommunity,
+} from '../utils';
+import type { OnlineUser, PresencePayload } from '../types';
+import {
+  setRealtimeAuth,
+  subscribeWithStatus,
+} from '@/shared/utils/realtimeChannel';
+import type { Database } from '@/shared/types/database';
+
+export interface CreatePresenceSubscriptionParams {
+  supabase: SupabaseClient<Database>;
+  communityId: string;
+  userId: string;
+  onSync: (onlineUsers: OnlineUser[]) => void;
+  onStatusChange?: (status: string, isConnecting: boolean) => void;
+}
+
+/**
+ * Creates a presence subscription for a community. The user is tracked as
+ * online once subscribed, and untracked when the channel is removed.
+ */
+export async function createPresenceSubscription({
+  supabase,
+  communityId,
+  userId,
+  onSync,
+  onStatusChange,
+}: CreatePresenceSubscriptionParams): Promise<RealtimeChannel> {
+  const channelName = presenceChannelForCommunity(communityId);
+
+  logger.info('=== CREATING PRESENCE SUBSCRIPTION ===', channelName);
+
+  await setRealtimeAuth(supabase);
+
+  const channel = supabase
+    .channel(channelName, {
+      config: {
+        private: true,
+        presence: {
+          key: userId,
+        },
+      },
+    })
+    .on('presence', { event: 'sync' }, () => {
+      onSync(
+        onlineUsersFromPresenceState(channel.presenceState<PresencePayload>()),
+      );
+    });
+
+  return subscribeWithStatus(channel, channelName, onStatusChange, () => {
+    const payload: PresencePayload = {
+      user_id: userId,
+      online_at: new Date().toISOString(),
+    };
+
+    channel.track(payload).catch((error) => {
+      logger.warn('⚠️ Failed to track presence', { channelName, error });
+    });
+  });
+}
@@ -0,0 +1,91 @@
+import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { logger } from '@/shared/logger';
+import {
+  typingChannelForCommunity,
+  typingChannelForConversation,
+} from '../utils';
+import type { TypingPayload } from '../types';
+import {
+  setRealtimeAuth,
+  subscribeWithStatus,
+} from '@/shared/utils/realtimeChannel';
+import type { Database } from '@/shared/types/database';
+
+const TYPING_EVENT = 'typing';
+
+export interface CreateTypingSubscriptionParams {
+  supabase: SupabaseClient<Database>;
+  conversationId?: string;
+  communityId?: string;
+  onTyping: (userId: string, isTyping: boolean) => void;
+  onStatusChange?: (status: string, isConnecting: boolean) => void;
+}
+
+/**
+ * Creates a subscription for typing broadcasts in a conversation or community
+ * chat. The user's own broadcasts are not echoed back.
+ */
+export async function createTypingSubscription({
+  supabase,
+  conversationId,
+  communityId,
+  onTyping,
+  onStatusChange,
+}: CreateTypingSubscriptionParams): Promise<RealtimeChannel> {
+  // Validate: exactly one must be provided
+  if ((!conversationId && !communityId) || (conversationId && communityId)) {
+    throw new Error('Provide either conversationId or communityId, not both');
+  }
+
+  const channelName = conversationId
+    ? typingChannelForConversation(conversationId)
+    : typingChannelForCommunity(communityId!);
+
+  logger.info('=== CREATING TYPING SUBSCRIPTION ===', channelName);
+
+  await setRealtimeAuth(supabase);
+
+  const channel = supabase
+    .channel(channelName, {
+      config: {
+        private: true,
+        broadcast: {
+          ack: false,
+          self: false,
+        },
+      },
+    })
+    .on(
+      'broadcast',
+      { event: TYPING_EVENT },
+      ({ payload }: { payload: TypingPayload }) => {
+        onTyping(payload.user_id, payload.is_typing);
+      },
+    );
+
+  return subscribeWithStatus(channel, channelName, onStatusChange);
+}
+
+/**
+ * Tells the other subscribers of a typing channel whether the user is typing
+ */
+export async function sendTypingEvent(
+  channel: RealtimeChannel,
+  userId: string,
+  isTyping: boolean,
+): Promise<void> {
+  const payload: TypingPayload = { user_id: userId, is_typing: isTyping };
+
+  const result = await channel.send({
+    type: 'broadcast',
+    event: TYPING_EVENT,
+    payload,
+  });
+
+  if (result !== 'ok') {
+    logger.warn('⚠️ Failed to send typing event', {
+      topic: channel.topic,
+      result,
+    });
+  }
+}
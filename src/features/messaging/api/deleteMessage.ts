@@ -11,6 +11,7 @@ export async function deleteMessage(
     .from('messages')
     .update({
       is_deleted: true,
+      image_paths: [],
     })
     .eq('id', messageId)
     .select('id')
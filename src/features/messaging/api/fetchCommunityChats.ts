@@ -38,6 +38,7 @@ export async function fetchCommunityChats(
       .select('*')
       .eq('community_id', communityId)
       .eq('is_deleted', false)
+      .eq('is_hidden', false)
       .order('created_at', { ascending: false })
       .limit(1);
 
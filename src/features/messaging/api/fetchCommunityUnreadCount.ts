@@ -33,6 +33,7 @@ export async function fetchCommunityUnreadCount(
       .select('id', { count: 'exact', head: true })
       .eq('community_id', communityId)
       .eq('is_deleted', false)
+      .eq('is_hidden', false)
       .neq('sender_id', userId); // Don't count own messages
 
     if (error) {
@@ -48,6 +49,7 @@ export async function fetchCommunityUnreadCount(
     .select('id', { count: 'exact', head: true })
     .eq('community_id', communityId)
     .eq('is_deleted', false)
+    .eq('is_hidden', false)
     .neq('sender_id', userId) // Don't count own messages
     .gt('created_at', membershipData.chat_read_at);
 
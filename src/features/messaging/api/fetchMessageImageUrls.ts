@@ -0,0 +1,32 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../../../shared/types/database';
+import { logger } from '../../../shared';
+import { MESSAGE_IMAGE_BUCKET } from '../../images/api/imageCommit';
+import { MESSAGE_IMAGE_URL_TTL_SECONDS } from '../constants';
+
+/**
+ * Creates signed URLs for a message's images. Storage only signs them for
+ * users who can see the message.
+ */
+export async function fetchMessageImageUrls(
+  supabase: SupabaseClient<Database>,
+  imagePaths: string[],
+  expiresIn: number = MESSAGE_IMAGE_URL_TTL_SECONDS,
+): Promise<string[]> {
+  if (imagePaths.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.storage
+    .from(MESSAGE_IMAGE_BUCKET)
+    .createSignedUrls(imagePaths, expiresIn);
+
+  if (error) {
+    logger.error('Error signing message image URLs', { error });
+    throw error;
+  }
+
+  return (data ?? [])
+    .filter((signed) => !signed.error && signed.signedUrl)
+    .map((signed) => signed.signedUrl);
+}
@@ -10,12 +10,11 @@ export async function fetchMessageUnreadCount(
   conversationId: string,
 ): Promise<number> {
 
-  // Get the user's last read timestamp for this conversation
+  // Get the user's last read timestamp for this conversation; read_at is
+  // private, so it comes from get_conversation_read_states
   const { data: participantData, error: participantError } = await supabase
-    .from('conversation_participants')
-    .select('read_at')
+    .rpc('get_conversation_read_states')
     .eq('conversation_id', conversationId)
-    .eq('user_id', userId)
     .maybeSingle();
 
   if (participantError) {
@@ -68,10 +67,9 @@ export async function fetchTotalMessageUnreadCount(
 ): Promise<number> {
 
   // Get all conversation participants for this user
-  const { data: participants, error: participantsError } = await supabase
-    .from('conversation_participants')
-    .select('conversation_id, read_at')
-    .eq('user_id', userId);
+  const { data: participants, error: participantsError } = await supabase.rpc(
+    'get_conversation_read_states',
+  );
 
   if (participantsError) {
     throw participantsError;
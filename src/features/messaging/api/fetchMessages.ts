@@ -1,9 +1,12 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { Database } from '../../../shared/types/database';
-import { Message } from '../types';
+import { MessagePage, MessagePageParams } from '../types';
 import { toDomainMessage } from '../transformers';
 import { MessageRow } from '../types/messageRow';
-import { logger } from '@/shared';
+import { MESSAGE_PAGE_SIZE } from '../constants';
+import { receiptStatusForMessage } from '../utils';
+import { fetchParticipantReceipts } from './fetchParticipantReceipts';
+import { decodePageCursor, encodePageCursor, logger } from '@/shared';
 
 interface FetchMessagesSource {
   conversationId?: string;
@@ -11,19 +14,29 @@ interface FetchMessagesSource {
 }
 
 /**
- * Fetches messages for a specific conversation or community, with the newest messages being last.
+ * Fetches one page of messages for a specific conversation or community.
+ *
+ * The first page holds the most recent messages; pass the returned
+ * `nextCursor` as `before` to load older history. Messages within a page are
+ * ordered with the newest last. Messages in direct conversations carry their
+ * receipt status.
  */
 export async function fetchMessages(
   supabase: SupabaseClient<Database>,
   source: FetchMessagesSource,
-): Promise<Message[]> {
+  params: MessagePageParams = {},
+): Promise<MessagePage> {
   const { conversationId, communityId } = source;
 
   if (!conversationId && !communityId) {
     throw new Error('Either conversationId or communityId must be provided');
   }
 
-  const query = supabase.from('messages').select('*');
+  const limit = params.limit ?? MESSAGE_PAGE_SIZE;
+  const cursor = params.before ? decodePageCursor(params.before) : undefined;
+
+  // Messages hidden by moderation are not shown to anyone
+  const query = supabase.from('messages').select('*').eq('is_hidden', false);
 
   if (conversationId) {
     query.eq('conversation_id', conversationId);
@@ -31,10 +44,17 @@ export async function fetchMessages(
     query.eq('community_id', communityId);
   }
 
-  // Execute the query
-  const { data, error } = (await query.order('created_at', {
-    ascending: true,
-  })) as {
+  if (cursor) {
+    query.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`,
+    );
+  }
+
+  // Page from the newest message backwards, fetching one extra row to detect older history
+  const { data, error } = (await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)) as {
     data: MessageRow[] | null;
     error: Error | null;
   };
@@ -43,15 +63,37 @@ export async function fetchMessages(
     throw error;
   }
 
-  if (!data) {
-    return [];
-  }
+  const rows = data ?? [];
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const oldestRow = pageRows[pageRows.length - 1];
 
   logger.debug('Fetched messages', {
     conversationId,
     communityId,
-    messages: data,
+    count: pageRows.length,
+    hasMore,
   });
 
-  return data.map((row) => toDomainMessage(row));
+  let messages = pageRows.reverse().map((row) => toDomainMessage(row));
+
+  if (conversationId && messages.length > 0) {
+    const receipts = await fetchParticipantReceipts(supabase, conversationId);
+    messages = messages.map((message) => ({
+      ...message,
+      receiptStatus: receiptStatusForMessage(message, receipts),
+    }));
+  }
+
+  return {
+    messages,
+    hasMore,
+    nextCursor:
+      hasMore && oldestRow
+        ? encodePageCursor({
+            createdAt: oldestRow.created_at,
+            id: oldestRow.id,
+          })
+        : undefined,
+  };
 }
@@ -0,0 +1,37 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../../../shared/types/database';
+import { ParticipantReceipt } from '../types';
+
+/**
+ * Fetches how far each participant of a conversation has got with the
+ * messages sent to them
+ */
+export async function fetchParticipantReceipts(
+  supabase: SupabaseClient<Database>,
+  conversationId: string,
+): Promise<ParticipantReceipt[]> {
+  const { data, error } = await supabase
+    .from('conversation_participants')
+    .select(
+      `
+      user_id,
+      last_delivered_message:messages!conversation_participants_last_delivered_message_id_fkey(created_at),
+      last_read_message:messages!conversation_participants_last_read_message_id_fkey(created_at)
+    `,
+    )
+    .eq('conversation_id', conversationId);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((row) => ({
+    userId: row.user_id,
+    deliveredUpTo: row.last_delivered_message
+      ? new Date(row.last_delivered_message.created_at)
+      : undefined,
+    readUpTo: row.last_read_message
+      ? new Date(row.last_read_message.created_at)
+      : undefined,
+  }));
+}
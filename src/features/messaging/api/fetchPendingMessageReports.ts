@@ -0,0 +1,38 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../../../shared/types/database';
+import { MessageReportWithMessage } from '../types';
+import {
+  MessageReportRowWithMessage,
+  SELECT_MESSAGE_REPORTS_JOIN_MESSAGE,
+} from '../types/messageRow';
+import { toDomainMessageReportWithMessage } from '../transformers';
+import { logger } from '../../../shared';
+
+/**
+ * Fetches the pending report queue for a community, oldest first.
+ * Only organizers and founders of the community can see its reports.
+ */
+export async function fetchPendingMessageReports(
+  client: SupabaseClient<Database>,
+  communityId: string,
+): Promise<MessageReportWithMessage[]> {
+  const { data, error } = (await client
+    .from('message_reports')
+    .select(SELECT_MESSAGE_REPORTS_JOIN_MESSAGE)
+    .eq('community_id', communityId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })) as {
+    data: MessageReportRowWithMessage[] | null;
+    error: Error | null;
+  };
+
+  if (error) {
+    logger.error('Error fetching pending message reports', {
+      error,
+      communityId,
+    });
+    throw error;
+  }
+
+  return (data ?? []).map(toDomainMessageReportWithMessage);
+}
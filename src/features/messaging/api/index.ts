@@ -2,16 +2,24 @@ export * from './fetchConversations';
 export * from './fetchConversation';
 export * from './fetchCommunityChats';
 export * from './fetchMessages';
+export * from './fetchParticipantReceipts';
 export * from './sendMessage';
 export * from './editMessage';
 export { markAsRead as markMessageAsRead } from './markAsRead';
+export { markAsDelivered as markMessageAsDelivered } from './markAsDelivered';
 export * from './markChatAsRead';
 export * from './startConversation';
 export * from './deleteMessage';
 export * from './blockUser';
 export * from './unblockUser';
 export * from './reportMessage';
+export * from './fetchPendingMessageReports';
+export * from './reviewMessageReport';
 export * from './fetchDirectConversation';
 export * from './createMessageSubscription';
+export * from './createTypingSubscription';
+export * from './createPresenceSubscription';
 export * from './fetchMessageUnreadCount';
 export * from './fetchCommunityUnreadCount';
+
+export * from './fetchMessageImageUrls';
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../../../shared/types/database';
+import { logger } from '../../../shared';
+
+/**
+ * Records that the latest messages in a conversation reached the current
+ * user, so the sender sees them as delivered
+ */
+export async function markAsDelivered(
+  client: SupabaseClient<Database>,
+  conversationId: string,
+): Promise<void> {
+  const { error } = await client.rpc('mark_conversation_delivered', {
+    p_conversation_id: conversationId,
+  });
+
+  if (error) {
+    logger.error('Error marking messages as delivered', { error });
+    throw error;
+  }
+}
@@ -2,19 +2,31 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import { Database } from '../../../shared/types/database';
 import { logger } from '../../../shared';
 
+/**
+ * Marks a conversation as read by the current user. Unless they turned off
+ * read receipts, the other participant sees their messages as read.
+ */
+export async function markAsRead(
+  client: SupabaseClient<Database>,
+  conversationId: string,
+): Promise<void>;
+/**
+ * @deprecated The current user is always the reader; pass only the
+ * conversation ID. `userId` is ignored.
+ */
 export async function markAsRead(
   client: SupabaseClient<Database>,
   userId: string,
   conversationId: string,
+): Promise<void>;
+export async function markAsRead(
+  client: SupabaseClient<Database>,
+  userIdOrConversationId: string,
+  conversationId?: string,
 ): Promise<void> {
-
-  const { error } = await client
-    .from('conversation_participants')
-    .update({
-      read_at: new Date().toISOString(),
-    })
-    .eq('conversation_id', conversationId)
-    .eq('user_id', userId);
+  const { error } = await client.rpc('mark_conversation_as_read', {
+    p_conversation_id: conversationId ?? userIdOrConversationId,
+  });
 
   if (error) {
     logger.error('Error marking messages as read', { error });
@@ -1,11 +1,31 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { Database } from '../../../shared/types/database';
 import { ReportMessageInput, MessageReport } from '../types';
+import { toDomainMessageReport, toMessageReportRow } from '../transformers';
+import { logger } from '../../../shared';
 
+/**
+ * Reports a community chat message for review by the organizers of its
+ * community. Direct messages cannot be reported.
+ * The reporter is the authenticated user; each user can report a message once.
+ */
 export async function reportMessage(
-  _client: SupabaseClient<Database>,
-  _input: ReportMessageInput
+  client: SupabaseClient<Database>,
+  input: ReportMessageInput,
 ): Promise<MessageReport> {
-  // TODO: Implement message reporting when message_reports table is created
-  throw new Error('Message reporting is not yet implemented');
-}
\ No newline at end of file
+  const { data, error } = await client
+    .from('message_reports')
+    .insert(toMessageReportRow(input))
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error reporting message', {
+      error,
+      messageId: input.messageId,
+    });
+    throw error;
+  }
+
+  return toDomainMessageReport(data);
+}
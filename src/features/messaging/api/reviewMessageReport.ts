@@ -0,0 +1,31 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../../../shared/types/database';
+import { MessageReport, ReviewMessageReportInput } from '../types';
+import { toDomainMessageReport } from '../transformers';
+import { logger } from '../../../shared';
+
+/**
+ * Approves or rejects a pending report. Approving hides the reported message
+ * and resolves any other pending reports against it.
+ */
+export async function reviewMessageReport(
+  client: SupabaseClient<Database>,
+  input: ReviewMessageReportInput,
+): Promise<MessageReport> {
+  const { data, error } = await client
+    .rpc('review_message_report', {
+      p_report_id: input.reportId,
+      p_status: input.status,
+    })
+    .single();
+
+  if (error) {
+    logger.error('Error reviewing message report', {
+      error,
+      reportId: input.reportId,
+    });
+    throw error;
+  }
+
+  return toDomainMessageReport(data);
+}
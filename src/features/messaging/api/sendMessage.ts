@@ -9,6 +9,11 @@ import {
   messagesChannelForConversation as messagesTopicForConversation,
 } from '../utils';
 import { v4 as uuidv4 } from 'uuid';
+import { toPlayerPowerError } from '../../trust-scores/errors';
+import {
+  commitImageUrls,
+  discardCommittedImages,
+} from '../../images/api/imageCommit';
 
 export async function sendMessage(
   supabase: SupabaseClient<Database>,
@@ -23,9 +28,20 @@ export async function sendMessage(
     conversationId: input.conversationId,
     communityId: input.communityId,
     contentLength: input.content?.length || 0,
+    imageCount: input.imageUrls?.length || 0,
   });
 
   const authId = userId;
+  const messageId = uuidv4();
+
+  // Images are committed under the message id, which storage policies use to
+  // limit access to those who can see the message
+  const imagePaths = await commitImageUrls({
+    supabase,
+    imageUrls: input.imageUrls ?? [],
+    entityType: 'message',
+    entityId: messageId,
+  });
 
   const topic = input.conversationId
     ? messagesTopicForConversation(input.conversationId)
@@ -48,8 +64,9 @@ export async function sendMessage(
     type: 'broadcast',
     payload: {
       sender_id: authId,
-      message_id: uuidv4(),
+      message_id: messageId,
       content: input.content,
+      image_paths: imagePaths,
       sent_at: new Date().toISOString(),
     },
   };
@@ -63,7 +80,11 @@ export async function sendMessage(
 
   const { data, error } = (await supabase
     .from('messages')
-    .insert({ ...toMessageRow(input), id: messageEvent.payload.message_id })
+    .insert({
+      ...toMessageRow(input),
+      id: messageId,
+      image_paths: imagePaths,
+    })
     .select('*')
     .single()) as {
     data: MessageRow;
@@ -71,12 +92,19 @@ export async function sendMessage(
   };
 
   if (error) {
+    await discardCommittedImages({
+      supabase,
+      imageUrls: imagePaths,
+      entityType: 'message',
+      entityId: messageId,
+    });
+
     logger.error('Database error while sending message', {
       error,
       conversationId: input.conversationId,
       communityId: input.communityId,
     });
-    throw error;
+    throw toPlayerPowerError(error) ?? error;
   }
 
   if (!data) {
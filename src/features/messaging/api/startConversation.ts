@@ -3,6 +3,7 @@ import { Database } from '../../../shared/types/database';
 import { Conversation, StartConversationInput } from '../types';
 import { logger } from '../../../shared';
 import { fetchDirectConversation } from './fetchDirectConversation';
+import { toPlayerPowerError } from '../../trust-scores/errors';
 
 export async function startConversation(
   supabase: SupabaseClient<Database>,
@@ -17,7 +18,7 @@ export async function startConversation(
 
   if (error) {
     logger.error('Error starting conversation', { error });
-    throw error;
+    throw toPlayerPowerError(error) ?? error;
   }
 
   if (!data) {
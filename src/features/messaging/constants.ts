@@ -0,0 +1,17 @@
+/** Default number of messages fetched per page of chat history */
+export const MESSAGE_PAGE_SIZE = 50;
+
+/** Lifetime of signed URLs for message images, in seconds */
+export const MESSAGE_IMAGE_URL_TTL_SECONDS = 60 * 60;
+
+/** Minimum interval between typing broadcasts from one user, in milliseconds */
+export const TYPING_THROTTLE_MS = 2000;
+
+/** How long a user shows as typing after their last typing broadcast, in milliseconds */
+export const TYPING_TIMEOUT_MS = 5000;
+
+/**
+ * Delay before acknowledging delivery of a realtime message, in milliseconds.
+ * Senders broadcast before inserting, so the row may not exist straight away.
+ */
+export const DELIVERY_RECEIPT_DELAY_MS = 1000;
@@ -2,6 +2,7 @@ export * from './useConversations';
 export * from './useCommunityChats';
 export * from './useMessages';
 export * from './useSendMessage';
+export * from './useMessageImageUrls';
 export * from './useMarkConversationAsRead';
 export * from './useMarkChatAsRead';
 export * from './useStartConversation';
@@ -9,8 +10,12 @@ export * from './useDeleteMessage';
 export * from './useBlockUser';
 export * from './useUnblockUser';
 export * from './useReportMessage';
+export * from './usePendingMessageReports';
+export * from './useReviewMessageReport';
 export * from './useConversation';
 export * from './useCommunityMessages';
 export * from './useMessageUnreadCount';
 export * from './useCommunityUnreadCount';
 export * from './useRealtimeMessaging';
+export * from './useTypingIndicator';
+export * from './usePresence';
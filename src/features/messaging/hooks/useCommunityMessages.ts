@@ -1,31 +1,40 @@
-import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  UseInfiniteQueryOptions,
+} from '@tanstack/react-query';
 import { useSupabase, logger } from '@/shared';
 import { fetchMessages } from '../api';
 import { communityChatKeys } from '../queries';
 import { useCurrentUser } from '@/features/auth';
 import { STANDARD_CACHE_TIME } from '@/config';
-import type { Message } from '@/features/messaging/types';
+import type { MessagePage } from '@/features/messaging/types';
 
 /**
- * Hook for fetching community chat messages.
+ * Hook for paging through community chat messages.
  *
- * Directly fetches messages by community_id.
+ * Directly fetches messages by community_id. The first page holds the most
+ * recent messages; `fetchNextPage` loads older history.
  *
  * @param communityId - The community ID to fetch messages for
  * @param options - Optional React Query options
- * @returns Query state for community messages
+ * @returns Infinite query state; use `flattenMessagePages` to list the loaded messages oldest first
  *
  * @example
  * ```tsx
  * function CommunityMessageList({ communityId }) {
- *   const { data: messages, isLoading, error } = useCommunityMessages(communityId);
+ *   const { data, isLoading, error, fetchNextPage, hasNextPage } =
+ *     useCommunityMessages(communityId);
  *
  *   if (isLoading) return <div>Loading messages...</div>;
  *   if (error) return <div>Error: {error.message}</div>;
  *
  *   return (
  *     <div>
- *       {messages?.map(message => (
+ *       {hasNextPage && (
+ *         <button onClick={() => fetchNextPage()}>Load older</button>
+ *       )}
+ *       {flattenMessagePages(data).map(message => (
  *         <div key={message.id}>
  *           <strong>{message.sender.displayName}</strong>: {message.content}
  *         </div>
@@ -37,19 +46,36 @@ import type { Message } from '@/features/messaging/types';
  */
 export function useCommunityMessages(
   communityId: string,
-  options?: Partial<UseQueryOptions<Message[], Error>>,
+  options?: Partial<
+    UseInfiniteQueryOptions<
+      MessagePage,
+      Error,
+      InfiniteData<MessagePage, string | undefined>,
+      readonly unknown[],
+      string | undefined
+    >
+  >,
 ) {
   const supabase = useSupabase();
   const { data: currentUser } = useCurrentUser();
 
-  const query = useQuery<Message[], Error>({
+  const query = useInfiniteQuery<
+    MessagePage,
+    Error,
+    InfiniteData<MessagePage, string | undefined>,
+    readonly unknown[],
+    string | undefined
+  >({
     queryKey: communityChatKeys.messages(communityId),
-    queryFn: () => {
+    queryFn: ({ pageParam }) => {
       if (!currentUser) {
         throw new Error('User not authenticated');
       }
-      return fetchMessages(supabase, { communityId });
+      return fetchMessages(supabase, { communityId }, { before: pageParam });
     },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.hasMore ? lastPage.nextCursor : undefined,
     enabled: !!supabase && !!currentUser && !!communityId,
     staleTime: STANDARD_CACHE_TIME,
     ...options,
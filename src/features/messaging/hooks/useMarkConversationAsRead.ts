@@ -14,7 +14,7 @@ export function useMarkAsRead() {
       if (!currentUser) {
         throw new Error('User must be authenticated');
       }
-      return markAsRead(client, currentUser.id, conversationId);
+      return markAsRead(client, conversationId);
     },
     onSuccess: (_, conversationId) => {
       // Invalidate conversation to update unread count
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { fetchMessageImageUrls } from '../api/fetchMessageImageUrls';
+import { messageKeys } from '../queries';
+import { MESSAGE_IMAGE_URL_TTL_SECONDS } from '../constants';
+import type { Message } from '../types';
+
+/**
+ * Hook for displayable URLs of a message's images.
+ *
+ * Signed URLs expire, so they are refetched well before they lapse.
+ *
+ * @param message - The message whose images to show
+ * @returns Query state for the signed image URLs
+ *
+ * @example
+ * ```tsx
+ * function MessageImages({ message }) {
+ *   const { data: imageUrls = [] } = useMessageImageUrls(message);
+ *
+ *   return imageUrls.map((url) => <img key={url} src={url} />);
+ * }
+ * ```
+ */
+export function useMessageImageUrls(message: Message) {
+  const supabase = useSupabase();
+  const refreshMs = (MESSAGE_IMAGE_URL_TTL_SECONDS * 1000) / 2;
+
+  return useQuery({
+    queryKey: messageKeys.imageUrls(message.id),
+    queryFn: () => fetchMessageImageUrls(supabase, message.imagePaths),
+    enabled: message.imagePaths.length > 0,
+    staleTime: refreshMs,
+    refetchInterval: refreshMs,
+  });
+}
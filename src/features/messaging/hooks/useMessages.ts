@@ -1,30 +1,40 @@
-import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  UseInfiniteQueryOptions,
+} from '@tanstack/react-query';
 import { useSupabase, logger } from '@/shared';
 import { fetchMessages } from '../api';
-import { Message } from '../types';
+import { MessagePage } from '../types';
 import { conversationKeys } from '../queries';
 import { STANDARD_CACHE_TIME } from '@/config';
 
 /**
- * Hook for fetching messages for a conversation.
+ * Hook for paging through the messages of a conversation.
  *
- * Real-time updates are handled by MessageRealtimeProvider.
+ * The first page holds the most recent messages; `fetchNextPage` loads older
+ * history. Real-time updates are handled by MessageRealtimeProvider and are
+ * merged into the newest page.
  *
  * @param conversationId - The conversation ID to fetch messages for
  * @param options - Optional React Query options
- * @returns Query state for messages
+ * @returns Infinite query state; use `flattenMessagePages` to list the loaded messages oldest first
  *
  * @example
  * ```tsx
  * function MessageList({ conversationId }) {
- *   const { data: messages, isLoading, error } = useMessages(conversationId);
+ *   const { data, isLoading, error, fetchNextPage, hasNextPage } =
+ *     useMessages(conversationId);
  *
  *   if (isLoading) return <div>Loading messages...</div>;
  *   if (error) return <div>Error: {error.message}</div>;
  *
  *   return (
  *     <div>
- *       {messages?.map(message => (
+ *       {hasNextPage && (
+ *         <button onClick={() => fetchNextPage()}>Load older</button>
+ *       )}
+ *       {flattenMessagePages(data).map(message => (
  *         <MessageBubble key={message.id} message={message} />
  *       ))}
  *     </div>
@@ -34,13 +44,31 @@ import { STANDARD_CACHE_TIME } from '@/config';
  */
 export function useMessages(
   conversationId: string,
-  options?: Partial<UseQueryOptions<Message[], Error>>,
+  options?: Partial<
+    UseInfiniteQueryOptions<
+      MessagePage,
+      Error,
+      InfiniteData<MessagePage, string | undefined>,
+      readonly unknown[],
+      string | undefined
+    >
+  >,
 ) {
   const supabase = useSupabase();
 
-  const query = useQuery<Message[], Error>({
+  const query = useInfiniteQuery<
+    MessagePage,
+    Error,
+    InfiniteData<MessagePage, string | undefined>,
+    readonly unknown[],
+    string | undefined
+  >({
     queryKey: conversationKeys.messages(conversationId),
-    queryFn: () => fetchMessages(supabase, { conversationId }),
+    queryFn: ({ pageParam }) =>
+      fetchMessages(supabase, { conversationId }, { before: pageParam }),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.hasMore ? lastPage.nextCursor : undefined,
     staleTime: STANDARD_CACHE_TIME,
     enabled: !!conversationId,
     ...options,
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSupabase } from '../../../shared/hooks';
+import { fetchPendingMessageReports } from '../api';
+import { messageReportKeys } from '../queries';
+import { SHORT_CACHE_TIME } from '@/config';
+
+/**
+ * Hook for an organizer's review queue of pending message reports.
+ *
+ * @param communityId - The community whose reports to fetch
+ * @returns Query state for the pending reports, oldest first
+ */
+export function usePendingMessageReports(communityId: string) {
+  const client = useSupabase();
+
+  return useQuery({
+    queryKey: messageReportKeys.pending(communityId),
+    queryFn: () => fetchPendingMessageReports(client, communityId),
+    enabled: !!communityId,
+    staleTime: SHORT_CACHE_TIME,
+  });
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useCurrentUser } from '@/features/auth';
+import { useSupabase } from '@/shared';
+import { createPresenceSubscription } from '../api';
+import { useResilientChannel } from './useResilientChannel';
+import type { ChannelStatusCallback } from './useResilientChannel';
+import type { OnlineUser } from '../types';
+
+/**
+ * Hook for the members of a community who are currently online.
+ *
+ * The current user is shown as online to the other members for as long as
+ * the hook is mounted.
+ *
+ * @param communityId - The ID of the community
+ * @returns The online users, including the current user
+ *
+ * @example
+ * ```tsx
+ * function OnlineMembers({ communityId }: { communityId: string }) {
+ *   const { onlineUsers } = usePresence(communityId);
+ *
+ *   return <div>{onlineUsers.length} members online</div>;
+ * }
+ * ```
+ */
+export function usePresence(
+  communityId: string,
+  options?: {
+    onStatusChange?: (status: string, isConnecting: boolean) => void;
+  },
+) {
+  const supabase = useSupabase();
+  const { data: currentUser } = useCurrentUser();
+  const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
+  const userId = currentUser?.id;
+
+  const createChannel = useCallback(
+    (onChannelStatus: ChannelStatusCallback) =>
+      createPresenceSubscription({
+        supabase,
+        communityId,
+        userId: userId!,
+        onSync: setOnlineUsers,
+        onStatusChange: onChannelStatus,
+      }),
+    [supabase, communityId, userId],
+  );
+
+  useResilientChannel({
+    label: 'presence subscription',
+    createChannel,
+    onStatusChange: options?.onStatusChange,
+    enabled: !!userId,
+  });
+
+  // Forget who was online when switching communities or unmounting
+  useEffect(() => {
+    return () => setOnlineUsers([]);
+  }, [communityId]);
+
+  const isOnline = useCallback(
+    (memberId: string) => onlineUsers.some((user) => user.userId === memberId),
+    [onlineUsers],
+  );
+
+  return { onlineUsers, isOnline };
+}
@@ -1,12 +1,19 @@
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSupabase } from '../../../shared/hooks';
 import { reportMessage } from '../api';
+import { messageReportKeys } from '../queries';
 import { ReportMessageInput } from '../types';
 
 export function useReportMessage() {
   const client = useSupabase();
+  const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: (input: ReportMessageInput) => reportMessage(client, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: messageReportKeys.all,
+      });
+    },
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '../../../shared/hooks';
+import { reviewMessageReport } from '../api';
+import { communityChatKeys, messageReportKeys } from '../queries';
+import { ReviewMessageReportInput } from '../types';
+
+export function useReviewMessageReport() {
+  const client = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ReviewMessageReportInput) =>
+      reviewMessageReport(client, input),
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({
+        queryKey: messageReportKeys.all,
+      });
+
+      // Approved reports hide the message from the community chat
+      if (report.status === 'approved' && report.communityId) {
+        queryClient.invalidateQueries({
+          queryKey: communityChatKeys.messages(report.communityId),
+        });
+        queryClient.invalidateQueries({
+          queryKey: communityChatKeys.list(),
+          exact: true,
+        });
+      }
+    },
+  });
+}
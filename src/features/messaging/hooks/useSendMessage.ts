@@ -3,28 +3,64 @@ import { useCurrentUser } from '@/features/auth';
 import { sendMessage } from '../api';
 import { SendMessageInput, Message } from '../types';
 import { logger } from '../../../shared';
-import { useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { conversationKeys, communityChatKeys } from '../queries';
+import {
+  addMessageToPages,
+  MessagePagesData,
+  removeMessageFromPages,
+} from '../utils';
+import { offlineMutationOptions } from '../../offline/mutations';
+import { v4 as uuidv4 } from 'uuid';
+
+const messagesKeyFor = (input: SendMessageInput) =>
+  input.conversationId
+    ? conversationKeys.messages(input.conversationId)
+    : communityChatKeys.messages(input.communityId!);
 
 export function useSendMessage() {
   const client = useSupabase();
   const { data: currentUser } = useCurrentUser();
   const queryClient = useQueryClient();
 
-  const mutate = async (input: SendMessageInput): Promise<Message> => {
-    if (!currentUser) {
-      throw new Error('User must be authenticated to send messages');
-    }
+  // Queued while offline; the optimistic message shows until it is sent
+  const mutation = useMutation<
+    Message,
+    Error,
+    SendMessageInput,
+    { optimisticMessageId: string }
+  >({
+    ...offlineMutationOptions('sendMessage'),
+    mutationFn: (input) => sendMessage(client, currentUser!.id, input),
+    onMutate: async (input) => {
+      const messagesKey = messagesKeyFor(input);
+      await queryClient.cancelQueries({ queryKey: messagesKey });
 
-    logger.info('useSendMessage: initiating message send', {
-      conversationId: input.conversationId,
-      communityId: input.communityId,
-      hasContent: !!input.content,
-    });
+      const now = new Date();
+      const optimisticMessage: Message = {
+        id: `optimistic-${uuidv4()}`,
+        conversationId: input.conversationId,
+        communityId: input.communityId,
+        senderId: currentUser!.id,
+        content: input.content,
+        imagePaths: [],
+        isEdited: false,
+        isDeleted: false,
+        encryptionVersion: 1,
+        receiptStatus: input.conversationId ? 'sent' : undefined,
+        createdAt: now,
+        updatedAt: now,
+      };
 
-    try {
-      const result = await sendMessage(client, currentUser.id, input);
+      queryClient.setQueryData(
+        messagesKey,
+        (oldData: MessagePagesData | undefined) =>
+          addMessageToPages(oldData, optimisticMessage),
+      );
 
+      return { optimisticMessageId: optimisticMessage.id };
+    },
+    onSuccess: (result, input, context) => {
       logger.info('useSendMessage: message sent successfully', {
         messageId: result.id,
         conversationId: result.conversationId,
@@ -32,15 +68,14 @@ export function useSendMessage() {
         senderId: result.senderId,
       });
 
-      // Add message to message list
+      // Swap the optimistic message for the stored one
       queryClient.setQueryData(
-        input.conversationId
-          ? conversationKeys.messages(input.conversationId)
-          : communityChatKeys.messages(input.communityId!),
-        (oldData: Message[] | undefined) => {
-          if (!oldData) return [result];
-          return [...oldData, result];
-        },
+        messagesKeyFor(input),
+        (oldData: MessagePagesData | undefined) =>
+          addMessageToPages(
+            removeMessageFromPages(oldData, context.optimisticMessageId),
+            result,
+          ),
       );
 
       // Invalidate conversations list to update last message
@@ -53,16 +88,36 @@ export function useSendMessage() {
           queryKey: communityChatKeys.list(),
         });
       }
-
-      return result;
-    } catch (error) {
+    },
+    onError: (error, input, context) => {
       logger.error('useSendMessage: failed to send message', {
         error,
         conversationId: input.conversationId,
         communityId: input.communityId,
       });
-      throw error;
+
+      if (context) {
+        queryClient.setQueryData(
+          messagesKeyFor(input),
+          (oldData: MessagePagesData | undefined) =>
+            removeMessageFromPages(oldData, context.optimisticMessageId),
+        );
+      }
+    },
+  });
+
+  const mutate = async (input: SendMessageInput): Promise<Message> => {
+    if (!currentUser) {
+      throw new Error('User must be authenticated to send messages');
     }
+
+    logger.info('useSendMessage: initiating message send', {
+      conversationId: input.conversationId,
+      communityId: input.communityId,
+      hasContent: !!input.content,
+    });
+
+    return mutation.mutateAsync(input);
   };
 
   return { mutate };
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCurrentUser } from '@/features/auth';
+import { useSupabase } from '@/shared';
+import { createTypingSubscription, sendTypingEvent } from '../api';
+import { TYPING_THROTTLE_MS, TYPING_TIMEOUT_MS } from '../constants';
+import { useResilientChannel } from './useResilientChannel';
+import type { ChannelStatusCallback } from './useResilientChannel';
+
+/**
+ * Hook for typing indicators in a conversation or community chat.
+ *
+ * Typing broadcasts are throttled to one per TYPING_THROTTLE_MS, and other
+ * users stop showing as typing TYPING_TIMEOUT_MS after their last broadcast
+ * in case their stop event is lost.
+ *
+ * @param communityId - The ID of the community chat (mutually exclusive with conversationId)
+ * @param conversationId - The ID of the conversation (mutually exclusive with communityId)
+ * @returns IDs of other users who are typing, and callbacks to report the current user's typing
+ *
+ * @example
+ * ```tsx
+ * function MessageComposer({ conversationId }: { conversationId: string }) {
+ *   const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator({
+ *     conversationId,
+ *   });
+ *
+ *   return (
+ *     <div>
+ *       {typingUserIds.length > 0 && <div>Someone is typing...</div>}
+ *       <textarea onChange={notifyTyping} onBlur={stopTyping} />
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useTypingIndicator({
+  communityId,
+  conversationId,
+  onStatusChange,
+}: {
+  communityId?: string;
+  conversationId?: string;
+  onStatusChange?: (status: string, isConnecting: boolean) => void;
+}) {
+  const supabase = useSupabase();
+  const { data: currentUser } = useCurrentUser();
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const expiryTimeoutsRef = useRef(new Map<string, NodeJS.Timeout>());
+  const lastSentAtRef = useRef(0);
+
+  // Validate: exactly one must be provided
+  if ((!conversationId && !communityId) || (conversationId && communityId)) {
+    throw new Error('Provide either conversationId or communityId, not both');
+  }
+
+  const clearExpiry = useCallback((userId: string) => {
+    const timeout = expiryTimeoutsRef.current.get(userId);
+    if (timeout) {
+      clearTimeout(timeout);
+      expiryTimeoutsRef.current.delete(userId);
+    }
+  }, []);
+
+  const handleTyping = useCallback(
+    (userId: string, isTyping: boolean) => {
+      clearExpiry(userId);
+
+      if (!isTyping) {
+        setTypingUserIds((prev) => prev.filter((id) => id !== userId));
+        return;
+      }
+
+      setTypingUserIds((prev) =>
+        prev.includes(userId) ? prev : [...prev, userId],
+      );
+      expiryTimeoutsRef.current.set(
+        userId,
+        setTimeout(() => handleTyping(userId, false), TYPING_TIMEOUT_MS),
+      );
+    },
+    [clearExpiry],
+  );
+
+  const createChannel = useCallback(
+    (onChannelStatus: ChannelStatusCallback) =>
+      createTypingSubscription({
+        supabase,
+        communityId,
+        conversationId,
+        onTyping: handleTyping,
+        onStatusChange: onChannelStatus,
+      }),
+    [supabase, communityId, conversationId, handleTyping],
+  );
+
+  const channelRef = useResilientChannel({
+    label: 'typing subscription',
+    createChannel,
+    onStatusChange,
+  });
+
+  // Forget typing users when switching chats or unmounting
+  useEffect(() => {
+    const expiryTimeouts = expiryTimeoutsRef.current;
+    return () => {
+      expiryTimeouts.forEach((timeout) => clearTimeout(timeout));
+      expiryTimeouts.clear();
+      setTypingUserIds([]);
+      lastSentAtRef.current = 0;
+    };
+  }, [communityId, conversationId]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (
+      !channelRef.current ||
+      !currentUser ||
+      now - lastSentAtRef.current < TYPING_THROTTLE_MS
+    ) {
+      return;
+    }
+
+    lastSentAtRef.current = now;
+    void sendTypingEvent(channelRef.current, currentUser.id, true);
+  }, [channelRef, currentUser]);
+
+  const stopTyping = useCallback(() => {
+    if (!channelRef.current || !currentUser || lastSentAtRef.current === 0) {
+      return;
+    }
+
+    lastSentAtRef.current = 0;
+    void sendTypingEvent(channelRef.current, currentUser.id, false);
+  }, [channelRef, currentUser]);
+
+  return { typingUserIds, notifyTyping, stopTyping };
+}
@@ -1,2 +1,5 @@
 export * from './types';
 export * from './hooks';
+export * from './constants';
+export { flattenMessagePages } from './utils';
+export type { MessagePagesData } from './utils';
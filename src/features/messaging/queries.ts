@@ -28,4 +28,12 @@ export const messageKeys = {
   all: ['messages'] as const,
   lists: () => [...messageKeys.all, 'list'] as const,
   blockedUsers: () => [...messageKeys.all, 'blocked-users'] as const,
+  imageUrls: (messageId: string) =>
+    [...messageKeys.all, 'image-urls', messageId] as const,
+} as const;
+
+export const messageReportKeys = {
+  all: ['message-reports'] as const,
+  pending: (communityId: string) =>
+    [...messageReportKeys.all, 'pending', communityId] as const,
 } as const;
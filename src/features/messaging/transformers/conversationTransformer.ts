@@ -14,6 +14,7 @@ export function toDomainConversation(
     const lastMessage = row.last_message_id ? {
       id: row.last_message_id,
       content: row.last_message_content || '',
+      imagePaths: [],
       senderId: row.last_message_sender_id!,
       createdAt: new Date(row.last_message_created_at!),
       updatedAt: new Date(row.last_message_updated_at!),
@@ -1,2 +1,3 @@
 export * from './conversationTransformer';
-export * from './messageTransformer';
\ No newline at end of file
+export * from './messageTransformer';
+export * from './messageReportTransformer';
@@ -0,0 +1,45 @@
+import {
+  MessageReport,
+  MessageReportWithMessage,
+  ReportMessageInput,
+} from '../types';
+import {
+  MessageReportInsert,
+  MessageReportRow,
+  MessageReportRowWithMessage,
+} from '../types/messageRow';
+import { toDomainMessage } from './messageTransformer';
+
+export function toDomainMessageReport(row: MessageReportRow): MessageReport {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    reporterId: row.reporter_id,
+    communityId: row.community_id,
+    reason: row.reason,
+    details: row.details ?? undefined,
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null,
+    reviewedBy: row.reviewed_by,
+  };
+}
+
+export function toDomainMessageReportWithMessage(
+  row: MessageReportRowWithMessage,
+): MessageReportWithMessage {
+  return {
+    ...toDomainMessageReport(row),
+    message: toDomainMessage(row.messages),
+  };
+}
+
+export function toMessageReportRow(
+  input: ReportMessageInput,
+): MessageReportInsert {
+  return {
+    message_id: input.messageId,
+    reason: input.reason,
+    details: input.details ?? null,
+  };
+}
@@ -8,9 +8,11 @@ export function toDomainMessage(row: MessageRow): Message {
     communityId: row.community_id,
     senderId: row.sender_id,
     content: row.content,
+    imagePaths: row.image_paths ?? [],
     isEdited: row.is_edited,
     isDeleted: row.is_deleted,
     encryptionVersion: row.encryption_version,
+    receiptStatus: row.conversation_id ? 'sent' : undefined,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
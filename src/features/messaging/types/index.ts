@@ -1,2 +1,3 @@
 export * from './conversation';
 export * from './message';
+export * from './presence';
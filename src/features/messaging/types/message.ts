@@ -4,13 +4,47 @@ export interface Message {
   communityId?: string | null;
   senderId: string;
   content: string;
+  /** Storage paths of attached images; read them through signed URLs */
+  imagePaths: string[];
   isEdited: boolean;
   isDeleted: boolean;
   encryptionVersion: number;
+  /** Direct conversations only: how far the other participant has got with the message */
+  receiptStatus?: MessageReceiptStatus;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type MessageReceiptStatus = 'sent' | 'delivered' | 'read';
+
+/**
+ * How far a conversation participant has got with the messages sent to them,
+ * as the creation time of the latest delivered and read message
+ */
+export interface ParticipantReceipt {
+  userId: string;
+  deliveredUpTo?: Date;
+  readUpTo?: Date;
+}
+
+/**
+ * One page of chat history. Messages within a page are oldest first; each
+ * subsequent page holds older messages than the one before it.
+ */
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+  /** Cursor for the next (older) page, when one exists */
+  nextCursor?: string;
+}
+
+export interface MessagePageParams {
+  /** Opaque cursor returned as `nextCursor`; only older messages are returned */
+  before?: string;
+  /** Maximum number of messages to return (defaults to MESSAGE_PAGE_SIZE) */
+  limit?: number;
+}
+
 export interface RealtimeBroadcastMessage {
   type: 'broadcast';
   event: string;
@@ -21,6 +55,7 @@ export interface MessagePayload {
   sender_id: string;
   message_id: string;
   content: string;
+  image_paths?: string[];
   sent_at: string;
 }
 
@@ -28,6 +63,8 @@ export interface SendMessageInput {
   conversationId?: string;
   communityId?: string;
   content: string;
+  /** Temporary upload URLs from uploadImage, committed when the message is sent */
+  imageUrls?: string[];
 }
 
 export interface EditMessageInput {
@@ -49,6 +86,8 @@ export interface MessageReport {
   id: string;
   messageId: string;
   reporterId: string;
+  /** Community of the reported message; null for direct conversation messages */
+  communityId?: string | null;
   reason: MessageReportReason;
   details?: string;
   status: MessageReportStatus;
@@ -65,6 +104,20 @@ export type MessageReportReason =
 
 export type MessageReportStatus = 'pending' | 'approved' | 'rejected';
 
+/**
+ * A report together with the reported message, as shown in an organizer's
+ * review queue.
+ */
+export interface MessageReportWithMessage extends MessageReport {
+  message: Message;
+}
+
+export interface ReviewMessageReportInput {
+  reportId: string;
+  /** Approving hides the message from the community chat */
+  status: Exclude<MessageReportStatus, 'pending'>;
+}
+
 export interface DeleteMessageInput {
   messageId: string;
 }
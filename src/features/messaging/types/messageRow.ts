@@ -53,6 +53,17 @@ export type ConversationParticipantInsert =
 export type ConversationParticipantUpdate =
   Database['public']['Tables']['conversation_participants']['Update'];
 
+export const SELECT_MESSAGE_REPORTS_JOIN_MESSAGE = `*, messages!inner(*)`;
+
+export type MessageReportRow =
+  Database['public']['Tables']['message_reports']['Row'];
+export type MessageReportInsert =
+  Database['public']['Tables']['message_reports']['Insert'];
+
+export type MessageReportRowWithMessage = MessageReportRow & {
+  messages: MessageRow;
+};
+
 export type BlockedUserInsert =
   Database['public']['Tables']['blocked_users']['Insert'];
 
@@ -0,0 +1,15 @@
+export interface TypingPayload {
+  user_id: string;
+  is_typing: boolean;
+}
+
+export interface PresencePayload {
+  user_id: string;
+  online_at: string;
+}
+
+export interface OnlineUser {
+  userId: string;
+  /** When the user's earliest open session came online */
+  onlineAt: Date;
+}
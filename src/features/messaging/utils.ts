@@ -1,8 +1,187 @@
+import type { InfiniteData } from '@tanstack/react-query';
+import type { RealtimePresenceState } from '@supabase/supabase-js';
+import type {
+  Message,
+  MessagePage,
+  MessageReceiptStatus,
+  OnlineUser,
+  ParticipantReceipt,
+  PresencePayload,
+} from './types';
+
 export const messagesChannelForConversation = (conversationId: string) =>
   `conversation:${conversationId}:messages`;
 
 export const messagesChannelForCommunity = (communityId: string) =>
   `community:${communityId}:messages`;
 
+export const typingChannelForConversation = (conversationId: string) =>
+  `conversation:${conversationId}:typing`;
+
+export const typingChannelForCommunity = (communityId: string) =>
+  `community:${communityId}:typing`;
+
+export const presenceChannelForCommunity = (communityId: string) =>
+  `community:${communityId}:presence`;
+
 export const notificationChannelForUser = (userId: string) =>
   `user:${userId}:notifications`;
+
+export type MessagePagesData = InfiniteData<MessagePage, string | undefined>;
+
+/**
+ * Returns the loaded messages of a paged history, oldest first
+ */
+export function flattenMessagePages(data?: MessagePagesData): Message[] {
+  if (!data) return [];
+
+  return [...data.pages].reverse().flatMap((page) => page.messages);
+}
+
+/**
+ * Adds a new message to the newest page of cached history.
+ *
+ * Returns undefined when the history has not been loaded yet, so that a
+ * realtime event never creates a partial cache entry.
+ */
+export function addMessageToPages(
+  data: MessagePagesData | undefined,
+  message: Message,
+): MessagePagesData | undefined {
+  if (!data || data.pages.length === 0) return data;
+
+  const alreadyCached = data.pages.some((page) =>
+    page.messages.some((m) => m.id === message.id),
+  );
+  if (alreadyCached) return data;
+
+  const [newestPage, ...olderPages] = data.pages;
+
+  return {
+    ...data,
+    pages: [
+      { ...newestPage, messages: [...newestPage.messages, message] },
+      ...olderPages,
+    ],
+  };
+}
+
+/**
+ * Replaces a cached message wherever it appears in the paged history
+ */
+export function updateMessageInPages(
+  data: MessagePagesData | undefined,
+  message: Message,
+): MessagePagesData | undefined {
+  if (!data) return data;
+
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      messages: page.messages.map((m) =>
+        m.id === message.id
+          ? {
+              ...message,
+              receiptStatus: message.receiptStatus ?? m.receiptStatus,
+            }
+          : m,
+      ),
+    })),
+  };
+}
+
+/**
+ * Removes a cached message from the paged history
+ */
+export function removeMessageFromPages(
+  data: MessagePagesData | undefined,
+  messageId: string,
+): MessagePagesData | undefined {
+  if (!data) return data;
+
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      messages: page.messages.filter((m) => m.id !== messageId),
+    })),
+  };
+}
+
+const RECEIPT_STATUS_ORDER: MessageReceiptStatus[] = [
+  'sent',
+  'delivered',
+  'read',
+];
+
+/**
+ * Receipt status of a direct message: the furthest status that every other
+ * participant has reached
+ */
+export function receiptStatusForMessage(
+  message: Message,
+  receipts: ParticipantReceipt[],
+): MessageReceiptStatus {
+  const recipients = receipts.filter((r) => r.userId !== message.senderId);
+  const reached = (upTo?: Date) => !!upTo && upTo >= message.createdAt;
+
+  if (recipients.length === 0) return 'sent';
+  if (recipients.every((r) => reached(r.readUpTo))) return 'read';
+  if (
+    recipients.every((r) => reached(r.deliveredUpTo) || reached(r.readUpTo))
+  ) {
+    return 'delivered';
+  }
+  return 'sent';
+}
+
+/**
+ * Applies a participant's new receipt to the messages sent to them in the
+ * paged history. Statuses only move forward.
+ */
+export function applyReceiptToPages(
+  data: MessagePagesData | undefined,
+  receipt: { userId: string; status: MessageReceiptStatus; upTo: Date },
+): MessagePagesData | undefined {
+  if (!data) return data;
+
+  const rank = (status?: MessageReceiptStatus) =>
+    status ? RECEIPT_STATUS_ORDER.indexOf(status) : -1;
+
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      messages: page.messages.map((m) =>
+        m.senderId !== receipt.userId &&
+        m.createdAt <= receipt.upTo &&
+        rank(m.receiptStatus) < rank(receipt.status)
+          ? { ...m, receiptStatus: receipt.status }
+          : m,
+      ),
+    })),
+  };
+}
+
+/**
+ * Returns one entry per user from a presence state, keeping the earliest
+ * online time when a user is connected from several tabs or devices
+ */
+export function onlineUsersFromPresenceState(
+  state: RealtimePresenceState<PresencePayload>,
+): OnlineUser[] {
+  const users = new Map<string, OnlineUser>();
+
+  for (const presences of Object.values(state)) {
+    for (const presence of presences) {
+      const onlineAt = new Date(presence.online_at);
+      const existing = users.get(presence.user_id);
+      if (!existing || onlineAt < existing.onlineAt) {
+        users.set(presence.user_id, { userId: presence.user_id, onlineAt });
+      }
+    }
+  }
+
+  return [...users.values()];
+}
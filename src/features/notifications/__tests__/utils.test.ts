@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatGroupActors,
+  groupNotifications,
+  mergeNotifications,
+  setNotificationReadAt,
+} from '../utils';
+import type { NotificationDetail } from '../types/notificationDetail';
+
+const createNotification = (
+  id: string,
+  createdAt: string,
+  readAt: Date | null = null,
+) =>
+  ({
+    id,
+    action: 'resource.commented',
+    readAt,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+  }) as NotificationDetail;
+
+describe('mergeNotifications', () => {
+  const older = createNotification('older', '2025-11-01T10:00:00Z');
+  const newer = createNotification('newer', '2025-11-02T10:00:00Z');
+
+  it('should keep the list newest first', () => {
+    expect(mergeNotifications([older], [newer])).toEqual([newer, older]);
+    expect(mergeNotifications([newer], [older])).toEqual([newer, older]);
+  });
+
+  it('should replace cached notifications with incoming ones', () => {
+    const read = { ...older, readAt: new Date('2025-11-03T10:00:00Z') };
+
+    expect(mergeNotifications([newer, older], [read])).toEqual([newer, read]);
+  });
+});
+
+describe('setNotificationReadAt', () => {
+  const notification = createNotification('n1', '2025-11-01T10:00:00Z');
+  const readAt = new Date('2025-11-03T10:00:00Z');
+
+  it('should set the read time of a cached notification', () => {
+    const result = setNotificationReadAt([notification], 'n1', readAt);
+
+    expect(result[0].readAt).toEqual(readAt);
+  });
+
+  it('should return the same list when nothing changes', () => {
+    const read = [{ ...notification, readAt }];
+
+    expect(setNotificationReadAt(read, 'n1', new Date(readAt))).toBe(read);
+    expect(setNotificationReadAt(read, 'missing', null)).toBe(read);
+  });
+});
+
+describe('groupNotifications', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  const comment = (
+    id: string,
+    createdAt: string,
+    actorId: string,
+    overrides: Partial<NotificationDetail> = {},
+  ) =>
+    ({
+      ...createNotification(id, createdAt),
+      resourceId: 'resource-1',
+      actorId,
+      actorName: actorId.toUpperCase(),
+      ...overrides,
+    }) as NotificationDetail;
+
+  it('should collapse the same action on the same target', () => {
+    const groups = groupNotifications([
+      comment('n1', '2025-11-01T10:00:00Z', 'alex'),
+      comment('n2', '2025-11-01T11:00:00Z', 'sam'),
+      comment('n3', '2025-11-01T12:00:00Z', 'alex'),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({
+      id: 'n3',
+      action: 'resource.commented',
+      resourceId: 'resource-1',
+      notificationIds: ['n3', 'n2', 'n1'],
+      count: 3,
+      actorCount: 2,
+      unreadCount: 3,
+      readAt: null,
+    });
+    expect(groups[0].actors.map((a) => a.id)).toEqual(['alex', 'sam']);
+  });
+
+  it('should keep different actions and targets apart', () => {
+    const groups = groupNotifications([
+      comment('n1', '2025-11-01T10:00:00Z', 'alex'),
+      comment('n2', '2025-11-01T11:00:00Z', 'sam', {
+        resourceId: 'resource-2',
+      }),
+      comment('n3', '2025-11-01T12:00:00Z', 'kim', {
+        action: 'claim.created',
+      }),
+      comment('n4', '2025-11-01T13:00:00Z', 'lee', {
+        action: 'shoutout.received',
+        resourceId: undefined,
+        shoutoutId: 'shoutout-1',
+      }),
+    ]);
+
+    expect(groups.map((g) => g.notificationIds)).toEqual([
+      ['n4'],
+      ['n3'],
+      ['n2'],
+      ['n1'],
+    ]);
+  });
+
+  it('should not group notifications without a target', () => {
+    const groups = groupNotifications([
+      comment('n1', '2025-11-01T10:00:00Z', 'alex', {
+        action: 'member.joined',
+        resourceId: undefined,
+      }),
+      comment('n2', '2025-11-01T11:00:00Z', 'sam', {
+        action: 'member.joined',
+        resourceId: undefined,
+      }),
+    ]);
+
+    expect(groups).toHaveLength(2);
+  });
+
+  it('should start a new group outside the window of the newest one', () => {
+    const groups = groupNotifications(
+      [
+        comment('n1', '2025-11-01T08:00:00Z', 'alex'),
+        comment('n2', '2025-11-01T10:00:00Z', 'sam'),
+        comment('n3', '2025-11-01T11:00:00Z', 'kim'),
+      ],
+      2 * HOUR,
+    );
+
+    expect(groups.map((g) => g.notificationIds)).toEqual([
+      ['n3', 'n2'],
+      ['n1'],
+    ]);
+  });
+
+  it('should only be read when every notification is read', () => {
+    const firstRead = new Date('2025-11-02T10:00:00Z');
+    const lastRead = new Date('2025-11-03T10:00:00Z');
+
+    const [partlyRead] = groupNotifications([
+      comment('n1', '2025-11-01T10:00:00Z', 'alex', { readAt: firstRead }),
+      comment('n2', '2025-11-01T11:00:00Z', 'sam'),
+    ]);
+    const [read] = groupNotifications([
+      comment('n1', '2025-11-01T10:00:00Z', 'alex', { readAt: lastRead }),
+      comment('n2', '2025-11-01T11:00:00Z', 'sam', { readAt: firstRead }),
+    ]);
+
+    expect(partlyRead).toMatchObject({ unreadCount: 1, readAt: null });
+    expect(read).toMatchObject({ unreadCount: 0, readAt: lastRead });
+  });
+});
+
+describe('formatGroupActors', () => {
+  const groupOf = (...names: (string | undefined)[]) =>
+    groupNotifications(
+      names.map(
+        (name, i) =>
+          ({
+            ...createNotification(`n${i}`, `2025-11-01T1${i}:00:00Z`),
+            resourceId: 'resource-1',
+            actorId: `actor-${i}`,
+            actorName: name,
+          }) as NotificationDetail,
+      ),
+    )[0];
+
+  it('should name one or two actors', () => {
+    expect(formatGroupActors(groupOf('Alex'))).toBe('Alex');
+    expect(formatGroupActors(groupOf('Sam', 'Alex'))).toBe('Alex and Sam');
+  });
+
+  it('should count the others beyond the most recent actor', () => {
+    expect(formatGroupActors(groupOf('A', 'B', 'C', 'D', 'Alex'))).toBe(
+      'Alex and 4 others',
+    );
+  });
+
+  it('should fall back for unknown actors', () => {
+    expect(formatGroupActors(groupOf(undefined))).toBe('Someone');
+  });
+});
@@ -0,0 +1,144 @@
+import type { QueryClient } from '@tanstack/react-query';
+import type {
+  RealtimeChannel,
+  RealtimePostgresInsertPayload,
+  RealtimePostgresUpdatePayload,
+  SupabaseClient,
+} from '@supabase/supabase-js';
+import { logger } from '@/shared/logger';
+import {
+  setRealtimeAuth,
+  subscribeWithStatus,
+} from '@/shared/utils/realtimeChannel';
+import type { Database } from '@/shared/types/database';
+import type { NotificationDetail } from '../types/notificationDetail';
+import type { NotificationRow } from '../types/notificationRow';
+import { fetchNotificationById } from './fetchNotifications';
+import { notificationKeys } from '../queries';
+import { ACTION_TYPES } from '../constants';
+import { trustScoreKeys } from '@/features/trust-scores/queries';
+import {
+  mergeNotifications,
+  notificationsChannelForUser,
+  setNotificationReadAt,
+} from '../utils';
+
+export interface CreateNotificationSubscriptionParams {
+  supabase: SupabaseClient<Database>;
+  queryClient: QueryClient;
+  userId: string;
+  onStatusChange?: (status: string, isConnecting: boolean) => void;
+}
+
+/**
+ * Creates a subscription for changes to the user's notifications.
+ *
+ * New notifications are added to the cached list and unread count, and read
+ * times are applied as they change. Level and role change notifications also
+ * refresh the user's trust scores and the actions they unlock. Each time the channel (re)subscribes, the
+ * notification queries are invalidated to catch up on anything missed while
+ * it was down.
+ */
+export async function createNotificationSubscription({
+  supabase,
+  queryClient,
+  userId,
+  onStatusChange,
+}: CreateNotificationSubscriptionParams): Promise<RealtimeChannel> {
+  const channelName = notificationsChannelForUser(userId);
+
+  logger.info('=== CREATING NOTIFICATION SUBSCRIPTION ===', channelName);
+
+  await setRealtimeAuth(supabase);
+
+  const filter = `user_id=eq.${userId}`;
+
+  const channel = supabase
+    .channel(channelName)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter },
+      async (payload: RealtimePostgresInsertPayload<NotificationRow>) => {
+        try {
+          const notification = await fetchNotificationById(
+            supabase,
+            userId,
+            payload.new.id,
+          );
+          if (!notification) return;
+
+          if (notification.action === ACTION_TYPES.TRUSTLEVEL_CHANGED) {
+            queryClient.invalidateQueries({
+              queryKey: trustScoreKeys.listByUser(userId),
+            });
+          } else if (
+            notification.action === ACTION_TYPES.MEMBER_ROLE_CHANGED
+          ) {
+            queryClient.invalidateQueries({
+              queryKey: trustScoreKeys.actionAccessByUser(userId),
+            });
+          }
+
+          const existing = queryClient.getQueryData<NotificationDetail[]>(
+            notificationKeys.list(),
+          );
+          const isNew = !existing?.some((n) => n.id === notification.id);
+
+          if (existing) {
+            queryClient.setQueryData<NotificationDetail[]>(
+              notificationKeys.list(),
+              mergeNotifications(existing, [notification]),
+            );
+          }
+
+          if (isNew && !notification.readAt) {
+            queryClient.setQueryData<number>(
+              notificationKeys.unreadCount(),
+              (count) => (count === undefined ? count : count + 1),
+            );
+          }
+        } catch (error) {
+          logger.error('Error handling new notification:', error);
+        }
+      },
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'notifications', filter },
+      (payload: RealtimePostgresUpdatePayload<NotificationRow>) => {
+        const existing = queryClient.getQueryData<NotificationDetail[]>(
+          notificationKeys.list(),
+        );
+        if (!existing) return;
+
+        const readAt = payload.new.read_at
+          ? new Date(payload.new.read_at)
+          : null;
+        const wasUnread =
+          existing.find((n) => n.id === payload.new.id)?.readAt === null;
+
+        const updated = setNotificationReadAt(existing, payload.new.id, readAt);
+        if (updated === existing) return;
+
+        queryClient.setQueryData<NotificationDetail[]>(
+          notificationKeys.list(),
+          updated,
+        );
+
+        // Read elsewhere, e.g. in another tab
+        if (wasUnread && readAt) {
+          queryClient.setQueryData<number>(
+            notificationKeys.unreadCount(),
+            (count) => (count === undefined ? count : Math.max(0, count - 1)),
+          );
+        }
+      },
+    );
+
+  return subscribeWithStatus(channel, channelName, onStatusChange, () => {
+    queryClient.invalidateQueries({ queryKey: notificationKeys.list() });
+    queryClient.invalidateQueries({
+      queryKey: notificationKeys.unreadCount(),
+    });
+  });
+}
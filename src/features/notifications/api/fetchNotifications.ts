@@ -53,3 +53,30 @@ export async function fetchNotifications(
 
   return data.map(toDomainNotification);
 }
+
+/**
+ * Fetch a single notification with its details, or null if the user has no
+ * notification with that id
+ */
+export async function fetchNotificationById(
+  client: SupabaseClient<Database>,
+  userId: string,
+  notificationId: string,
+): Promise<NotificationDetail | null> {
+  const { data, error } = await client
+    .from('notification_details')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('id', notificationId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Database error while fetching notification', {
+      error,
+      notificationId,
+    });
+    throw error;
+  }
+
+  return data ? toDomainNotification(data) : null;
+}
@@ -1,9 +1,13 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/shared/types/database';
 
+/**
+ * Marks notifications as read: a single notification, a list of them (such as
+ * the notificationIds of a NotificationGroup), or all of the user's
+ */
 export async function markAsRead(
   supabase: SupabaseClient<Database>,
-  notificationId: string | 'all',
+  notificationId: string | string[] | 'all',
 ): Promise<void> {
   const {
     data: { user },
@@ -19,6 +23,8 @@ export async function markAsRead(
 
   if (notificationId === 'all') {
     query.eq('user_id', user.id);
+  } else if (Array.isArray(notificationId)) {
+    query.in('id', notificationId);
   } else {
     query.eq('id', notificationId);
   }
@@ -15,6 +15,7 @@ export const ACTION_TYPES = {
   CLAIM_REJECTED: 'claim.rejected',
   CLAIM_CANCELLED: 'claim.cancelled',
   CLAIM_COMPLETED: 'claim.completed',
+  CLAIM_PROMOTED: 'claim.promoted',
 
   // Transaction Confirmation
   RESOURCE_GIVEN: 'resource.given',
@@ -35,6 +36,11 @@ export const ACTION_TYPES = {
   SHOUTOUT_RECEIVED: 'shoutout.received',
   MEMBER_JOINED: 'member.joined',
   MEMBER_LEFT: 'member.left',
+  MEMBER_ROLE_CHANGED: 'member.role_changed',
+  MEMBER_REMOVED: 'member.removed',
+  MEMBERSHIP_REQUESTED: 'membership.requested',
+  MEMBERSHIP_APPROVED: 'membership.approved',
+  MEMBERSHIP_REJECTED: 'membership.rejected',
   CONNECTION_ACCEPTED: 'connection.accepted',
 
   // Profile
@@ -81,6 +87,7 @@ export const ACTION_TO_NOTIFICATION_TYPE_MAP: Partial<
   'claim.cancelled': 'claim.cancelled',
   'claim.approved': 'claim.responded', // many-to-one
   'claim.rejected': 'claim.responded', // many-to-one
+  'claim.promoted': 'claim.responded', // many-to-one
 
   // Transaction confirmation (1:1)
   'resource.given': 'resource.given',
@@ -102,10 +109,25 @@ export const ACTION_TO_NOTIFICATION_TYPE_MAP: Partial<
   // Membership (many-to-one)
   'member.joined': 'membership.updated',
   'member.left': 'membership.updated',
+  'member.role_changed': 'membership.updated',
+  'member.removed': 'membership.updated',
+  'membership.requested': 'membership.updated',
+  'membership.approved': 'membership.updated',
+  'membership.rejected': 'membership.updated',
 
   // System: trustlevel.changed omitted (no preference, always enabled)
 };
 
+// How often emails are sent for a notification type: one email per
+// notification, or a daily or weekly digest
+export const EMAIL_FREQUENCIES = ['immediate', 'daily', 'weekly'] as const;
+
+export type EmailFrequency = (typeof EMAIL_FREQUENCIES)[number];
+
+// Notifications for the same action and target are grouped when they happen
+// within this window of the newest one in the group
+export const NOTIFICATION_GROUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Get the notification type preference category for an action.
  * Returns null for system actions that have no preference (like trustlevel.changed).
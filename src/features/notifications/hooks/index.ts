@@ -1,4 +1,5 @@
 export * from "./useNotifications";
+export * from "./useGroupedNotifications";
 export * from "./useNotificationUnreadCount";
 export * from "./useMarkAsRead";
 export * from "./useNotificationPreferences";
@@ -0,0 +1,47 @@
+import { useMemo } from 'react';
+import type { FetchNotificationsFilter } from '../api/fetchNotifications';
+import type { NotificationGroup } from '../types/notificationGroup';
+import { groupNotifications } from '../utils';
+import { useNotifications } from './useNotifications';
+
+/**
+ * Hook for notifications collapsed into groups of the same action on the same
+ * target, e.g. "Alex and 4 others commented on your resource".
+ *
+ * Shares its cache and polling/realtime updates with useNotifications. Pass a
+ * group's notificationIds to useMarkNotificationAsRead to mark the whole group
+ * as read.
+ *
+ * @param filter - Optional filter passed to useNotifications
+ * @param windowMs - How close together notifications must be to be grouped
+ * @returns Query state for notifications, with data as groups
+ *
+ * @example
+ * ```tsx
+ * function NotificationList() {
+ *   const { data: groups } = useGroupedNotifications();
+ *   const markAsRead = useMarkNotificationAsRead();
+ *
+ *   return groups?.map((group) => (
+ *     <NotificationItem
+ *       key={group.id}
+ *       title={`${formatGroupActors(group)} commented`}
+ *       onClick={() => markAsRead.mutate(group.notificationIds)}
+ *     />
+ *   ));
+ * }
+ * ```
+ */
+export function useGroupedNotifications(
+  filter?: FetchNotificationsFilter,
+  windowMs?: number,
+) {
+  const query = useNotifications(filter);
+
+  const groups = useMemo<NotificationGroup[] | undefined>(
+    () => (query.data ? groupNotifications(query.data, windowMs) : undefined),
+    [query.data, windowMs],
+  );
+
+  return { ...query, data: groups };
+}
@@ -9,19 +9,22 @@ export function useMarkAsRead() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (notificationId: string | 'all') =>
+    mutationFn: (notificationId: string | string[] | 'all') =>
       markAsRead(supabase, notificationId),
     onSuccess: (_data, notificationId) => {
       const now = new Date();
+      const isMarked = (notification: NotificationDetail) =>
+        notificationId === 'all' ||
+        (Array.isArray(notificationId)
+          ? notificationId.includes(notification.id)
+          : notification.id === notificationId);
 
-      // Check if notification was unread BEFORE updating cache
+      // Count the unread notifications being marked BEFORE updating cache
       const oldNotifications = queryClient.getQueryData<NotificationDetail[]>(
         notificationKeys.list(),
       );
-      const wasUnread =
-        notificationId === 'all'
-          ? oldNotifications?.some((n) => !n.readAt) ?? false
-          : oldNotifications?.find((n) => n.id === notificationId)?.readAt === null;
+      const markedUnread =
+        oldNotifications?.filter((n) => !n.readAt && isMarked(n)).length ?? 0;
 
       // Optimistically update the notification(s) in cache
       queryClient.setQueryData<NotificationDetail[]>(
@@ -30,11 +33,8 @@ export function useMarkAsRead() {
           if (!old) return old;
 
           return old.map((notification) => {
-            // Mark as read if it's the specific notification or marking all as read
-            if (
-              notificationId === 'all' ||
-              notification.id === notificationId
-            ) {
+            // Mark as read if it's one of the given notifications or marking all as read
+            if (isMarked(notification)) {
               return { ...notification, readAt: now };
             }
             return notification;
@@ -52,12 +52,8 @@ export function useMarkAsRead() {
             return 0;
           }
 
-          // Only decrement if notification was unread
-          if (wasUnread) {
-            return Math.max(0, oldCount - 1);
-          }
-
-          return oldCount;
+          // Only decrement for notifications that were unread
+          return Math.max(0, oldCount - markedUnread);
         },
       );
     },
@@ -1,8 +1,10 @@
 import { useQuery } from '@tanstack/react-query';
+import { useContext } from 'react';
 import { useSupabase } from '@/shared';
 import { useCurrentUser } from '@/features/auth';
 import { fetchNotificationUnreadCount } from '../api/fetchNotificationUnreadCount';
 import { notificationKeys } from '../queries';
+import { RealtimeNotificationsContext } from '@/config/BelongProvider';
 
 interface UseNotificationUnreadCountResult {
   data: number | undefined;
@@ -14,7 +16,8 @@ interface UseNotificationUnreadCountResult {
 /**
  * Hook for fetching unread notification count.
  *
- * Updates are handled by polling every 30 seconds.
+ * Updates arrive over realtime when BelongProvider has realtimeNotifications
+ * enabled and connected, and are handled by polling every 30 seconds otherwise.
  *
  * @returns Query state for unread notification count
  *
@@ -33,12 +36,13 @@ interface UseNotificationUnreadCountResult {
 export function useNotificationUnreadCount(): UseNotificationUnreadCountResult {
   const supabase = useSupabase();
   const { data: currentUser } = useCurrentUser();
+  const isRealtime = useContext(RealtimeNotificationsContext);
 
   const query = useQuery({
     queryKey: notificationKeys.unreadCount(),
     queryFn: () => fetchNotificationUnreadCount(supabase, currentUser!.id),
     enabled: !!supabase && !!currentUser,
-    refetchInterval: 30000, // Poll every 30 seconds for updates
+    refetchInterval: isRealtime ? false : 30000, // Poll every 30 seconds unless realtime is live
   });
 
   return {
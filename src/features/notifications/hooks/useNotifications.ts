@@ -1,5 +1,5 @@
 import { useQuery, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
-import { useRef } from 'react';
+import { useContext, useRef } from 'react';
 import { useSupabase, logger } from '@/shared';
 import type { NotificationDetail } from '../types/notificationDetail';
 import {
@@ -8,12 +8,16 @@ import {
 } from '../api/fetchNotifications';
 import { useCurrentUser } from '@/features/auth';
 import { notificationKeys } from '../queries';
+import { mergeNotifications } from '../utils';
+import { RealtimeNotificationsContext } from '@/config/BelongProvider';
 
 /**
  * Hook for fetching notifications.
  *
- * Updates are handled by polling every 30 seconds with incremental fetching.
- * Only new notifications since the last fetch are retrieved to minimize bandwidth.
+ * Updates arrive over realtime when BelongProvider has realtimeNotifications
+ * enabled and connected. Otherwise they are handled by polling every 30
+ * seconds with incremental fetching. Only new notifications since the last
+ * fetch are retrieved to minimize bandwidth.
  *
  * @param options - Optional React Query options
  * @returns Query state for notifications
@@ -44,6 +48,7 @@ export function useNotifications(
   const { data: currentUser } = useCurrentUser();
   const queryClient = useQueryClient();
   const lastFetchTimeRef = useRef<Date | null>(null);
+  const isRealtime = useContext(RealtimeNotificationsContext);
 
   const query = useQuery<NotificationDetail[], Error>({
     queryKey: notificationKeys.list(),
@@ -77,25 +82,14 @@ export function useNotifications(
             notificationKeys.list(),
           ) ?? [];
 
-        // Merge new notifications with existing ones
-        // Prepend new notifications and deduplicate by ID
-        const merged = [...newNotifications, ...existingData];
-        const deduped = Array.from(
-          new Map(merged.map((n) => [n.id, n])).values(),
-        );
-
-        // Sort by created_at descending (newest first)
-        return deduped.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-        );
+        return mergeNotifications(existingData, newNotifications);
       }
 
       // Initial fetch - return all notifications
       return newNotifications;
     },
     enabled: !!supabase && !!currentUser,
-    refetchInterval: 30000, // Poll every 30 seconds for updates
+    refetchInterval: isRealtime ? false : 30000, // Poll every 30 seconds unless realtime is live
     ...options,
   });
 
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { logger, useSupabase } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
+import { createNotificationSubscription } from '../api/createNotificationSubscription';
+
+/**
+ * Keeps the current user's notifications in the React Query cache up to date
+ * over realtime. Mounted by BelongProvider when realtimeNotifications is
+ * enabled.
+ *
+ * The channel rejoins by itself after the socket drops. Notification hooks
+ * poll whenever this returns false.
+ *
+ * @param enabled - Set to false to stay unsubscribed
+ * @returns Whether the channel is currently subscribed
+ */
+export function useRealtimeNotifications(enabled = true): boolean {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+  const { data: currentUser } = useCurrentUser();
+  const userId = currentUser?.id;
+  const [isSubscribed, setIsSubscribed] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !supabase || !userId) {
+      return;
+    }
+
+    let isCancelled = false;
+    let channel: RealtimeChannel | null = null;
+
+    createNotificationSubscription({
+      supabase,
+      queryClient,
+      userId,
+      onStatusChange: (status) => {
+        if (!isCancelled) {
+          setIsSubscribed(status === 'SUBSCRIBED');
+        }
+      },
+    })
+      .then((subscribedChannel) => {
+        if (isCancelled) {
+          supabase.removeChannel(subscribedChannel);
+        } else {
+          channel = subscribedChannel;
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to subscribe to notifications:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+      setIsSubscribed(false);
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [enabled, supabase, queryClient, userId]);
+
+  return isSubscribed;
+}
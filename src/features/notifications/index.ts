@@ -1,8 +1,13 @@
 export * from "./types";
 export * from "./constants";
+export { groupNotifications, formatGroupActors } from "./utils";
 
 // Hooks
-export { useNotifications, useNotificationUnreadCount } from "./hooks";
+export {
+  useNotifications,
+  useGroupedNotifications,
+  useNotificationUnreadCount,
+} from "./hooks";
 export { useMarkAsRead as useMarkNotificationAsRead } from "./hooks/useMarkAsRead";
 export {
   useNotificationPreferences,
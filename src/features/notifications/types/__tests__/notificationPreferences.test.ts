@@ -3,6 +3,8 @@ import {
   parseChannelPreferences,
   isChannelEnabled,
   getChannelPreferences,
+  getEmailFrequency,
+  isInQuietHours,
   toTypedPreferences,
   type TypedNotificationPreferences,
   type NotificationPreferences,
@@ -54,6 +56,26 @@ describe("parseChannelPreferences", () => {
       email: false,
     });
   });
+
+  it("should parse the email frequency", () => {
+    const result = parseChannelPreferences({
+      in_app: true,
+      push: true,
+      email: true,
+      email_frequency: "weekly",
+    });
+
+    expect(result.email_frequency).toBe("weekly");
+  });
+
+  it("should ignore unknown email frequencies", () => {
+    const result = parseChannelPreferences({
+      email: true,
+      email_frequency: "hourly",
+    });
+
+    expect(result).not.toHaveProperty("email_frequency");
+  });
 });
 
 describe("isChannelEnabled", () => {
@@ -62,6 +84,9 @@ describe("isChannelEnabled", () => {
     user_id: "test-user",
     push_enabled: true,
     email_enabled: true,
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    time_zone: null,
     created_at: "2024-01-01",
     updated_at: "2024-01-01",
     "comment.replied": { in_app: true, push: true, email: false },
@@ -147,6 +172,9 @@ describe("getChannelPreferences", () => {
     user_id: "test-user",
     push_enabled: true,
     email_enabled: true,
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    time_zone: null,
     created_at: "2024-01-01",
     updated_at: "2024-01-01",
     "comment.replied": { in_app: true, push: true, email: false },
@@ -179,6 +207,89 @@ describe("getChannelPreferences", () => {
   });
 });
 
+describe("getEmailFrequency", () => {
+  const channels = { in_app: true, push: true, email: true };
+  const mockPreferences = {
+    "comment.replied": { ...channels, email_frequency: "daily" },
+    "claim.created": channels,
+  } as unknown as TypedNotificationPreferences;
+
+  it("should return the email frequency for a notification type", () => {
+    expect(getEmailFrequency(mockPreferences, "comment.replied")).toBe("daily");
+  });
+
+  it("should default to immediate emails", () => {
+    expect(getEmailFrequency(mockPreferences, "claim.created")).toBe(
+      "immediate"
+    );
+  });
+});
+
+describe("isInQuietHours", () => {
+  const mockPreferences = {
+    quiet_hours_start: "22:00:00",
+    quiet_hours_end: "07:00:00",
+    time_zone: "America/New_York",
+  } as TypedNotificationPreferences;
+
+  it("should return true inside an overnight window", () => {
+    // 03:00 in New York
+    const at = new Date("2024-06-01T07:00:00Z");
+
+    expect(isInQuietHours(mockPreferences, at)).toBe(true);
+  });
+
+  it("should return false outside the window", () => {
+    // 12:00 in New York
+    const at = new Date("2024-06-01T16:00:00Z");
+
+    expect(isInQuietHours(mockPreferences, at)).toBe(false);
+  });
+
+  it("should end the window at the end time", () => {
+    // 07:00 in New York
+    const at = new Date("2024-06-01T11:00:00Z");
+
+    expect(isInQuietHours(mockPreferences, at)).toBe(false);
+  });
+
+  it("should handle windows within a day", () => {
+    const preferences = {
+      ...mockPreferences,
+      quiet_hours_start: "13:00:00",
+      quiet_hours_end: "15:00:00",
+    };
+
+    expect(
+      isInQuietHours(preferences, new Date("2024-06-01T18:00:00Z"))
+    ).toBe(true);
+    expect(
+      isInQuietHours(preferences, new Date("2024-06-01T20:00:00Z"))
+    ).toBe(false);
+  });
+
+  it("should use the fallback time zone when none is set", () => {
+    const preferences = { ...mockPreferences, time_zone: null };
+    // 23:00 in Tokyo, 14:00 UTC
+    const at = new Date("2024-06-01T14:00:00Z");
+
+    expect(isInQuietHours(preferences, at, "Asia/Tokyo")).toBe(true);
+    expect(isInQuietHours(preferences, at)).toBe(false);
+  });
+
+  it("should return false when quiet hours are off", () => {
+    const preferences = {
+      ...mockPreferences,
+      quiet_hours_start: null,
+      quiet_hours_end: null,
+    };
+
+    expect(
+      isInQuietHours(preferences, new Date("2024-06-01T07:00:00Z"))
+    ).toBe(false);
+  });
+});
+
 describe("toTypedPreferences", () => {
   it("should convert database row to typed preferences", () => {
     const dbRow: NotificationPreferences = {
@@ -186,6 +297,9 @@ describe("toTypedPreferences", () => {
       user_id: "test-user",
       push_enabled: true,
       email_enabled: true,
+      quiet_hours_start: "22:00:00",
+      quiet_hours_end: "07:00:00",
+      time_zone: "Europe/Madrid",
       created_at: "2024-01-01",
       updated_at: "2024-01-01",
       comment_replied: { in_app: true, push: true, email: false },
@@ -215,6 +329,9 @@ describe("toTypedPreferences", () => {
     expect(result.user_id).toBe("test-user");
     expect(result.push_enabled).toBe(true);
     expect(result.email_enabled).toBe(true);
+    expect(result.quiet_hours_start).toBe("22:00:00");
+    expect(result.quiet_hours_end).toBe("07:00:00");
+    expect(result.time_zone).toBe("Europe/Madrid");
     expect(result["comment.replied"]).toEqual({
       in_app: true,
       push: true,
@@ -7,6 +7,7 @@ export type * from "./notificationPreferences";
 export type * from "./notificationMetadata";
 export type * from "./pushSubscription";
 export type * from "./claimDetails";
+export type * from "./notificationGroup";
 
 // Re-export utility functions that are not types
 export { getTypedMetadata, hasMetadata } from "./notificationMetadata";
@@ -16,4 +17,6 @@ export {
   toTypedPreferences,
   getChannelPreferences,
   isChannelEnabled,
+  getEmailFrequency,
+  isInQuietHours,
 } from "./notificationPreferences";
\ No newline at end of file
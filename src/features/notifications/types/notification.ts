@@ -62,7 +62,8 @@ export const isClaimNotification = (action: ActionType): boolean =>
   action === ACTION_TYPES.CLAIM_CREATED ||
   action === ACTION_TYPES.CLAIM_APPROVED ||
   action === ACTION_TYPES.CLAIM_REJECTED ||
-  action === ACTION_TYPES.CLAIM_CANCELLED;
+  action === ACTION_TYPES.CLAIM_CANCELLED ||
+  action === ACTION_TYPES.CLAIM_PROMOTED;
 
 export const isTransactionNotification = (action: ActionType): boolean =>
   action === ACTION_TYPES.RESOURCE_GIVEN ||
@@ -80,7 +81,12 @@ export const isResourceNotification = (action: ActionType): boolean =>
 export const isSocialNotification = (action: ActionType): boolean =>
   action === ACTION_TYPES.SHOUTOUT_RECEIVED ||
   action === ACTION_TYPES.MEMBER_JOINED ||
-  action === ACTION_TYPES.MEMBER_LEFT;
+  action === ACTION_TYPES.MEMBER_LEFT ||
+  action === ACTION_TYPES.MEMBER_ROLE_CHANGED ||
+  action === ACTION_TYPES.MEMBER_REMOVED ||
+  action === ACTION_TYPES.MEMBERSHIP_REQUESTED ||
+  action === ACTION_TYPES.MEMBERSHIP_APPROVED ||
+  action === ACTION_TYPES.MEMBERSHIP_REJECTED;
 
 export const isTrustNotification = (action: ActionType): boolean =>
   action === ACTION_TYPES.TRUSTLEVEL_CHANGED;
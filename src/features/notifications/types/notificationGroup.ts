@@ -0,0 +1,37 @@
+import type { ActionType } from '../constants';
+import type { NotificationDetail } from './notificationDetail';
+
+export interface NotificationGroupActor {
+  id: string;
+  name?: string;
+  avatar?: string;
+}
+
+/**
+ * Notifications for the same action on the same target (resource, shoutout or
+ * conversation) that happened close together, displayed as one entry, e.g.
+ * "Alex and 4 others commented on your resource".
+ */
+export interface NotificationGroup {
+  // Identifies the group, e.g. for React keys. Derived from the newest notification.
+  id: string;
+  action: ActionType;
+  resourceId?: string;
+  shoutoutId?: string;
+  conversationId?: string;
+
+  // Newest first
+  notifications: NotificationDetail[];
+  notificationIds: string[];
+  latest: NotificationDetail;
+
+  // Distinct actors, most recent first
+  actors: NotificationGroupActor[];
+  actorCount: number;
+
+  count: number;
+  unreadCount: number;
+  // Null while any notification in the group is unread
+  readAt: Date | null;
+  createdAt: Date;
+}
@@ -1,5 +1,6 @@
 import type { Database } from "../../../shared/types/database";
-import type { NotificationTypePreference } from "../constants";
+import { EMAIL_FREQUENCIES } from "../constants";
+import type { EmailFrequency, NotificationTypePreference } from "../constants";
 
 /**
  * Channel preferences for a notification type
@@ -8,6 +9,8 @@ export interface ChannelPreferences {
   in_app: boolean;
   push: boolean;
   email: boolean;
+  /** Emails are sent immediately unless set to a daily or weekly digest */
+  email_frequency?: EmailFrequency;
 }
 
 /**
@@ -36,6 +39,13 @@ export interface TypedNotificationPreferences {
   push_enabled: boolean;
   email_enabled: boolean;
 
+  // Quiet hours - push notifications are held during this daily local time
+  // window (e.g. "22:00:00" to "07:00:00"); null when quiet hours are off
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  // IANA time zone for quiet hours; null uses the user's community time zone
+  time_zone: string | null;
+
   // Per-type preferences (notification type categories, not actions)
   // Note: trustlevel.changed has no preference column (always enabled)
   "comment.replied": ChannelPreferences;
@@ -77,9 +87,16 @@ export function parseChannelPreferences(json: unknown): ChannelPreferences {
     in_app: obj.in_app === true,
     push: obj.push === true,
     email: obj.email === true,
+    ...(isEmailFrequency(obj.email_frequency) && {
+      email_frequency: obj.email_frequency,
+    }),
   };
 }
 
+function isEmailFrequency(value: unknown): value is EmailFrequency {
+  return EMAIL_FREQUENCIES.includes(value as EmailFrequency);
+}
+
 /**
  * Helper to convert database row to typed preferences
  */
@@ -91,6 +108,9 @@ export function toTypedPreferences(
     user_id: row.user_id,
     push_enabled: row.push_enabled,
     email_enabled: row.email_enabled,
+    quiet_hours_start: row.quiet_hours_start,
+    quiet_hours_end: row.quiet_hours_end,
+    time_zone: row.time_zone,
     created_at: row.created_at,
     updated_at: row.updated_at,
 
@@ -130,7 +150,7 @@ export function getChannelPreferences(
 export function isChannelEnabled(
   preferences: TypedNotificationPreferences,
   type: NotificationTypePreference,
-  channel: keyof ChannelPreferences
+  channel: Exclude<keyof ChannelPreferences, "email_frequency">
 ): boolean {
   // For push channel, check global push_enabled switch
   if (channel === "push" && !preferences.push_enabled) {
@@ -145,3 +165,69 @@ export function isChannelEnabled(
   // For in_app channel, no global switch needed (always available)
   return preferences[type][channel];
 }
+
+/**
+ * Helper to get how often emails are sent for a notification type preference
+ */
+export function getEmailFrequency(
+  preferences: TypedNotificationPreferences,
+  type: NotificationTypePreference
+): EmailFrequency {
+  return preferences[type].email_frequency ?? "immediate";
+}
+
+/**
+ * Helper to check if a time falls within the user's quiet hours, when push
+ * notifications are held. Uses the preferences' time zone, or the fallback
+ * (usually their community's timeZone) when none is set.
+ */
+export function isInQuietHours(
+  preferences: TypedNotificationPreferences,
+  at: Date = new Date(),
+  fallbackTimeZone = "UTC"
+): boolean {
+  const { quiet_hours_start, quiet_hours_end } = preferences;
+
+  if (!quiet_hours_start || !quiet_hours_end) {
+    return false;
+  }
+
+  const start = toMinutes(quiet_hours_start);
+  const end = toMinutes(quiet_hours_end);
+  const now = localMinutes(at, preferences.time_zone ?? fallbackTimeZone);
+
+  if (start === end) {
+    return false;
+  }
+
+  // Windows that cross midnight (e.g. 22:00-07:00) wrap around
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function localMinutes(at: Date, timeZone: string): number {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+  } catch {
+    // Unknown time zone names fall back to UTC, as in deliver_notification
+    return at.getUTCHours() * 60 + at.getUTCMinutes();
+  }
+
+  const parts = format.formatToParts(at);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return part("hour") * 60 + part("minute");
+}
@@ -0,0 +1,162 @@
+import { NOTIFICATION_GROUP_WINDOW_MS } from './constants';
+import type { NotificationDetail } from './types/notificationDetail';
+import type {
+  NotificationGroup,
+  NotificationGroupActor,
+} from './types/notificationGroup';
+
+export const notificationsChannelForUser = (userId: string) =>
+  `notifications:${userId}`;
+
+/**
+ * Merges notifications into a cached list, replacing existing ones with the
+ * same id and keeping the list newest first
+ */
+export function mergeNotifications(
+  existing: NotificationDetail[],
+  incoming: NotificationDetail[],
+): NotificationDetail[] {
+  const merged = [...existing, ...incoming];
+  const deduped = Array.from(new Map(merged.map((n) => [n.id, n])).values());
+
+  return deduped.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+}
+
+/**
+ * Sets when a cached notification was read. Returns the list unchanged if the
+ * notification is not cached or already has that read time.
+ */
+export function setNotificationReadAt(
+  notifications: NotificationDetail[],
+  notificationId: string,
+  readAt: Date | null,
+): NotificationDetail[] {
+  const existing = notifications.find((n) => n.id === notificationId);
+
+  if (!existing || existing.readAt?.getTime() === readAt?.getTime()) {
+    return notifications;
+  }
+
+  return notifications.map((n) =>
+    n.id === notificationId ? { ...n, readAt } : n,
+  );
+}
+
+/**
+ * The target a notification is grouped on, or undefined if it has none and
+ * should be shown on its own
+ */
+function groupTarget(notification: NotificationDetail): string | undefined {
+  if (notification.resourceId) return `resource:${notification.resourceId}`;
+  if (notification.shoutoutId) return `shoutout:${notification.shoutoutId}`;
+  if (notification.conversationId) {
+    return `conversation:${notification.conversationId}`;
+  }
+  return undefined;
+}
+
+/**
+ * Collapses notifications for the same action and target into groups. A
+ * notification joins a group when it is within windowMs of the newest
+ * notification in that group; older ones start a new group.
+ *
+ * Groups are returned newest first, with their notifications newest first.
+ */
+export function groupNotifications(
+  notifications: NotificationDetail[],
+  windowMs: number = NOTIFICATION_GROUP_WINDOW_MS,
+): NotificationGroup[] {
+  const sorted = [...notifications].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+
+  const grouped: NotificationDetail[][] = [];
+  const openGroups = new Map<string, NotificationDetail[]>();
+
+  for (const notification of sorted) {
+    const target = groupTarget(notification);
+    const key = target ? `${notification.action}:${target}` : undefined;
+    const open = key ? openGroups.get(key) : undefined;
+
+    if (
+      open &&
+      new Date(open[0].createdAt).getTime() -
+        new Date(notification.createdAt).getTime() <=
+        windowMs
+    ) {
+      open.push(notification);
+      continue;
+    }
+
+    const group = [notification];
+    grouped.push(group);
+    if (key) openGroups.set(key, group);
+  }
+
+  return grouped.map(toNotificationGroup);
+}
+
+function toNotificationGroup(
+  notifications: NotificationDetail[],
+): NotificationGroup {
+  const latest = notifications[0];
+
+  const actors = new Map<string, NotificationGroupActor>();
+  for (const notification of notifications) {
+    if (notification.actorId && !actors.has(notification.actorId)) {
+      actors.set(notification.actorId, {
+        id: notification.actorId,
+        name: notification.actorName,
+        avatar: notification.actorAvatar,
+      });
+    }
+  }
+
+  const unreadCount = notifications.filter((n) => !n.readAt).length;
+  const readAt =
+    unreadCount > 0
+      ? null
+      : notifications.reduce<Date | null>(
+          (latestRead, n) =>
+            !latestRead || (n.readAt && n.readAt > latestRead)
+              ? n.readAt
+              : latestRead,
+          null,
+        );
+
+  return {
+    id: latest.id,
+    action: latest.action,
+    resourceId: latest.resourceId,
+    shoutoutId: latest.shoutoutId,
+    conversationId: latest.conversationId,
+    notifications,
+    notificationIds: notifications.map((n) => n.id),
+    latest,
+    actors: Array.from(actors.values()),
+    actorCount: actors.size,
+    count: notifications.length,
+    unreadCount,
+    readAt,
+    createdAt: latest.createdAt,
+  };
+}
+
+/**
+ * Names the actors in a group for display, e.g. "Alex", "Alex and Sam" or
+ * "Alex and 4 others"
+ */
+export function formatGroupActors(
+  group: NotificationGroup,
+  fallbackName = 'Someone',
+): string {
+  const [first, second] = group.actors.map((a) => a.name ?? fallbackName);
+
+  if (!first) return fallbackName;
+  if (group.actorCount === 1) return first;
+  if (group.actorCount === 2) return `${first} and ${second}`;
+
+  return `${first} and ${group.actorCount - 1} others`;
+}
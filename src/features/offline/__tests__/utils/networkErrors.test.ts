@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isNetworkError,
+  MAX_OFFLINE_MUTATION_RETRIES,
+  offlineMutationRetryDelay,
+  retryOfflineMutation,
+} from '../../utils/networkErrors';
+
+describe('networkErrors', () => {
+  it.each([
+    'TypeError: Failed to fetch',
+    'TypeError: fetch failed',
+    'Network request failed',
+    'NetworkError when attempting to fetch resource.',
+    'Load failed',
+  ])('should treat "%s" as a network error', (message) => {
+    expect(isNetworkError(new Error(message))).toBe(true);
+    expect(isNetworkError({ message, code: '' })).toBe(true);
+  });
+
+  it('should not treat server rejections as network errors', () => {
+    expect(
+      isNetworkError(new Error('You have already claimed this timeslot')),
+    ).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+    expect(isNetworkError('Failed to fetch')).toBe(false);
+  });
+
+  it('should only retry network errors', () => {
+    expect(retryOfflineMutation(5, new Error('Failed to fetch'))).toBe(true);
+    expect(retryOfflineMutation(0, new Error('Permission denied'))).toBe(false);
+  });
+
+  it('should stop retrying after the maximum number of attempts', () => {
+    const error = new Error('Failed to fetch');
+
+    expect(
+      retryOfflineMutation(MAX_OFFLINE_MUTATION_RETRIES - 1, error),
+    ).toBe(true);
+    expect(retryOfflineMutation(MAX_OFFLINE_MUTATION_RETRIES, error)).toBe(
+      false,
+    );
+  });
+
+  it('should back off exponentially up to 30 seconds', () => {
+    expect(offlineMutationRetryDelay(0)).toBe(1000);
+    expect(offlineMutationRetryDelay(3)).toBe(8000);
+    expect(offlineMutationRetryDelay(10)).toBe(30000);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { waitFor } from '@testing-library/react';
+import { QueryClient, onlineManager } from '@tanstack/react-query';
+import {
+  createOfflineQueue,
+  DEFAULT_OFFLINE_STORAGE_KEY,
+  type OfflineQueue,
+} from '../../utils/offlineQueue';
+import { offlineMutationKeys, offlineMutationOptions } from '../../mutations';
+import type { OfflineStorage } from '../../types';
+
+function createMemoryStorage(): OfflineStorage & {
+  items: Map<string, string>;
+} {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+describe('createOfflineQueue', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+  let queryClients: QueryClient[];
+  let queues: OfflineQueue[];
+
+  async function startQueue(
+    mutationFn: (variables: unknown) => Promise<unknown>,
+  ) {
+    const queryClient = new QueryClient();
+    queryClient.mount();
+    queryClient.setMutationDefaults(
+      offlineMutationKeys.mutation('sendMessage'),
+      {
+        mutationFn,
+      },
+    );
+
+    const queue = createOfflineQueue(queryClient, { storage });
+    await queue.start();
+
+    queryClients.push(queryClient);
+    queues.push(queue);
+    return { queryClient, queue };
+  }
+
+  function sendMessage(queryClient: QueryClient, variables: unknown) {
+    return queryClient
+      .getMutationCache()
+      .build(queryClient, offlineMutationOptions('sendMessage'))
+      .execute(variables);
+  }
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    queryClients = [];
+    queues = [];
+    onlineManager.setOnline(false);
+  });
+
+  afterEach(() => {
+    queues.forEach((queue) => queue.stop());
+    queryClients.forEach((queryClient) => {
+      queryClient.clear();
+      queryClient.unmount();
+    });
+    onlineManager.setOnline(true);
+  });
+
+  it('should queue and persist mutations while offline', async () => {
+    const mutationFn = vi.fn().mockResolvedValue('sent');
+    const { queryClient, queue } = await startQueue(mutationFn);
+
+    sendMessage(queryClient, {
+      content: 'Hello',
+      sentAt: new Date('2025-03-04T18:00:00.000Z'),
+    });
+
+    await waitFor(() => expect(queue.getState().pending).toHaveLength(1));
+    expect(queue.getState().pending[0]).toMatchObject({
+      name: 'sendMessage',
+      variables: { content: 'Hello' },
+    });
+    expect(mutationFn).not.toHaveBeenCalled();
+    await waitFor(() =>
+      expect(storage.items.get(DEFAULT_OFFLINE_STORAGE_KEY)).toContain(
+        '"content":"Hello"',
+      ),
+    );
+  });
+
+  it('should replay queued mutations in order on reconnect', async () => {
+    const sent: string[] = [];
+    const mutationFn = vi.fn(async ({ content }: { content: string }) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      sent.push(content);
+    });
+    const { queryClient, queue } = await startQueue(
+      mutationFn as (variables: unknown) => Promise<unknown>,
+    );
+
+    const first = sendMessage(queryClient, { content: 'first' });
+    const second = sendMessage(queryClient, { content: 'second' });
+    await waitFor(() => expect(queue.getState().pending).toHaveLength(2));
+
+    onlineManager.setOnline(true);
+    await Promise.all([first, second]);
+
+    expect(sent).toEqual(['first', 'second']);
+    await waitFor(() => expect(queue.getState().pending).toHaveLength(0));
+  });
+
+  it('should restore persisted mutations after a restart', async () => {
+    const { queryClient, queue } = await startQueue(vi.fn());
+    sendMessage(queryClient, {
+      content: 'Hello',
+      sentAt: new Date('2025-03-04T18:00:00.000Z'),
+    });
+    await waitFor(() => expect(queue.getState().pending).toHaveLength(1));
+    queue.stop();
+
+    onlineManager.setOnline(true);
+    const mutationFn = vi.fn().mockResolvedValue('sent');
+    const restarted = await startQueue(mutationFn);
+
+    await waitFor(() => expect(mutationFn).toHaveBeenCalledTimes(1));
+    expect(mutationFn.mock.calls[0][0]).toEqual({
+      content: 'Hello',
+      sentAt: new Date('2025-03-04T18:00:00.000Z'),
+    });
+    await waitFor(() =>
+      expect(restarted.queue.getState().pending).toHaveLength(0),
+    );
+  });
+
+  it('should report mutations rejected on replay as conflicts', async () => {
+    const mutationFn = vi
+      .fn()
+      .mockRejectedValue(new Error('You have already claimed this timeslot'));
+    const { queryClient, queue } = await startQueue(mutationFn);
+
+    const replay = sendMessage(queryClient, { content: 'Hello' });
+    await waitFor(() => expect(queue.getState().pending).toHaveLength(1));
+
+    onlineManager.setOnline(true);
+    await expect(replay).rejects.toThrow(
+      'You have already claimed this timeslot',
+    );
+
+    const { pending, conflicts } = queue.getState();
+    expect(pending).toHaveLength(0);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      name: 'sendMessage',
+      variables: { content: 'Hello' },
+    });
+    expect(conflicts[0].error.message).toBe(
+      'You have already claimed this timeslot',
+    );
+
+    queue.dismissConflict(conflicts[0].id);
+    expect(queue.getState().conflicts).toHaveLength(0);
+  });
+
+  it('should not treat mutations that never queued as conflicts', async () => {
+    onlineManager.setOnline(true);
+    const mutationFn = vi
+      .fn()
+      .mockRejectedValue(new Error('Permission denied'));
+    const { queryClient, queue } = await startQueue(mutationFn);
+
+    await expect(
+      sendMessage(queryClient, { content: 'Hello' }),
+    ).rejects.toThrow('Permission denied');
+
+    expect(queue.getState().conflicts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deserializeOfflineState,
+  serializeOfflineState,
+} from '../../utils/serialization';
+
+describe('offline state serialization', () => {
+  it('should round-trip nested dates', () => {
+    const state = {
+      variables: {
+        title: 'Ladder',
+        lastRenewedAt: new Date('2025-03-04T18:00:00.000Z'),
+        timeslots: [{ startTime: new Date('2025-03-05T09:30:00.000Z') }],
+      },
+    };
+
+    const restored = deserializeOfflineState<typeof state>(
+      serializeOfflineState(state),
+    );
+
+    expect(restored).toEqual(state);
+    expect(restored.variables.lastRenewedAt).toBeInstanceOf(Date);
+    expect(restored.variables.timeslots[0].startTime).toBeInstanceOf(Date);
+  });
+
+  it('should leave other values untouched', () => {
+    const state = { count: 2, tags: ['a', 'b'], note: null, nested: { a: 1 } };
+
+    expect(deserializeOfflineState(serializeOfflineState(state))).toEqual(
+      state,
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { useCallback, useContext, useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+import { OfflineQueueContext } from '@/config/BelongProvider';
+import type { OfflineQueueState } from '../types';
+
+const EMPTY_STATE: OfflineQueueState = { pending: [], conflicts: [] };
+
+const subscribeToNothing = () => () => {};
+
+export interface UseOfflineQueueResult extends OfflineQueueState {
+  isOnline: boolean;
+  dismissConflict: (id: string) => void;
+  retryConflict: (id: string) => Promise<unknown>;
+}
+
+/**
+ * Hook for observing the offline mutation queue.
+ *
+ * Offline-capable mutations (creating resources and claims, sending messages,
+ * posting comments) are queued while offline and replayed in order on
+ * reconnect. Queued mutations that the server rejects on replay are reported
+ * as conflicts. Requires `offline` in the BelongProvider config; without it
+ * the queue is always empty.
+ *
+ * @returns Connectivity, pending mutations, conflicts and conflict actions
+ *
+ * @example
+ * ```tsx
+ * function OfflineBanner() {
+ *   const { isOnline, pending, conflicts, retryConflict, dismissConflict } =
+ *     useOfflineQueue();
+ *
+ *   return (
+ *     <>
+ *       {!isOnline && <div>Offline - {pending.length} changes waiting</div>}
+ *       {conflicts.map((conflict) => (
+ *         <div key={conflict.id}>
+ *           {conflict.error.message}
+ *           <button onClick={() => retryConflict(conflict.id)}>Retry</button>
+ *           <button onClick={() => dismissConflict(conflict.id)}>Dismiss</button>
+ *         </div>
+ *       ))}
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @category React Hooks
+ */
+export function useOfflineQueue(): UseOfflineQueueResult {
+  const offlineQueue = useContext(OfflineQueueContext);
+
+  const state = useSyncExternalStore(
+    offlineQueue?.subscribe ?? subscribeToNothing,
+    offlineQueue?.getState ?? (() => EMPTY_STATE),
+  );
+  const isOnline = useSyncExternalStore(
+    (listener) => onlineManager.subscribe(listener),
+    () => onlineManager.isOnline(),
+  );
+
+  const dismissConflict = useCallback(
+    (id: string) => offlineQueue?.dismissConflict(id),
+    [offlineQueue],
+  );
+  const retryConflict = useCallback(
+    (id: string) =>
+      offlineQueue
+        ? offlineQueue.retryConflict(id)
+        : Promise.reject(new Error('Offline queue is not enabled')),
+    [offlineQueue],
+  );
+
+  return { ...state, isOnline, dismissConflict, retryConflict };
+}
@@ -0,0 +1,17 @@
+// Types
+export type * from './types';
+
+// Hooks
+export { useOfflineQueue } from './hooks';
+export type { UseOfflineQueueResult } from './hooks';
+
+// Mutations
+export {
+  offlineMutationKeys,
+  offlineMutationOptions,
+  OFFLINE_MUTATION_SCOPE,
+} from './mutations';
+
+// Utils
+export { isNetworkError } from './utils';
+export type { OfflineQueue } from './utils';
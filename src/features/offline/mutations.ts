@@ -0,0 +1,22 @@
+import type { OfflineMutationName } from './types';
+
+// Offline-capable mutations share one scope so they run, and replay, in order
+export const OFFLINE_MUTATION_SCOPE = 'belong-offline';
+
+export const offlineMutationKeys = {
+  all: ['offline'] as const,
+  mutation: (name: OfflineMutationName) =>
+    [...offlineMutationKeys.all, name] as const,
+};
+
+/**
+ * Options that make a mutation hook offline-capable: while offline the
+ * mutation is queued (and persisted when an OfflineConfig is provided), then
+ * replayed in order on reconnect.
+ */
+export function offlineMutationOptions(name: OfflineMutationName) {
+  return {
+    mutationKey: offlineMutationKeys.mutation(name),
+    scope: { id: OFFLINE_MUTATION_SCOPE },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Key-value storage used to persist the offline queue. Matches the shape of
+ * both `window.localStorage` and React Native's `AsyncStorage`.
+ */
+export interface OfflineStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface OfflineConfig {
+  /** Storage the queue is persisted to so it survives app restarts */
+  storage: OfflineStorage;
+  /** Storage key (default: 'belong-offline-queue') */
+  storageKey?: string;
+}
+
+/** Mutations that are queued while offline and replayed on reconnect */
+export type OfflineMutationName =
+  | 'createResource'
+  | 'createResourceClaim'
+  | 'sendMessage'
+  | 'createComment';
+
+export interface QueuedMutation {
+  id: number;
+  name: OfflineMutationName;
+  variables: unknown;
+  queuedAt: Date;
+}
+
+/**
+ * A queued mutation that failed when it was replayed, e.g. because the
+ * timeslot was claimed by someone else in the meantime. Its optimistic cache
+ * update has been rolled back.
+ */
+export interface OfflineMutationConflict {
+  id: string;
+  name: OfflineMutationName;
+  variables: unknown;
+  error: Error;
+  queuedAt: Date;
+  failedAt: Date;
+}
+
+export interface OfflineQueueState {
+  /** Mutations waiting for connectivity, oldest first */
+  pending: QueuedMutation[];
+  /** Replayed mutations that failed, oldest first */
+  conflicts: OfflineMutationConflict[];
+}
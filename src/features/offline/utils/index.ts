@@ -0,0 +1,4 @@
+export * from './networkErrors';
+export * from './offlineQueue';
+export * from './registerOfflineMutations';
+export * from './serialization';
@@ -0,0 +1,38 @@
+const NETWORK_ERROR_PATTERN =
+  /failed to fetch|fetch failed|network ?error|network request failed|load failed/i;
+
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// With the backoff below, a mutation gives up after about four minutes of
+// failed attempts while the device reports being online
+export const MAX_OFFLINE_MUTATION_RETRIES = 10;
+
+/**
+ * Whether an error means the request never reached the server, as opposed to
+ * the server rejecting it.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { message } = error as { message?: unknown };
+  return typeof message === 'string' && NETWORK_ERROR_PATTERN.test(message);
+}
+
+/**
+ * Retries offline-capable mutations while the network is the problem, up to
+ * MAX_OFFLINE_MUTATION_RETRIES times. Time spent paused while offline does
+ * not count. Rejections from the server are not retried, and like mutations
+ * that run out of retries they become conflicts.
+ */
+export function retryOfflineMutation(
+  failureCount: number,
+  error: unknown,
+): boolean {
+  return failureCount < MAX_OFFLINE_MUTATION_RETRIES && isNetworkError(error);
+}
+
+export function offlineMutationRetryDelay(failureCount: number): number {
+  return Math.min(1000 * 2 ** failureCount, MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,240 @@
+import {
+  dehydrate,
+  hydrate,
+  type DehydratedState,
+  type Mutation,
+  type MutationCacheNotifyEvent,
+  type QueryClient,
+} from '@tanstack/react-query';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '@/shared';
+import type {
+  OfflineConfig,
+  OfflineMutationConflict,
+  OfflineMutationName,
+  OfflineQueueState,
+  QueuedMutation,
+} from '../types';
+import { offlineMutationKeys, offlineMutationOptions } from '../mutations';
+import {
+  deserializeOfflineState,
+  serializeOfflineState,
+} from './serialization';
+
+export const DEFAULT_OFFLINE_STORAGE_KEY = 'belong-offline-queue';
+
+export interface OfflineQueue {
+  /** Restores persisted mutations, resumes them and starts persisting */
+  start(): Promise<void>;
+  stop(): void;
+  getState(): OfflineQueueState;
+  subscribe(listener: () => void): () => void;
+  /** Forgets a conflict without retrying it */
+  dismissConflict(id: string): void;
+  /** Runs a conflicted mutation again with the same variables */
+  retryConflict(id: string): Promise<unknown>;
+}
+
+type PersistedConflict = Omit<OfflineMutationConflict, 'error'> & {
+  error: { name: string; message: string };
+};
+
+interface PersistedOfflineQueue {
+  mutations: DehydratedState['mutations'];
+  conflicts: PersistedConflict[];
+}
+
+type AnyMutation = Mutation<unknown, unknown, unknown, unknown>;
+
+function offlineMutationName(
+  mutation: AnyMutation,
+): OfflineMutationName | undefined {
+  const [root, name] = mutation.options.mutationKey ?? [];
+  return root === offlineMutationKeys.all[0]
+    ? (name as OfflineMutationName)
+    : undefined;
+}
+
+// Paused, or failed to reach the server and waiting to retry
+function isWaitingForNetwork(mutation: AnyMutation): boolean {
+  return (
+    mutation.state.status === 'pending' &&
+    (mutation.state.isPaused || mutation.state.failureCount > 0)
+  );
+}
+
+/**
+ * Creates the persisted offline mutation queue. Queuing itself is done by
+ * React Query: offline-capable mutations pause while offline and resume in
+ * scope order on reconnect. This queue persists paused mutations so they
+ * survive restarts, and records the ones that fail when replayed as
+ * conflicts.
+ */
+export function createOfflineQueue(
+  queryClient: QueryClient,
+  { storage, storageKey = DEFAULT_OFFLINE_STORAGE_KEY }: OfflineConfig,
+): OfflineQueue {
+  const mutationCache = queryClient.getMutationCache();
+  const listeners = new Set<() => void>();
+  const queued = new Map<number, QueuedMutation>();
+  let conflicts: OfflineMutationConflict[] = [];
+  let state: OfflineQueueState = { pending: [], conflicts: [] };
+  let unsubscribe: (() => void) | undefined;
+  let persisting = Promise.resolve();
+
+  function persist() {
+    const { mutations } = dehydrate(queryClient, {
+      shouldDehydrateQuery: () => false,
+      shouldDehydrateMutation: (mutation) => queued.has(mutation.mutationId),
+    });
+
+    const persisted: PersistedOfflineQueue = {
+      // Restored mutations must be paused for React Query to resume them
+      mutations: mutations.map((mutation) => ({
+        ...mutation,
+        state: { ...mutation.state, isPaused: true },
+      })),
+      conflicts: conflicts.map((conflict) => ({
+        ...conflict,
+        error: { name: conflict.error.name, message: conflict.error.message },
+      })),
+    };
+
+    persisting = persisting
+      .then(() => storage.setItem(storageKey, serializeOfflineState(persisted)))
+      .catch((error) => {
+        logger.error('📶 Offline: Failed to persist offline queue', { error });
+      });
+  }
+
+  function changed() {
+    state = { pending: Array.from(queued.values()), conflicts };
+    listeners.forEach((listener) => listener());
+    persist();
+  }
+
+  function handleCacheEvent(event: MutationCacheNotifyEvent) {
+    const mutation = event.mutation as AnyMutation | undefined;
+    const name = mutation && offlineMutationName(mutation);
+    if (!mutation || !name) return;
+
+    const entry = queued.get(mutation.mutationId);
+
+    if (event.type === 'removed') {
+      if (entry) {
+        queued.delete(mutation.mutationId);
+        changed();
+      }
+      return;
+    }
+
+    if (!entry) {
+      if (isWaitingForNetwork(mutation)) {
+        queued.set(mutation.mutationId, {
+          id: mutation.mutationId,
+          name,
+          variables: mutation.state.variables,
+          queuedAt: new Date(mutation.state.submittedAt || Date.now()),
+        });
+        changed();
+      }
+      return;
+    }
+
+    if (mutation.state.status === 'success') {
+      queued.delete(mutation.mutationId);
+      changed();
+    } else if (mutation.state.status === 'error') {
+      queued.delete(mutation.mutationId);
+      conflicts = [
+        ...conflicts,
+        {
+          id: uuidv4(),
+          name,
+          variables: entry.variables,
+          error:
+            mutation.state.error instanceof Error
+              ? mutation.state.error
+              : new Error(String(mutation.state.error)),
+          queuedAt: entry.queuedAt,
+          failedAt: new Date(),
+        },
+      ];
+      logger.warn('📶 Offline: Queued mutation failed on replay', {
+        name,
+        error: mutation.state.error,
+      });
+      changed();
+    }
+  }
+
+  async function restore() {
+    const serialized = await storage.getItem(storageKey);
+    if (!serialized) return;
+
+    try {
+      const persisted =
+        deserializeOfflineState<PersistedOfflineQueue>(serialized);
+
+      conflicts = persisted.conflicts.map((conflict) => ({
+        ...conflict,
+        error: Object.assign(new Error(conflict.error.message), {
+          name: conflict.error.name,
+        }),
+      }));
+      hydrate(queryClient, { mutations: persisted.mutations, queries: [] });
+
+      logger.info('📶 Offline: Restored offline queue', {
+        mutations: persisted.mutations.length,
+        conflicts: conflicts.length,
+      });
+    } catch (error) {
+      logger.error('📶 Offline: Discarding unreadable offline queue', {
+        error,
+      });
+      await storage.removeItem(storageKey);
+    }
+  }
+
+  return {
+    async start() {
+      if (unsubscribe) return;
+      unsubscribe = mutationCache.subscribe(handleCacheEvent);
+
+      await restore();
+      changed();
+      await queryClient.resumePausedMutations();
+    },
+
+    stop() {
+      unsubscribe?.();
+      unsubscribe = undefined;
+    },
+
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    dismissConflict(id) {
+      conflicts = conflicts.filter((conflict) => conflict.id !== id);
+      changed();
+    },
+
+    retryConflict(id) {
+      const conflict = conflicts.find((c) => c.id === id);
+      if (!conflict) {
+        return Promise.reject(new Error('Conflict not found'));
+      }
+
+      conflicts = conflicts.filter((c) => c.id !== id);
+      changed();
+
+      return mutationCache
+        .build(queryClient, offlineMutationOptions(conflict.name))
+        .execute(conflict.variables);
+    },
+  };
+}
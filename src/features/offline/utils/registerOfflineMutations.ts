@@ -0,0 +1,96 @@
+import type { QueryClient } from '@tanstack/react-query';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { getAuthIdOrThrow } from '@/shared';
+import { createResource, createResourceClaim } from '@/features/resources/api';
+import type {
+  CreateResourceInput,
+  ResourceClaimInput,
+} from '@/features/resources/types';
+import { resourceClaimsKeys, resourceKeys } from '@/features/resources/queries';
+import { feedKeys } from '@/features/feed/queries';
+import { sendMessage } from '@/features/messaging/api';
+import type { SendMessageInput } from '@/features/messaging/types';
+import {
+  communityChatKeys,
+  conversationKeys,
+} from '@/features/messaging/queries';
+import { createComment } from '@/features/comments/api';
+import type { CommentInput } from '@/features/comments/types';
+import { commentKeys } from '@/features/comments/queries';
+import { offlineMutationKeys } from '../mutations';
+import {
+  offlineMutationRetryDelay,
+  retryOfflineMutation,
+} from './networkErrors';
+
+/**
+ * Registers mutation defaults for every offline-capable mutation. Mutations
+ * restored from storage after a restart have no hook attached, so these
+ * defaults provide the function that replays them and broad cache
+ * invalidation once they succeed. Hooks override onSuccess with precise
+ * cache updates.
+ */
+export function registerOfflineMutations(
+  queryClient: QueryClient,
+  supabase: SupabaseClient<Database>,
+): void {
+  const retryOptions = {
+    retry: retryOfflineMutation,
+    retryDelay: offlineMutationRetryDelay,
+  };
+
+  queryClient.setMutationDefaults(
+    offlineMutationKeys.mutation('createResource'),
+    {
+      ...retryOptions,
+      mutationFn: (input: CreateResourceInput) => createResource(supabase, input),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+        queryClient.invalidateQueries({ queryKey: feedKeys.all });
+      },
+    },
+  );
+
+  queryClient.setMutationDefaults(
+    offlineMutationKeys.mutation('createResourceClaim'),
+    {
+      ...retryOptions,
+      mutationFn: (input: ResourceClaimInput) =>
+        createResourceClaim(supabase, input),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: resourceClaimsKeys.all });
+      },
+    },
+  );
+
+  queryClient.setMutationDefaults(offlineMutationKeys.mutation('sendMessage'), {
+    ...retryOptions,
+    mutationFn: async (input: SendMessageInput) =>
+      sendMessage(
+        supabase,
+        await getAuthIdOrThrow(supabase, 'send messages'),
+        input,
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: conversationKeys.all });
+      queryClient.invalidateQueries({ queryKey: communityChatKeys.all });
+    },
+  });
+
+  queryClient.setMutationDefaults(
+    offlineMutationKeys.mutation('createComment'),
+    {
+      ...retryOptions,
+      mutationFn: async (input: CommentInput) =>
+        createComment(
+          supabase,
+          await getAuthIdOrThrow(supabase, 'create comments'),
+          input,
+        ),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: commentKeys.all });
+      },
+    },
+  );
+}
@@ -0,0 +1,32 @@
+const DATE_TAG = '__date';
+
+/**
+ * JSON serialization that round-trips Date values, which mutation variables
+ * such as ResourceInput rely on.
+ */
+export function serializeOfflineState(value: unknown): string {
+  return JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key: string, json: unknown) {
+      // `json` has already been through Date#toJSON; the holder still has the Date
+      const original = this[key];
+      return original instanceof Date
+        ? { [DATE_TAG]: original.toISOString() }
+        : json;
+    },
+  );
+}
+
+export function deserializeOfflineState<T>(serialized: string): T {
+  return JSON.parse(serialized, (_key, value: unknown) => {
+    if (
+      value &&
+      typeof value === 'object' &&
+      Object.keys(value).length === 1 &&
+      typeof (value as Record<string, unknown>)[DATE_TAG] === 'string'
+    ) {
+      return new Date((value as Record<string, string>)[DATE_TAG]);
+    }
+    return value;
+  }) as T;
+}
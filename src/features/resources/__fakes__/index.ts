@@ -14,6 +14,7 @@ import {
   ResourceTimeslotRow,
   ResourceTimeslotUpdateDbData,
   ResourceClaimRow,
+  ResourceRecurrenceRow,
   ResourceRowJoinCommunitiesJoinTimeslots,
 } from '../types/resourceRow';
 import { CurrentUser } from '../../users';
@@ -221,6 +222,8 @@ export function createFakeResourceRow(
     comment_count: 0,
     expires_at: faker.helpers.maybe(() => faker.date.future().toISOString()) ?? null,
     is_active: faker.datatype.boolean(),
+    has_available_slots: faker.datatype.boolean(),
+    search_vector: null,
     voting_deadline: faker.helpers.maybe(() => faker.date.future().toISOString()) ?? null,
     duration_minutes: faker.helpers.maybe(() => faker.number.int({ min: 30, max: 240 })) ?? null,
     resource_communities: [],
@@ -254,6 +257,8 @@ export function createFakeResourceTimeslot(
       'cancelled',
     ] as const),
     voteCount: 0,
+    isException: false,
+    sequence: 0,
     ...overrides,
   };
 }
@@ -321,6 +326,10 @@ export function createFakeResourceTimeslotRow(
       'cancelled',
     ] as const),
     vote_count: 0,
+    recurrence_id: null,
+    occurrence_start: null,
+    is_exception: false,
+    sequence: 0,
     ...overrides,
   };
 }
@@ -401,6 +410,34 @@ export function createFakeResourceClaimRow(
     commitment_level: faker.helpers.arrayElement(['interested', 'committed', 'none', null] as (CommitmentLevel | null)[]),
     request_text: faker.helpers.maybe(() => faker.lorem.sentence()) ?? null,
     response_text: faker.helpers.maybe(() => faker.lorem.sentence()) ?? null,
+    waitlisted_at: null,
+    waitlist_position: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a fake ResourceRecurrenceRow for testing transformers
+ */
+export function createFakeResourceRecurrenceRow(
+  overrides: Partial<ResourceRecurrenceRow> = {},
+): ResourceRecurrenceRow {
+  const now = new Date().toISOString();
+
+  return {
+    id: faker.string.uuid(),
+    resource_id: faker.string.uuid(),
+    frequency: 'weekly',
+    repeat_interval: 1,
+    by_weekday: null,
+    starts_at: faker.date.future().toISOString(),
+    duration_minutes: faker.number.int({ min: 30, max: 180 }),
+    timezone: 'UTC',
+    until: null,
+    count: null,
+    exception_dates: [],
     created_at: now,
     updated_at: now,
     ...overrides,
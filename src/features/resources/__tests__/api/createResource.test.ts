@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { createResource } from '../../api/createResource';
+import {
+  createFakeResourceInput,
+  createFakeResourceRow,
+} from '../../__fakes__';
+import {
+  commitImageUrls,
+  discardCommittedImages,
+} from '@/features/images/api/imageCommit';
+
+vi.mock('@/features/images/api/imageCommit', () => ({
+  commitImageUrls: vi.fn(),
+  discardCommittedImages: vi.fn(),
+}));
+
+describe('createResource', () => {
+  const tempUrl =
+    'https://proj.supabase.co/storage/v1/object/public/images/user-1/temp-upload-123-abc.jpg';
+  const committedUrl =
+    'https://proj.supabase.co/storage/v1/object/public/images/user-1/resource-r-123-abc.jpg';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(commitImageUrls).mockResolvedValue([committedUrl]);
+  });
+
+  it('should discard committed images when the resource fails to be created', async () => {
+    const supabase = {
+      rpc: vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'insert failed', code: 'XX000' },
+      }),
+    } as unknown as SupabaseClient<Database>;
+
+    await expect(
+      createResource(
+        supabase,
+        createFakeResourceInput({ imageUrls: [tempUrl] }),
+      ),
+    ).rejects.toThrow('insert failed');
+
+    const [{ entityId }] = vi.mocked(commitImageUrls).mock.calls[0];
+    expect(discardCommittedImages).toHaveBeenCalledWith({
+      supabase,
+      imageUrls: [committedUrl],
+      entityType: 'resource',
+      entityId,
+    });
+  });
+
+  it('should keep committed images when the request fails on the network', async () => {
+    const supabase = {
+      rpc: vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'TypeError: Failed to fetch', code: '' },
+      }),
+    } as unknown as SupabaseClient<Database>;
+
+    await expect(
+      createResource(
+        supabase,
+        createFakeResourceInput({ imageUrls: [tempUrl] }),
+      ),
+    ).rejects.toThrow('Failed to fetch');
+
+    expect(discardCommittedImages).not.toHaveBeenCalled();
+  });
+
+  it('should return the existing resource when a retry finds it already created', async () => {
+    const input = createFakeResourceInput({ imageUrls: [tempUrl] });
+    const row = createFakeResourceRow({ id: 'resource-1' });
+    const single = vi.fn().mockResolvedValue({ data: row, error: null });
+    const eq = vi.fn().mockReturnValue({ single });
+    const supabase = {
+      rpc: vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'duplicate key value', code: '23505' },
+      }),
+      from: vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ eq }),
+      }),
+    } as unknown as SupabaseClient<Database>;
+
+    const resource = await createResource(supabase, {
+      ...input,
+      id: 'resource-1',
+    });
+
+    expect(resource.id).toBe('resource-1');
+    expect(eq).toHaveBeenCalledWith('id', 'resource-1');
+    expect(vi.mocked(commitImageUrls).mock.calls[0][0].entityId).toBe(
+      'resource-1',
+    );
+    expect(discardCommittedImages).not.toHaveBeenCalled();
+  });
+});
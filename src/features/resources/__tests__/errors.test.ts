@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ClaimTransitionError,
+  CLAIM_TRANSITION_ERROR_CODE,
+  toClaimTransitionError,
+} from '../errors';
+
+describe('toClaimTransitionError', () => {
+  it('should convert a claim transition database error', () => {
+    const error = toClaimTransitionError({
+      code: CLAIM_TRANSITION_ERROR_CODE,
+      message:
+        'Only the owner can transition offer claims from pending to approved',
+      details: JSON.stringify({
+        resourceType: 'offer',
+        fromStatus: 'pending',
+        toStatus: 'approved',
+        allowedActor: 'owner',
+      }),
+      hint: '',
+    });
+
+    expect(error).toBeInstanceOf(ClaimTransitionError);
+    expect(error).toMatchObject({
+      name: 'ClaimTransitionError',
+      message:
+        'Only the owner can transition offer claims from pending to approved',
+      resourceType: 'offer',
+      fromStatus: 'pending',
+      toStatus: 'approved',
+      allowedActor: 'owner',
+    });
+  });
+
+  it('should leave allowedActor undefined when no one may transition', () => {
+    const error = toClaimTransitionError({
+      code: CLAIM_TRANSITION_ERROR_CODE,
+      message: 'Cannot transition from completed status',
+      details: JSON.stringify({
+        resourceType: 'offer',
+        fromStatus: 'completed',
+        toStatus: 'approved',
+        allowedActor: null,
+      }),
+    });
+
+    expect(error?.allowedActor).toBeUndefined();
+  });
+
+  it('should ignore other errors', () => {
+    expect(
+      toClaimTransitionError({
+        code: '23505',
+        message: 'duplicate',
+        details: '',
+      }),
+    ).toBeUndefined();
+    expect(toClaimTransitionError(new Error('boom'))).toBeUndefined();
+    expect(toClaimTransitionError(null)).toBeUndefined();
+  });
+});
+
+describe('ClaimTransitionError', () => {
+  it('should describe the rejected transition by default', () => {
+    const error = new ClaimTransitionError({
+      resourceType: 'event',
+      fromStatus: 'approved',
+      toStatus: 'attended',
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe(
+      'Invalid status transition for event: approved -> attended',
+    );
+  });
+});
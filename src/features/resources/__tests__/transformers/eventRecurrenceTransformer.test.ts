@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toDomainEventRecurrence,
+  toEventRecurrenceChangesJson,
+  toEventRecurrenceInsertRow,
+} from '../../transformers/eventRecurrenceTransformer';
+import { createFakeResourceRecurrenceRow } from '../../__fakes__';
+
+describe('EventRecurrence Transformer', () => {
+  describe('toEventRecurrenceInsertRow', () => {
+    it('should transform a domain recurrence input to database format', () => {
+      const startsAt = new Date('2025-03-04T18:00:00.000Z');
+      const exceptionDate = new Date('2025-03-11T18:00:00.000Z');
+
+      const row = toEventRecurrenceInsertRow({
+        resourceId: 'resource-1',
+        frequency: 'weekly',
+        interval: 2,
+        byWeekday: [2, 4],
+        startsAt,
+        durationMinutes: 90,
+        timezone: 'America/Chicago',
+        count: 10,
+        exceptionDates: [exceptionDate],
+      });
+
+      expect(row).toEqual({
+        resource_id: 'resource-1',
+        frequency: 'weekly',
+        repeat_interval: 2,
+        by_weekday: [2, 4],
+        starts_at: startsAt.toISOString(),
+        duration_minutes: 90,
+        timezone: 'America/Chicago',
+        until: undefined,
+        count: 10,
+        exception_dates: [exceptionDate.toISOString()],
+      });
+    });
+  });
+
+  describe('toEventRecurrenceChangesJson', () => {
+    it('should only include changed fields', () => {
+      expect(toEventRecurrenceChangesJson({ durationMinutes: 45 })).toEqual({
+        duration_minutes: 45,
+      });
+    });
+
+    it('should keep explicit nulls so fields can be cleared', () => {
+      expect(
+        toEventRecurrenceChangesJson({
+          until: null,
+          count: null,
+          byWeekday: null,
+        }),
+      ).toEqual({ until: null, count: null, by_weekday: null });
+    });
+  });
+
+  describe('toDomainEventRecurrence', () => {
+    it('should transform a database recurrence to a domain recurrence', () => {
+      const row = createFakeResourceRecurrenceRow({
+        by_weekday: [1, 3],
+        until: '2025-06-01T00:00:00.000Z',
+        exception_dates: ['2025-04-07T17:00:00.000Z'],
+      });
+
+      const recurrence = toDomainEventRecurrence(row);
+
+      expect(recurrence).toMatchObject({
+        id: row.id,
+        resourceId: row.resource_id,
+        frequency: row.frequency,
+        interval: row.repeat_interval,
+        byWeekday: [1, 3],
+        startsAt: new Date(row.starts_at),
+        durationMinutes: row.duration_minutes,
+        timezone: row.timezone,
+        until: new Date('2025-06-01T00:00:00.000Z'),
+        exceptionDates: [new Date('2025-04-07T17:00:00.000Z')],
+      });
+      expect(recurrence.count).toBeUndefined();
+    });
+
+    it('should not return any field names with underscores', () => {
+      const recurrence = toDomainEventRecurrence(
+        createFakeResourceRecurrenceRow(),
+      );
+
+      Object.keys(recurrence).forEach((key) => {
+        expect(key).not.toMatch(/_/);
+      });
+    });
+  });
+});
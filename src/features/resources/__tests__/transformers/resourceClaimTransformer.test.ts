@@ -166,6 +166,38 @@ describe('ResourceClaim Transformer', () => {
       expect(claim.responseText).toBeUndefined();
     });
 
+    it('should transform the waitlist position and time', () => {
+      const timeslot = createFakeResourceTimeslotRow();
+      const waitlistedAt = new Date().toISOString();
+      const dbClaim = {
+        ...createFakeResourceClaimRow({
+          status: 'waitlisted',
+          waitlisted_at: waitlistedAt,
+          waitlist_position: 2,
+        }),
+        resources: { owner_id: 'owner-123' },
+        resource_timeslots: timeslot,
+      };
+
+      const claim = toDomainResourceClaim(dbClaim);
+
+      expect(claim.waitlistPosition).toBe(2);
+      expect(claim.waitlistedAt).toEqual(new Date(waitlistedAt));
+    });
+
+    it('should leave the waitlist position undefined when not waitlisted', () => {
+      const timeslot = createFakeResourceTimeslotRow();
+      const dbClaim = {
+        ...createFakeResourceClaimRow({ waitlist_position: null }),
+        resources: { owner_id: 'owner-123' },
+        resource_timeslots: timeslot,
+      };
+
+      const claim = toDomainResourceClaim(dbClaim);
+
+      expect(claim.waitlistPosition).toBeUndefined();
+    });
+
     it('should not return any field names with underscores', () => {
       const timeslot = createFakeResourceTimeslotRow();
       const dbClaim = {
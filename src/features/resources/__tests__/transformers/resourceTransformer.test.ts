@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
+  forDbUpdate,
+  toDomainNearbyResourceSummary,
   toDomainResource,
   toResourceInsertRow,
 } from '../../transformers/resourceTransformer';
@@ -136,6 +138,17 @@ describe('Resource Transformer', () => {
     });
   });
 
+  describe('toDomainNearbyResourceSummary', () => {
+    it('should use the distance returned by the database', () => {
+      const dbResource = { ...createFakeResourceRow(), distance_km: 2.5 };
+
+      const summary = toDomainNearbyResourceSummary(dbResource);
+
+      expect(summary.id).toBe(dbResource.id);
+      expect(summary.distanceKm).toBe(2.5);
+    });
+  });
+
   describe('forDbInsert', () => {
     it('should transform a domain resource to a database resource', () => {
       const resourceData = createFakeResourceInput();
@@ -206,6 +219,21 @@ describe('Resource Transformer', () => {
     });
   });
 
+  describe('forDbUpdate', () => {
+    it('should leave isRecurring unset when not provided', () => {
+      // Otherwise editing any other field would turn a recurring event
+      // into a one-off
+      const dbResource = forDbUpdate({ title: 'Updated title' });
+
+      expect(dbResource.is_recurring).toBeUndefined();
+    });
+
+    it('should transform isRecurring field from domain to database', () => {
+      expect(forDbUpdate({ isRecurring: true }).is_recurring).toBe(true);
+      expect(forDbUpdate({ isRecurring: false }).is_recurring).toBe(false);
+    });
+  });
+
   describe('toDomainResource - imageUrlsUncropped', () => {
     it('should transform imageUrlsUncropped from database to domain', () => {
       const uncropped = ['https://original1.jpg', '', 'https://original3.jpg'];
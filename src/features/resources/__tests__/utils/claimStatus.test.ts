@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  claimActorRole,
+  filterAllowedClaimTransitions,
+  initialClaimStatus,
+} from '../../utils/claimStatus';
+import type { ClaimTransition } from '../../types';
+
+const rules: ClaimTransition[] = [
+  {
+    resourceType: 'offer',
+    fromStatus: 'pending',
+    toStatus: 'approved',
+    actor: 'owner',
+  },
+  {
+    resourceType: 'offer',
+    fromStatus: 'pending',
+    toStatus: 'rejected',
+    actor: 'owner',
+  },
+  {
+    resourceType: 'offer',
+    fromStatus: 'approved',
+    toStatus: 'given',
+    actor: 'owner',
+  },
+  {
+    resourceType: 'offer',
+    fromStatus: 'approved',
+    toStatus: 'received',
+    actor: 'claimant',
+  },
+  {
+    resourceType: 'offer',
+    fromStatus: 'approved',
+    toStatus: 'cancelled',
+    actor: 'claimant',
+  },
+  {
+    resourceType: 'request',
+    fromStatus: 'approved',
+    toStatus: 'given',
+    actor: 'claimant',
+  },
+  {
+    resourceType: 'event',
+    fromStatus: 'vote',
+    toStatus: 'going',
+    actor: 'system',
+  },
+];
+
+const claim = { claimantId: 'claimant-1', resourceOwnerId: 'owner-1' };
+
+describe('initialClaimStatus', () => {
+  it('should cast a vote on proposed timeslots of voting resources', () => {
+    expect(
+      initialClaimStatus(
+        { status: 'voting', requiresApproval: true },
+        'proposed',
+      ),
+    ).toBe('vote');
+  });
+
+  it('should follow requiresApproval otherwise', () => {
+    expect(
+      initialClaimStatus(
+        { status: 'active', requiresApproval: true },
+        'active',
+      ),
+    ).toBe('pending');
+    expect(
+      initialClaimStatus(
+        { status: 'active', requiresApproval: false },
+        'active',
+      ),
+    ).toBe('approved');
+  });
+});
+
+describe('claimActorRole', () => {
+  it('should identify the owner and the claimant', () => {
+    expect(claimActorRole(claim, 'owner-1')).toBe('owner');
+    expect(claimActorRole(claim, 'claimant-1')).toBe('claimant');
+    expect(claimActorRole(claim, 'someone-else')).toBeUndefined();
+  });
+
+  it('should prefer the owner role', () => {
+    expect(
+      claimActorRole(
+        { claimantId: 'user-1', resourceOwnerId: 'user-1' },
+        'user-1',
+      ),
+    ).toBe('owner');
+  });
+});
+
+describe('filterAllowedClaimTransitions', () => {
+  it('should return the owner transitions for the current status', () => {
+    const allowed = filterAllowedClaimTransitions(
+      rules,
+      { ...claim, status: 'pending' },
+      'owner-1',
+      'offer',
+    );
+
+    expect(allowed.map((t) => t.toStatus)).toEqual(['approved', 'rejected']);
+  });
+
+  it('should return the claimant transitions for the current status', () => {
+    const allowed = filterAllowedClaimTransitions(
+      rules,
+      { ...claim, status: 'approved' },
+      'claimant-1',
+      'offer',
+    );
+
+    expect(allowed.map((t) => t.toStatus)).toEqual(['received', 'cancelled']);
+  });
+
+  it('should scope transitions to the resource type', () => {
+    const allowed = filterAllowedClaimTransitions(
+      rules,
+      { ...claim, status: 'approved' },
+      'claimant-1',
+      'request',
+    );
+
+    expect(allowed.map((t) => t.toStatus)).toEqual(['given']);
+  });
+
+  it('should allow nothing to other users, system transitions or terminal claims', () => {
+    expect(
+      filterAllowedClaimTransitions(
+        rules,
+        { ...claim, status: 'pending' },
+        'someone-else',
+        'offer',
+      ),
+    ).toEqual([]);
+    expect(
+      filterAllowedClaimTransitions(
+        rules,
+        { ...claim, status: 'vote' },
+        'owner-1',
+        'event',
+      ),
+    ).toEqual([]);
+    expect(
+      filterAllowedClaimTransitions(
+        rules,
+        { ...claim, status: 'completed' },
+        'owner-1',
+        'offer',
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,28 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+
+/**
+ * Skips a single occurrence of a recurring event by adding it to the series'
+ * exception dates. The timeslot is removed, or cancelled if it has claims.
+ */
+export async function cancelEventOccurrence(
+  supabase: SupabaseClient<Database>,
+  timeslotId: string,
+): Promise<void> {
+  const { error } = await supabase.rpc('cancel_event_occurrence', {
+    p_timeslot_id: timeslotId,
+  });
+
+  if (error) {
+    logger.error('🏘️ API: Failed to cancel event occurrence', {
+      error,
+      timeslotId,
+    });
+    throw new Error(error.message || 'Failed to cancel event occurrence');
+  }
+
+  logger.debug('🏘️ API: Successfully cancelled event occurrence', {
+    timeslotId,
+  });
+}
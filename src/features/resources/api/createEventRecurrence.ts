@@ -0,0 +1,61 @@
+import type { QueryError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { EventRecurrence, EventRecurrenceInput } from '../types';
+import {
+  toDomainEventRecurrence,
+  toEventRecurrenceInsertRow,
+} from '../transformers';
+import { ResourceRecurrenceRow } from '../types/resourceRow';
+import { toPlayerPowerError } from '@/features/trust-scores/errors';
+
+/**
+ * Makes an event recur. Timeslots for the upcoming occurrences are generated
+ * by the database and kept extended over a rolling horizon.
+ */
+export async function createEventRecurrence(
+  supabase: SupabaseClient<Database>,
+  recurrenceInput: EventRecurrenceInput,
+): Promise<EventRecurrence> {
+  if (recurrenceInput.until && recurrenceInput.count !== undefined) {
+    throw new Error(
+      'A recurrence can end on a date or after a count, not both',
+    );
+  }
+
+  const { data, error } = (await supabase
+    .from('resource_recurrences')
+    .insert(toEventRecurrenceInsertRow(recurrenceInput))
+    .select()
+    .single()) as {
+    data: ResourceRecurrenceRow | null;
+    error: QueryError | null;
+  };
+
+  if (error) {
+    logger.error('🏘️ API: Failed to create event recurrence', {
+      error,
+      recurrenceInput,
+    });
+    throw (
+      toPlayerPowerError(error) ??
+      new Error(error.message || 'Failed to create event recurrence')
+    );
+  }
+
+  if (!data) {
+    logger.error('🏘️ API: No data returned from recurrence creation', {
+      recurrenceInput,
+    });
+    throw new Error('No data returned from recurrence creation');
+  }
+
+  const recurrence = toDomainEventRecurrence(data);
+
+  logger.debug('🏘️ API: Successfully created event recurrence', {
+    recurrenceId: recurrence.id,
+    resourceId: recurrence.resourceId,
+  });
+
+  return recurrence;
+}
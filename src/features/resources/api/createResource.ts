@@ -1,19 +1,38 @@
 import type { QueryError, SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/shared/types/database';
-import type { ResourceInput, Resource } from '@/features/resources';
-import { toResourceInsertRow } from '@/features/resources/transformers/resourceTransformer';
-import { commitImageUrls } from '@/features/images/api/imageCommit';
-import { updateResource } from './updateResource';
+import type { CreateResourceInput, Resource } from '@/features/resources';
+import {
+  toCreateResourceJson,
+  toDomainResource,
+} from '@/features/resources/transformers/resourceTransformer';
+import { toInitialTimeslotsJson } from '@/features/resources/transformers/resourceTimeslotTransformer';
+import {
+  commitImageUrls,
+  discardCommittedImages,
+} from '@/features/images/api/imageCommit';
 import {
   ResourceRowJoinCommunitiesJoinTimeslots,
   SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS,
 } from '../types/resourceRow';
-import { toDomainResource } from '@/features/resources/transformers/resourceTransformer';
 import { logger } from '@/shared';
+import { toPlayerPowerError } from '@/features/trust-scores/errors';
+import { isNetworkError } from '@/features/offline/utils/networkErrors';
+import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Creates a resource with its community links and initial timeslots.
+ * Temporary images are committed first; the database writes then happen in a
+ * single transaction, so a failure never leaves a partial resource behind.
+ * If the server rejects that transaction, the committed images are removed
+ * again; after a network error they are kept, since the transaction may
+ * have gone through.
+ *
+ * Creating a resource with the id of one that already exists returns the
+ * existing resource, so retrying a creation whose response was lost is safe.
+ */
 export async function createResource(
   supabase: SupabaseClient<Database>,
-  resourceData: ResourceInput,
+  resourceData: CreateResourceInput,
 ): Promise<Resource> {
   // Validate imageUrlsUncropped matches imageUrls length if both provided
   if (resourceData.imageUrlsUncropped && resourceData.imageUrls) {
@@ -24,63 +43,21 @@ export async function createResource(
     }
   }
 
-  const withoutCommunityIds = {
-    ...resourceData,
-    communityIds: undefined,
-  };
+  const { id, communityIds, timeslots, ...resourceFields } = resourceData;
 
-  const { data, error } = await supabase
-    .from('resources')
-    .insert(toResourceInsertRow(withoutCommunityIds))
-    .select('id')
-    .single();
+  // Known up front so images can be committed to their permanent paths
+  // before the resource is written
+  const resourceId = id ?? uuidv4();
 
-  if (error || !data) {
-    throw new Error(error?.message || 'Failed to create resource');
-  }
-
-  // Create resource-community associations
-  const resourceCommunityInserts = resourceData.communityIds.map(
-    (communityId) => ({
-      resource_id: data.id,
-      community_id: communityId,
-    }),
-  );
-
-  const { error: junctionError } = await supabase
-    .from('resource_communities')
-    .insert(resourceCommunityInserts);
-
-  if (junctionError) {
-    // Clean up the resource if junction table insertion fails
-    await supabase.from('resources').delete().eq('id', data.id);
-    throw new Error(
-      `Failed to associate resource with communities: ${junctionError.message}`,
-    );
-  }
-
-  // Auto-commit any temporary image URLs after resource creation
-  if (resourceData.imageUrls && resourceData.imageUrls.length > 0) {
+  let imageUrls = resourceFields.imageUrls;
+  if (imageUrls && imageUrls.length > 0) {
     try {
-      const permanentUrls = await commitImageUrls({
+      imageUrls = await commitImageUrls({
         supabase,
-        imageUrls: resourceData.imageUrls,
+        imageUrls,
         entityType: 'resource',
-        entityId: data.id,
+        entityId: resourceId,
       });
-
-      // Update resource with permanent URLs if they changed
-      if (
-        JSON.stringify(permanentUrls) !== JSON.stringify(resourceData.imageUrls)
-      ) {
-        const updatedResource = await updateResource(supabase, {
-          id: data.id,
-          imageUrls: permanentUrls,
-        });
-        if (updatedResource) {
-          return updatedResource;
-        }
-      }
     } catch (error) {
       throw new Error(
         `Failed to commit resource images: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -88,11 +65,44 @@ export async function createResource(
     }
   }
 
-  // Fetch the complete resource with all relations now that community associations exist
+  // Resource, community links and timeslots are created in one transaction
+  const { error } = await supabase.rpc('create_resource', {
+    p_resource: toCreateResourceJson(resourceId, {
+      ...resourceFields,
+      imageUrls,
+    }),
+    p_community_ids: communityIds,
+    p_timeslots: toInitialTimeslotsJson(timeslots ?? []),
+  });
+
+  // The resource was created by an earlier attempt whose response was lost
+  const alreadyCreated = error?.code === '23505' && !!id;
+
+  if (error && !alreadyCreated) {
+    if (!isNetworkError(error)) {
+      await discardCommittedImages({
+        supabase,
+        imageUrls: imageUrls ?? [],
+        entityType: 'resource',
+        entityId: resourceId,
+      });
+    }
+
+    logger.error('🏘️ API: Failed to create resource', {
+      error,
+      resourceId,
+      communityIds,
+    });
+    throw (
+      toPlayerPowerError(error) ??
+      new Error(error.message || 'Failed to create resource')
+    );
+  }
+
   const { data: completeResource, error: fetchError } = (await supabase
     .from('resources')
     .select(SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS)
-    .eq('id', data.id)
+    .eq('id', resourceId)
     .single()) as {
     data: ResourceRowJoinCommunitiesJoinTimeslots;
     error: QueryError | null;
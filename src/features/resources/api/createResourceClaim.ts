@@ -1,7 +1,7 @@
 import type { QueryError, SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/shared/types/database';
 import { logger } from '@/shared';
-import { ResourceClaim, ResourceClaimInput, ResourceClaimStatus } from '../types';
+import { ResourceClaim, ResourceClaimInput } from '../types';
 import {
   toResourceClaimInsertRow,
   toDomainResourceClaim,
@@ -11,6 +11,8 @@ import {
   SELECT_RESOURCE_CLAIMS_JOIN_RESOURCE_JOIN_TIMESLOT,
 } from '../types/resourceRow';
 import { fetchResourceById } from './fetchResourceById';
+import { initialClaimStatus } from '../utils';
+import { toPlayerPowerError } from '@/features/trust-scores/errors';
 
 export async function createResourceClaim(
   supabase: SupabaseClient<Database>,
@@ -38,20 +40,8 @@ export async function createResourceClaim(
     throw new Error('Timeslot not found');
   }
 
-  // Detect voting context: voting event + proposed timeslot = vote
-  const isVotingContext =
-    resource.status === 'voting' &&
-    timeslot.status === 'proposed';
-
-  // Determine initial status
-  let initialStatus: ResourceClaimStatus;
-  if (isVotingContext) {
-    initialStatus = 'vote';
-  } else if (resource.type === 'event') {
-    initialStatus = resource.requiresApproval ? 'pending' : 'approved';
-  } else {
-    initialStatus = resource.requiresApproval ? 'pending' : 'approved';
-  }
+  // Voting event + proposed timeslot = vote
+  const initialStatus = initialClaimStatus(resource, timeslot.status);
 
   // Default commitment level to 'interested' for event claims if not provided
   const commitmentLevel = resource.type === 'event' && claimInput.commitmentLevel === undefined
@@ -84,7 +74,10 @@ export async function createResourceClaim(
       throw new Error('You have already claimed this timeslot');
     }
 
-    throw new Error(error.message || 'Failed to create resource claim');
+    throw (
+      toPlayerPowerError(error) ??
+      new Error(error.message || 'Failed to create resource claim')
+    );
   }
 
   if (!data) {
@@ -118,6 +111,8 @@ export async function createResourceClaim(
     claimId: claim.id,
     resourceId: claim.resourceId,
     claimantId: claim.claimantId,
+    status: claim.status,
+    waitlistPosition: claim.waitlistPosition,
   });
 
   return claim;
@@ -0,0 +1,39 @@
+import type { QueryError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { EventRecurrence } from '../types';
+import { ResourceRecurrenceRow } from '../types/resourceRow';
+import { toDomainEventRecurrence } from '../transformers';
+
+/**
+ * Stops a series. Upcoming occurrences without claims are removed; claimed
+ * ones remain as one-off timeslots.
+ */
+export async function deleteEventRecurrence(
+  supabase: SupabaseClient<Database>,
+  id: string,
+): Promise<EventRecurrence | null> {
+  const { data, error } = (await supabase
+    .from('resource_recurrences')
+    .delete()
+    .eq('id', id)
+    .select()
+    .maybeSingle()) as {
+    data: ResourceRecurrenceRow | null;
+    error: QueryError | null;
+  };
+
+  if (error) {
+    logger.error('🏘️ API: Failed to delete event recurrence', {
+      error,
+      id,
+    });
+    throw new Error(error.message || 'Failed to delete event recurrence');
+  }
+
+  logger.debug('🏘️ API: Successfully deleted event recurrence', {
+    id,
+  });
+
+  return data ? toDomainEventRecurrence(data) : null;
+}
@@ -7,6 +7,7 @@ import { toDomainResourceClaim } from '../transformers';
 
 const SELECT_RESOURCE_CLAIMS_JOIN_RESOURCE_JOIN_TIMESLOT = `
   *,
+  waitlist_position,
   resources!inner(owner_id),
   resource_timeslots!inner(*)
 `;
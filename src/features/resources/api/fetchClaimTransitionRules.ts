@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { ClaimTransition, ResourceType } from '../types';
+import { toDomainClaimTransition } from '../transformers';
+
+/**
+ * Fetches the claim status transition rules, optionally for one resource type.
+ */
+export async function fetchClaimTransitionRules(
+  supabase: SupabaseClient<Database>,
+  resourceType?: ResourceType,
+): Promise<ClaimTransition[]> {
+  let query = supabase.from('claim_status_transition_rules').select('*');
+
+  if (resourceType) {
+    query = query.eq('resource_type', resourceType);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('🏘️ API: Failed to fetch claim transition rules', {
+      error,
+      resourceType,
+    });
+    throw new Error(error.message || 'Failed to fetch claim transition rules');
+  }
+
+  return (data || []).map(toDomainClaimTransition);
+}
@@ -0,0 +1,37 @@
+import type { QueryError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { EventRecurrence } from '../types';
+import { toDomainEventRecurrence } from '../transformers';
+import { ResourceRecurrenceRow } from '../types/resourceRow';
+
+export async function fetchEventRecurrences(
+  supabase: SupabaseClient<Database>,
+  resourceId: string,
+): Promise<EventRecurrence[]> {
+  const { data, error } = (await supabase
+    .from('resource_recurrences')
+    .select()
+    .eq('resource_id', resourceId)
+    .order('starts_at', { ascending: true })) as {
+    data: ResourceRecurrenceRow[] | null;
+    error: QueryError | null;
+  };
+
+  if (error) {
+    logger.error('🏘️ API: Failed to fetch event recurrences', {
+      error,
+      resourceId,
+    });
+    throw new Error(error.message || 'Failed to fetch event recurrences');
+  }
+
+  const recurrences = (data ?? []).map(toDomainEventRecurrence);
+
+  logger.debug('🏘️ API: Successfully fetched event recurrences', {
+    resourceId,
+    count: recurrences.length,
+  });
+
+  return recurrences;
+}
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type {
+  NearbyResourceFilter,
+  NearbyResourceSummary,
+} from '@/features/resources';
+import { calculateMaxDistanceForDrivingTime, logger } from '@/shared';
+import { toDomainNearbyResourceSummary } from '../transformers';
+import { NEARBY_RESOURCES_LIMIT } from '../constants';
+import { queryResourceRows } from './queryResourceRows';
+
+/**
+ * Fetches resources near a point, nearest first.
+ *
+ * The search area is `radiusKm` and/or the straight-line distance covered by
+ * `maxDriveMinutes` of driving (using the same approximation as
+ * `calculateDrivingTime`). Resources without coordinates are excluded.
+ * At most `limit` resources are returned, the nearest that match the filters.
+ * Distances are measured by PostGIS, which also orders the results.
+ *
+ * @throws Error if neither `radiusKm` nor `maxDriveMinutes` is given
+ */
+export async function fetchNearbyResources(
+  supabase: SupabaseClient<Database>,
+  filter: NearbyResourceFilter,
+): Promise<NearbyResourceSummary[]> {
+  const {
+    origin,
+    radiusKm,
+    maxDriveMinutes,
+    limit = NEARBY_RESOURCES_LIMIT,
+    ...attributeFilter
+  } = filter;
+
+  const limits = [
+    radiusKm,
+    maxDriveMinutes !== undefined
+      ? calculateMaxDistanceForDrivingTime(maxDriveMinutes)
+      : undefined,
+  ].filter((limit): limit is number => limit !== undefined);
+
+  if (limits.length === 0) {
+    throw new Error('Either radiusKm or maxDriveMinutes is required');
+  }
+
+  const searchRadiusKm = Math.min(...limits);
+
+  logger.debug('📚 API: Fetching nearby resources', {
+    origin,
+    searchRadiusKm,
+  });
+
+  const rows = await queryResourceRows(
+    supabase,
+    attributeFilter,
+    { origin, radiusKm: searchRadiusKm },
+    limit,
+  );
+
+  return rows.map(toDomainNearbyResourceSummary);
+}
@@ -2,43 +2,31 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/shared/types/database';
 import type { ResourceFilter, ResourceSummary } from '@/features/resources';
 import { toDomainResourceSummary } from '../transformers';
-import { appendQueries } from '@/shared';
-import {
-  ResourceRowJoinCommunitiesJoinTimeslots,
-  SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS,
-} from '../types/resourceRow';
+import { calculateMaxDistanceForDrivingTime } from '@/shared';
+import { queryResourceRows, type ResourceRowsArea } from './queryResourceRows';
 
 export async function fetchResources(
   supabase: SupabaseClient<Database>,
   filters?: ResourceFilter,
 ): Promise<ResourceSummary[]> {
-  let query = supabase
-    .from('resources')
-    .select(SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS);
+  let area: ResourceRowsArea | undefined;
 
-  if (filters) {
-    query = appendQueries(query, {
-      status: filters.status,
-      owner_id: filters.ownerId,
-      'resource_communities.community_id': filters.communityId,
-    });
+  if (filters?.origin && filters.maxDriveMinutes !== undefined) {
+    area = {
+      origin: filters.origin,
+      radiusKm: calculateMaxDistanceForDrivingTime(filters.maxDriveMinutes),
+    };
   }
 
-  // Execute the query
-  const { data, error } = (await query.order('created_at', {
-    ascending: false,
-  })) as {
-    data: ResourceRowJoinCommunitiesJoinTimeslots[] | null;
-    error: Error | null;
-  };
+  const rows = await queryResourceRows(supabase, filters, area);
 
-  if (error) {
-    throw error;
+  // Rows within an area come back nearest first; keep the newest first
+  if (area) {
+    rows.sort(
+      (a, b) =>
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+    );
   }
 
-  if (!data) {
-    return [];
-  }
-
-  return data.map((row) => toDomainResourceSummary(row));
+  return rows.map((row) => toDomainResourceSummary(row));
 }
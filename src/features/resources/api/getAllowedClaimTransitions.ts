@@ -0,0 +1,21 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { ClaimTransition, ResourceClaim, ResourceType } from '../types';
+import { filterAllowedClaimTransitions } from '../utils';
+import { fetchClaimTransitionRules } from './fetchClaimTransitionRules';
+
+/**
+ * Returns the status transitions a user may make on a claim, so UIs only
+ * offer valid actions. Terminal claims and users who are neither the owner
+ * nor the claimant get an empty list.
+ */
+export async function getAllowedClaimTransitions(
+  supabase: SupabaseClient<Database>,
+  claim: Pick<ResourceClaim, 'status' | 'claimantId' | 'resourceOwnerId'>,
+  actorId: string,
+  resourceType: ResourceType,
+): Promise<ClaimTransition[]> {
+  const rules = await fetchClaimTransitionRules(supabase, resourceType);
+
+  return filterAllowedClaimTransitions(rules, claim, actorId, resourceType);
+}
@@ -1,4 +1,5 @@
 export * from './fetchResources';
+export * from './fetchNearbyResources';
 export * from './fetchResourceById';
 export * from './createResource';
 export * from './updateResource';
@@ -11,11 +12,21 @@ export * from './fetchResourceTimeslots';
 export * from './updateResourceTimeslot';
 export * from './deleteResourceTimeslot';
 
+// Recurring events
+export * from './createEventRecurrence';
+export * from './fetchEventRecurrences';
+export * from './deleteEventRecurrence';
+export * from './updateFutureOccurrences';
+export * from './updateEventOccurrence';
+export * from './cancelEventOccurrence';
+
 // Resource claim management
 export * from './createResourceClaim';
 export * from './fetchResourceClaims';
 export * from './updateResourceClaim';
 export * from './deleteResourceClaim';
+export * from './fetchClaimTransitionRules';
+export * from './getAllowedClaimTransitions';
 
 // Voting system
 export * from './finalizeVotedTimeslot';
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { ResourceFilter } from '../types';
+import { appendQueries, type Coordinates } from '@/shared';
+import {
+  NearbyResourceRowJoinCommunitiesJoinTimeslots,
+  ResourceRowJoinCommunitiesJoinTimeslots,
+  SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS,
+  SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS_JOIN_CLAIMS,
+} from '../types/resourceRow';
+
+export type ResourceRowsArea = {
+  origin: Coordinates;
+  radiusKm: number;
+};
+
+/**
+ * Queries resource rows matching the attribute filters, newest first.
+ *
+ * With an `area`, only resources with coordinates within `radiusKm` of
+ * `origin` are returned, nearest first and with their `distance_km`. The
+ * distance filter runs in the database (`resources_near`) together with the
+ * attribute filters and the limit. The `origin` and `maxDriveMinutes` fields
+ * of `filters` are not applied here; callers resolve them to an `area`.
+ */
+export async function queryResourceRows(
+  supabase: SupabaseClient<Database>,
+  filters: ResourceFilter | undefined,
+  area: ResourceRowsArea,
+  limit?: number,
+): Promise<NearbyResourceRowJoinCommunitiesJoinTimeslots[]>;
+export async function queryResourceRows(
+  supabase: SupabaseClient<Database>,
+  filters?: ResourceFilter,
+  area?: ResourceRowsArea,
+  limit?: number,
+): Promise<ResourceRowJoinCommunitiesJoinTimeslots[]>;
+export async function queryResourceRows(
+  supabase: SupabaseClient<Database>,
+  filters?: ResourceFilter,
+  area?: ResourceRowsArea,
+  limit?: number,
+): Promise<ResourceRowJoinCommunitiesJoinTimeslots[]> {
+  // Claim filters need an inner join so only resources with matching claims remain
+  const filterByClaims = !!(filters?.claimStatus || filters?.claimantId);
+  const select = filterByClaims
+    ? SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS_JOIN_CLAIMS
+    : SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS;
+
+  let query = area
+    ? applyResourceFilters(
+        supabase.rpc('resources_near', {
+          p_lat: area.origin.lat,
+          p_lng: area.origin.lng,
+          p_radius_km: area.radiusKm,
+        }),
+        filters,
+      ).select(select)
+    : applyResourceFilters(
+        supabase.from('resources').select(select),
+        filters,
+      ).order('created_at', { ascending: false });
+
+  if (limit !== undefined) {
+    query = query.limit(limit);
+  }
+
+  const { data, error } = (await query) as {
+    data: ResourceRowJoinCommunitiesJoinTimeslots[] | null;
+    error: Error | null;
+  };
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+interface ResourceFilterQuery<T> {
+  in(column: string, values: unknown[]): T;
+  eq(column: string, value: unknown): T;
+  textSearch(
+    column: string,
+    query: string,
+    options?: { type?: 'websearch'; config?: string },
+  ): T;
+}
+
+// Applies the attribute filters; works on both the resources table and
+// resources_near, which returns resources rows with their distance, nearest
+// first
+function applyResourceFilters<T extends ResourceFilterQuery<T>>(
+  query: T,
+  filters?: ResourceFilter,
+): T {
+  if (!filters) {
+    return query;
+  }
+
+  query = appendQueries(query, {
+    type: filters.type,
+    category: filters.category,
+    status: filters.status,
+    owner_id: filters.ownerId,
+    'resource_communities.community_id': filters.communityId,
+    'resource_claims.status': filters.claimStatus,
+    'resource_claims.claimant_id': filters.claimantId,
+  });
+
+  if (filters.searchTerm?.trim()) {
+    query = query.textSearch('search_vector', filters.searchTerm.trim(), {
+      type: 'websearch',
+      config: 'english',
+    });
+  }
+
+  if (filters.hasAvailableSlots !== undefined) {
+    query = query.eq('has_available_slots', filters.hasAvailableSlots);
+  }
+
+  return query;
+}
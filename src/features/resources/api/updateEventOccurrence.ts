@@ -0,0 +1,55 @@
+import type { QueryError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { ResourceTimeslot, ResourceTimeslotInput } from '../types';
+import { forDbTimeslotUpdate, toDomainResourceTimeslot } from '../transformers';
+import {
+  ResourceTimeslotRow,
+  SELECT_RESOURCE_TIMESLOT_BASIC,
+} from '../types/resourceRow';
+
+/**
+ * Edits a single occurrence of a recurring event. The timeslot is marked as
+ * an exception so later changes to the series do not move it back.
+ */
+export async function updateEventOccurrence(
+  supabase: SupabaseClient<Database>,
+  update: Partial<Pick<ResourceTimeslotInput, 'startTime' | 'endTime'>> & {
+    id: string;
+  },
+): Promise<ResourceTimeslot> {
+  const { data, error } = (await supabase
+    .from('resource_timeslots')
+    .update({ ...forDbTimeslotUpdate(update), is_exception: true })
+    .eq('id', update.id)
+    .not('recurrence_id', 'is', null)
+    .select(SELECT_RESOURCE_TIMESLOT_BASIC)
+    .maybeSingle()) as {
+    data: ResourceTimeslotRow | null;
+    error: QueryError | null;
+  };
+
+  if (error) {
+    logger.error('🏘️ API: Failed to update event occurrence', {
+      error,
+      update,
+    });
+    throw new Error(error.message || 'Failed to update event occurrence');
+  }
+
+  if (!data) {
+    logger.error('🏘️ API: No recurring timeslot updated', {
+      update,
+    });
+    throw new Error('Timeslot is not part of a recurring series');
+  }
+
+  const timeslot = toDomainResourceTimeslot(data);
+
+  logger.debug('🏘️ API: Successfully updated event occurrence', {
+    timeslotId: timeslot.id,
+    resourceId: timeslot.resourceId,
+  });
+
+  return timeslot;
+}
@@ -0,0 +1,55 @@
+import type { QueryError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import { logger } from '@/shared';
+import { EventRecurrence, UpdateFutureOccurrencesInput } from '../types';
+import {
+  toDomainEventRecurrence,
+  toEventRecurrenceChangesJson,
+} from '../transformers';
+import { ResourceRecurrenceRow } from '../types/resourceRow';
+
+/**
+ * Applies changes to an occurrence and every occurrence after it.
+ * If earlier occurrences exist, the series is split: the original series ends
+ * before `from` and the returned series continues with the changes. Upcoming
+ * timeslots the changed rule still produces keep their claims.
+ */
+export async function updateFutureOccurrences(
+  supabase: SupabaseClient<Database>,
+  input: UpdateFutureOccurrencesInput,
+): Promise<EventRecurrence> {
+  const { data, error } = (await supabase
+    .rpc('update_event_recurrence_from', {
+      p_recurrence_id: input.recurrenceId,
+      p_from: input.from.toISOString(),
+      p_changes: toEventRecurrenceChangesJson(input.changes),
+    })
+    .single()) as {
+    data: ResourceRecurrenceRow | null;
+    error: QueryError | null;
+  };
+
+  if (error) {
+    logger.error('🏘️ API: Failed to update future occurrences', {
+      error,
+      input,
+    });
+    throw new Error(error.message || 'Failed to update future occurrences');
+  }
+
+  if (!data) {
+    logger.error('🏘️ API: No data returned from recurrence update', {
+      input,
+    });
+    throw new Error('No data returned from recurrence update');
+  }
+
+  const recurrence = toDomainEventRecurrence(data);
+
+  logger.debug('🏘️ API: Successfully updated future occurrences', {
+    recurrenceId: recurrence.id,
+    resourceId: recurrence.resourceId,
+  });
+
+  return recurrence;
+}
@@ -8,6 +8,7 @@ import {
   ResourceClaimStatus,
   SELECT_RESOURCE_CLAIMS_JOIN_RESOURCE_JOIN_TIMESLOT,
 } from '../types/resourceRow';
+import { toClaimTransitionError } from '../errors';
 
 export async function updateResourceClaim(
   supabase: SupabaseClient<Database>,
@@ -34,7 +35,10 @@ export async function updateResourceClaim(
       error,
       claimInput,
     });
-    throw new Error(error.message || 'Failed to update resource claim');
+    throw (
+      toClaimTransitionError(error) ??
+      new Error(error.message || 'Failed to update resource claim')
+    );
   }
 
   if (!data) {
@@ -0,0 +1,2 @@
+/** Default maximum number of resources returned by proximity search */
+export const NEARBY_RESOURCES_LIMIT = 50;
@@ -0,0 +1,66 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { ClaimActor, ResourceClaimStatus, ResourceType } from './types';
+
+// SQLSTATE raised by the database when a claim status transition is not allowed
+export const CLAIM_TRANSITION_ERROR_CODE = 'PT409';
+
+export interface ClaimTransitionErrorDetails {
+  resourceType: ResourceType;
+  fromStatus: ResourceClaimStatus;
+  toStatus: ResourceClaimStatus;
+  // Who may make the transition; undefined when no one may
+  allowedActor?: ClaimActor;
+}
+
+/**
+ * Thrown when a claim update asks for a status transition the rules do not
+ * allow, or that only the other party may make.
+ */
+export class ClaimTransitionError extends Error {
+  readonly resourceType: ResourceType;
+  readonly fromStatus: ResourceClaimStatus;
+  readonly toStatus: ResourceClaimStatus;
+  readonly allowedActor?: ClaimActor;
+
+  constructor(details: ClaimTransitionErrorDetails, message?: string) {
+    super(
+      message ??
+        `Invalid status transition for ${details.resourceType}: ${details.fromStatus} -> ${details.toStatus}`,
+    );
+    this.name = 'ClaimTransitionError';
+    this.resourceType = details.resourceType;
+    this.fromStatus = details.fromStatus;
+    this.toStatus = details.toStatus;
+    this.allowedActor = details.allowedActor;
+  }
+}
+
+/**
+ * Converts a database error raised by claim transition validation into a
+ * ClaimTransitionError. Returns undefined for any other error.
+ */
+export function toClaimTransitionError(
+  error: unknown,
+): ClaimTransitionError | undefined {
+  if (
+    !error ||
+    typeof error !== 'object' ||
+    (error as PostgrestError).code !== CLAIM_TRANSITION_ERROR_CODE
+  ) {
+    return undefined;
+  }
+
+  const { message, details } = error as PostgrestError;
+
+  try {
+    const parsed = JSON.parse(details) as ClaimTransitionErrorDetails & {
+      allowedActor: ClaimActor | null;
+    };
+    return new ClaimTransitionError(
+      { ...parsed, allowedActor: parsed.allowedActor ?? undefined },
+      message,
+    );
+  } catch {
+    return undefined;
+  }
+}
@@ -1,9 +1,12 @@
 // Query hooks
 export * from './useResources';
+export * from './useNearbyResources';
 export * from './useResource';
 export * from './useResourcesById';
 export * from './useResourceClaims';
 export * from './useResourceTimeslots';
+export * from './useEventRecurrences';
+export * from './useAllowedClaimTransitions';
 
 // Mutation hooks
 export * from './useCreateResource';
@@ -13,7 +16,13 @@ export * from './useRenewResource';
 export * from './useCreateResourceClaim';
 export * from './useUpdateResourceClaim';
 export * from './useDeleteResourceClaim';
+export * from './useClaimTransitions';
 export * from './useCreateResourceTimeslot';
 export * from './useUpdateResourceTimeslot';
 export * from './useDeleteResourceTimeslot';
 export * from './useFinalizeVotedTimeslot';
+export * from './useCreateEventRecurrence';
+export * from './useDeleteEventRecurrence';
+export * from './useUpdateFutureOccurrences';
+export * from './useUpdateEventOccurrence';
+export * from './useCancelEventOccurrence';
@@ -0,0 +1,66 @@
+import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import type { UseQueryResult } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
+import { STANDARD_CACHE_TIME } from '@/config';
+import { fetchClaimTransitionRules } from '../api';
+import { ClaimTransition, ResourceClaim, ResourceType } from '../types';
+import { resourceClaimsKeys } from '../queries';
+import { filterAllowedClaimTransitions } from '../utils';
+
+/**
+ * Hook for the status transitions the current user may make on a claim.
+ *
+ * The rule set is fetched once and shared by every claim, so rendering a list
+ * of claims costs a single request. The database enforces the same rules and
+ * rejects anything else with a ClaimTransitionError.
+ *
+ * @param claim - The claim to act on
+ * @param resourceType - Type of the claimed resource
+ * @returns React Query result with the allowed transitions
+ *
+ * @example
+ * ```tsx
+ * function ClaimActions({ claim, resource }) {
+ *   const { data: transitions = [] } = useAllowedClaimTransitions(
+ *     claim,
+ *     resource.type,
+ *   );
+ *   const approveClaim = useApproveClaim();
+ *
+ *   return transitions.some((t) => t.toStatus === 'approved') ? (
+ *     <button onClick={() => approveClaim.mutate({ id: claim.id })}>
+ *       Approve
+ *     </button>
+ *   ) : null;
+ * }
+ * ```
+ */
+export function useAllowedClaimTransitions(
+  claim:
+    | Pick<ResourceClaim, 'status' | 'claimantId' | 'resourceOwnerId'>
+    | null
+    | undefined,
+  resourceType: ResourceType | undefined,
+  options?: Partial<UseQueryOptions<ClaimTransition[], Error>>,
+): UseQueryResult<ClaimTransition[], Error> {
+  const supabase = useSupabase();
+  const { data: currentUser } = useCurrentUser();
+
+  return useQuery<ClaimTransition[], Error>({
+    queryKey: resourceClaimsKeys.transitionRules(),
+    queryFn: () => fetchClaimTransitionRules(supabase),
+    select: (rules) =>
+      claim && currentUser && resourceType
+        ? filterAllowedClaimTransitions(
+            rules,
+            claim,
+            currentUser.id,
+            resourceType,
+          )
+        : [],
+    staleTime: STANDARD_CACHE_TIME,
+    enabled: !!claim && !!currentUser && !!resourceType,
+    ...options,
+  });
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { cancelEventOccurrence } from '../api';
+import { ResourceTimeslot } from '../types';
+import {
+  eventRecurrenceKeys,
+  resourceKeys,
+  resourceTimeslotKeys,
+} from '../queries';
+
+export function useCancelEventOccurrence() {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, ResourceTimeslot>({
+    mutationFn: (timeslot: ResourceTimeslot) =>
+      cancelEventOccurrence(supabase, timeslot.id),
+    onSuccess: (_, timeslot: ResourceTimeslot) => {
+      // The occurrence is recorded as an exception date on its series
+      queryClient.invalidateQueries({
+        queryKey: eventRecurrenceKeys.listByResource(timeslot.resourceId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: resourceTimeslotKeys.listByResource(timeslot.resourceId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: resourceKeys.detail(timeslot.resourceId),
+      });
+    },
+  });
+}
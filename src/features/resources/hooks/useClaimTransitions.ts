@@ -0,0 +1,106 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { UseMutationResult } from '@tanstack/react-query';
+import { logger, useSupabase } from '@/shared';
+import { updateResourceClaim } from '../api';
+import { ResourceClaim, ResourceClaimStatus } from '../types';
+import { updateClaimInCache } from '../utils';
+
+export type ClaimTransitionInput = {
+  id: string;
+  // Optional note from the resource owner, e.g. why a claim was rejected
+  responseText?: string;
+};
+
+export type ClaimTransitionMutation = UseMutationResult<
+  ResourceClaim,
+  Error,
+  ClaimTransitionInput
+>;
+
+function useClaimTransition(
+  toStatus: ResourceClaimStatus,
+): ClaimTransitionMutation {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation<ResourceClaim, Error, ClaimTransitionInput>({
+    mutationFn: ({ id, responseText }: ClaimTransitionInput) =>
+      updateResourceClaim(supabase, { id, status: toStatus, responseText }),
+    onSuccess: (claim: ResourceClaim) => {
+      updateClaimInCache(queryClient, claim);
+    },
+    onError: (error: Error, { id }) => {
+      logger.error('🏘️ API: Failed to transition resource claim', {
+        error,
+        claimId: id,
+        toStatus,
+      });
+    },
+  });
+}
+
+/**
+ * Owner approves a pending claim. Illegal transitions fail with a
+ * ClaimTransitionError.
+ */
+export function useApproveClaim(): ClaimTransitionMutation {
+  return useClaimTransition('approved');
+}
+
+/**
+ * Owner rejects a pending claim.
+ */
+export function useRejectClaim(): ClaimTransitionMutation {
+  return useClaimTransition('rejected');
+}
+
+/**
+ * Giver marks an approved offer or request as handed over: the owner for
+ * offers, the claimant for requests.
+ */
+export function useMarkGiven(): ClaimTransitionMutation {
+  return useClaimTransition('given');
+}
+
+/**
+ * Receiver marks an approved offer or request as received: the claimant for
+ * offers, the owner for requests.
+ */
+export function useMarkReceived(): ClaimTransitionMutation {
+  return useClaimTransition('received');
+}
+
+/**
+ * Other party confirms a given or received handoff, completing the claim.
+ */
+export function useCompleteClaim(): ClaimTransitionMutation {
+  return useClaimTransition('completed');
+}
+
+/**
+ * Attendee confirms they are going to an approved event registration.
+ */
+export function useMarkGoing(): ClaimTransitionMutation {
+  return useClaimTransition('going');
+}
+
+/**
+ * Event owner marks a going attendee as attended.
+ */
+export function useMarkAttended(): ClaimTransitionMutation {
+  return useClaimTransition('attended');
+}
+
+/**
+ * Event owner marks a going attendee as a no-show.
+ */
+export function useMarkFlaked(): ClaimTransitionMutation {
+  return useClaimTransition('flaked');
+}
+
+/**
+ * Claimant cancels their claim, registration or vote.
+ */
+export function useCancelClaim(): ClaimTransitionMutation {
+  return useClaimTransition('cancelled');
+}
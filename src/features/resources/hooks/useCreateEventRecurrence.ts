@@ -0,0 +1,32 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { createEventRecurrence } from '../api';
+import { EventRecurrence, EventRecurrenceInput } from '../types';
+import {
+  eventRecurrenceKeys,
+  resourceKeys,
+  resourceTimeslotKeys,
+} from '../queries';
+
+export function useCreateEventRecurrence() {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation<EventRecurrence, Error, EventRecurrenceInput>({
+    mutationFn: (recurrenceInput: EventRecurrenceInput) =>
+      createEventRecurrence(supabase, recurrenceInput),
+    onSuccess: (recurrence: EventRecurrence) => {
+      queryClient.invalidateQueries({
+        queryKey: eventRecurrenceKeys.listByResource(recurrence.resourceId),
+      });
+
+      // Creating a series generates timeslots and marks the event recurring
+      queryClient.invalidateQueries({
+        queryKey: resourceTimeslotKeys.listByResource(recurrence.resourceId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: resourceKeys.detail(recurrence.resourceId),
+      });
+    },
+  });
+}
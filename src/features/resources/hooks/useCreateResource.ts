@@ -1,19 +1,28 @@
+import { useCallback } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@/shared';
 import { useSupabase } from '@/shared';
 import { createResource } from '@/features/resources/api';
 
-import type { Resource, ResourceInput } from '@/features/resources/types';
+import type {
+  CreateResourceInput,
+  Resource,
+} from '@/features/resources/types';
 import { resourceKeys } from '../queries';
 import { feedKeys } from '@/features/feed/queries';
 import { trustScoreKeys } from '@/features/trust-scores/queries';
+import { offlineMutationOptions } from '@/features/offline/mutations';
 
 /**
  * Hook for creating a new resource.
  *
  * Provides a mutation function for creating resources (offers/requests).
  * Returns Resource (with ID references) rather than full composed Resource object.
- * Automatically invalidates resource caches on successful creation.
+ * Initial timeslots passed in `timeslots` are created in the same transaction.
+ * Automatically invalidates resource caches on successful creation. While
+ * offline the resource is queued and created on reconnect. Each call gets its
+ * resource id up front, so retries and replays never create it twice.
  *
  * @returns React Query mutation result with create function and state
  *
@@ -77,7 +86,8 @@ export function useCreateResource() {
   const supabase = useSupabase();
 
   const mutation = useMutation({
-    mutationFn: async (data: ResourceInput): Promise<Resource> => {
+    ...offlineMutationOptions('createResource'),
+    mutationFn: async (data: CreateResourceInput): Promise<Resource> => {
       // Create the resource (auto-commits images internally)
       const result = await createResource(supabase, data);
       if (!result) {
@@ -111,5 +121,18 @@ export function useCreateResource() {
     },
   });
 
-  return mutation;
+  const { mutate, mutateAsync } = mutation;
+
+  return {
+    ...mutation,
+    mutate: useCallback<typeof mutate>(
+      (data, options) => mutate({ ...data, id: data.id ?? uuidv4() }, options),
+      [mutate],
+    ),
+    mutateAsync: useCallback<typeof mutateAsync>(
+      (data, options) =>
+        mutateAsync({ ...data, id: data.id ?? uuidv4() }, options),
+      [mutateAsync],
+    ),
+  };
 }
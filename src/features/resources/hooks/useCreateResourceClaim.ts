@@ -1,17 +1,89 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { logger, useSupabase } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
 import { createResourceClaim } from '../api';
-import { Resource, ResourceClaim, ResourceClaimInput } from '../types';
-import { resourceClaimsKeys, resourceKeys } from '../queries';
+import {
+  Resource,
+  ResourceClaim,
+  ResourceClaimInput,
+  ResourceTimeslot,
+} from '../types';
+import {
+  resourceClaimsKeys,
+  resourceKeys,
+  resourceTimeslotKeys,
+} from '../queries';
+import { initialClaimStatus } from '../utils';
 import { trustScoreKeys } from '@/features/trust-scores/queries';
+import { offlineMutationOptions } from '@/features/offline/mutations';
+import { v4 as uuidv4 } from 'uuid';
+
+type ClaimListSnapshot = [readonly unknown[], ResourceClaim[] | undefined][];
 
 export function useCreateResourceClaim() {
   const supabase = useSupabase();
   const queryClient = useQueryClient();
+  const { data: currentUser } = useCurrentUser();
 
-  return useMutation<ResourceClaim, Error, ResourceClaimInput>({
+  return useMutation<
+    ResourceClaim,
+    Error,
+    ResourceClaimInput,
+    { previousLists: ClaimListSnapshot }
+  >({
+    ...offlineMutationOptions('createResourceClaim'),
     mutationFn: (claimInput: ResourceClaimInput) =>
       createResourceClaim(supabase, claimInput),
+    // Show the claim right away (it is queued while offline) when the
+    // resource and timeslot are cached
+    onMutate: async (claimInput) => {
+      const resource = queryClient.getQueryData<Resource>(
+        resourceKeys.detail(claimInput.resourceId),
+      );
+      const timeslot = queryClient
+        .getQueryData<
+          ResourceTimeslot[]
+        >(resourceTimeslotKeys.listByResource(claimInput.resourceId))
+        ?.find((t) => t.id === claimInput.timeslotId);
+      if (!resource || !timeslot || !currentUser) {
+        return { previousLists: [] };
+      }
+
+      const listKeys = [
+        resourceClaimsKeys.listByResource(claimInput.resourceId),
+        resourceClaimsKeys.listByClaimant(currentUser.id),
+      ];
+      await Promise.all(
+        listKeys.map((queryKey) => queryClient.cancelQueries({ queryKey })),
+      );
+
+      const now = new Date();
+      const optimisticClaim: ResourceClaim = {
+        ...claimInput,
+        id: `optimistic-${uuidv4()}`,
+        claimantId: currentUser.id,
+        resourceOwnerId: resource.ownerId,
+        timeslot,
+        status: initialClaimStatus(resource, timeslot.status),
+        commitmentLevel:
+          claimInput.commitmentLevel ??
+          (resource.type === 'event' ? 'interested' : null),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const previousLists: ClaimListSnapshot = listKeys.map((queryKey) => [
+        queryKey,
+        queryClient.getQueryData<ResourceClaim[]>(queryKey),
+      ]);
+      previousLists.forEach(([queryKey, claims]) => {
+        if (claims) {
+          queryClient.setQueryData(queryKey, [...claims, optimisticClaim]);
+        }
+      });
+
+      return { previousLists };
+    },
     onSuccess: (claim: ResourceClaim) => {
       queryClient.setQueryData(resourceClaimsKeys.detail(claim.id), claim);
       queryClient.invalidateQueries({
@@ -42,8 +114,13 @@ export function useCreateResourceClaim() {
         });
       }
     },
-    onError: (error: Error) => {
+    onError: (error, _claimInput, context) => {
       logger.error('📚 API: Failed to create resource claim', { error });
+
+      // Roll back the optimistic claim
+      context?.previousLists.forEach(([queryKey, claims]) => {
+        queryClient.setQueryData(queryKey, claims);
+      });
     },
   });
 }
@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { deleteEventRecurrence } from '../api';
+import { EventRecurrence } from '../types';
+import {
+  eventRecurrenceKeys,
+  resourceKeys,
+  resourceTimeslotKeys,
+} from '../queries';
+
+export function useDeleteEventRecurrence() {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation<EventRecurrence | null, Error, string>({
+    mutationFn: (id: string) => deleteEventRecurrence(supabase, id),
+    onSuccess: (recurrence: EventRecurrence | null) => {
+      if (recurrence) {
+        queryClient.invalidateQueries({
+          queryKey: eventRecurrenceKeys.listByResource(recurrence.resourceId),
+        });
+        queryClient.invalidateQueries({
+          queryKey: resourceTimeslotKeys.listByResource(recurrence.resourceId),
+        });
+        queryClient.invalidateQueries({
+          queryKey: resourceKeys.detail(recurrence.resourceId),
+        });
+      }
+    },
+  });
+}
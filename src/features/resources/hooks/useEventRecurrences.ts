@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { fetchEventRecurrences } from '../api';
+import { EventRecurrence } from '../types';
+import { UseQueryOptions } from '@tanstack/react-query';
+import { STANDARD_CACHE_TIME } from '@/config';
+import { eventRecurrenceKeys } from '../queries';
+
+export function useEventRecurrences(
+  resourceId: string,
+  options?: Partial<UseQueryOptions<EventRecurrence[], Error>>,
+) {
+  const supabase = useSupabase();
+
+  return useQuery<EventRecurrence[], Error>({
+    queryKey: eventRecurrenceKeys.listByResource(resourceId),
+    queryFn: () => fetchEventRecurrences(supabase, resourceId),
+    staleTime: STANDARD_CACHE_TIME,
+    enabled: !!resourceId,
+    ...options,
+  });
+}
@@ -0,0 +1,64 @@
+import { UseQueryOptions, useQuery } from '@tanstack/react-query';
+import { logger } from '@/shared';
+import { useSupabase } from '@/shared';
+import { STANDARD_CACHE_TIME } from '@/config';
+import { fetchNearbyResources } from '../api';
+import type { NearbyResourceFilter, NearbyResourceSummary } from '../types';
+import { resourceKeys } from '../queries';
+
+/**
+ * Hook for finding resources near a location.
+ *
+ * Returns resources within a radius or driving-time budget of `origin`,
+ * nearest first, each with its distance in kilometers.
+ *
+ * @param filter - Origin, search limit and optional attribute filters
+ * @param options - Optional React Query options
+ * @returns Query state for nearby resources
+ *
+ * @example
+ * ```tsx
+ * function NearbyOffers({ location }) {
+ *   const { data: offers, isPending } = useNearbyResources({
+ *     origin: location,
+ *     radiusKm: 2,
+ *     type: 'offer',
+ *     status: 'active',
+ *   });
+ *
+ *   if (isPending) return <div>Loading...</div>;
+ *
+ *   return (
+ *     <ul>
+ *       {offers?.map(offer => (
+ *         <li key={offer.id}>
+ *           {offer.title} – {offer.distanceKm.toFixed(1)} km
+ *         </li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useNearbyResources(
+  filter: NearbyResourceFilter,
+  options?: Partial<UseQueryOptions<NearbyResourceSummary[], Error>>,
+) {
+  const supabase = useSupabase();
+
+  const query = useQuery<NearbyResourceSummary[], Error>({
+    queryKey: resourceKeys.nearby(filter),
+    queryFn: () => fetchNearbyResources(supabase, filter),
+    staleTime: STANDARD_CACHE_TIME,
+    ...options,
+  });
+
+  if (query.error) {
+    logger.error('📚 API: Error fetching nearby resources', {
+      error: query.error,
+      filter,
+    });
+  }
+
+  return query;
+}
@@ -10,7 +10,8 @@ import { resourceKeys } from '../queries';
  * Hook for fetching resources list.
  *
  * Provides resource listing functionality with optional filtering.
- * Supports filtering by type, category, community, and active status.
+ * All filtering happens server-side: type, category, community, status,
+ * owner, claims, availability, driving distance and full-text search.
  *
  * @param filters - Optional filters to apply to the resource list
  * @returns Query state for resources list
@@ -44,7 +45,8 @@ import { resourceKeys } from '../queries';
  *   const { data: offers } = useResources({
  *     communityId,
  *     type: 'offer',
- *     isActive: true
+ *     status: 'active',
+ *     hasAvailableSlots: true,
  *   });
  *
  *   return (
@@ -57,6 +59,21 @@ import { resourceKeys } from '../queries';
  *   );
  * }
  * ```
+ *
+ * @example
+ * ```tsx
+ * // Search nearby tools
+ * function ToolSearch({ searchTerm, origin }) {
+ *   const { data: tools } = useResources({
+ *     category: 'tools',
+ *     searchTerm,
+ *     origin,
+ *     maxDriveMinutes: 10,
+ *   });
+ *
+ *   return <ResourceGrid resources={tools} />;
+ * }
+ * ```
  */
 export function useResources(
   filter?: ResourceFilter,
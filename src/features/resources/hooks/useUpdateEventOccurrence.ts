@@ -0,0 +1,29 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { updateEventOccurrence } from '../api';
+import { ResourceTimeslot, ResourceTimeslotInput } from '../types';
+import { resourceKeys, resourceTimeslotKeys } from '../queries';
+
+export type UpdateEventOccurrenceInput = Partial<
+  Pick<ResourceTimeslotInput, 'startTime' | 'endTime'>
+> & { id: string };
+
+export function useUpdateEventOccurrence() {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation<ResourceTimeslot, Error, UpdateEventOccurrenceInput>({
+    mutationFn: (update: UpdateEventOccurrenceInput) =>
+      updateEventOccurrence(supabase, update),
+    onSuccess: (timeslot: ResourceTimeslot) => {
+      queryClient.invalidateQueries({
+        queryKey: resourceTimeslotKeys.listByResource(timeslot.resourceId),
+      });
+
+      // We include timeslots in the resource detail query
+      queryClient.invalidateQueries({
+        queryKey: resourceKeys.detail(timeslot.resourceId),
+      });
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { updateFutureOccurrences } from '../api';
+import { EventRecurrence, UpdateFutureOccurrencesInput } from '../types';
+import {
+  eventRecurrenceKeys,
+  resourceKeys,
+  resourceTimeslotKeys,
+} from '../queries';
+
+export function useUpdateFutureOccurrences() {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation<EventRecurrence, Error, UpdateFutureOccurrencesInput>({
+    mutationFn: (input: UpdateFutureOccurrencesInput) =>
+      updateFutureOccurrences(supabase, input),
+    onSuccess: (recurrence: EventRecurrence) => {
+      // The original series may have been split, so refetch all of them
+      queryClient.invalidateQueries({
+        queryKey: eventRecurrenceKeys.listByResource(recurrence.resourceId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: resourceTimeslotKeys.listByResource(recurrence.resourceId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: resourceKeys.detail(recurrence.resourceId),
+      });
+    },
+  });
+}
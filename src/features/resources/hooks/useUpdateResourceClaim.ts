@@ -1,10 +1,9 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSupabase } from '@/shared';
 import { updateResourceClaim } from '../api';
-import { Resource, ResourceClaim, ResourceClaimInput } from '../types';
+import { ResourceClaim, ResourceClaimInput } from '../types';
 import { ResourceClaimStatus } from '../types/resourceRow';
-import { resourceClaimsKeys, resourceKeys } from '../queries';
-import { trustScoreKeys } from '@/features/trust-scores/queries';
+import { updateClaimInCache } from '../utils';
 
 export function useUpdateResourceClaim() {
   const supabase = useSupabase();
@@ -17,35 +16,7 @@ export function useUpdateResourceClaim() {
   >({
     mutationFn: (update: Partial<ResourceClaimInput> & { id: string; status?: ResourceClaimStatus }) => updateResourceClaim(supabase, update),
     onSuccess: (claim: ResourceClaim) => {
-      queryClient.setQueryData(resourceClaimsKeys.detail(claim.id), claim);
-
-      queryClient.invalidateQueries({
-        queryKey: resourceClaimsKeys.listByClaimant(claim.claimantId),
-      });
-      queryClient.invalidateQueries({
-        queryKey: resourceClaimsKeys.listByResource(claim.resourceId),
-      });
-
-      const resource = queryClient.getQueryData<Resource>(
-        resourceKeys.detail(claim.resourceId),
-      );
-      if (resource) {
-        queryClient.invalidateQueries({
-          queryKey: resourceClaimsKeys.listByResourceOwner(resource.ownerId),
-        });
-      } else {
-        // We don't know who the resource owner is, so invalidate all
-        queryClient.invalidateQueries({
-          queryKey: resourceClaimsKeys.listsByResourceOwner(),
-        });
-      }
-
-      // Invalidate trust score for claimant (status changes affect scores)
-      if (resource) {
-        queryClient.invalidateQueries({
-          queryKey: trustScoreKeys.listByUser(claim.claimantId),
-        });
-      }
+      updateClaimInCache(queryClient, claim);
     },
   });
 }
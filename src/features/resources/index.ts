@@ -1,2 +1,4 @@
 export * from './hooks';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export * from './errors';
+export * from './constants';
@@ -1,4 +1,4 @@
-import { ResourceFilter } from './types';
+import { NearbyResourceFilter, ResourceFilter } from './types';
 
 // Resources
 export const resourceKeys = {
@@ -8,6 +8,10 @@ export const resourceKeys = {
   lists: () => [...resourceKeys.all, 'list'] as const,
   list: (filter: ResourceFilter) => [...resourceKeys.lists(), filter] as const,
 
+  // Returns NearbyResourceSummary[]
+  nearby: (filter: NearbyResourceFilter) =>
+    [...resourceKeys.lists(), 'nearby', filter] as const,
+
   // Returns Resource
   details: () => [...resourceKeys.all, 'detail'] as const,
   detail: (id: string) => [...resourceKeys.details(), id] as const,
@@ -22,6 +26,15 @@ export const resourceTimeslotKeys = {
     [...resourceTimeslotKeys.listsByResource(), resourceId] as const,
 };
 
+export const eventRecurrenceKeys = {
+  all: ['event-recurrences'] as const,
+  lists: () => [...eventRecurrenceKeys.all, 'list'] as const,
+  listsByResource: () =>
+    [...eventRecurrenceKeys.lists(), 'by-resource'] as const,
+  listByResource: (resourceId: string) =>
+    [...eventRecurrenceKeys.listsByResource(), resourceId] as const,
+};
+
 export const resourceClaimsKeys = {
   all: ['resource-claims'] as const,
   lists: () => [...resourceClaimsKeys.all, 'list'] as const,
@@ -39,4 +52,8 @@ export const resourceClaimsKeys = {
     [...resourceClaimsKeys.listsByResource(), id] as const,
   details: () => [...resourceClaimsKeys.all, 'detail'] as const,
   detail: (id: string) => [...resourceClaimsKeys.details(), id] as const,
+
+  // Returns ClaimTransition[]
+  transitionRules: () =>
+    [...resourceClaimsKeys.all, 'transition-rules'] as const,
 };
@@ -0,0 +1,85 @@
+import type { Json } from '@/shared/types/database';
+import type {
+  EventRecurrence,
+  EventRecurrenceChanges,
+  EventRecurrenceInput,
+  Weekday,
+} from '../types';
+import type {
+  ResourceRecurrenceInsertDbData,
+  ResourceRecurrenceRow,
+} from '../types/resourceRow';
+
+/**
+ * Transform a domain recurrence input to a database recurrence record
+ */
+export function toEventRecurrenceInsertRow(
+  recurrence: EventRecurrenceInput,
+): ResourceRecurrenceInsertDbData {
+  return {
+    resource_id: recurrence.resourceId,
+    frequency: recurrence.frequency,
+    repeat_interval: recurrence.interval,
+    by_weekday: recurrence.byWeekday,
+    starts_at: recurrence.startsAt.toISOString(),
+    duration_minutes: recurrence.durationMinutes,
+    timezone: recurrence.timezone,
+    until: recurrence.until?.toISOString(),
+    count: recurrence.count,
+    exception_dates: recurrence.exceptionDates?.map((date) =>
+      date.toISOString(),
+    ),
+  };
+}
+
+/**
+ * Transform domain recurrence changes to the column map expected by
+ * update_event_recurrence_from. Only fields present in the changes are
+ * included, so omitted fields keep their current value.
+ */
+export function toEventRecurrenceChangesJson(
+  changes: EventRecurrenceChanges,
+): Json {
+  const json: { [key: string]: Json } = {};
+
+  if (changes.frequency !== undefined) json.frequency = changes.frequency;
+  if (changes.interval !== undefined) json.repeat_interval = changes.interval;
+  if (changes.byWeekday !== undefined) json.by_weekday = changes.byWeekday;
+  if (changes.startsAt !== undefined)
+    json.starts_at = changes.startsAt.toISOString();
+  if (changes.durationMinutes !== undefined)
+    json.duration_minutes = changes.durationMinutes;
+  if (changes.timezone !== undefined) json.timezone = changes.timezone;
+  if (changes.until !== undefined)
+    json.until = changes.until ? changes.until.toISOString() : null;
+  if (changes.count !== undefined) json.count = changes.count;
+  if (changes.exceptionDates !== undefined)
+    json.exception_dates = changes.exceptionDates.map((date) =>
+      date.toISOString(),
+    );
+
+  return json;
+}
+
+/**
+ * Transform a database recurrence record to an EventRecurrence object
+ */
+export function toDomainEventRecurrence(
+  dbRecurrence: ResourceRecurrenceRow,
+): EventRecurrence {
+  return {
+    id: dbRecurrence.id,
+    resourceId: dbRecurrence.resource_id,
+    frequency: dbRecurrence.frequency,
+    interval: dbRecurrence.repeat_interval,
+    byWeekday: (dbRecurrence.by_weekday as Weekday[] | null) ?? undefined,
+    startsAt: new Date(dbRecurrence.starts_at),
+    durationMinutes: dbRecurrence.duration_minutes,
+    timezone: dbRecurrence.timezone,
+    until: dbRecurrence.until ? new Date(dbRecurrence.until) : undefined,
+    count: dbRecurrence.count ?? undefined,
+    exceptionDates: dbRecurrence.exception_dates.map((date) => new Date(date)),
+    createdAt: new Date(dbRecurrence.created_at),
+    updatedAt: new Date(dbRecurrence.updated_at),
+  };
+}
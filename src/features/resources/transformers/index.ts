@@ -1,3 +1,4 @@
 export * from './resourceTransformer';
 export * from './resourceTimeslotTransformer';
-export * from './resourceClaimTransformer';
\ No newline at end of file
+export * from './resourceClaimTransformer';
+export * from './eventRecurrenceTransformer';
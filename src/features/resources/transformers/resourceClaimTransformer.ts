@@ -1,9 +1,12 @@
 import type {
+  ClaimActor,
+  ClaimTransition,
   ResourceClaim,
   ResourceClaimInput,
   ResourceClaimSummary,
 } from '../types';
 import type {
+  ClaimTransitionRuleRow,
   ResourceClaimInsertDbData,
   ResourceClaimUpdateDbData,
   ResourceClaimRowJoinResourceJoinTimeslot,
@@ -74,6 +77,10 @@ export function toDomainResourceClaim(
     commitmentLevel: dbClaim.commitment_level,
     requestText: dbClaim.request_text ?? undefined,
     responseText: dbClaim.response_text ?? undefined,
+    waitlistPosition: dbClaim.waitlist_position ?? undefined,
+    waitlistedAt: dbClaim.waitlisted_at
+      ? new Date(dbClaim.waitlisted_at)
+      : undefined,
     createdAt: new Date(dbClaim.created_at),
     updatedAt: new Date(dbClaim.updated_at),
   };
@@ -93,3 +100,18 @@ export function toDomainResourceClaimSummary(
     status: dbClaim.status,
   };
 }
+
+/**
+ * Transform a database transition rule to a ClaimTransition object
+ */
+export function toDomainClaimTransition(
+  rule: ClaimTransitionRuleRow,
+): ClaimTransition {
+  return {
+    resourceType: rule.resource_type,
+    fromStatus: rule.from_status,
+    toStatus: rule.to_status,
+    actor: rule.allowed_actor as ClaimActor,
+    description: rule.description ?? undefined,
+  };
+}
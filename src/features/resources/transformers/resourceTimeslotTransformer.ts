@@ -1,4 +1,9 @@
-import type { ResourceTimeslot, ResourceTimeslotInput } from '../types';
+import type { Json } from '@/shared/types/database';
+import type {
+  InitialResourceTimeslot,
+  ResourceTimeslot,
+  ResourceTimeslotInput,
+} from '../types';
 import type {
   ResourceTimeslotRow,
   ResourceTimeslotInsertDbData,
@@ -19,6 +24,19 @@ export function toResourceTimeslotInsertRow(
   };
 }
 
+/**
+ * Transform timeslots created with their resource to the create_resource RPC payload
+ */
+export function toInitialTimeslotsJson(
+  timeslots: InitialResourceTimeslot[],
+): Json {
+  return timeslots.map((timeslot) => ({
+    start_time: timeslot.startTime.toISOString(),
+    end_time: timeslot.endTime.toISOString(),
+    status: timeslot.status ?? 'active',
+  }));
+}
+
 /**
  * Transform a domain timeslot object to a database timeslot record for updates
  */
@@ -45,6 +63,12 @@ export function toDomainResourceTimeslot(
     endTime: new Date(dbTimeslot.end_time),
     status: dbTimeslot.status,
     voteCount: dbTimeslot.vote_count,
+    recurrenceId: dbTimeslot.recurrence_id ?? undefined,
+    occurrenceStart: dbTimeslot.occurrence_start
+      ? new Date(dbTimeslot.occurrence_start)
+      : undefined,
+    isException: dbTimeslot.is_exception,
+    sequence: dbTimeslot.sequence,
     createdAt: new Date(dbTimeslot.created_at),
     updatedAt: new Date(dbTimeslot.updated_at),
   };
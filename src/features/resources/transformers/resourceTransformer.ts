@@ -1,10 +1,13 @@
+import type { Json } from '@/shared/types/database';
 import type {
   ResourceCategory,
   Resource,
   ResourceInput,
   ResourceSummary,
+  NearbyResourceSummary,
 } from '../types';
 import type {
+  NearbyResourceRowJoinCommunitiesJoinTimeslots,
   ResourceInsertDbData,
   ResourceUpdateDbData,
   ResourceRowJoinCommunitiesJoinTimeslots,
@@ -53,6 +56,21 @@ export function toResourceInsertRow(
   };
 }
 
+/**
+ * Transform a domain resource object to the create_resource RPC payload.
+ * Unset fields are left out so the column defaults apply.
+ */
+export function toCreateResourceJson(
+  id: string,
+  resource: Omit<ResourceInput, 'communityIds'>,
+): Json {
+  const row: Record<string, unknown> = { id, ...toResourceInsertRow(resource) };
+
+  return Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== undefined),
+  ) as { [key: string]: Json };
+}
+
 /**
  * Transform a domain resource object to a database resource record
  */
@@ -77,7 +95,7 @@ export function forDbUpdate(
     claim_limit_per: resource.claimLimitPer,
     requires_approval: resource.requiresApproval,
     timeslots_flexible: resource.areTimeslotsFlexible,
-    is_recurring: resource.isRecurring ?? false,
+    is_recurring: resource.isRecurring,
     last_renewed_at: resource.lastRenewedAt?.toISOString(),
     voting_deadline: resource.votingDeadline?.toISOString(),
     duration_minutes: resource.durationMinutes,
@@ -146,3 +164,12 @@ export function toDomainResourceSummary(
     commentCount: dbResource.comment_count ?? 0,
   };
 }
+
+export function toDomainNearbyResourceSummary(
+  dbResource: NearbyResourceRowJoinCommunitiesJoinTimeslots,
+): NearbyResourceSummary {
+  return {
+    ...toDomainResourceSummary(dbResource),
+    distanceKm: dbResource.distance_km,
+  };
+}
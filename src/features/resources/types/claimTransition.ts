@@ -0,0 +1,16 @@
+import type { ResourceClaimStatus, ResourceType } from './resourceRow';
+
+// Who may move a claim between two statuses; 'system' transitions happen in
+// database functions such as voting finalization
+export type ClaimActor = 'owner' | 'claimant' | 'system';
+
+/**
+ * A claim status transition from the claim_status_transition_rules table.
+ */
+export interface ClaimTransition {
+  resourceType: ResourceType;
+  fromStatus: ResourceClaimStatus;
+  toStatus: ResourceClaimStatus;
+  actor: ClaimActor;
+  description?: string;
+}
@@ -0,0 +1,46 @@
+import { IsPersisted } from '@/shared';
+import { RecurrenceFrequency } from './resourceRow';
+
+// Day of the week, 0 = Sunday
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export type EventRecurrenceInput = {
+  resourceId: string;
+  frequency: RecurrenceFrequency;
+  // Repeat every N weeks or months (default 1)
+  interval?: number;
+  // Weekly only; defaults to the weekday of startsAt
+  byWeekday?: Weekday[];
+  // First occurrence; its local time of day applies to every occurrence
+  startsAt: Date;
+  durationMinutes: number;
+  // IANA time zone the rule is evaluated in (default 'UTC')
+  timezone?: string;
+  // Either until or count may bound the series, not both
+  until?: Date;
+  count?: number;
+  // Occurrence start times to skip
+  exceptionDates?: Date[];
+};
+
+export type EventRecurrence = IsPersisted<EventRecurrenceInput> & {
+  interval: number;
+  timezone: string;
+  exceptionDates: Date[];
+};
+
+// Fields changed for all future occurrences; null clears an optional field
+export type EventRecurrenceChanges = Partial<
+  Omit<EventRecurrenceInput, 'resourceId' | 'byWeekday' | 'until' | 'count'>
+> & {
+  byWeekday?: Weekday[] | null;
+  until?: Date | null;
+  count?: number | null;
+};
+
+export type UpdateFutureOccurrencesInput = {
+  recurrenceId: string;
+  // Start of the first occurrence to change
+  from: Date;
+  changes: EventRecurrenceChanges;
+};
@@ -4,6 +4,8 @@ export * from './resourceTimeslot';
 export * from './resourceClaim';
 export * from './resourceClaimFilter';
 export * from './resourceTimeslotFilter';
+export * from './eventRecurrence';
+export * from './claimTransition';
 
 export type {
   ResourceClaimStatus,
@@ -11,6 +13,7 @@ export type {
   ResourceCategory,
   ResourceType,
   ResourceTimeslotStatus,
+  RecurrenceFrequency,
   CommitmentLevel,
 } from './resourceRow';
 
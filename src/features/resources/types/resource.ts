@@ -4,6 +4,7 @@ import {
   ResourceCategory,
   ResourceType,
   ResourceTimeslot,
+  InitialResourceTimeslot,
 } from '../index';
 
 // I considered having a ResouceSummary, but nearly everything here is needed on the list view
@@ -28,6 +29,14 @@ export type ResourceSummary = Pick<
   commentCount: number;
 };
 
+/**
+ * Resource summary returned by proximity search, with the straight-line
+ * distance from the search origin.
+ */
+export type NearbyResourceSummary = ResourceSummary & {
+  distanceKm: number;
+};
+
 export enum ResourceTypeEnum {
   OFFER = 'offer',
   REQUEST = 'request',
@@ -56,3 +65,15 @@ export type ResourceInput = {
   votingDeadline?: Date;
   durationMinutes?: number;
 };
+
+/**
+ * Input for creating a resource. The resource, its community links and any
+ * initial timeslots are created in a single transaction.
+ *
+ * `id` is generated when omitted. Retries of the same creation should pass
+ * the same id, so a creation that already succeeded is not repeated.
+ */
+export type CreateResourceInput = ResourceInput & {
+  id?: string;
+  timeslots?: InitialResourceTimeslot[];
+};
@@ -9,6 +9,9 @@ export type ResourceClaim = IsPersisted<ResourceClaimInput> & {
   commitmentLevel: CommitmentLevel | null;
   requestText?: string;
   responseText?: string;
+  // Set while status is 'waitlisted'; 1 is next in line
+  waitlistPosition?: number;
+  waitlistedAt?: Date;
 };
 
 export type ResourceClaimSummary = Pick<
@@ -76,11 +79,32 @@ export type ResourceClaimSummary = Pick<
  * - going → flaked (only event owner marks as no-show)
  * - approved|going → cancelled (only claimant)
  *
+ * ## WAITLIST (all types)
+ * When claimLimit is reached for the resource (claimLimitPer = 'total') or
+ * the timeslot (claimLimitPer = 'timeslot'), new claims start as
+ * 'waitlisted' instead.
+ *
+ * State Transitions:
+ * - waitlisted → pending|approved (automatic, when a spot frees up; the
+ *   claim's initial status is used, first come first served)
+ * - waitlisted → cancelled (only claimant)
+ * - waitlisted → rejected (only resource owner)
+ *
+ * Notes:
+ * - Pending, approved and later active statuses hold a spot; waitlisted,
+ *   vote and terminal statuses do not
+ * - waitlistPosition is 1-based and computed from the join order
+ * - Promoted claimants receive a claim.promoted notification
+ *
  * ## Key Rules:
  * - Cannot skip states (e.g., approved cannot go directly to completed)
  * - Both parties must participate in the handshake for offers/requests
- * - All transitions are validated and enforced at the database level
- * - Clear error messages provided for invalid transitions
+ * - All transitions are validated and enforced at the database level, using
+ *   the claim_status_transition_rules table
+ * - Invalid transitions fail with a ClaimTransitionError
+ *
+ * Use getAllowedClaimTransitions / useAllowedClaimTransitions to find the
+ * transitions the current user may make.
  */
 
 /**
@@ -1,20 +1,41 @@
-import { ResourceStatus } from '..';
-
-// export type ResourceFilter = {
-//   type?: ResourceType;
-//   communityId?: string | [string];
-//   category?: ResourceCategory | [ResourceCategory];
-//   status?: ResourceStatus;
-//   ownerId?: string;
-//   claimStatus?: ResourceClaimStatus | [ResourceClaimStatus];
-//   claimantId?: string;
-//   maxDriveMinutes?: number;
-//   searchTerm?: string;
-//   hasAvailableSlots?: boolean;
-// };
+import { Coordinates } from '@/shared';
+import {
+  ResourceCategory,
+  ResourceClaimStatus,
+  ResourceStatus,
+  ResourceType,
+} from '..';
 
 export type ResourceFilter = {
+  type?: ResourceType | ResourceType[];
   communityId?: string | string[];
+  category?: ResourceCategory | ResourceCategory[];
   status?: ResourceStatus | ResourceStatus[];
   ownerId?: string;
+  /** Only resources with at least one claim in one of these statuses */
+  claimStatus?: ResourceClaimStatus | ResourceClaimStatus[];
+  /** Only resources claimed by this user */
+  claimantId?: string;
+  /** Maximum estimated driving time from `origin`; ignored without an origin */
+  maxDriveMinutes?: number;
+  origin?: Coordinates;
+  /** Full-text search over title and description (web search syntax) */
+  searchTerm?: string;
+  /** Only resources with an upcoming timeslot that still has room for claims */
+  hasAvailableSlots?: boolean;
+};
+
+/**
+ * Filter for proximity search. Provide `radiusKm`, `maxDriveMinutes`, or both
+ * (the tighter limit wins); the remaining fields narrow results like ResourceFilter.
+ */
+export type NearbyResourceFilter = Omit<
+  ResourceFilter,
+  'origin' | 'maxDriveMinutes'
+> & {
+  origin: Coordinates;
+  radiusKm?: number;
+  maxDriveMinutes?: number;
+  /** Maximum number of results, nearest first (default NEARBY_RESOURCES_LIMIT) */
+  limit?: number;
 };
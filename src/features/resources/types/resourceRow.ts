@@ -8,9 +8,18 @@ export type ResourceRowJoinCommunitiesJoinTimeslots = ResourceRow & {
   expires_at?: string | null;
 };
 
+// resources_near rows also carry their distance from the search origin
+export type NearbyResourceRowJoinCommunitiesJoinTimeslots =
+  ResourceRowJoinCommunitiesJoinTimeslots & {
+    distance_km: number;
+  };
+
+// Used when filtering resources by their claims; the claims themselves are not returned to callers
+export const SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS_JOIN_CLAIMS = `${SELECT_RESOURCES_JOIN_COMMUNITIES_JOIN_TIMESLOTS}, resource_claims!inner(claimant_id, status)`;
+
 export const SELECT_RESOURCE_CLAIMS_BASIC = `*`;
 
-export const SELECT_RESOURCE_CLAIMS_JOIN_RESOURCE_JOIN_TIMESLOT = `*, resources!inner(owner_id), resource_timeslots(*)`;
+export const SELECT_RESOURCE_CLAIMS_JOIN_RESOURCE_JOIN_TIMESLOT = `*, waitlist_position, resources!inner(owner_id), resource_timeslots(*)`;
 export type ResourceClaimRowJoinResourceJoinTimeslot = ResourceClaimRow & {
   resources: { owner_id: string };
   resource_timeslots: ResourceTimeslotRow;
@@ -38,6 +47,11 @@ export type ResourceTimeslotInsertDbData =
 export type ResourceTimeslotUpdateDbData =
   Database['public']['Tables']['resource_timeslots']['Update'];
 
+export type ResourceRecurrenceRow =
+  Database['public']['Tables']['resource_recurrences']['Row'];
+export type ResourceRecurrenceInsertDbData =
+  Database['public']['Tables']['resource_recurrences']['Insert'];
+
 export type ResourceClaimRow =
   Database['public']['Tables']['resource_claims']['Row'];
 export type ResourceClaimInsertDbData =
@@ -45,6 +59,9 @@ export type ResourceClaimInsertDbData =
 export type ResourceClaimUpdateDbData =
   Database['public']['Tables']['resource_claims']['Update'];
 
+export type ClaimTransitionRuleRow =
+  Database['public']['Tables']['claim_status_transition_rules']['Row'];
+
 export type ResourceStatus = Database['public']['Enums']['resource_status'];
 export type ResourceClaimStatus =
   Database['public']['Enums']['resource_claim_status'];
@@ -56,4 +73,7 @@ export type ResourceType = Database['public']['Enums']['resource_type'];
 export type ResourceTimeslotStatus =
   Database['public']['Enums']['resource_timeslot_status'];
 
+export type RecurrenceFrequency =
+  Database['public']['Enums']['recurrence_frequency'];
+
 export type CommitmentLevel = Database['public']['Enums']['commitment_level_enum'] | null;
@@ -3,6 +3,13 @@ import { ResourceTimeslotStatus } from './resourceRow';
 
 export type ResourceTimeslot = IsPersisted<ResourceTimeslotInput> & {
   voteCount: number;
+  // Set on timeslots generated from an EventRecurrence
+  recurrenceId?: string;
+  occurrenceStart?: Date;
+  // True when this occurrence was edited individually
+  isException: boolean;
+  // Revision counter, incremented whenever the timeslot or its resource changes
+  sequence: number;
 };
 
 export type ResourceTimeslotInput = {
@@ -11,3 +18,14 @@ export type ResourceTimeslotInput = {
   endTime: Date;
   status: ResourceTimeslotStatus;
 };
+
+/**
+ * A timeslot created together with its resource, before the resource has an
+ * id. Status defaults to 'active'.
+ */
+export type InitialResourceTimeslot = Omit<
+  ResourceTimeslotInput,
+  'resourceId' | 'status'
+> & {
+  status?: ResourceTimeslotStatus;
+};
@@ -0,0 +1,43 @@
+import type { QueryClient } from '@tanstack/react-query';
+import type { Resource, ResourceClaim } from '../types';
+import { resourceClaimsKeys, resourceKeys } from '../queries';
+import { trustScoreKeys } from '@/features/trust-scores/queries';
+
+/**
+ * Stores an updated claim and invalidates the claim lists and scores that
+ * depend on it.
+ */
+export function updateClaimInCache(
+  queryClient: QueryClient,
+  claim: ResourceClaim,
+): void {
+  queryClient.setQueryData(resourceClaimsKeys.detail(claim.id), claim);
+
+  queryClient.invalidateQueries({
+    queryKey: resourceClaimsKeys.listByClaimant(claim.claimantId),
+  });
+  queryClient.invalidateQueries({
+    queryKey: resourceClaimsKeys.listByResource(claim.resourceId),
+  });
+
+  const resource = queryClient.getQueryData<Resource>(
+    resourceKeys.detail(claim.resourceId),
+  );
+  if (resource) {
+    queryClient.invalidateQueries({
+      queryKey: resourceClaimsKeys.listByResourceOwner(resource.ownerId),
+    });
+  } else {
+    // We don't know who the resource owner is, so invalidate all
+    queryClient.invalidateQueries({
+      queryKey: resourceClaimsKeys.listsByResourceOwner(),
+    });
+  }
+
+  // Invalidate trust score for claimant (status changes affect scores)
+  if (resource) {
+    queryClient.invalidateQueries({
+      queryKey: trustScoreKeys.listByUser(claim.claimantId),
+    });
+  }
+}
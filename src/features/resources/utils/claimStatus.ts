@@ -0,0 +1,58 @@
+import type {
+  ClaimActor,
+  ClaimTransition,
+  Resource,
+  ResourceClaim,
+  ResourceClaimStatus,
+  ResourceType,
+  ResourceTimeslotStatus,
+} from '../types';
+
+/**
+ * Status a new claim starts in. Claiming a proposed timeslot of an event that
+ * is still voting casts a vote; otherwise the claim needs approval only when
+ * the resource requires it.
+ */
+export function initialClaimStatus(
+  resource: Pick<Resource, 'status' | 'requiresApproval'>,
+  timeslotStatus: ResourceTimeslotStatus,
+): ResourceClaimStatus {
+  if (resource.status === 'voting' && timeslotStatus === 'proposed') {
+    return 'vote';
+  }
+
+  return resource.requiresApproval ? 'pending' : 'approved';
+}
+
+/**
+ * Role a user plays on a claim. The resource owner takes precedence, matching
+ * the database check. Returns undefined for anyone else.
+ */
+export function claimActorRole(
+  claim: Pick<ResourceClaim, 'claimantId' | 'resourceOwnerId'>,
+  actorId: string,
+): ClaimActor | undefined {
+  if (actorId === claim.resourceOwnerId) return 'owner';
+  if (actorId === claim.claimantId) return 'claimant';
+  return undefined;
+}
+
+/**
+ * Picks the transitions a user may make on a claim from the full rule set.
+ */
+export function filterAllowedClaimTransitions(
+  rules: ClaimTransition[],
+  claim: Pick<ResourceClaim, 'status' | 'claimantId' | 'resourceOwnerId'>,
+  actorId: string,
+  resourceType: ResourceType,
+): ClaimTransition[] {
+  const actor = claimActorRole(claim, actorId);
+  if (!actor) return [];
+
+  return rules.filter(
+    (rule) =>
+      rule.resourceType === resourceType &&
+      rule.fromStatus === claim.status &&
+      rule.actor === actor,
+  );
+}
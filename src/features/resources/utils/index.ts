@@ -0,0 +1,2 @@
+export * from './claimStatus';
+export * from './claimCache';
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PlayerPowerError,
+  PLAYER_POWER_ERROR_CODE,
+  toPlayerPowerError,
+} from '../errors';
+
+describe('toPlayerPowerError', () => {
+  it('should convert a player power database error', () => {
+    const error = toPlayerPowerError({
+      code: PLAYER_POWER_ERROR_CODE,
+      message: 'Reach level 6 to create request',
+      details: JSON.stringify({
+        action: 'create_request',
+        communityId: 'community-1',
+        currentLevel: 5,
+        requiredLevel: 6,
+      }),
+      hint: '',
+    });
+
+    expect(error).toBeInstanceOf(PlayerPowerError);
+    expect(error).toMatchObject({
+      name: 'PlayerPowerError',
+      message: 'Reach level 6 to create request',
+      action: 'create_request',
+      communityId: 'community-1',
+      currentLevel: 5,
+      requiredLevel: 6,
+    });
+  });
+
+  it('should leave communityId undefined when the action has no community', () => {
+    const error = toPlayerPowerError({
+      code: PLAYER_POWER_ERROR_CODE,
+      message: 'Reach level 12 to join another community',
+      details: JSON.stringify({
+        action: 'join_another_community',
+        communityId: null,
+        currentLevel: 2,
+        requiredLevel: 12,
+      }),
+    });
+
+    expect(error?.communityId).toBeUndefined();
+  });
+
+  it('should ignore other errors', () => {
+    expect(
+      toPlayerPowerError({ code: '23505', message: 'duplicate', details: '' }),
+    ).toBeUndefined();
+    expect(toPlayerPowerError(new Error('boom'))).toBeUndefined();
+    expect(toPlayerPowerError(null)).toBeUndefined();
+  });
+
+  it('should ignore player power errors without parseable details', () => {
+    expect(
+      toPlayerPowerError({
+        code: PLAYER_POWER_ERROR_CODE,
+        message: 'Reach level 6 to create request',
+        details: 'not json',
+      }),
+    ).toBeUndefined();
+  });
+});
+
+describe('PlayerPowerError', () => {
+  it('should explain the required level by default', () => {
+    const error = new PlayerPowerError({
+      action: 'invite_friend',
+      communityId: 'community-1',
+      currentLevel: 2,
+      requiredLevel: 8,
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('Reach level 8 to invite friend');
+  });
+});
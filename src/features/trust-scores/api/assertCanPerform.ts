@@ -0,0 +1,26 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { PlayerAction } from '../types';
+import { PlayerPowerError } from '../errors';
+import { fetchPlayerActionAccess } from './fetchPlayerActionAccess';
+
+/**
+ * Throws a PlayerPowerError unless the current user may perform the action in
+ * the community. For gates that are not enforced by a database write.
+ */
+export async function assertCanPerform(
+  supabase: SupabaseClient<Database>,
+  action: PlayerAction,
+  communityId: string,
+): Promise<void> {
+  const access = await fetchPlayerActionAccess(supabase, action, communityId);
+
+  if (!access.allowed && access.requiredLevel !== undefined) {
+    throw new PlayerPowerError({
+      action,
+      communityId,
+      currentLevel: access.currentLevel,
+      requiredLevel: access.requiredLevel,
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { PlayerAction, PlayerActionAccess } from '../types';
+
+/**
+ * Checks whether the current user may perform a level-gated action in a
+ * community. Actions are always allowed in communities that do not enforce
+ * player powers.
+ */
+export async function fetchPlayerActionAccess(
+  supabase: SupabaseClient<Database>,
+  action: PlayerAction,
+  communityId: string,
+): Promise<PlayerActionAccess> {
+  const { data, error } = await supabase
+    .rpc('get_player_action_access', {
+      p_action: action,
+      p_community_id: communityId,
+    })
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('Community not found');
+  }
+
+  return {
+    allowed: data.allowed,
+    currentLevel: data.current_level,
+    requiredLevel: data.required_level ?? undefined,
+  };
+}
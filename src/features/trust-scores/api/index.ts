@@ -1,2 +1,4 @@
 export * from './fetchTrustScores';
-export * from './fetchTrustScoreLogs';
\ No newline at end of file
+export * from './fetchTrustScoreLogs';
+export * from './fetchPlayerActionAccess';
+export * from './assertCanPerform';
@@ -0,0 +1,65 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { PlayerAction } from './types';
+
+// SQLSTATE raised by the database when a player's level does not unlock an action
+export const PLAYER_POWER_ERROR_CODE = 'PT403';
+
+export interface PlayerPowerErrorDetails {
+  action: PlayerAction;
+  communityId?: string;
+  currentLevel: number;
+  requiredLevel: number;
+}
+
+/**
+ * Thrown when the user's player level in a community that enforces player
+ * powers does not unlock the attempted action.
+ */
+export class PlayerPowerError extends Error {
+  readonly action: PlayerAction;
+  readonly communityId?: string;
+  readonly currentLevel: number;
+  readonly requiredLevel: number;
+
+  constructor(details: PlayerPowerErrorDetails, message?: string) {
+    super(
+      message ??
+        `Reach level ${details.requiredLevel} to ${details.action.replace(/_/g, ' ')}`,
+    );
+    this.name = 'PlayerPowerError';
+    this.action = details.action;
+    this.communityId = details.communityId;
+    this.currentLevel = details.currentLevel;
+    this.requiredLevel = details.requiredLevel;
+  }
+}
+
+/**
+ * Converts a database error raised by player power enforcement into a
+ * PlayerPowerError. Returns undefined for any other error.
+ */
+export function toPlayerPowerError(
+  error: unknown,
+): PlayerPowerError | undefined {
+  if (
+    !error ||
+    typeof error !== 'object' ||
+    (error as PostgrestError).code !== PLAYER_POWER_ERROR_CODE
+  ) {
+    return undefined;
+  }
+
+  const { message, details } = error as PostgrestError;
+
+  try {
+    const parsed = JSON.parse(details) as PlayerPowerErrorDetails & {
+      communityId: string | null;
+    };
+    return new PlayerPowerError(
+      { ...parsed, communityId: parsed.communityId ?? undefined },
+      message,
+    );
+  } catch {
+    return undefined;
+  }
+}
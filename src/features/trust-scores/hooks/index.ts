@@ -1,2 +1,3 @@
 export * from './useTrustScores';
 export * from './usePlayerLevel';
+export * from './useCanPerform';
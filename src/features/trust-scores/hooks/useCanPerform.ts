@@ -0,0 +1,60 @@
+import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import { useSupabase } from '@/shared';
+import { useCurrentUser } from '@/features/auth';
+import { fetchPlayerActionAccess } from '../api';
+import { SHORT_CACHE_TIME } from '@/config';
+import type { PlayerAction, PlayerActionAccess } from '../types';
+import type { UseQueryResult } from '@tanstack/react-query';
+import { trustScoreKeys } from '../queries';
+
+/**
+ * Hook for checking whether the current user may perform a level-gated action
+ * in a community.
+ *
+ * Use it to disable or explain gated UI before the user tries the action; the
+ * database enforces the same rule and rejects gated writes with a
+ * PlayerPowerError.
+ *
+ * The result is refreshed whenever the user's trust scores are invalidated,
+ * when their role changes, and when a trustlevel.changed notification arrives
+ * over realtime.
+ *
+ * @param action - The gated action, e.g. 'create_offer'
+ * @param communityId - Community the action is performed in
+ * @returns React Query result with the access decision and levels
+ *
+ * @example
+ * ```tsx
+ * function CreateOfferButton({ communityId }: { communityId: string }) {
+ *   const { data: access } = useCanPerform('create_offer', communityId);
+ *
+ *   if (access && !access.allowed) {
+ *     return <div>Reach level {access.requiredLevel} to create offers</div>;
+ *   }
+ *
+ *   return <button>Create offer</button>;
+ * }
+ * ```
+ *
+ * @category React Hooks
+ */
+export function useCanPerform(
+  action: PlayerAction,
+  communityId: string,
+  options?: Partial<UseQueryOptions<PlayerActionAccess, Error>>,
+): UseQueryResult<PlayerActionAccess, Error> {
+  const supabase = useSupabase();
+  const { data: currentUser } = useCurrentUser();
+
+  return useQuery<PlayerActionAccess, Error>({
+    queryKey: trustScoreKeys.actionAccess(
+      currentUser?.id ?? '',
+      action,
+      communityId,
+    ),
+    queryFn: () => fetchPlayerActionAccess(supabase, action, communityId),
+    staleTime: SHORT_CACHE_TIME,
+    enabled: !!communityId && !!currentUser,
+    ...options,
+  });
+}
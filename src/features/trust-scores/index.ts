@@ -1,3 +1,4 @@
 export * from './types';
 export * from './hooks';
 export * from './config';
+export * from './errors';
@@ -1,3 +1,5 @@
+import type { PlayerAction } from './types';
+
 export const trustScoreKeys = {
   all: ['trustScores'] as const,
   lists: () => [...trustScoreKeys.all, 'list'] as const,
@@ -9,4 +11,10 @@ export const trustScoreKeys = {
     [...trustScoreKeys.logs(), 'byUser', userId] as const,
   logsByCommunity: (userId: string, communityId: string) =>
     [...trustScoreKeys.logs(), 'byCommunity', userId, communityId] as const,
+  // Nested under the user's trust scores, which their levels derive from, so
+  // invalidating those also refreshes what the user may do
+  actionAccessByUser: (userId: string) =>
+    [...trustScoreKeys.listByUser(userId), 'actionAccess'] as const,
+  actionAccess: (userId: string, action: PlayerAction, communityId: string) =>
+    [...trustScoreKeys.actionAccessByUser(userId), action, communityId] as const,
 };
@@ -2,6 +2,7 @@ export * from './trustScore';
 export * from './trustScoreRow';
 export * from './trustScoreLog';
 export * from './playerLevel';
+export * from './playerAction';
 
 // Re-export ActionType for convenience
 export type { ActionType } from '@/features/notifications';
\ No newline at end of file
@@ -0,0 +1,11 @@
+import type { Database } from '@/shared/types/database';
+
+// Actions unlocked by player levels (see PLAYER_LEVELS unlockedPowers)
+export type PlayerAction = Database['public']['Enums']['player_action'];
+
+export interface PlayerActionAccess {
+  allowed: boolean;
+  currentLevel: number;
+  // Lowest level that unlocks the action; undefined if no level gates it
+  requiredLevel?: number;
+}
@@ -1,9 +1,11 @@
+import type { PlayerAction } from './playerAction';
+
 export interface PlayerLevel {
   level: number;
   emoji: string;
   name: string;
   pointsNeeded: number;
-  unlockedPowers?: string[];
+  unlockedPowers?: PlayerAction[];
 }
 
 export interface LevelProgress {
@@ -109,6 +109,15 @@ describe('User Transformer', () => {
     ]);
   });
 
+  it('should send read receipts unless the user turned them off', () => {
+    expect(toCurrentUser(createFakeProfileRow({ user_metadata: {} }))).toMatchObject({
+      sendReadReceipts: true,
+    });
+    expect(
+      toCurrentUser(createFakeProfileRow({ user_metadata: { send_read_receipts: false } })),
+    ).toMatchObject({ sendReadReceipts: false });
+  });
+
   describe('toCurrentUserInsertRow', () => {
     it('should transform domain user to database format', () => {
       // Arrange
@@ -223,6 +232,29 @@ describe('User Transformer', () => {
       expect(dbData.updated_at).toBeDefined();
     });
 
+    it('should handle read receipt setting updates', () => {
+      // Arrange
+      const userId = faker.string.uuid();
+      const currentProfile = createFakeProfileRow({
+        id: userId,
+        user_metadata: {
+          first_name: 'John',
+        },
+      });
+
+      // Act
+      const dbData = toCurrentUserUpdateRow(
+        { id: userId, sendReadReceipts: false },
+        currentProfile,
+      );
+
+      // Assert - Should store the setting, preserve other fields
+      expect(dbData.user_metadata).toEqual({
+        first_name: 'John',
+        send_read_receipts: false,
+      });
+    });
+
     it('should handle multiple field updates', () => {
       // Arrange
       const userId = faker.string.uuid();
@@ -45,7 +45,8 @@ export function toUser(profile: PublicProfileRow): User {
  */
 export function toCurrentUser(profile: ProfileRow): CurrentUser {
   const metadata = (profile.user_metadata || {}) as UserMetadata;
-  const { first_name, last_name, full_name, avatar_url, bio, location } = metadata;
+  const { first_name, last_name, full_name, avatar_url, bio, location, send_read_receipts } =
+    metadata;
 
   return {
     id: profile.id,
@@ -56,6 +57,7 @@ export function toCurrentUser(profile: ProfileRow): CurrentUser {
     bio: bio || undefined,
     email: profile.email || '',
     location: location || undefined,
+    sendReadReceipts: send_read_receipts ?? true,
     createdAt: new Date(profile.created_at),
     updatedAt: new Date(profile.updated_at),
   };
@@ -67,7 +69,8 @@ export function toCurrentUser(profile: ProfileRow): CurrentUser {
 export function toCurrentUserInsertRow(
   userData: Omit<CurrentUser, 'id' | 'createdAt' | 'updatedAt'> & { id: string },
 ): ProfileInsertRow {
-  const { id, email, firstName, lastName, fullName, avatarUrl, bio, location } = userData;
+  const { id, email, firstName, lastName, fullName, avatarUrl, bio, location, sendReadReceipts } =
+    userData;
 
   const user_metadata: UserMetadata = {
     first_name: firstName,
@@ -76,6 +79,7 @@ export function toCurrentUserInsertRow(
     avatar_url: avatarUrl,
     bio,
     location,
+    send_read_receipts: sendReadReceipts,
   };
 
   return {
@@ -116,6 +120,9 @@ export function toCurrentUserUpdateRow(
   if (userData.location !== undefined) {
     updatedMetadata.location = userData.location;
   }
+  if (userData.sendReadReceipts !== undefined) {
+    updatedMetadata.send_read_receipts = userData.sendReadReceipts;
+  }
 
   const updateRow: ProfileUpdateRow = {
     user_metadata: updatedMetadata,
@@ -29,6 +29,8 @@ export type User = UserSummary & {
 export type CurrentUser = User & {
   email: string;
   location?: Coordinates;
+  /** Whether others see when this user has read their messages; defaults to true */
+  sendReadReceipts?: boolean;
 };
 
 // Type for the user_metadata JSONB column
@@ -42,6 +44,7 @@ export type UserMetadata = {
     lat: number;
     lng: number;
   };
+  send_read_receipts?: boolean;
 };
 
 // Make types persistent with ID
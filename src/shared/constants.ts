@@ -9,6 +9,9 @@ export const MESSAGE_NOT_FOUND = 'Resource not found';
 export const MESSAGE_ORGANIZER_CANNOT_LEAVE =
   'Organizer cannot leave their own community';
 
+export const MESSAGE_COMMUNITY_NOT_OPEN =
+  'This community requires an invitation code or an approved request to join';
+
 /**
  * PostgREST/Supabase error codes
  * Reference: https://postgrest.org/en/stable/errors.html
@@ -1,2 +1,3 @@
 export * from './useSupabase';
 export * from './useMapbox';
+export * from './useSupabaseUrl';
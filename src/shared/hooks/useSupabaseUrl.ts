@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { ClientContext } from '../../config/BelongProvider';
+
+// Hook to access the Supabase project URL, e.g. to link to edge functions
+export const useSupabaseUrl = () => {
+  const context = useContext(ClientContext);
+  if (!context) {
+    throw new Error('useSupabaseUrl must be used within BelongProvider');
+  }
+  return context.supabaseUrl;
+};
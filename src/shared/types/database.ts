@@ -86,6 +86,93 @@ export type Database = {
           },
         ]
       }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      captured_notification_deliveries: {
+        Row: {
+          body: string
+          channel: string
+          created_at: string
+          html_body: string | null
+          id: string
+          notification_ids: string[]
+          payload: Json
+          recipient: string
+          subject: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          channel: string
+          created_at?: string
+          html_body?: string | null
+          id?: string
+          notification_ids?: string[]
+          payload?: Json
+          recipient: string
+          subject: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          channel?: string
+          created_at?: string
+          html_body?: string | null
+          id?: string
+          notification_ids?: string[]
+          payload?: Json
+          recipient?: string
+          subject?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "captured_notification_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "captured_notification_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       claim_status_transition_rules: {
         Row: {
           allowed_actor: string
@@ -172,6 +259,13 @@ export type Database = {
             referencedRelation: "comments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "comments_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_resource_id_fkey"
             columns: ["resource_id"]
@@ -198,8 +292,10 @@ export type Database = {
           color: string | null
           created_at: string
           description: string | null
+          enforce_player_powers: boolean
           icon: string | null
           id: string
+          join_policy: Database["public"]["Enums"]["community_join_policy"]
           member_count: number
           name: string
           time_zone: string | null
@@ -215,8 +311,10 @@ export type Database = {
           color?: string | null
           created_at?: string
           description?: string | null
+          enforce_player_powers?: boolean
           icon?: string | null
           id?: string
+          join_policy?: Database["public"]["Enums"]["community_join_policy"]
           member_count?: number
           name: string
           time_zone?: string | null
@@ -232,8 +330,10 @@ export type Database = {
           color?: string | null
           created_at?: string
           description?: string | null
+          enforce_player_powers?: boolean
           icon?: string | null
           id?: string
+          join_policy?: Database["public"]["Enums"]["community_join_policy"]
           member_count?: number
           name?: string
           time_zone?: string | null
@@ -242,6 +342,75 @@ export type Database = {
         }
         Relationships: []
       }
+      community_membership_requests: {
+        Row: {
+          community_id: string
+          created_at: string
+          id: string
+          message: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["membership_request_status"]
+          user_id: string
+        }
+        Insert: {
+          community_id: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["membership_request_status"]
+          user_id?: string
+        }
+        Update: {
+          community_id?: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["membership_request_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "community_membership_requests_community_id_fkey"
+            columns: ["community_id"]
+            isOneToOne: false
+            referencedRelation: "communities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "community_membership_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "community_membership_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "community_membership_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "community_membership_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       community_memberships: {
         Row: {
           chat_read_at: string | null
@@ -295,18 +464,24 @@ export type Database = {
         Row: {
           conversation_id: string
           joined_at: string
+          last_delivered_message_id: string | null
+          last_read_message_id: string | null
           read_at: string | null
           user_id: string
         }
         Insert: {
           conversation_id: string
           joined_at?: string
+          last_delivered_message_id?: string | null
+          last_read_message_id?: string | null
           read_at?: string | null
           user_id: string
         }
         Update: {
           conversation_id?: string
           joined_at?: string
+          last_delivered_message_id?: string | null
+          last_read_message_id?: string | null
           read_at?: string | null
           user_id?: string
         }
@@ -325,6 +500,20 @@ export type Database = {
             referencedRelation: "conversations_with_last_message"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversation_participants_last_delivered_message_id_fkey"
+            columns: ["last_delivered_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "conversation_participants_user_id_fkey"
             columns: ["user_id"]
@@ -362,29 +551,150 @@ export type Database = {
         }
         Relationships: []
       }
+      email_digest_queue: {
+        Row: {
+          created_at: string
+          frequency: string
+          notification_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          frequency: string
+          notification_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          frequency?: string
+          notification_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_digest_queue_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: true
+            referencedRelation: "notification_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_digest_queue_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: true
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_digest_queue_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_digest_queue_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invitation_code_redemptions: {
+        Row: {
+          code: string
+          community_id: string
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["community_membership_role"]
+          user_id: string
+        }
+        Insert: {
+          code: string
+          community_id: string
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["community_membership_role"]
+          user_id: string
+        }
+        Update: {
+          code?: string
+          community_id?: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["community_membership_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitation_code_redemptions_code_fkey"
+            columns: ["code"]
+            isOneToOne: false
+            referencedRelation: "invitation_codes"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "invitation_code_redemptions_community_id_fkey"
+            columns: ["community_id"]
+            isOneToOne: false
+            referencedRelation: "communities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitation_code_redemptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitation_code_redemptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invitation_codes: {
         Row: {
           code: string
           community_id: string
           created_at: string
+          expires_at: string | null
           is_active: boolean
+          is_personal: boolean
+          max_uses: number | null
+          role: Database["public"]["Enums"]["community_membership_role"]
           updated_at: string
+          use_count: number
           user_id: string
         }
         Insert: {
           code: string
           community_id: string
           created_at?: string
+          expires_at?: string | null
           is_active?: boolean
+          is_personal?: boolean
+          max_uses?: number | null
+          role?: Database["public"]["Enums"]["community_membership_role"]
           updated_at?: string
+          use_count?: number
           user_id: string
         }
         Update: {
           code?: string
           community_id?: string
           created_at?: string
+          expires_at?: string | null
           is_active?: boolean
+          is_personal?: boolean
+          max_uses?: number | null
+          role?: Database["public"]["Enums"]["community_membership_role"]
           updated_at?: string
+          use_count?: number
           user_id?: string
         }
         Relationships: [
@@ -411,6 +721,88 @@ export type Database = {
           },
         ]
       }
+      message_reports: {
+        Row: {
+          community_id: string | null
+          created_at: string
+          details: string | null
+          id: string
+          message_id: string
+          reason: Database["public"]["Enums"]["message_report_reason"]
+          reporter_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["message_report_status"]
+        }
+        Insert: {
+          community_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id: string
+          reason: Database["public"]["Enums"]["message_report_reason"]
+          reporter_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["message_report_status"]
+        }
+        Update: {
+          community_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id?: string
+          reason?: Database["public"]["Enums"]["message_report_reason"]
+          reporter_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["message_report_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reports_community_id_fkey"
+            columns: ["community_id"]
+            isOneToOne: false
+            referencedRelation: "communities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reports_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           community_id: string | null
@@ -419,8 +811,10 @@ export type Database = {
           created_at: string
           encryption_version: number
           id: string
+          image_paths: string[]
           is_deleted: boolean
           is_edited: boolean
+          is_hidden: boolean
           sender_id: string
           updated_at: string
         }
@@ -431,8 +825,10 @@ export type Database = {
           created_at?: string
           encryption_version?: number
           id?: string
+          image_paths?: string[]
           is_deleted?: boolean
           is_edited?: boolean
+          is_hidden?: boolean
           sender_id?: string
           updated_at?: string
         }
@@ -443,8 +839,10 @@ export type Database = {
           created_at?: string
           encryption_version?: number
           id?: string
+          image_paths?: string[]
           is_deleted?: boolean
           is_edited?: boolean
+          is_hidden?: boolean
           sender_id?: string
           updated_at?: string
         }
@@ -503,6 +901,8 @@ export type Database = {
           membership_updated: Json
           message_received: Json
           push_enabled: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
           resource_commented: Json
           resource_created: Json
           resource_expiring: Json
@@ -510,6 +910,7 @@ export type Database = {
           resource_received: Json
           resource_updated: Json
           shoutout_received: Json
+          time_zone: string | null
           trustlevel_changed: Json
           updated_at: string
           user_id: string
@@ -530,6 +931,8 @@ export type Database = {
           membership_updated?: Json
           message_received?: Json
           push_enabled?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
           resource_commented?: Json
           resource_created?: Json
           resource_expiring?: Json
@@ -537,6 +940,7 @@ export type Database = {
           resource_received?: Json
           resource_updated?: Json
           shoutout_received?: Json
+          time_zone?: string | null
           trustlevel_changed?: Json
           updated_at?: string
           user_id: string
@@ -557,6 +961,8 @@ export type Database = {
           membership_updated?: Json
           message_received?: Json
           push_enabled?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
           resource_commented?: Json
           resource_created?: Json
           resource_expiring?: Json
@@ -564,6 +970,7 @@ export type Database = {
           resource_received?: Json
           resource_updated?: Json
           shoutout_received?: Json
+          time_zone?: string | null
           trustlevel_changed?: Json
           updated_at?: string
           user_id?: string
@@ -670,6 +1077,13 @@ export type Database = {
             referencedRelation: "conversations_with_last_message"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notifications_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notifications_resource_id_fkey"
             columns: ["resource_id"]
@@ -738,6 +1152,56 @@ export type Database = {
         }
         Relationships: []
       }
+      push_delivery_queue: {
+        Row: {
+          created_at: string
+          deliver_at: string
+          notification_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deliver_at: string
+          notification_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deliver_at?: string
+          notification_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_delivery_queue_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: true
+            referencedRelation: "notification_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "push_delivery_queue_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: true
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "push_delivery_queue_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "push_delivery_queue_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       push_subscriptions: {
         Row: {
           auth_key: string
@@ -800,6 +1264,8 @@ export type Database = {
           status: Database["public"]["Enums"]["resource_claim_status"]
           timeslot_id: string
           updated_at: string
+          waitlisted_at: string | null
+          waitlist_position: number | null
         }
         Insert: {
           claimant_id?: string
@@ -814,6 +1280,7 @@ export type Database = {
           status: Database["public"]["Enums"]["resource_claim_status"]
           timeslot_id: string
           updated_at?: string
+          waitlisted_at?: string | null
         }
         Update: {
           claimant_id?: string
@@ -828,6 +1295,7 @@ export type Database = {
           status?: Database["public"]["Enums"]["resource_claim_status"]
           timeslot_id?: string
           updated_at?: string
+          waitlisted_at?: string | null
         }
         Relationships: [
           {
@@ -844,6 +1312,13 @@ export type Database = {
             referencedRelation: "public_profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "resource_claims_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "resource_claims_resource_id_fkey"
             columns: ["resource_id"]
@@ -891,6 +1366,76 @@ export type Database = {
             foreignKeyName: "resource_communities_resource_id_fkey"
             columns: ["resource_id"]
             isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resource_communities_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_recurrences: {
+        Row: {
+          by_weekday: number[] | null
+          count: number | null
+          created_at: string
+          duration_minutes: number
+          exception_dates: string[]
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          id: string
+          repeat_interval: number
+          resource_id: string
+          starts_at: string
+          timezone: string
+          until: string | null
+          updated_at: string
+        }
+        Insert: {
+          by_weekday?: number[] | null
+          count?: number | null
+          created_at?: string
+          duration_minutes: number
+          exception_dates?: string[]
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          id?: string
+          repeat_interval?: number
+          resource_id: string
+          starts_at: string
+          timezone?: string
+          until?: string | null
+          updated_at?: string
+        }
+        Update: {
+          by_weekday?: number[] | null
+          count?: number | null
+          created_at?: string
+          duration_minutes?: number
+          exception_dates?: string[]
+          frequency?: Database["public"]["Enums"]["recurrence_frequency"]
+          id?: string
+          repeat_interval?: number
+          resource_id?: string
+          starts_at?: string
+          timezone?: string
+          until?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_recurrences_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resource_recurrences_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
             referencedRelation: "resources"
             referencedColumns: ["id"]
           },
@@ -919,6 +1464,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "resource_responses_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "resource_responses_resource_id_fkey"
             columns: ["resource_id"]
@@ -933,7 +1485,11 @@ export type Database = {
           created_at: string
           end_time: string
           id: string
+          is_exception: boolean
+          occurrence_start: string | null
+          recurrence_id: string | null
           resource_id: string
+          sequence: number
           start_time: string
           status: Database["public"]["Enums"]["resource_timeslot_status"]
           updated_at: string
@@ -943,7 +1499,11 @@ export type Database = {
           created_at?: string
           end_time: string
           id?: string
+          is_exception?: boolean
+          occurrence_start?: string | null
+          recurrence_id?: string | null
           resource_id: string
+          sequence?: number
           start_time: string
           status?: Database["public"]["Enums"]["resource_timeslot_status"]
           updated_at?: string
@@ -953,13 +1513,31 @@ export type Database = {
           created_at?: string
           end_time?: string
           id?: string
+          is_exception?: boolean
+          occurrence_start?: string | null
+          recurrence_id?: string | null
           resource_id?: string
+          sequence?: number
           start_time?: string
           status?: Database["public"]["Enums"]["resource_timeslot_status"]
           updated_at?: string
           vote_count?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "resource_timeslots_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "resource_recurrences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resource_timeslots_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "resource_timeslots_resource_id_fkey"
             columns: ["resource_id"]
@@ -994,7 +1572,9 @@ export type Database = {
           updated_at: string
           voting_deadline: string | null
           expires_at: string | null
+          has_available_slots: boolean | null
           is_active: boolean | null
+          search_vector: unknown
         }
         Insert: {
           category: Database["public"]["Enums"]["resource_category"]
@@ -1061,6 +1641,92 @@ export type Database = {
           },
         ]
       }
+      scheduled_notification_log: {
+        Row: {
+          action: Database["public"]["Enums"]["action_type"]
+          created_at: string
+          due_at: string
+          id: string
+          lead_time: unknown
+          notification_id: string | null
+          resource_id: string
+          timeslot_id: string | null
+          user_id: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["action_type"]
+          created_at?: string
+          due_at: string
+          id?: string
+          lead_time: unknown
+          notification_id?: string | null
+          resource_id: string
+          timeslot_id?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["action_type"]
+          created_at?: string
+          due_at?: string
+          id?: string
+          lead_time?: unknown
+          notification_id?: string | null
+          resource_id?: string
+          timeslot_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_notification_log_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notification_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_notification_log_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_notification_log_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_notification_log_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_notification_log_timeslot_id_fkey"
+            columns: ["timeslot_id"]
+            isOneToOne: false
+            referencedRelation: "resource_timeslots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_notification_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_notification_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       shoutouts: {
         Row: {
           comment_count: number | null
@@ -1120,6 +1786,13 @@ export type Database = {
             referencedRelation: "public_profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shoutouts_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "shoutouts_resource_id_fkey"
             columns: ["resource_id"]
@@ -1420,6 +2093,52 @@ export type Database = {
         }
         Relationships: []
       }
+      nearby_resources: {
+        Row: {
+          category: Database["public"]["Enums"]["resource_category"] | null
+          claim_limit: number | null
+          claim_limit_per: Database["public"]["Enums"]["resource_claim_limit_per"] | null
+          comment_count: number | null
+          coordinates: unknown
+          created_at: string | null
+          description: string | null
+          distance_km: number | null
+          duration_minutes: number | null
+          id: string | null
+          image_urls: string[] | null
+          image_urls_uncropped: string[] | null
+          is_recurring: boolean | null
+          last_renewed_at: string | null
+          location_name: string | null
+          owner_id: string | null
+          requires_approval: boolean | null
+          status: Database["public"]["Enums"]["resource_status"] | null
+          timeslots_flexible: boolean | null
+          title: string | null
+          type: Database["public"]["Enums"]["resource_type"] | null
+          updated_at: string | null
+          voting_deadline: string | null
+          expires_at: string | null
+          has_available_slots: boolean | null
+          search_vector: unknown
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resources_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resources_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notification_details: {
         Row: {
           action: Database["public"]["Enums"]["action_type"] | null
@@ -1479,6 +2198,13 @@ export type Database = {
             referencedRelation: "conversations_with_last_message"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notifications_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "nearby_resources"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notifications_resource_id_fkey"
             columns: ["resource_id"]
@@ -1657,6 +2383,14 @@ export type Database = {
             }
             Returns: string
           }
+      assert_player_action: {
+        Args: {
+          p_action: Database["public"]["Enums"]["player_action"]
+          p_community_ids: string[]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
       calculate_community_area: {
         Args: { community_id: string }
         Returns: number
@@ -1673,6 +2407,36 @@ export type Database = {
         Returns: string
       }
       calculate_trust_level: { Args: { p_score: number }; Returns: number }
+      calendar_feed_events: {
+        Args: { p_since: string; p_user_id: string }
+        Returns: {
+          description: string
+          end_time: string
+          last_modified: string
+          lat: number
+          lng: number
+          location_name: string
+          sequence: number
+          start_time: string
+          status: string
+          timeslot_id: string
+          title: string
+        }[]
+      }
+      cancel_event_occurrence: {
+        Args: { p_timeslot_id: string }
+        Returns: undefined
+      }
+      claim_holds_spot: {
+        Args: {
+          p_status: Database["public"]["Enums"]["resource_claim_status"]
+        }
+        Returns: boolean
+      }
+      claim_slot_is_full: {
+        Args: { p_resource_id: string; p_timeslot_id: string }
+        Returns: boolean
+      }
       communities_containing_point: {
         Args: { lat: number; lng: number }
         Returns: {
@@ -1685,6 +2449,33 @@ export type Database = {
           name: string
         }[]
       }
+      create_invitation_code: {
+        Args: {
+          p_community_id: string
+          p_expires_at?: string
+          p_max_uses?: number
+          p_role?: Database["public"]["Enums"]["community_membership_role"]
+        }
+        Returns: {
+          code: string
+          community_id: string
+          created_at: string
+          expires_at: string | null
+          is_active: boolean
+          is_personal: boolean
+          max_uses: number | null
+          role: Database["public"]["Enums"]["community_membership_role"]
+          updated_at: string
+          use_count: number
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "invitation_codes"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       create_notification_base: {
         Args: {
           p_action: Database["public"]["Enums"]["action_type"]
@@ -1700,6 +2491,14 @@ export type Database = {
         }
         Returns: string
       }
+      create_resource: {
+        Args: {
+          p_community_ids: string[]
+          p_resource: Json
+          p_timeslots?: Json
+        }
+        Returns: string
+      }
       create_user_connection: {
         Args: { p_invitee_id: string; p_inviter_id: string }
         Returns: string
@@ -1741,12 +2540,20 @@ export type Database = {
         Args: { lat: number; lng: number; radius_km: number }
         Returns: number
       }
-      expires_at: {
-        Args: { "": Database["public"]["Tables"]["resources"]["Row"] }
-        Returns: {
-          error: true
-        } & "the function public.expires_at with parameter or with a single unnamed json/jsonb parameter, but no matches were found in the schema cache"
-      }
+      expires_at:
+        | {
+            Args: { "": Database["public"]["Views"]["nearby_resources"]["Row"] }
+            Returns: {
+              error: true
+            } & "the function public.expires_at with parameter or with a single unnamed json/jsonb parameter, but no matches were found in the schema cache"
+          }
+        | {
+            Args: { "": Database["public"]["Tables"]["resources"]["Row"] }
+            Returns: {
+              error: true
+            } & "the function public.expires_at with parameter or with a single unnamed json/jsonb parameter, but no matches were found in the schema cache"
+          }
+      extend_recurring_timeslots: { Args: never; Returns: number }
       finalize_voted_timeslot: {
         Args: {
           p_chosen_timeslot_id: string
@@ -1855,6 +2662,42 @@ export type Database = {
       geomfromewkt: { Args: { "": string }; Returns: unknown }
       get_anon_key: { Args: never; Returns: string }
       get_boundary_polygon: { Args: { community_id: string }; Returns: Json }
+      get_calendar_feed_events: {
+        Args: { p_since: string }
+        Returns: {
+          description: string
+          end_time: string
+          last_modified: string
+          lat: number
+          lng: number
+          location_name: string
+          sequence: number
+          start_time: string
+          status: string
+          timeslot_id: string
+          title: string
+        }[]
+      }
+      get_calendar_feed_token: { Args: never; Returns: string }
+      get_conversation_read_states: {
+        Args: never
+        Returns: {
+          conversation_id: string
+          read_at: string
+        }[]
+      }
+      get_feed: {
+        Args: {
+          p_cursor_created_at?: string
+          p_cursor_id?: string
+          p_limit?: number
+        }
+        Returns: {
+          created_at: string
+          id: string
+          item_type: string
+        }[]
+      }
       get_invitation_details: {
         Args: { connection_code: string }
         Returns: {
@@ -1872,12 +2715,37 @@ export type Database = {
         Args: { other_user_id: string }
         Returns: string
       }
+      get_player_action_access: {
+        Args: {
+          p_action: Database["public"]["Enums"]["player_action"]
+          p_community_id: string
+        }
+        Returns: {
+          allowed: boolean
+          community_id: string
+          current_level: number
+          required_level: number
+        }[]
+      }
       get_project_url: { Args: never; Returns: string }
       get_resource_renewal_days: {
         Args: { resource_type: Database["public"]["Enums"]["resource_type"] }
         Returns: number
       }
       gettransactionid: { Args: never; Returns: unknown }
+      has_available_slots:
+        | {
+            Args: { "": Database["public"]["Views"]["nearby_resources"]["Row"] }
+            Returns: {
+              error: true
+            } & "the function public.has_available_slots with parameter or with a single unnamed json/jsonb parameter, but no matches were found in the schema cache"
+          }
+        | {
+            Args: { "": Database["public"]["Tables"]["resources"]["Row"] }
+            Returns: {
+              error: true
+            } & "the function public.has_available_slots with parameter or with a single unnamed json/jsonb parameter, but no matches were found in the schema cache"
+          }
       is_active: {
         Args: { "": Database["public"]["Tables"]["resources"]["Row"] }
         Returns: {
@@ -1888,6 +2756,10 @@ export type Database = {
         Args: { resource_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      is_community_organizer: {
+        Args: { p_community_id: string; p_user_id: string }
+        Returns: boolean
+      }
       is_resource_active: {
         Args: {
           last_renewed_at: string
@@ -1906,11 +2778,55 @@ export type Database = {
         Args: { resource_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      join_community_with_code: {
+        Args: { p_code: string }
+        Returns: {
+          chat_read_at: string | null
+          community_id: string
+          created_at: string
+          role: Database["public"]["Enums"]["community_membership_role"]
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "community_memberships"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      lock_resource_claims: {
+        Args: { p_resource_id: string }
+        Returns: undefined
+      }
       longtransactionsenabled: { Args: never; Returns: boolean }
       mark_conversation_as_read: {
         Args: { p_conversation_id: string }
         Returns: undefined
       }
+      mark_conversation_delivered: {
+        Args: { p_conversation_id: string }
+        Returns: undefined
+      }
+      message_image_message_id: { Args: { p_name: string }; Returns: string }
+      notification_time_zone: { Args: { p_user_id: string }; Returns: string }
+      player_action_access: {
+        Args: {
+          p_action: Database["public"]["Enums"]["player_action"]
+          p_community_ids: string[]
+          p_user_id: string
+        }
+        Returns: {
+          allowed: boolean
+          community_id: string
+          current_level: number
+          required_level: number
+        }[]
+      }
+      player_level_in_community: {
+        Args: { p_community_id: string; p_user_id: string }
+        Returns: number
+      }
       populate_geometry_columns:
         | { Args: { use_typmod?: boolean }; Returns: string }
         | { Args: { tbl_oid: unknown; use_typmod?: boolean }; Returns: number }
@@ -1951,10 +2867,201 @@ export type Database = {
       }
       postgis_version: { Args: never; Returns: string }
       postgis_wagyu_version: { Args: never; Returns: string }
+      promote_waitlisted_claims: {
+        Args: { p_resource_id: string; p_timeslot_id: string }
+        Returns: number
+      }
+      quiet_hours_end_at: {
+        Args: { p_at?: string; p_user_id: string }
+        Returns: string
+      }
+      raise_claim_transition_error: {
+        Args: {
+          p_allowed_actor: string
+          p_from_status: Database["public"]["Enums"]["resource_claim_status"]
+          p_message: string
+          p_resource_type: Database["public"]["Enums"]["resource_type"]
+          p_to_status: Database["public"]["Enums"]["resource_claim_status"]
+        }
+        Returns: undefined
+      }
+      recurrence_occurrences: {
+        Args: {
+          p_include_exceptions?: boolean
+          p_recurrence: Database["public"]["Tables"]["resource_recurrences"]["Row"]
+          p_to: string
+        }
+        Returns: string[]
+      }
+      recurrence_with_single_bound: {
+        Args: {
+          p_changes: Json
+          p_recurrence: Database["public"]["Tables"]["resource_recurrences"]["Row"]
+        }
+        Returns: {
+          by_weekday: number[] | null
+          count: number | null
+          created_at: string
+          duration_minutes: number
+          exception_dates: string[]
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          id: string
+          repeat_interval: number
+          resource_id: string
+          starts_at: string
+          timezone: string
+          until: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "resource_recurrences"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       regenerate_invitation_code: {
         Args: { p_community_id: string; p_user_id: string }
         Returns: string
       }
+      required_player_level: {
+        Args: { p_action: Database["public"]["Enums"]["player_action"] }
+        Returns: number
+      }
+      reset_calendar_feed_token: { Args: never; Returns: string }
+      resources_near: {
+        Args: { p_lat: number; p_lng: number; p_radius_km: number }
+        Returns: {
+          category: Database["public"]["Enums"]["resource_category"] | null
+          claim_limit: number | null
+          claim_limit_per: Database["public"]["Enums"]["resource_claim_limit_per"] | null
+          comment_count: number | null
+          coordinates: unknown
+          created_at: string | null
+          description: string | null
+          distance_km: number | null
+          duration_minutes: number | null
+          id: string | null
+          image_urls: string[] | null
+          image_urls_uncropped: string[] | null
+          is_recurring: boolean | null
+          last_renewed_at: string | null
+          location_name: string | null
+          owner_id: string | null
+          requires_approval: boolean | null
+          status: Database["public"]["Enums"]["resource_status"] | null
+          timeslots_flexible: boolean | null
+          title: string | null
+          type: Database["public"]["Enums"]["resource_type"] | null
+          updated_at: string | null
+          voting_deadline: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "nearby_resources"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      review_membership_request: {
+        Args: {
+          p_request_id: string
+          p_status: Database["public"]["Enums"]["membership_request_status"]
+        }
+        Returns: {
+          community_id: string
+          created_at: string
+          id: string
+          message: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["membership_request_status"]
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "community_membership_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      review_message_report: {
+        Args: {
+          p_report_id: string
+          p_status: Database["public"]["Enums"]["message_report_status"]
+        }
+        Returns: {
+          community_id: string | null
+          created_at: string
+          details: string | null
+          id: string
+          message_id: string
+          reason: Database["public"]["Enums"]["message_report_reason"]
+          reporter_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["message_report_status"]
+        }
+        SetofOptions: {
+          from: "*"
+          to: "message_reports"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      revoke_invitation_code: {
+        Args: { p_code: string }
+        Returns: {
+          code: string
+          community_id: string
+          created_at: string
+          expires_at: string | null
+          is_active: boolean
+          is_personal: boolean
+          max_uses: number | null
+          role: Database["public"]["Enums"]["community_membership_role"]
+          updated_at: string
+          use_count: number
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "invitation_codes"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      search_vector:
+        | {
+            Args: { "": Database["public"]["Views"]["nearby_resources"]["Row"] }
+            Returns: {
+              error: true
+            } & "the function public.search_vector with parameter or with a single unnamed json/jsonb parameter, but no matches were found in the schema cache"
+          }
+        | {
+            Args: { "": Database["public"]["Tables"]["resources"]["Row"] }
+            Returns: {
+              error: true
+            } & "the function public.search_vector with parameter or with a single unnamed json/jsonb parameter, but no matches were found in the schema cache"
+          }
+      send_email_digests: { Args: { p_frequency: string }; Returns: number }
+      send_event_starting_notifications: { Args: never; Returns: number }
+      send_held_push_notifications: { Args: never; Returns: number }
+      send_resource_expiring_notifications: { Args: never; Returns: number }
+      send_scheduled_notification: {
+        Args: {
+          p_action: Database["public"]["Enums"]["action_type"]
+          p_actor_id?: string
+          p_claim_id?: string
+          p_due_at: string
+          p_lead_time: unknown
+          p_resource_id: string
+          p_timeslot_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      sends_read_receipts: { Args: { p_user_id: string }; Returns: boolean }
       st_3dclosestpoint: {
         Args: { geom1: unknown; geom2: unknown }
         Returns: unknown
@@ -2548,7 +3655,39 @@ export type Database = {
         }
         Returns: undefined
       }
+      sync_recurrence_timeslots: {
+        Args: { p_horizon?: unknown; p_recurrence_id: string }
+        Returns: number
+      }
+      transfer_community_foundership: {
+        Args: { p_community_id: string; p_new_founder_id: string }
+        Returns: undefined
+      }
       unlockrows: { Args: { "": string }; Returns: number }
+      update_event_recurrence_from: {
+        Args: { p_changes: Json; p_from: string; p_recurrence_id: string }
+        Returns: {
+          by_weekday: number[] | null
+          count: number | null
+          created_at: string
+          duration_minutes: number
+          exception_dates: string[]
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          id: string
+          repeat_interval: number
+          resource_id: string
+          starts_at: string
+          timezone: string
+          until: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "resource_recurrences"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       update_trust_score: {
         Args: {
           p_action_id: string
@@ -2582,6 +3721,19 @@ export type Database = {
         Args: { user1_id: string; user2_id: string }
         Returns: boolean
       }
+      waitlist_position: {
+        Args: { "": Database["public"]["Tables"]["resource_claims"]["Row"] }
+        Returns: {
+          error: true
+        } & "the function public.waitlist_position with parameter or with a single unnamed json/jsonb parameter, but no matches were found in the schema cache"
+      }
+      wants_notification: {
+        Args: {
+          p_action: Database["public"]["Enums"]["action_type"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       action_type:
@@ -2647,7 +3799,14 @@ export type Database = {
         | "shoutout.request.sent.owner"
         | "shoutout.request.received.owner"
         | "resource.image.added"
+        | "claim.promoted"
+        | "member.role_changed"
+        | "member.removed"
+        | "membership.requested"
+        | "membership.approved"
+        | "membership.rejected"
       commitment_level_enum: "interested" | "committed" | "none"
+      community_join_policy: "open" | "invite_only" | "request"
       community_membership_role: "member" | "organizer" | "founder"
       community_type: "neighbors" | "close" | "far" | "virtual"
       connection_strength:
@@ -2657,6 +3816,9 @@ export type Database = {
         | "negative"
         | "unknown"
       conversation_type: "direct" | "community"
+      membership_request_status: "pending" | "approved" | "rejected"
+      message_report_reason: "spam" | "harassment" | "inappropriate" | "other"
+      message_report_status: "pending" | "approved" | "rejected"
       player_action:
         | "view_public_resources"
         | "create_claims"
@@ -2671,6 +3833,7 @@ export type Database = {
         | "send_community_message"
         | "view_community_map"
         | "join_another_community"
+      recurrence_frequency: "weekly" | "monthly"
       resource_category:
         | "tools"
         | "skills"
@@ -2694,6 +3857,7 @@ export type Database = {
         | "flaked"
         | "received"
         | "vote"
+        | "waitlisted"
       resource_status:
         | "voting"
         | "scheduled"
@@ -2905,8 +4069,15 @@ export const Constants = {
         "shoutout.request.sent.owner",
         "shoutout.request.received.owner",
         "resource.image.added",
+        "claim.promoted",
+        "member.role_changed",
+        "member.removed",
+        "membership.requested",
+        "membership.approved",
+        "membership.rejected",
       ],
       commitment_level_enum: ["interested", "committed", "none"],
+      community_join_policy: ["open", "invite_only", "request"],
       community_membership_role: ["member", "organizer", "founder"],
       community_type: ["neighbors", "close", "far", "virtual"],
       connection_strength: [
@@ -2917,6 +4088,9 @@ export const Constants = {
         "unknown",
       ],
       conversation_type: ["direct", "community"],
+      membership_request_status: ["pending", "approved", "rejected"],
+      message_report_reason: ["spam", "harassment", "inappropriate", "other"],
+      message_report_status: ["pending", "approved", "rejected"],
       player_action: [
         "view_public_resources",
         "create_claims",
@@ -2932,6 +4106,7 @@ export const Constants = {
         "view_community_map",
         "join_another_community",
       ],
+      recurrence_frequency: ["weekly", "monthly"],
       resource_category: [
         "tools",
         "skills",
@@ -2956,6 +4131,7 @@ export const Constants = {
         "flaked",
         "received",
         "vote",
+        "waitlisted",
       ],
       resource_status: [
         "voting",
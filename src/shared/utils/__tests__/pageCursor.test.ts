@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { decodePageCursor, encodePageCursor } from '../pageCursor';
+
+describe('pageCursor', () => {
+  const cursor = {
+    createdAt: '2025-11-13T15:00:00.123456+00:00',
+    id: '6f1c2a8e-3b4d-4f5a-9c7e-1a2b3c4d5e6f',
+  };
+
+  it('should round-trip a cursor', () => {
+    expect(decodePageCursor(encodePageCursor(cursor))).toEqual(cursor);
+  });
+
+  it('should produce an opaque string', () => {
+    const encoded = encodePageCursor(cursor);
+
+    expect(encoded).not.toContain(cursor.id);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodePageCursor('not base64!')).toThrow('Invalid cursor');
+    expect(() => decodePageCursor(btoa('missing-separator'))).toThrow(
+      'Invalid cursor',
+    );
+    expect(() => decodePageCursor(btoa(`not-a-date|${cursor.id}`))).toThrow(
+      'Invalid cursor',
+    );
+  });
+});
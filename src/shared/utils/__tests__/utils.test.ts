@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { parsePostGisPoint, toPostGisPoint } from '../postgis';
+import {
+  calculateDrivingTime,
+  calculateMaxDistanceForDrivingTime,
+} from '../distance';
 
 describe('parsePostGisPoint', () => {
   describe('when given null or undefined', () => {
@@ -176,3 +180,25 @@ describe('toPostGisPoint', () => {
     expect(result).toBe('POINT(-74 40)');
   });
 });
+
+describe('calculateMaxDistanceForDrivingTime', () => {
+  it('should return 0 for non-positive or invalid budgets', () => {
+    expect(calculateMaxDistanceForDrivingTime(0)).toBe(0);
+    expect(calculateMaxDistanceForDrivingTime(-5)).toBe(0);
+    expect(calculateMaxDistanceForDrivingTime(NaN)).toBe(0);
+  });
+
+  it('should convert minutes into straight-line kilometers', () => {
+    // 60 minutes at 50 km/h with a 1.3 road factor
+    expect(calculateMaxDistanceForDrivingTime(60)).toBeCloseTo(50 / 1.3);
+  });
+
+  it('should be consistent with the approximate driving time', async () => {
+    const origin = { lat: 40.7128, lng: -74.006 };
+    const radiusKm = calculateMaxDistanceForDrivingTime(10);
+    // Move due north by radiusKm (1 degree of latitude is ~111.195 km)
+    const destination = { lat: origin.lat + radiusKm / 111.195, lng: origin.lng };
+
+    expect(await calculateDrivingTime(origin, destination)).toBe(10);
+  });
+});
@@ -1,6 +1,10 @@
 import type { createMapboxClient } from '../../config';
 import logger from '../logger';
 
+// Average city driving speed and road-vs-direct distance factor used by the approximation
+const AVERAGE_DRIVING_SPEED_KMH = 50;
+const ROAD_DISTANCE_FACTOR = 1.3;
+
 // Helper function to validate coordinates
 const isValidCoordinate = (value: number): boolean => {
   return typeof value === 'number' && !isNaN(value) && isFinite(value);
@@ -136,7 +140,8 @@ const calculateApproximateDrivingTime = (
 
   // Assuming average speed of 50 km/h in city driving
   // Multiply by 1.3 to account for road distance vs. direct distance
-  const drivingTime = ((distance * 1.3) / 50) * 60;
+  const drivingTime =
+    ((distance * ROAD_DISTANCE_FACTOR) / AVERAGE_DRIVING_SPEED_KMH) * 60;
 
   const approximateTime = Math.round(drivingTime);
   logger.trace('🗺️ Approximate driving time calculated:', {
@@ -146,3 +151,30 @@ const calculateApproximateDrivingTime = (
 
   return approximateTime;
 };
+
+/**
+ * Converts a driving time budget into the straight-line distance it covers.
+ *
+ * Uses the same assumptions as the approximation fallback of
+ * `calculateDrivingTime`, so a point within the returned distance has an
+ * approximate driving time within the budget.
+ *
+ * @param drivingMinutes - Driving time budget in minutes
+ * @returns Maximum straight-line distance in kilometers
+ *
+ * @example
+ * ```typescript
+ * const radiusKm = calculateMaxDistanceForDrivingTime(10); // ~6.4 km
+ * ```
+ *
+ * @category Utilities
+ */
+export const calculateMaxDistanceForDrivingTime = (
+  drivingMinutes: number
+): number => {
+  if (!Number.isFinite(drivingMinutes) || drivingMinutes <= 0) {
+    return 0;
+  }
+
+  return ((drivingMinutes / 60) * AVERAGE_DRIVING_SPEED_KMH) / ROAD_DISTANCE_FACTOR;
+};
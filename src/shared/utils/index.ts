@@ -4,5 +4,6 @@ export * from './postgis';
 export * from './auth-helpers';
 export * from './queries';
 export * from './urlUtils';
+export * from './pageCursor';
 
 // Might export edge later
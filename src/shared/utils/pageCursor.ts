@@ -0,0 +1,39 @@
+/**
+ * Position of the last item of a page in a list ordered by created_at
+ * descending with id as a tie-breaker. Both are needed to resume without
+ * skipping or repeating items.
+ */
+export interface PageCursor {
+  createdAt: string;
+  id: string;
+}
+
+const CURSOR_SEPARATOR = '|';
+
+/**
+ * Encodes a list position as an opaque cursor string
+ */
+export function encodePageCursor(cursor: PageCursor): string {
+  return btoa(`${cursor.createdAt}${CURSOR_SEPARATOR}${cursor.id}`);
+}
+
+/**
+ * Decodes a cursor created by encodePageCursor
+ *
+ * @throws Error if the cursor is malformed
+ */
+export function decodePageCursor(cursor: string): PageCursor {
+  let decoded: string;
+  try {
+    decoded = atob(cursor);
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  const [createdAt, id, ...rest] = decoded.split(CURSOR_SEPARATOR);
+  if (!createdAt || !id || rest.length > 0 || isNaN(Date.parse(createdAt))) {
+    throw new Error('Invalid cursor');
+  }
+
+  return { createdAt, id };
+}
@@ -0,0 +1,71 @@
+import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { logger } from '@/shared/logger';
+import type { Database } from '@/shared/types/database';
+
+/**
+ * Passes the current session to realtime so private channels are authorized
+ */
+export async function setRealtimeAuth(
+  supabase: SupabaseClient<Database>,
+): Promise<void> {
+  // Check current auth state
+  await supabase.auth.getSession();
+
+  try {
+    await supabase.realtime.setAuth();
+  } catch (authError) {
+    logger.error('❌ Failed to set realtime auth:', authError);
+    throw authError;
+  }
+}
+
+/**
+ * Subscribes a channel, logging status changes and reporting them to
+ * onStatusChange
+ */
+export function subscribeWithStatus(
+  channel: RealtimeChannel,
+  channelName: string,
+  onStatusChange?: (status: string, isConnecting: boolean) => void,
+  onSubscribed?: () => void,
+): RealtimeChannel {
+  return channel.subscribe((status, err) => {
+    const timestamp = new Date().toISOString();
+    logger.debug(
+      '=== SUBSCRIPTION STATUS ===',
+      `[${timestamp}] ${channelName}:`,
+      status,
+      err ? { error: err, errorMessage: err.message } : 'no error',
+    );
+
+    // Enhanced status logging and status change callback
+    switch (status) {
+      case 'SUBSCRIBED':
+        logger.info('🟢 Channel successfully subscribed', channelName);
+        onSubscribed?.();
+        if (onStatusChange) {
+          // Add a small delay to ensure subscription is fully established
+          setTimeout(() => onStatusChange(status, false), 50);
+        }
+        break;
+      case 'CHANNEL_ERROR':
+        logger.error('🔴 Channel error occurred:', { error: err, timestamp });
+        if (onStatusChange) {
+          setTimeout(() => onStatusChange(status, false), 100);
+        }
+        break;
+      case 'TIMED_OUT':
+        logger.warn('⏰ Channel timed out:', { error: err, timestamp });
+        if (onStatusChange) {
+          setTimeout(() => onStatusChange(status, false), 100);
+        }
+        break;
+      case 'CLOSED':
+        logger.warn('🚪 Channel closed:', { error: err, timestamp });
+        if (onStatusChange) {
+          setTimeout(() => onStatusChange(status, false), 100);
+        }
+        break;
+    }
+  });
+}
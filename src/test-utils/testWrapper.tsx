@@ -1,13 +1,15 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { createElement } from 'react';
-import { BelongProvider } from '../config';
+import { BelongProvider, type BelongClientConfig } from '../config';
 
 /**
  * Standard test configuration for BelongProvider
  */
-const DEFAULT_TEST_CONFIG = {
-  supabaseUrl: 'https://test.supabase.co',
-  supabaseAnonKey: 'test-key',
+const DEFAULT_TEST_CONFIG: BelongClientConfig = {
+  supabase: {
+    supabaseUrl: 'https://test.supabase.co',
+    supabaseAnonKey: 'test-key',
+  },
   mapboxPublicToken: 'test-token',
 };
 
@@ -18,7 +20,7 @@ const DEFAULT_TEST_CONFIG = {
 export function createTestWrapper(
   options: {
     queryClientOptions?: ConstructorParameters<typeof QueryClient>[0];
-    config?: typeof DEFAULT_TEST_CONFIG;
+    config?: Partial<BelongClientConfig>;
   } = {},
 ) {
   const queryClient = new QueryClient({
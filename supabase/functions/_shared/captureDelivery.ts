@@ -0,0 +1,30 @@
+import type { SupabaseClient } from 'supabase';
+
+/**
+ * A delivery recorded by a capture transport instead of being sent.
+ * Integration tests read these from captured_notification_deliveries to
+ * assert on what would have reached the user.
+ */
+export interface CapturedDelivery {
+  channel: 'email' | 'push';
+  user_id: string;
+  notification_ids: string[];
+  recipient: string;
+  subject: string;
+  body: string;
+  html_body?: string;
+  payload: Record<string, unknown>;
+}
+
+export async function captureDelivery(
+  supabase: SupabaseClient,
+  delivery: CapturedDelivery,
+): Promise<void> {
+  const { error } = await supabase
+    .from('captured_notification_deliveries')
+    .insert(delivery);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,174 @@
+import type { SupabaseClient } from 'supabase';
+import { SMTPClient } from 'denomailer';
+import { captureDelivery } from './captureDelivery.ts';
+
+/**
+ * Email Transports
+ *
+ * Selected with EMAIL_TRANSPORT:
+ *   - postmark (default): Postmark-hosted template, rendered by Postmark
+ *   - smtp: locally rendered email sent through an SMTP server
+ *   - capture: locally rendered email recorded in captured_notification_deliveries
+ */
+
+export interface EmailMessage {
+  user_id: string;
+  notification_ids: string[];
+  from: string;
+  to: string;
+  // Postmark template and the variables it renders
+  template_alias: string;
+  template_model: Record<string, unknown>;
+  // Local rendering of the same template, for transports without Postmark
+  subject: string;
+  text_body: string;
+  html_body: string;
+}
+
+export interface EmailTransportResult {
+  sent: boolean;
+  reason?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<EmailTransportResult>;
+}
+
+export function createEmailTransport(supabase: SupabaseClient): EmailTransport {
+  const transport = Deno.env.get('EMAIL_TRANSPORT') ?? 'postmark';
+
+  switch (transport) {
+    case 'postmark':
+      return createPostmarkTransport();
+    case 'smtp':
+      return createSmtpTransport();
+    case 'capture':
+      return {
+        name: 'capture',
+        async send(message) {
+          await captureDelivery(supabase, {
+            channel: 'email',
+            user_id: message.user_id,
+            notification_ids: message.notification_ids,
+            recipient: message.to,
+            subject: message.subject,
+            body: message.text_body,
+            html_body: message.html_body,
+            payload: {
+              from: message.from,
+              template_alias: message.template_alias,
+              template_model: message.template_model,
+            },
+          });
+          return { sent: true };
+        },
+      };
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+function createPostmarkTransport(): EmailTransport {
+  const postmarkToken = Deno.env.get('POSTMARK_NOTIFICATION_SERVER_TOKEN');
+  const postmarkMessageStream = Deno.env.get(
+    'POSTMARK_NOTIFICATION_MESSAGE_STREAM',
+  );
+
+  if (!postmarkToken || !postmarkMessageStream) {
+    throw new Error('Postmark configuration incomplete');
+  }
+
+  return {
+    name: 'postmark',
+    async send(message) {
+      const postmarkRequest = {
+        From: message.from,
+        To: message.to,
+        TemplateAlias: message.template_alias,
+        TemplateModel: message.template_model,
+        TrackOpens: true,
+        TrackLinks: 'HtmlOnly',
+        MessageStream: postmarkMessageStream,
+      };
+
+      console.log('Sending to Postmark: ', JSON.stringify(postmarkRequest));
+
+      const postmarkResponse = await fetch(
+        'https://api.postmarkapp.com/email/withTemplate',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+            'X-Postmark-Server-Token': postmarkToken,
+          },
+          body: JSON.stringify(postmarkRequest),
+        },
+      );
+
+      if (!postmarkResponse.ok) {
+        const errorBody = await postmarkResponse.text();
+        console.error(
+          'Postmark API error:',
+          postmarkResponse.status,
+          errorBody,
+        );
+        return {
+          sent: false,
+          reason: `Postmark API error: ${postmarkResponse.status}`,
+        };
+      }
+
+      return { sent: true };
+    },
+  };
+}
+
+function createSmtpTransport(): EmailTransport {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const port = Number(Deno.env.get('SMTP_PORT') ?? '587');
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+
+  if (!hostname) {
+    throw new Error('SMTP configuration incomplete');
+  }
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          // Local mail catchers such as Inbucket do not speak TLS
+          tls: Deno.env.get('SMTP_TLS') !== 'false',
+          auth: username && password ? { username, password } : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text_body,
+          html: message.html_body,
+        });
+      } catch (error) {
+        console.error('SMTP error:', error);
+        return {
+          sent: false,
+          reason: `SMTP error: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+        };
+      } finally {
+        await client.close();
+      }
+
+      return { sent: true };
+    },
+  };
+}
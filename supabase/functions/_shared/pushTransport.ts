@@ -0,0 +1,90 @@
+import type { SupabaseClient } from 'supabase';
+import webpush from 'web-push';
+import { captureDelivery } from './captureDelivery.ts';
+
+/**
+ * Push Transports
+ *
+ * Selected with PUSH_TRANSPORT:
+ *   - web-push (default): Web Push Protocol with the VAPID keys
+ *   - capture: records each push in captured_notification_deliveries
+ *
+ * send() throws on failure. Errors with statusCode 410 mean the subscription
+ * has expired.
+ */
+
+export interface PushSubscription {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh_key: string;
+  auth_key: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  data: {
+    notification_id: string;
+    action: string;
+  };
+}
+
+export interface PushTransport {
+  name: string;
+  send(subscription: PushSubscription, payload: PushPayload): Promise<void>;
+}
+
+export function createPushTransport(supabase: SupabaseClient): PushTransport {
+  const transport = Deno.env.get('PUSH_TRANSPORT') ?? 'web-push';
+
+  switch (transport) {
+    case 'web-push':
+      return createWebPushTransport();
+    case 'capture':
+      return {
+        name: 'capture',
+        async send(subscription, payload) {
+          await captureDelivery(supabase, {
+            channel: 'push',
+            user_id: subscription.user_id,
+            notification_ids: [payload.data.notification_id],
+            recipient: subscription.endpoint,
+            subject: payload.title,
+            body: payload.body,
+            payload: { ...payload },
+          });
+        },
+      };
+    default:
+      throw new Error(`Unknown PUSH_TRANSPORT: ${transport}`);
+  }
+}
+
+function createWebPushTransport(): PushTransport {
+  const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  const vapidSubject = Deno.env.get('VAPID_SUBJECT');
+
+  if (!vapidPublicKey || !vapidPrivateKey || !vapidSubject) {
+    throw new Error('VAPID keys not configured');
+  }
+
+  webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey);
+
+  return {
+    name: 'web-push',
+    async send(subscription, payload) {
+      await webpush.sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: {
+            p256dh: subscription.p256dh_key,
+            auth: subscription.auth_key,
+          },
+        },
+        JSON.stringify(payload),
+      );
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { createClient } from 'supabase';
+import {
+  renderCalendar,
+  type CalendarFeedEventRow,
+} from './renderCalendar.ts';
+
+/**
+ * Calendar Feed Edge Function
+ *
+ * Serves a user's calendar as an iCalendar document that calendar apps can
+ * subscribe to. Calendar apps cannot sign in, so the request is authorized
+ * by the user's secret feed token instead of a JWT (verify_jwt is off for
+ * this function).
+ *
+ * Input: GET ?token=<calendar feed token>[&tz=<IANA time zone>]
+ * Process:
+ *   1. Look up the user the token belongs to in calendar_feed_tokens
+ *   2. Fetch their events from calendar_feed_events
+ *   3. Render them as text/calendar
+ */
+
+// How far back the feed reaches for past timeslots; matches
+// CALENDAR_FEED_LOOKBACK_DAYS in the client
+const LOOKBACK_DAYS = 30;
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const token = url.searchParams.get('token');
+    const timeZone = url.searchParams.get('tz') ?? undefined;
+
+    if (!token) {
+      return new Response('Missing token', { status: 401 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feedToken, error: tokenError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (tokenError) {
+      throw tokenError;
+    }
+
+    if (!feedToken) {
+      return new Response('Invalid token', { status: 404 });
+    }
+
+    const since = new Date(
+      Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+    ).toISOString();
+
+    const { data: events, error: eventsError } = await supabase.rpc(
+      'calendar_feed_events',
+      { p_user_id: feedToken.user_id, p_since: since },
+    );
+
+    if (eventsError) {
+      throw eventsError;
+    }
+
+    return new Response(
+      renderCalendar(
+        'Belong',
+        (events ?? []) as CalendarFeedEventRow[],
+        timeZone,
+      ),
+      {
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Cache-Control': 'private, max-age=300',
+        },
+        status: 200,
+      },
+    );
+  } catch (error) {
+    console.error('Error in calendar-feed:', error);
+    return new Response('Failed to build calendar feed', { status: 500 });
+  }
+});
@@ -0,0 +1,129 @@
+/**
+ * iCalendar (RFC 5545) rendering for the calendar feed.
+ *
+ * Mirrors toICalendar in src/features/calendar/utils/icalendar.ts, which the
+ * app uses for downloaded .ics files, so subscribed and downloaded calendars
+ * contain the same events.
+ */
+
+const PRODUCT_ID = '-//Belong Network//Platform//EN';
+const UID_DOMAIN = 'belong.network';
+
+// RFC 5545 limits content lines to 75 octets, excluding the CRLF
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * One row of calendar_feed_events
+ */
+export interface CalendarFeedEventRow {
+  timeslot_id: string;
+  start_time: string;
+  end_time: string;
+  title: string;
+  description: string | null;
+  location_name: string | null;
+  lat: number | null;
+  lng: number | null;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence: number;
+  last_modified: string;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+function formatDate(value: string): string {
+  return new Date(value)
+    .toISOString()
+    .replace(/\.\d{3}/, '')
+    .replace(/[-:]/g, '');
+}
+
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (chunkOctets + octets > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkOctets = 0;
+    }
+
+    chunk += char;
+    chunkOctets += octets;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+function eventLines(event: CalendarFeedEventRow): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.timeslot_id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDate(event.last_modified)}`,
+    `LAST-MODIFIED:${formatDate(event.last_modified)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `DTSTART:${formatDate(event.start_time)}`,
+    `DTEND:${formatDate(event.end_time)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location_name) {
+    lines.push(`LOCATION:${escapeText(event.location_name)}`);
+  }
+  if (event.lat !== null && event.lng !== null) {
+    lines.push(`GEO:${event.lat};${event.lng}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Renders feed events as an iCalendar document. Times are written in UTC;
+ * timeZone is only passed as X-WR-TIMEZONE for display.
+ */
+export function renderCalendar(
+  name: string,
+  events: CalendarFeedEventRow[],
+  timeZone?: string,
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  if (timeZone) {
+    lines.push(`X-WR-TIMEZONE:${timeZone}`);
+  }
+
+  for (const event of events) {
+    lines.push(...eventLines(event));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -1,4 +1,16 @@
 import { createClient } from 'supabase';
+import {
+  createEmailTransport,
+  type EmailMessage,
+  type EmailTransport,
+} from '../_shared/emailTransport.ts';
+import {
+  renderDigestEmail,
+  renderNotificationEmail,
+  type DigestEmailModel,
+  type DigestItem,
+  type NotificationEmailModel,
+} from './renderEmail.ts';
 
 /**
  * Email Notification Edge Function
@@ -12,7 +24,14 @@ import { createClient } from 'supabase';
  *   1. Fetch user email from profiles table
  *   2. Fetch notification details from notification_details view
  *   3. Format email using notification.action to determine template
- *   4. Send via Postmark API
+ *   4. Send via the configured email transport (EMAIL_TRANSPORT, default
+ *      postmark)
+ *
+ * Digest input: user_id, notification_ids, digest ('daily' | 'weekly')
+ * Sent by send_email_digests; renders one email listing all the
+ * notifications, grouped by community. Once the transport confirms the email
+ * was sent, the notifications are removed from email_digest_queue; otherwise
+ * they stay queued for the next digest.
  */
 
 const corsHeaders = {
@@ -23,35 +42,9 @@ const corsHeaders = {
 
 interface EmailNotificationRequest {
   user_id: string;
-  notification_id: string;
-}
-
-interface PostmarkTemplateRequest {
-  From: string;
-  To: string;
-  TemplateId?: number;
-  TemplateAlias?: string;
-  TemplateModel: {
-    subject: string;
-    actor_display_name: string;
-    actor_full_name: string;
-    actor_avatar_url?: string;
-    actor_operation: string;
-    community_name: string;
-    notification_type: string;
-    notification_title?: string;
-    timeslot?: string;
-    sent_to: string;
-    sent_because?: string;
-    actions?: {
-      name: string;
-      url: string;
-    }[];
-    manage_preferences_url: string;
-  };
-  TrackOpens: boolean;
-  TrackLinks: string;
-  MessageStream: string;
+  notification_id?: string;
+  notification_ids?: string[];
+  digest?: 'daily' | 'weekly';
 }
 
 Deno.serve(async (req) => {
@@ -62,37 +55,28 @@ Deno.serve(async (req) => {
 
   try {
     // Get environment variables
-    const postmarkToken = Deno.env.get('POSTMARK_NOTIFICATION_SERVER_TOKEN');
-    const postmarkFrom = Deno.env.get('POSTMARK_NOTIFICATION_FROM_EMAIL');
-    const postmarkTemplateId = Deno.env.get(
-      'POSTMARK_NOTIFICATION_TEMPLATE_ID',
-    );
-    const postmarkMessageStream = Deno.env.get(
-      'POSTMARK_NOTIFICATION_MESSAGE_STREAM',
-    );
+    const fromEmail = Deno.env.get('POSTMARK_NOTIFICATION_FROM_EMAIL');
     const appUrl = Deno.env.get('VITE_APP_URL');
 
-    if (
-      !postmarkToken ||
-      !postmarkFrom ||
-      !postmarkTemplateId ||
-      !postmarkMessageStream ||
-      !appUrl
-    ) {
-      throw new Error('Postmark configuration incomplete');
+    if (!fromEmail || !appUrl) {
+      throw new Error('Email configuration incomplete');
     }
 
     // Parse request body
     const request: EmailNotificationRequest = await req.json();
-    const { user_id, notification_id } = request;
+    const { user_id, notification_id, notification_ids, digest } = request;
 
     // Create Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const transport = createEmailTransport(supabase);
+
     console.log(
-      `Processing email notification for user ${user_id}, notification ${notification_id}`,
+      digest
+        ? `Processing ${digest} email digest for user ${user_id}`
+        : `Processing email notification for user ${user_id}, notification ${notification_id}`,
     );
 
     // Get user's email from profile
@@ -115,6 +99,58 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (digest) {
+      const { data: notifications } = await supabase
+        .from('notification_details')
+        .select('*')
+        .in('id', notification_ids ?? [])
+        .order('created_at', { ascending: true });
+
+      if (!notifications || notifications.length === 0) {
+        return new Response(
+          JSON.stringify({
+            sent: 0,
+            reason: 'No notifications to digest',
+          }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 200,
+          },
+        );
+      }
+
+      const digestModel = createDigestTemplateModel(
+        notifications,
+        digest,
+        appUrl,
+      );
+
+      const digestedIds = notifications.map(({ id }) => id);
+
+      return await sendEmail(
+        transport,
+        {
+          user_id,
+          notification_ids: digestedIds,
+          from: `Juntos <${fromEmail}>`,
+          to: profile.email,
+          template_alias: 'app-notification-digest',
+          template_model: { ...digestModel },
+          ...renderDigestEmail(digestModel),
+        },
+        async () => {
+          const { error } = await supabase
+            .from('email_digest_queue')
+            .delete()
+            .in('notification_id', digestedIds);
+
+          if (error) {
+            console.error('Failed to dequeue digested notifications:', error);
+          }
+        },
+      );
+    }
+
     // Fetch notification details to get all entity IDs
     const { data: notification } = await supabase
       .from('notification_details')
@@ -143,59 +179,17 @@ Deno.serve(async (req) => {
     const { actor_data } = notification;
     const actor_full_name = actor_data?.full_name || 'Someone';
 
-    // Prepare Postmark template request
-    const postmarkRequest: PostmarkTemplateRequest = {
-      From: `${actor_full_name} via Juntos <${postmarkFrom}>`,
-      To: profile.email,
-      TemplateAlias: 'app-notification',
-      TemplateModel: createEmailTemplateModel(notification, appUrl),
-      TrackOpens: true,
-      TrackLinks: 'HtmlOnly',
-      MessageStream: postmarkMessageStream,
-    };
-
-    console.log('Sending to Postmark: ', JSON.stringify(postmarkRequest));
-
-    // Send email via Postmark API
-    const postmarkResponse = await fetch(
-      'https://api.postmarkapp.com/email/withTemplate',
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-          'X-Postmark-Server-Token': postmarkToken,
-        },
-        body: JSON.stringify(postmarkRequest),
-      },
-    );
-
-    if (!postmarkResponse.ok) {
-      const errorBody = await postmarkResponse.text();
-      console.error('Postmark API error:', postmarkResponse.status, errorBody);
-      return new Response(
-        JSON.stringify({
-          sent: 0,
-          reason: `Postmark API error: ${postmarkResponse.status}`,
-        }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        },
-      );
-    }
-
-    console.log('Email response', JSON.stringify(postmarkResponse));
-
-    return new Response(
-      JSON.stringify({
-        sent: 1,
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      },
-    );
+    const emailModel = createEmailTemplateModel(notification, appUrl);
+
+    return await sendEmail(transport, {
+      user_id,
+      notification_ids: [notification.id],
+      from: `${actor_full_name} via Juntos <${fromEmail}>`,
+      to: profile.email,
+      template_alias: 'app-notification',
+      template_model: { ...emailModel },
+      ...renderNotificationEmail(emailModel),
+    });
   } catch (error) {
     console.error('Error in send-email-notification:', error);
     return new Response(
@@ -210,6 +204,37 @@ Deno.serve(async (req) => {
   }
 });
 
+/**
+ * Sends an email through the transport and reports the result. onSent runs
+ * only when the transport confirms the email was sent.
+ */
+async function sendEmail(
+  transport: EmailTransport,
+  message: EmailMessage,
+  onSent?: () => Promise<void>,
+): Promise<Response> {
+  const result = await transport.send(message);
+
+  if (result.sent && onSent) {
+    await onSent();
+  }
+
+  console.log(
+    `Email ${result.sent ? 'sent' : 'not sent'} via ${transport.name}`,
+    result.reason ?? '',
+  );
+
+  return new Response(
+    JSON.stringify(
+      result.sent ? { sent: 1 } : { sent: 0, reason: result.reason },
+    ),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    },
+  );
+}
+
 interface Notification {
   id: string;
   action: string;
@@ -287,7 +312,7 @@ interface NotificationDetail extends Notification {
 function createEmailTemplateModel(
   notification: NotificationDetail,
   appUrl: string,
-): PostmarkTemplateRequest['TemplateModel'] {
+): NotificationEmailModel {
   const { actor_data, resource_data } = notification;
   const timeslot_start_time = resource_data?.timeslot_start_time;
   const actor_display_name = actor_data?.display_name || 'Someone';
@@ -322,6 +347,67 @@ function createEmailTemplateModel(
   };
 }
 
+/**
+ * Creates the digest email template model, grouping notifications by community
+ */
+function createDigestTemplateModel(
+  notifications: NotificationDetail[],
+  digest: 'daily' | 'weekly',
+  appUrl: string,
+): DigestEmailModel {
+  const communities = new Map<string, DigestItem[]>();
+
+  for (const notification of notifications) {
+    const communityName = notification.community_data?.name || 'Juntos';
+    const items = communities.get(communityName) ?? [];
+
+    items.push({
+      actor_display_name: notification.actor_data?.display_name || 'Someone',
+      actor_operation: actorOperation(notification),
+      notification_title: notificationTitle(notification),
+      notification_timestamp:
+        formatEventTimestamp(
+          notification.community_data,
+          notification.created_at,
+        ) || '',
+      url: notificationUrl(notification, appUrl),
+    });
+    communities.set(communityName, items);
+  }
+
+  const period = digest === 'daily' ? 'today' : 'this week';
+
+  return {
+    subject: `${notifications.length} ${
+      notifications.length === 1 ? 'update' : 'updates'
+    } from Juntos ${period}`,
+    digest_period: period,
+    notification_count: notifications.length,
+    communities: Array.from(communities, ([community_name, items]) => ({
+      community_name,
+      notifications: items,
+    })),
+    manage_preferences_url: `${appUrl}/notifications/settings`,
+  };
+}
+
+/**
+ * Link for a notification in a digest: its primary action, else its resource
+ */
+function notificationUrl(
+  notification: NotificationDetail,
+  appUrl: string,
+): string {
+  const [primaryAction] = actions(notification, appUrl) ?? [];
+  if (primaryAction) {
+    return primaryAction.url;
+  }
+  if (notification.resource_id) {
+    return `${appUrl}/resources/${notification.resource_id}`;
+  }
+  return `${appUrl}/notifications`;
+}
+
 function formatEventTimestamp(
   communityData?: CommunityData,
   isoString?: string,
@@ -478,6 +564,9 @@ function actorOperation(notification: NotificationDetail): string {
   }
 
   // Membership actions
+  if (action === 'membership.requested') {
+    return 'asked to join';
+  }
   if (action === 'membership.approved') {
     return 'approved your membership';
   }
@@ -494,6 +583,12 @@ function actorOperation(notification: NotificationDetail): string {
   if (action === 'member.left') {
     return 'left your community';
   }
+  if (action === 'member.role_changed') {
+    return 'changed your role in';
+  }
+  if (action === 'member.removed') {
+    return 'removed you from';
+  }
 
   // Default fallback
   return 'performed an action';
@@ -531,6 +626,11 @@ function notificationTitle(
     // Membership changes - use community name
     case 'member.joined':
     case 'member.left':
+    case 'member.role_changed':
+    case 'member.removed':
+    case 'membership.requested':
+    case 'membership.approved':
+    case 'membership.rejected':
       return community_data?.name;
 
     // Message - no title
@@ -622,11 +722,28 @@ function sentText(notification: NotificationDetail): {
     // Membership notifications - sent to admins
     case 'member.joined':
     case 'member.left':
+    case 'membership.requested':
       return {
         to: `community organizers of ${community_data?.name || 'the community'}`,
         because: `because you are an organizer`,
       };
 
+    // Role changes and removals - sent to the affected member
+    case 'member.role_changed':
+    case 'member.removed':
+      return {
+        to: 'only you',
+        because: `because you are a member of ${community_data?.name || 'the community'}`,
+      };
+
+    // Membership request outcomes - sent to the requester
+    case 'membership.approved':
+    case 'membership.rejected':
+      return {
+        to: 'only you',
+        because: `because you asked to join ${community_data?.name || 'the community'}`,
+      };
+
     // Scheduled reminders
     case 'resource.expiring':
       return {
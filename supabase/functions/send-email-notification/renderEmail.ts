@@ -0,0 +1,143 @@
+/**
+ * Local rendering of the Postmark notification templates.
+ *
+ * Postmark renders its hosted templates from the same models. These plain
+ * renderings are used by transports that do not go through Postmark (SMTP
+ * and capture), so they only need to carry the same content, not the design.
+ */
+
+export interface NotificationEmailModel {
+  subject: string;
+  actor_display_name: string;
+  actor_full_name: string;
+  actor_avatar_url?: string;
+  actor_operation: string;
+  community_name: string;
+  notification_type: string;
+  notification_title?: string;
+  timeslot?: string;
+  sent_to: string;
+  sent_because?: string;
+  actions?: {
+    name: string;
+    url: string;
+  }[];
+  manage_preferences_url: string;
+}
+
+export interface DigestItem {
+  actor_display_name: string;
+  actor_operation: string;
+  notification_title?: string;
+  notification_timestamp: string;
+  url: string;
+}
+
+export interface DigestEmailModel {
+  subject: string;
+  digest_period: string;
+  notification_count: number;
+  communities: {
+    community_name: string;
+    notifications: DigestItem[];
+  }[];
+  manage_preferences_url: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text_body: string;
+  html_body: string;
+}
+
+export function renderNotificationEmail(
+  model: NotificationEmailModel,
+): RenderedEmail {
+  const headline = `${model.actor_display_name} ${model.actor_operation}`;
+  const details = [
+    model.notification_title,
+    model.timeslot,
+    model.community_name,
+  ].filter((line): line is string => !!line);
+  const actions = model.actions ?? [];
+  const sent = [`Sent to ${model.sent_to}`, model.sent_because]
+    .filter(Boolean)
+    .join(' ');
+
+  const text_body = [
+    headline,
+    ...details,
+    '',
+    ...actions.map((action) => `${action.name}: ${action.url}`),
+    '',
+    sent,
+    `Manage notification preferences: ${model.manage_preferences_url}`,
+  ].join('\n');
+
+  const html_body = [
+    `<p><strong>${escapeHtml(headline)}</strong></p>`,
+    ...details.map((line) => `<p>${escapeHtml(line)}</p>`),
+    ...actions.map((action) => link(action.url, action.name)),
+    `<p>${escapeHtml(sent)}</p>`,
+    link(model.manage_preferences_url, 'Manage notification preferences'),
+  ].join('\n');
+
+  return { subject: model.subject, text_body, html_body };
+}
+
+export function renderDigestEmail(model: DigestEmailModel): RenderedEmail {
+  const text = [`Your updates from Juntos ${model.digest_period}`];
+  const html = [`<p><strong>${escapeHtml(text[0])}</strong></p>`];
+
+  for (const community of model.communities) {
+    text.push('', community.community_name);
+    html.push(`<h3>${escapeHtml(community.community_name)}</h3>`, '<ul>');
+
+    for (const item of community.notifications) {
+      const line = digestLine(item);
+      text.push(`- ${line} (${item.url})`);
+      html.push(
+        `<li><a href="${escapeHtml(item.url)}">${escapeHtml(line)}</a></li>`,
+      );
+    }
+
+    html.push('</ul>');
+  }
+
+  text.push(
+    '',
+    `Manage notification preferences: ${model.manage_preferences_url}`,
+  );
+  html.push(
+    link(model.manage_preferences_url, 'Manage notification preferences'),
+  );
+
+  return {
+    subject: model.subject,
+    text_body: text.join('\n'),
+    html_body: html.join('\n'),
+  };
+}
+
+function digestLine(item: DigestItem): string {
+  const headline = `${item.actor_display_name} ${item.actor_operation}`;
+  const line = item.notification_title
+    ? `${headline}: ${item.notification_title}`
+    : headline;
+  return item.notification_timestamp
+    ? `${line} - ${item.notification_timestamp}`
+    : line;
+}
+
+function link(url: string, text: string): string {
+  return `<p><a href="${escapeHtml(url)}">${escapeHtml(text)}</a></p>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
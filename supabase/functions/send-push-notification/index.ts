@@ -1,5 +1,9 @@
 import { createClient } from 'supabase';
-import webpush from 'web-push';
+import {
+  createPushTransport,
+  type PushPayload,
+  type PushSubscription,
+} from '../_shared/pushTransport.ts';
 
 /**
  * Push Notification Edge Function
@@ -10,10 +14,11 @@ import webpush from 'web-push';
  *
  * Input: user_id, notification_id
  * Process:
- *   1. Fetch user's push subscriptions from push_subscriptions table
- *   2. Fetch notification details from notification_details view
- *   3. Generate title/body based on notification.action
- *   4. Send via Web Push Protocol
+ *   1. Hold the push in push_delivery_queue if the user is in quiet hours
+ *   2. Fetch user's push subscriptions from push_subscriptions table
+ *   3. Fetch notification details from notification_details view
+ *   4. Generate title/body based on notification.action
+ *   5. Send via the configured push transport (PUSH_TRANSPORT, default web-push)
  */
 
 const corsHeaders = {
@@ -27,14 +32,6 @@ interface PushNotificationRequest {
   notification_id: string;
 }
 
-interface PushSubscription {
-  id: string;
-  user_id: string;
-  endpoint: string;
-  p256dh_key: string;
-  auth_key: string;
-}
-
 interface ActorData {
   display_name?: string;
   full_name?: string;
@@ -111,18 +108,6 @@ Deno.serve(async (req) => {
   }
 
   try {
-    // Get environment variables
-    const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY');
-    const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY');
-    const vapidSubject = Deno.env.get('VAPID_SUBJECT');
-
-    if (!vapidPublicKey || !vapidPrivateKey || !vapidSubject) {
-      throw new Error('VAPID keys not configured');
-    }
-
-    // Configure web-push
-    webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey);
-
     // Parse request body
     const request: PushNotificationRequest = await req.json();
     const { user_id, notification_id } = request;
@@ -132,10 +117,50 @@ Deno.serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const transport = createPushTransport(supabase);
+
     console.log(
       `Processing push notification for user ${user_id}, notification ${notification_id}`,
     );
 
+    // Hold the push until quiet hours end; send_held_push_notifications
+    // sends it again then
+    const { data: heldUntil, error: quietHoursError } = await supabase.rpc(
+      'quiet_hours_end_at',
+      { p_user_id: user_id },
+    );
+
+    if (quietHoursError) {
+      throw quietHoursError;
+    }
+
+    if (heldUntil) {
+      const { error: holdError } = await supabase
+        .from('push_delivery_queue')
+        .upsert(
+          { notification_id, user_id, deliver_at: heldUntil },
+          { onConflict: 'notification_id' },
+        );
+
+      if (holdError) {
+        throw holdError;
+      }
+
+      return new Response(
+        JSON.stringify({
+          sent: 0,
+          failed: 0,
+          removed: 0,
+          reason: 'Held for quiet hours',
+          held_until: heldUntil,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      );
+    }
+
     // Fetch notification details
     const { data: notification, error: notificationError } = await supabase
       .from('notification_details')
@@ -189,14 +214,14 @@ Deno.serve(async (req) => {
     }
 
     // Prepare push payload
-    const payload = JSON.stringify({
+    const payload: PushPayload = {
       title,
       body,
       data: {
         notification_id,
         action,
       },
-    });
+    };
 
     let sent = 0;
     let failed = 0;
@@ -205,15 +230,7 @@ Deno.serve(async (req) => {
     // Send push notification to all subscriptions
     for (const subscription of subscriptions as PushSubscription[]) {
       try {
-        const pushSubscription = {
-          endpoint: subscription.endpoint,
-          keys: {
-            p256dh: subscription.p256dh_key,
-            auth: subscription.auth_key,
-          },
-        };
-
-        await webpush.sendNotification(pushSubscription, payload);
+        await transport.send(subscription, payload);
         sent++;
       } catch (error: unknown) {
         // Check if subscription is expired (410 Gone)
@@ -296,6 +313,16 @@ function generatePushTitle(action: string): string {
       return 'New member joined';
     case 'member.left':
       return 'Member left';
+    case 'member.role_changed':
+      return 'Your community role changed';
+    case 'member.removed':
+      return 'Removed from community';
+    case 'membership.requested':
+      return 'New membership request';
+    case 'membership.approved':
+      return 'Membership approved';
+    case 'membership.rejected':
+      return 'Membership declined';
     case 'resource.created':
       return 'New resource';
     case 'event.created':
@@ -0,0 +1,94 @@
+-- Server-side resource search and filtering
+-- Supports the extended ResourceFilter: full-text search over title/description,
+-- availability filtering and distance filtering from an origin point.
+
+-- 1. Full-text search
+-- Computed column so it is queryable through PostgREST without being returned by select=*.
+-- Title matches rank above description matches.
+CREATE OR REPLACE FUNCTION search_vector(resources)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce($1.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce($1.description, '')), 'B');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_resources_search_vector
+  ON resources USING GIN (search_vector(resources));
+
+-- 2. Computed column for availability
+-- A claim occupies a slot unless it was rejected, cancelled, flaked, or is only a vote.
+-- A resource has available slots when at least one open timeslot is not yet full,
+-- honouring claim_limit_per ('total' counts claims across the whole resource).
+CREATE OR REPLACE FUNCTION has_available_slots(resources)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM resource_timeslots ts
+    WHERE ts.resource_id = $1.id
+      AND ts.status IN ('active', 'proposed')
+      AND ts.end_time >= now()
+      AND (
+        $1.claim_limit IS NULL
+        OR (
+          $1.claim_limit_per = 'timeslot'
+          AND (
+            SELECT count(*)
+            FROM resource_claims rc
+            WHERE rc.timeslot_id = ts.id
+              AND rc.status NOT IN ('rejected', 'cancelled', 'flaked', 'vote')
+          ) < $1.claim_limit
+        )
+        OR (
+          $1.claim_limit_per = 'total'
+          AND (
+            SELECT count(*)
+            FROM resource_claims rc
+            WHERE rc.resource_id = $1.id
+              AND rc.status NOT IN ('rejected', 'cancelled', 'flaked', 'vote')
+          ) < $1.claim_limit
+        )
+      )
+  );
+$$;
+
+COMMENT ON FUNCTION has_available_slots(resources) IS '@return_type_nullable false';
+
+-- 3. Distance search
+-- Distances are measured on the geography type, so index the cast expression
+CREATE INDEX IF NOT EXISTS idx_resources_coordinates_geography
+  ON resources USING GIST ((coordinates::geography));
+
+-- Returns resources with coordinates within p_radius_km of the given point, nearest first
+CREATE OR REPLACE FUNCTION resources_within_distance(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION
+) RETURNS TABLE (
+  resource_id UUID,
+  distance_km DOUBLE PRECISION
+) AS $$
+  SELECT
+    r.id AS resource_id,
+    ST_Distance(
+      r.coordinates::geography,
+      ST_SetSRID(ST_Point(p_lng, p_lat), 4326)::geography
+    ) / 1000.0 AS distance_km
+  FROM resources r
+  WHERE r.coordinates IS NOT NULL
+    AND ST_DWithin(
+      r.coordinates::geography,
+      ST_SetSRID(ST_Point(p_lng, p_lat), 4326)::geography,
+      p_radius_km * 1000.0
+    )
+  ORDER BY distance_km ASC, r.id ASC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_vector(resources) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION has_available_slots(resources) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION resources_within_distance TO anon, authenticated, service_role;
@@ -0,0 +1,182 @@
+-- Message reporting and moderation
+-- Members can report messages they can see. Organizers and founders of the
+-- message's community review pending reports; approving a report hides the message.
+
+-- 1. Enums
+CREATE TYPE message_report_reason AS ENUM ('spam', 'harassment', 'inappropriate', 'other');
+CREATE TYPE message_report_status AS ENUM ('pending', 'approved', 'rejected');
+
+-- 2. Hidden flag on messages (set by moderation, distinct from sender deletion)
+ALTER TABLE messages
+  ADD COLUMN is_hidden BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN messages.is_hidden IS 'True when a community organizer approved a report against this message';
+
+-- 3. Organizer check used by moderation policies and functions
+CREATE OR REPLACE FUNCTION is_community_organizer(
+  p_community_id UUID,
+  p_user_id UUID
+) RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM community_memberships
+    WHERE community_id = p_community_id
+      AND user_id = p_user_id
+      AND role IN ('organizer', 'founder')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Senders may update their own messages, but only organizers may change visibility
+CREATE OR REPLACE FUNCTION protect_message_hidden_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_hidden IS DISTINCT FROM OLD.is_hidden
+    AND (
+      NEW.community_id IS NULL
+      OR NOT is_community_organizer(NEW.community_id, auth.uid())
+    ) THEN
+    RAISE EXCEPTION 'Only community organizers can change message visibility'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_message_hidden_flag
+BEFORE UPDATE OF is_hidden ON messages
+FOR EACH ROW
+EXECUTE FUNCTION protect_message_hidden_flag();
+
+-- 4. Reports table
+-- community_id is copied from the message so organizers can query their queue
+-- without access to every message. It is NULL for direct conversation messages.
+CREATE TABLE message_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  community_id UUID REFERENCES communities(id) ON DELETE CASCADE,
+  reason message_report_reason NOT NULL,
+  details TEXT,
+  status message_report_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  CONSTRAINT message_reports_unique_reporter UNIQUE (message_id, reporter_id)
+);
+
+CREATE INDEX idx_message_reports_community_status
+  ON message_reports (community_id, status, created_at DESC);
+CREATE INDEX idx_message_reports_reporter ON message_reports (reporter_id);
+
+-- 5. Populate community_id from the reported message
+CREATE OR REPLACE FUNCTION set_message_report_community()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT community_id INTO NEW.community_id
+  FROM messages
+  WHERE id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_message_report_community
+BEFORE INSERT ON message_reports
+FOR EACH ROW
+EXECUTE FUNCTION set_message_report_community();
+
+-- 6. RLS
+ALTER TABLE message_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reporters can only report messages visible to them (messages RLS applies to
+-- the subquery) and never their own messages. Reports always start pending.
+CREATE POLICY "Users can report messages they can see"
+ON message_reports FOR INSERT
+TO authenticated
+WITH CHECK (
+  reporter_id = auth.uid()
+  AND status = 'pending'
+  AND reviewed_at IS NULL
+  AND reviewed_by IS NULL
+  AND EXISTS (
+    SELECT 1 FROM messages
+    WHERE messages.id = message_reports.message_id
+    AND messages.sender_id <> auth.uid()
+  )
+);
+
+CREATE POLICY "Reporters and community organizers can view reports"
+ON message_reports FOR SELECT
+TO authenticated
+USING (
+  reporter_id = auth.uid()
+  OR (
+    community_id IS NOT NULL
+    AND is_community_organizer(community_id, auth.uid())
+  )
+);
+
+-- No UPDATE/DELETE policies: reviews go through review_message_report()
+
+-- 7. Review function
+-- Atomically records the decision and hides the message when approved
+CREATE OR REPLACE FUNCTION review_message_report(
+  p_report_id UUID,
+  p_status message_report_status
+) RETURNS message_reports AS $$
+DECLARE
+  v_report message_reports%ROWTYPE;
+BEGIN
+  IF p_status = 'pending' THEN
+    RAISE EXCEPTION 'A report can only be approved or rejected'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_report
+  FROM message_reports
+  WHERE id = p_report_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR v_report.community_id IS NULL
+    OR NOT is_community_organizer(v_report.community_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only community organizers can review this report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_report.status <> 'pending' THEN
+    RAISE EXCEPTION 'Report has already been reviewed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE message_reports
+  SET status = p_status,
+      reviewed_at = now(),
+      reviewed_by = auth.uid()
+  WHERE id = p_report_id;
+
+  IF p_status = 'approved' THEN
+    UPDATE messages
+    SET is_hidden = true
+    WHERE id = v_report.message_id;
+
+    -- Any other pending reports for the same message are resolved by this decision
+    UPDATE message_reports
+    SET status = 'approved',
+        reviewed_at = now(),
+        reviewed_by = auth.uid()
+    WHERE message_id = v_report.message_id
+      AND status = 'pending';
+  END IF;
+
+  SELECT * INTO v_report FROM message_reports WHERE id = p_report_id;
+
+  RETURN v_report;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT SELECT, INSERT ON message_reports TO authenticated;
+GRANT ALL ON message_reports TO service_role;
+GRANT EXECUTE ON FUNCTION is_community_organizer TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION review_message_report TO authenticated, service_role;
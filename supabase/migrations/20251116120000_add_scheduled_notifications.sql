@@ -0,0 +1,304 @@
+-- ============================================================================
+-- Scheduled Notifications: resource.expiring and event.starting
+-- ============================================================================
+-- Periodic jobs that remind:
+-- - owners of offers/requests that auto-expire within the next 24 hours
+-- - event owners and going/approved claimants before a confirmed timeslot
+--   starts (24 hours and 1 hour ahead)
+--
+-- Each reminder is recorded in scheduled_notification_log so repeated runs
+-- never notify the same user twice for the same deadline. Delivery over push
+-- and email is handled by the deliver_notification trigger as usual; users
+-- who disabled every channel for the type are skipped entirely.
+
+-- ============================================================================
+-- STEP 1: Deduplication log
+-- ============================================================================
+
+CREATE TABLE scheduled_notification_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action action_type NOT NULL,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  timeslot_id UUID REFERENCES resource_timeslots(id) ON DELETE CASCADE,
+  -- The deadline being reminded about (expiry or timeslot start). A renewed
+  -- resource or rescheduled timeslot gets a new deadline and a new reminder.
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  lead_time INTERVAL NOT NULL,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_scheduled_notification_log_unique
+  ON scheduled_notification_log (
+    action,
+    user_id,
+    resource_id,
+    COALESCE(timeslot_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    due_at,
+    lead_time
+  );
+
+COMMENT ON TABLE scheduled_notification_log IS 'Reminders already sent by the scheduled notification jobs, used for deduplication';
+
+-- Internal bookkeeping only: no policies, so only service_role can read it
+ALTER TABLE scheduled_notification_log ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON scheduled_notification_log TO service_role;
+
+-- ============================================================================
+-- STEP 2: Preference check
+-- ============================================================================
+
+-- True unless the user turned off every channel (in-app, push and email) for
+-- the notification type of the action. Mirrors the lookup in deliver_notification.
+CREATE OR REPLACE FUNCTION wants_notification(
+  p_user_id UUID,
+  p_action action_type
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  prefs JSONB;
+  type_pref JSONB;
+  notification_type_val TEXT;
+BEGIN
+  SELECT to_jsonb(np.*) INTO prefs
+  FROM notification_preferences np
+  WHERE user_id = p_user_id;
+
+  IF prefs IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT notification_type INTO notification_type_val
+  FROM action_to_notification_type_mapping
+  WHERE action = p_action;
+
+  IF notification_type_val IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  type_pref := prefs -> replace(notification_type_val, '.', '_');
+
+  IF type_pref IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  RETURN COALESCE((type_pref->>'in_app')::boolean, TRUE)
+    OR (
+      COALESCE((prefs->>'push_enabled')::boolean, TRUE)
+      AND COALESCE((type_pref->>'push')::boolean, TRUE)
+    )
+    OR (
+      COALESCE((prefs->>'email_enabled')::boolean, TRUE)
+      AND COALESCE((type_pref->>'email')::boolean, TRUE)
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Shared helper that records and creates one reminder
+-- ============================================================================
+
+-- Returns TRUE when a notification was created, FALSE when the reminder was
+-- already sent or the user opted out
+CREATE OR REPLACE FUNCTION send_scheduled_notification(
+  p_action action_type,
+  p_user_id UUID,
+  p_resource_id UUID,
+  p_timeslot_id UUID,
+  p_due_at TIMESTAMP WITH TIME ZONE,
+  p_lead_time INTERVAL,
+  p_actor_id UUID DEFAULT NULL,
+  p_claim_id UUID DEFAULT NULL
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  log_id UUID;
+  new_notification_id UUID;
+BEGIN
+  IF NOT wants_notification(p_user_id, p_action) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Claim the reminder first so concurrent runs cannot both send it
+  INSERT INTO scheduled_notification_log (
+    action, user_id, resource_id, timeslot_id, due_at, lead_time
+  ) VALUES (
+    p_action, p_user_id, p_resource_id, p_timeslot_id, p_due_at, p_lead_time
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO log_id;
+
+  IF log_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  new_notification_id := create_notification_base(
+    p_user_id := p_user_id,
+    p_action := p_action,
+    p_actor_id := p_actor_id,
+    p_resource_id := p_resource_id,
+    p_claim_id := p_claim_id
+  );
+
+  UPDATE scheduled_notification_log
+  SET notification_id = new_notification_id
+  WHERE id = log_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: resource.expiring
+-- ============================================================================
+
+-- Notifies owners of active offers and requests that expire within 24 hours.
+-- Returns the number of notifications created.
+CREATE OR REPLACE FUNCTION send_resource_expiring_notifications()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  resource_record RECORD;
+  notification_count INTEGER := 0;
+BEGIN
+  FOR resource_record IN
+    SELECT
+      r.id,
+      r.owner_id,
+      calculate_resource_expiration(r.type, r.last_renewed_at) AS expires_at
+    FROM resources r
+    WHERE r.type IN ('offer', 'request')
+      AND r.status = 'active'
+      AND r.last_renewed_at IS NOT NULL
+      AND calculate_resource_expiration(r.type, r.last_renewed_at) > now()
+      AND calculate_resource_expiration(r.type, r.last_renewed_at) <= now() + INTERVAL '24 hours'
+  LOOP
+    IF send_scheduled_notification(
+      p_action := 'resource.expiring',
+      p_user_id := resource_record.owner_id,
+      p_resource_id := resource_record.id,
+      p_timeslot_id := NULL,
+      p_due_at := resource_record.expires_at,
+      p_lead_time := INTERVAL '24 hours'
+    ) THEN
+      notification_count := notification_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN notification_count;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: event.starting
+-- ============================================================================
+
+-- Notifies event owners and going/approved claimants of each confirmed
+-- timeslot. A timeslot gets a 24 hour reminder while it starts 1-24 hours
+-- from now, and a 1 hour reminder once it starts within the hour, so the
+-- schedule interval only affects how early within each window users hear.
+-- Returns the number of notifications created.
+CREATE OR REPLACE FUNCTION send_event_starting_notifications()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  timeslot_record RECORD;
+  claimant_record RECORD;
+  notification_count INTEGER := 0;
+BEGIN
+  FOR timeslot_record IN
+    SELECT
+      ts.id AS timeslot_id,
+      ts.start_time,
+      r.id AS resource_id,
+      r.owner_id,
+      CASE
+        WHEN ts.start_time <= now() + INTERVAL '1 hour' THEN INTERVAL '1 hour'
+        ELSE INTERVAL '24 hours'
+      END AS lead_time
+    FROM resource_timeslots ts
+    JOIN resources r ON r.id = ts.resource_id
+    WHERE r.type = 'event'
+      AND r.status = 'active'
+      AND ts.status = 'active'
+      AND ts.start_time > now()
+      AND ts.start_time <= now() + INTERVAL '24 hours'
+  LOOP
+    IF send_scheduled_notification(
+      p_action := 'event.starting',
+      p_user_id := timeslot_record.owner_id,
+      p_resource_id := timeslot_record.resource_id,
+      p_timeslot_id := timeslot_record.timeslot_id,
+      p_due_at := timeslot_record.start_time,
+      p_lead_time := timeslot_record.lead_time
+    ) THEN
+      notification_count := notification_count + 1;
+    END IF;
+
+    FOR claimant_record IN
+      SELECT DISTINCT ON (rc.claimant_id) rc.id, rc.claimant_id
+      FROM resource_claims rc
+      WHERE rc.timeslot_id = timeslot_record.timeslot_id
+        AND rc.status IN ('approved', 'going')
+        AND rc.claimant_id <> timeslot_record.owner_id
+      ORDER BY rc.claimant_id, rc.created_at
+    LOOP
+      IF send_scheduled_notification(
+        p_action := 'event.starting',
+        p_user_id := claimant_record.claimant_id,
+        p_resource_id := timeslot_record.resource_id,
+        p_timeslot_id := timeslot_record.timeslot_id,
+        p_due_at := timeslot_record.start_time,
+        p_lead_time := timeslot_record.lead_time,
+        p_actor_id := timeslot_record.owner_id,
+        p_claim_id := claimant_record.id
+      ) THEN
+        notification_count := notification_count + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN notification_count;
+END;
+$$;
+
+-- Jobs run with elevated privileges, so they must not be callable by clients
+REVOKE EXECUTE ON FUNCTION wants_notification FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION send_scheduled_notification FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION send_resource_expiring_notifications FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION send_event_starting_notifications FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION wants_notification TO service_role;
+GRANT EXECUTE ON FUNCTION send_scheduled_notification TO service_role;
+GRANT EXECUTE ON FUNCTION send_resource_expiring_notifications TO service_role;
+GRANT EXECUTE ON FUNCTION send_event_starting_notifications TO service_role;
+
+-- ============================================================================
+-- STEP 6: Schedule with pg_cron
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+-- cron.schedule replaces an existing job with the same name
+SELECT cron.schedule(
+  'send-resource-expiring-notifications',
+  '0 * * * *', -- Every hour
+  $$SELECT public.send_resource_expiring_notifications()$$
+);
+
+SELECT cron.schedule(
+  'send-event-starting-notifications',
+  '*/15 * * * *', -- Every 15 minutes, so 1 hour reminders arrive 45-60 minutes ahead
+  $$SELECT public.send_event_starting_notifications()$$
+);
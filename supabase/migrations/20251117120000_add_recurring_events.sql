@@ -0,0 +1,555 @@
+-- ============================================================================
+-- Recurring Events
+-- ============================================================================
+-- An event can carry one or more RRULE-style recurrence definitions
+-- (weekly or monthly, bounded by until or count, with exception dates).
+-- Each definition keeps concrete resource_timeslots generated over a rolling
+-- horizon, so claims, voting and reminders work on occurrences unchanged.
+--
+-- Editing:
+-- - "this occurrence": update the timeslot directly (marked is_exception so
+--   regeneration leaves it alone) or cancel it via cancel_event_occurrence()
+-- - "all future occurrences": update_event_recurrence_from() splits the series
+--   at the chosen occurrence and applies the changes to the new half
+
+-- ============================================================================
+-- STEP 1: Recurrence definitions
+-- ============================================================================
+
+CREATE TYPE recurrence_frequency AS ENUM ('weekly', 'monthly');
+
+CREATE TABLE resource_recurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  frequency recurrence_frequency NOT NULL,
+  repeat_interval INTEGER NOT NULL DEFAULT 1,
+  -- Days of the week (0 = Sunday) for weekly rules; NULL means the weekday of starts_at
+  by_weekday SMALLINT[],
+  -- First occurrence; its local time of day applies to every occurrence
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  -- IANA zone the rule is evaluated in, so occurrences keep their wall-clock time across DST
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  until TIMESTAMP WITH TIME ZONE,
+  count INTEGER,
+  -- Occurrence start times skipped by the rule (still counted towards count)
+  exception_dates TIMESTAMP WITH TIME ZONE[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT resource_recurrences_interval_positive CHECK (repeat_interval >= 1),
+  CONSTRAINT resource_recurrences_duration_positive CHECK (duration_minutes > 0),
+  CONSTRAINT resource_recurrences_count_positive CHECK (count IS NULL OR count >= 1),
+  CONSTRAINT resource_recurrences_until_or_count CHECK (until IS NULL OR count IS NULL),
+  CONSTRAINT resource_recurrences_until_after_start CHECK (until IS NULL OR until >= starts_at),
+  CONSTRAINT resource_recurrences_weekdays_valid CHECK (
+    by_weekday IS NULL
+    OR (frequency = 'weekly' AND by_weekday <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[])
+  )
+);
+
+CREATE INDEX idx_resource_recurrences_resource ON resource_recurrences (resource_id);
+
+COMMENT ON TABLE resource_recurrences IS 'RRULE-style recurrence definitions that generate timeslots for events';
+
+-- ============================================================================
+-- STEP 2: Link generated timeslots to their definition
+-- ============================================================================
+
+ALTER TABLE resource_timeslots
+  ADD COLUMN recurrence_id UUID REFERENCES resource_recurrences(id) ON DELETE SET NULL,
+  ADD COLUMN occurrence_start TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN is_exception BOOLEAN NOT NULL DEFAULT false;
+
+-- Keyed by resource rather than recurrence so a split series never duplicates
+-- an occurrence that is still owned by the original series
+ALTER TABLE resource_timeslots
+  ADD CONSTRAINT resource_timeslots_unique_occurrence UNIQUE (resource_id, occurrence_start);
+
+CREATE INDEX idx_resource_timeslots_recurrence ON resource_timeslots (recurrence_id);
+
+COMMENT ON COLUMN resource_timeslots.occurrence_start IS 'Start time the recurrence rule assigned to this slot, even if the slot was moved';
+COMMENT ON COLUMN resource_timeslots.is_exception IS 'True when this occurrence was edited individually and must not be realigned with its rule';
+
+-- ============================================================================
+-- STEP 3: Occurrence expansion
+-- ============================================================================
+
+-- Returns the occurrence start times of a rule up to p_to, in order.
+-- Exception dates are skipped unless p_include_exceptions is set.
+CREATE OR REPLACE FUNCTION recurrence_occurrences(
+  p_recurrence resource_recurrences,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_include_exceptions BOOLEAN DEFAULT false
+) RETURNS SETOF TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  local_start TIMESTAMP := p_recurrence.starts_at AT TIME ZONE p_recurrence.timezone;
+  end_at TIMESTAMP WITH TIME ZONE := LEAST(p_to, COALESCE(p_recurrence.until, 'infinity'));
+  weekdays SMALLINT[];
+  weekday SMALLINT;
+  first_week TIMESTAMP;
+  candidate TIMESTAMP;
+  occurrence TIMESTAMP WITH TIME ZONE;
+  step INTEGER := 0;
+  emitted INTEGER := 0;
+BEGIN
+  IF p_recurrence.frequency = 'weekly' THEN
+    SELECT array_agg(DISTINCT d ORDER BY d) INTO weekdays
+    FROM unnest(
+      COALESCE(p_recurrence.by_weekday, ARRAY[EXTRACT(DOW FROM local_start)::SMALLINT])
+    ) AS d;
+
+    -- Sunday of the first week, at the local time of day of the first occurrence
+    first_week := local_start - make_interval(days => EXTRACT(DOW FROM local_start)::INTEGER);
+
+    LOOP
+      FOREACH weekday IN ARRAY weekdays LOOP
+        candidate := first_week + make_interval(
+          weeks => step * p_recurrence.repeat_interval,
+          days => weekday
+        );
+        CONTINUE WHEN candidate < local_start;
+
+        occurrence := candidate AT TIME ZONE p_recurrence.timezone;
+        IF occurrence > end_at
+          OR (p_recurrence.count IS NOT NULL AND emitted >= p_recurrence.count) THEN
+          RETURN;
+        END IF;
+
+        emitted := emitted + 1;
+        IF p_include_exceptions OR NOT occurrence = ANY(p_recurrence.exception_dates) THEN
+          RETURN NEXT occurrence;
+        END IF;
+      END LOOP;
+
+      step := step + 1;
+    END LOOP;
+  ELSE
+    LOOP
+      candidate := local_start + make_interval(months => step * p_recurrence.repeat_interval);
+      step := step + 1;
+
+      occurrence := candidate AT TIME ZONE p_recurrence.timezone;
+      IF occurrence > end_at
+        OR (p_recurrence.count IS NOT NULL AND emitted >= p_recurrence.count) THEN
+        RETURN;
+      END IF;
+
+      -- Months without that day (e.g. the 31st) are skipped, as in RFC 5545
+      CONTINUE WHEN EXTRACT(DAY FROM candidate) <> EXTRACT(DAY FROM local_start);
+
+      emitted := emitted + 1;
+      IF p_include_exceptions OR NOT occurrence = ANY(p_recurrence.exception_dates) THEN
+        RETURN NEXT occurrence;
+      END IF;
+    END LOOP;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Timeslot generation
+-- ============================================================================
+
+-- Brings the upcoming timeslots of a rule in line with it:
+-- - occurrences that left the rule are deleted, or cancelled if already claimed
+-- - slots not edited individually are moved to their occurrence time and duration
+-- - missing occurrences within the horizon are created
+-- Returns the number of timeslots created.
+CREATE OR REPLACE FUNCTION sync_recurrence_timeslots(
+  p_recurrence_id UUID,
+  p_horizon INTERVAL DEFAULT INTERVAL '90 days'
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  recurrence resource_recurrences%ROWTYPE;
+  occurrences TIMESTAMP WITH TIME ZONE[];
+  created_count INTEGER;
+BEGIN
+  SELECT * INTO recurrence
+  FROM resource_recurrences
+  WHERE id = p_recurrence_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Expand far enough to also judge slots generated by a longer-reaching
+  -- earlier version of the rule
+  SELECT COALESCE(array_agg(o), '{}') INTO occurrences
+  FROM recurrence_occurrences(
+    recurrence,
+    GREATEST(
+      now() + p_horizon,
+      (SELECT max(occurrence_start) FROM resource_timeslots WHERE recurrence_id = p_recurrence_id)
+    )
+  ) AS o;
+
+  DELETE FROM resource_timeslots ts
+  WHERE ts.recurrence_id = p_recurrence_id
+    AND ts.occurrence_start > now()
+    AND NOT ts.occurrence_start = ANY(occurrences)
+    AND NOT EXISTS (SELECT 1 FROM resource_claims rc WHERE rc.timeslot_id = ts.id);
+
+  UPDATE resource_timeslots
+  SET status = 'cancelled'
+  WHERE recurrence_id = p_recurrence_id
+    AND occurrence_start > now()
+    AND NOT occurrence_start = ANY(occurrences)
+    AND status <> 'cancelled';
+
+  UPDATE resource_timeslots
+  SET start_time = occurrence_start,
+      end_time = occurrence_start + make_interval(mins => recurrence.duration_minutes)
+  WHERE recurrence_id = p_recurrence_id
+    AND occurrence_start > now()
+    AND occurrence_start = ANY(occurrences)
+    AND NOT is_exception
+    AND (
+      start_time <> occurrence_start
+      OR end_time <> occurrence_start + make_interval(mins => recurrence.duration_minutes)
+    );
+
+  INSERT INTO resource_timeslots (
+    resource_id, start_time, end_time, status, recurrence_id, occurrence_start
+  )
+  SELECT
+    recurrence.resource_id,
+    o,
+    o + make_interval(mins => recurrence.duration_minutes),
+    'active',
+    p_recurrence_id,
+    o
+  FROM unnest(occurrences) AS o
+  WHERE o > now()
+    AND o <= now() + p_horizon
+  ON CONFLICT (resource_id, occurrence_start) DO NOTHING;
+
+  GET DIAGNOSTICS created_count = ROW_COUNT;
+
+  RETURN created_count;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Triggers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION validate_resource_recurrence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM resources WHERE id = NEW.resource_id AND type = 'event'
+  ) THEN
+    RAISE EXCEPTION 'Only events can recur'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.by_weekday IS NOT NULL THEN
+    SELECT NULLIF(array_agg(DISTINCT d ORDER BY d), '{}') INTO NEW.by_weekday
+    FROM unnest(NEW.by_weekday) AS d;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_resource_recurrence
+BEFORE INSERT OR UPDATE ON resource_recurrences
+FOR EACH ROW
+EXECUTE FUNCTION validate_resource_recurrence();
+
+CREATE OR REPLACE FUNCTION sync_resource_recurrence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE resources SET is_recurring = true WHERE id = NEW.resource_id;
+  END IF;
+
+  PERFORM sync_recurrence_timeslots(NEW.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_resource_recurrence
+AFTER INSERT OR UPDATE ON resource_recurrences
+FOR EACH ROW
+EXECUTE FUNCTION sync_resource_recurrence();
+
+-- Removing a rule stops the series: unclaimed upcoming slots go away, claimed
+-- ones stay as one-off timeslots
+CREATE OR REPLACE FUNCTION remove_resource_recurrence()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM resource_timeslots ts
+  WHERE ts.recurrence_id = OLD.id
+    AND ts.start_time > now()
+    AND NOT EXISTS (SELECT 1 FROM resource_claims rc WHERE rc.timeslot_id = ts.id);
+
+  UPDATE resources
+  SET is_recurring = EXISTS (
+    SELECT 1 FROM resource_recurrences
+    WHERE resource_id = OLD.resource_id AND id <> OLD.id
+  )
+  WHERE id = OLD.resource_id;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER remove_resource_recurrence
+BEFORE DELETE ON resource_recurrences
+FOR EACH ROW
+EXECUTE FUNCTION remove_resource_recurrence();
+
+-- ============================================================================
+-- STEP 6: RLS
+-- ============================================================================
+
+ALTER TABLE resource_recurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "public_can_view_resource_recurrences"
+ON resource_recurrences FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Resource owners can create recurrences"
+ON resource_recurrences FOR INSERT
+TO authenticated
+WITH CHECK (is_resource_owner(resource_id, auth.uid()));
+
+CREATE POLICY "Resource owners can update recurrences"
+ON resource_recurrences FOR UPDATE
+TO authenticated
+USING (is_resource_owner(resource_id, auth.uid()))
+WITH CHECK (is_resource_owner(resource_id, auth.uid()));
+
+CREATE POLICY "Resource owners can delete recurrences"
+ON resource_recurrences FOR DELETE
+TO authenticated
+USING (is_resource_owner(resource_id, auth.uid()));
+
+GRANT SELECT ON resource_recurrences TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON resource_recurrences TO authenticated;
+GRANT ALL ON resource_recurrences TO service_role;
+
+-- ============================================================================
+-- STEP 7: Editing occurrences
+-- ============================================================================
+
+-- "This occurrence": skips the occurrence of a generated timeslot. The slot is
+-- removed, or cancelled if it already has claims.
+CREATE OR REPLACE FUNCTION cancel_event_occurrence(
+  p_timeslot_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_timeslot resource_timeslots%ROWTYPE;
+BEGIN
+  SELECT * INTO v_timeslot
+  FROM resource_timeslots
+  WHERE id = p_timeslot_id;
+
+  IF NOT FOUND OR NOT is_resource_owner(v_timeslot.resource_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the event owner can cancel this occurrence'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_timeslot.recurrence_id IS NULL THEN
+    RAISE EXCEPTION 'Timeslot is not part of a recurring series'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE resource_recurrences
+  SET exception_dates = array_append(exception_dates, v_timeslot.occurrence_start)
+  WHERE id = v_timeslot.recurrence_id
+    AND NOT v_timeslot.occurrence_start = ANY(exception_dates);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A rule is bounded by until or count, not both: setting one clears the
+-- inherited other
+CREATE OR REPLACE FUNCTION recurrence_with_single_bound(
+  p_recurrence resource_recurrences,
+  p_changes JSONB
+) RETURNS resource_recurrences
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_changes ? 'until' AND NOT p_changes ? 'count' THEN
+    p_recurrence.count := NULL;
+  ELSIF p_changes ? 'count' AND NOT p_changes ? 'until' THEN
+    p_recurrence.until := NULL;
+  END IF;
+
+  RETURN p_recurrence;
+END;
+$$;
+
+-- "All future occurrences": applies p_changes (column names of
+-- resource_recurrences) to every occurrence from p_from on. When earlier
+-- occurrences exist the series is split: the original ends before p_from and
+-- a new series continues with the changes. Upcoming slots the new series
+-- still produces move over with their claims. Returns the series that now
+-- covers p_from.
+CREATE OR REPLACE FUNCTION update_event_recurrence_from(
+  p_recurrence_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_changes JSONB
+) RETURNS resource_recurrences AS $$
+DECLARE
+  v_old resource_recurrences%ROWTYPE;
+  v_new resource_recurrences%ROWTYPE;
+  v_changes JSONB := COALESCE(p_changes, '{}') - ARRAY['id', 'resource_id', 'created_at', 'updated_at'];
+  v_before INTEGER;
+  v_next TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_old
+  FROM resource_recurrences
+  WHERE id = p_recurrence_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_resource_owner(v_old.resource_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the event owner can edit this series'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT count(*) INTO v_before
+  FROM recurrence_occurrences(v_old, p_from - INTERVAL '1 microsecond', true);
+
+  -- Nothing precedes p_from, so the whole series changes in place
+  IF v_before = 0 THEN
+    v_new := jsonb_populate_record(v_old, v_changes);
+    v_new := recurrence_with_single_bound(v_new, v_changes);
+
+    UPDATE resource_recurrences
+    SET frequency = v_new.frequency,
+        repeat_interval = v_new.repeat_interval,
+        by_weekday = v_new.by_weekday,
+        starts_at = v_new.starts_at,
+        duration_minutes = v_new.duration_minutes,
+        timezone = v_new.timezone,
+        until = v_new.until,
+        count = v_new.count,
+        exception_dates = v_new.exception_dates
+    WHERE id = v_old.id
+    RETURNING * INTO v_new;
+
+    RETURN v_new;
+  END IF;
+
+  SELECT o INTO v_next
+  FROM recurrence_occurrences(v_old, p_from + INTERVAL '5 years', true) AS o
+  WHERE o >= p_from
+  LIMIT 1;
+
+  IF v_next IS NULL AND NOT v_changes ? 'starts_at' THEN
+    RAISE EXCEPTION 'The series has no occurrences from this date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_new := v_old;
+  v_new.id := gen_random_uuid();
+  v_new.starts_at := v_next;
+  v_new.exception_dates := ARRAY(
+    SELECT d FROM unnest(v_old.exception_dates) AS d WHERE d >= p_from
+  );
+  v_new.created_at := now();
+  v_new.updated_at := now();
+  IF v_old.count IS NOT NULL THEN
+    v_new.count := v_old.count - v_before;
+  END IF;
+  v_new := jsonb_populate_record(v_new, v_changes);
+  v_new := recurrence_with_single_bound(v_new, v_changes);
+
+  INSERT INTO resource_recurrences
+  SELECT (v_new).*
+  RETURNING * INTO v_new;
+
+  UPDATE resource_timeslots
+  SET recurrence_id = v_new.id
+  WHERE recurrence_id = v_old.id
+    AND occurrence_start >= p_from
+    AND occurrence_start IN (
+      SELECT recurrence_occurrences(
+        v_new,
+        COALESCE(
+          (SELECT max(occurrence_start) FROM resource_timeslots WHERE recurrence_id = v_old.id),
+          p_from
+        )
+      )
+    );
+
+  UPDATE resource_recurrences
+  SET until = p_from - INTERVAL '1 microsecond',
+      count = NULL,
+      exception_dates = ARRAY(
+        SELECT d FROM unnest(v_old.exception_dates) AS d WHERE d < p_from
+      )
+  WHERE id = v_old.id;
+
+  -- Realign the slots that moved over with the new duration
+  PERFORM sync_recurrence_timeslots(v_new.id);
+
+  RETURN v_new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION recurrence_occurrences TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION cancel_event_occurrence TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION update_event_recurrence_from TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 8: Rolling horizon
+-- ============================================================================
+
+-- Generates the occurrences that entered the horizon since the last run for
+-- every open-ended or still running series. Returns the number of timeslots created.
+CREATE OR REPLACE FUNCTION extend_recurring_timeslots()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  recurrence_record RECORD;
+  created_count INTEGER := 0;
+BEGIN
+  FOR recurrence_record IN
+    SELECT rr.id
+    FROM resource_recurrences rr
+    JOIN resources r ON r.id = rr.resource_id
+    WHERE r.status NOT IN ('cancelled', 'completed')
+      AND (rr.until IS NULL OR rr.until > now())
+  LOOP
+    created_count := created_count + sync_recurrence_timeslots(recurrence_record.id);
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_recurrence_timeslots FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION extend_recurring_timeslots FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION sync_recurrence_timeslots TO service_role;
+GRANT EXECUTE ON FUNCTION extend_recurring_timeslots TO service_role;
+
+SELECT cron.schedule(
+  'extend-recurring-timeslots',
+  '30 3 * * *', -- Daily
+  $$SELECT public.extend_recurring_timeslots()$$
+);
@@ -0,0 +1,411 @@
+-- ============================================================================
+-- Enforce Player Powers
+-- ============================================================================
+-- player_levels.unlocked_powers lists the actions each level unlocks. Powers
+-- are cumulative: a user holds every power unlocked at or below their level in
+-- a community (derived from their trust score there).
+--
+-- Communities opt in with communities.enforce_player_powers. Gated inserts
+-- then fail with SQLSTATE PT403 (HTTP 403 through PostgREST) and a JSON detail
+-- of the form {"action", "communityId", "currentLevel", "requiredLevel"} that
+-- clients turn into a PlayerPowerError.
+--
+-- Gated actions:
+-- - create_offer / create_request / create_single_event: resource_communities
+-- - create_claims / vote_event_time: resource_claims
+-- - create_recurring_event: resource_recurrences
+-- - send_community_message: community messages
+-- - send_cold_call_message: new conversations with users who are not connections
+-- - invite_friend: regenerate_invitation_code()
+-- - join_another_community: memberships beyond the first
+
+-- ============================================================================
+-- STEP 1: Opt-in flag
+-- ============================================================================
+
+ALTER TABLE communities
+  ADD COLUMN enforce_player_powers BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN communities.enforce_player_powers IS 'When true, gated actions in this community require the player level that unlocks them';
+
+-- ============================================================================
+-- STEP 2: Permission checks
+-- ============================================================================
+
+-- Lowest level that unlocks the action, or NULL if no level gates it
+CREATE OR REPLACE FUNCTION required_player_level(p_action player_action)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT min(level)
+  FROM player_levels
+  WHERE p_action = ANY(unlocked_powers);
+$$;
+
+CREATE OR REPLACE FUNCTION player_level_in_community(
+  p_user_id UUID,
+  p_community_id UUID
+) RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT calculate_trust_level(
+    COALESCE(
+      (
+        SELECT score
+        FROM trust_scores
+        WHERE user_id = p_user_id
+          AND community_id = p_community_id
+      ),
+      0
+    )
+  );
+$$;
+
+-- Evaluates an action for a user against candidate communities. The action is
+-- allowed when any of them permits it, i.e. does not enforce player powers or
+-- the user's level there unlocks it. Returns the permitting community, or
+-- otherwise the one where the user's level is highest. No row means there was
+-- no community to check.
+CREATE OR REPLACE FUNCTION player_action_access(
+  p_user_id UUID,
+  p_community_ids UUID[],
+  p_action player_action
+) RETURNS TABLE (
+  allowed BOOLEAN,
+  community_id UUID,
+  current_level INTEGER,
+  required_level INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    NOT c.enforce_player_powers
+      OR required_player_level(p_action) IS NULL
+      OR player_level_in_community(p_user_id, c.id) >= required_player_level(p_action),
+    c.id,
+    player_level_in_community(p_user_id, c.id),
+    required_player_level(p_action)
+  FROM communities c
+  WHERE c.id = ANY(p_community_ids)
+  ORDER BY 1 DESC, 3 DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION assert_player_action(
+  p_user_id UUID,
+  p_community_ids UUID[],
+  p_action player_action
+) RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  access RECORD;
+BEGIN
+  SELECT * INTO access
+  FROM player_action_access(p_user_id, p_community_ids, p_action);
+
+  IF FOUND AND NOT access.allowed THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'PT403',
+      MESSAGE = format(
+        'Reach level %s to %s',
+        access.required_level,
+        replace(p_action::text, '_', ' ')
+      ),
+      DETAIL = json_build_object(
+        'action', p_action,
+        'communityId', access.community_id,
+        'currentLevel', access.current_level,
+        'requiredLevel', access.required_level
+      )::text;
+  END IF;
+END;
+$$;
+
+-- Client-facing check for the current user, used to explain gated actions
+-- before attempting them
+CREATE OR REPLACE FUNCTION get_player_action_access(
+  p_community_id UUID,
+  p_action player_action
+) RETURNS TABLE (
+  allowed BOOLEAN,
+  community_id UUID,
+  current_level INTEGER,
+  required_level INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT * FROM player_action_access(auth.uid(), ARRAY[p_community_id], p_action);
+$$;
+
+-- ============================================================================
+-- STEP 3: Enforcement triggers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_resource_community_power()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_resource RECORD;
+BEGIN
+  SELECT type, owner_id INTO v_resource
+  FROM resources
+  WHERE id = NEW.resource_id;
+
+  PERFORM assert_player_action(
+    v_resource.owner_id,
+    ARRAY[NEW.community_id],
+    CASE v_resource.type
+      WHEN 'offer' THEN 'create_offer'
+      WHEN 'request' THEN 'create_request'
+      ELSE 'create_single_event'
+    END::player_action
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_resource_community_power
+BEFORE INSERT ON resource_communities
+FOR EACH ROW
+EXECUTE FUNCTION enforce_resource_community_power();
+
+CREATE OR REPLACE FUNCTION enforce_resource_claim_power()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM assert_player_action(
+    NEW.claimant_id,
+    ARRAY(
+      SELECT community_id FROM resource_communities WHERE resource_id = NEW.resource_id
+    ),
+    CASE WHEN NEW.status = 'vote' THEN 'vote_event_time' ELSE 'create_claims' END::player_action
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_resource_claim_power
+BEFORE INSERT ON resource_claims
+FOR EACH ROW
+EXECUTE FUNCTION enforce_resource_claim_power();
+
+CREATE OR REPLACE FUNCTION enforce_resource_recurrence_power()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM assert_player_action(
+    (SELECT owner_id FROM resources WHERE id = NEW.resource_id),
+    ARRAY(
+      SELECT community_id FROM resource_communities WHERE resource_id = NEW.resource_id
+    ),
+    'create_recurring_event'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_resource_recurrence_power
+BEFORE INSERT ON resource_recurrences
+FOR EACH ROW
+EXECUTE FUNCTION enforce_resource_recurrence_power();
+
+CREATE OR REPLACE FUNCTION enforce_community_message_power()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM assert_player_action(
+    NEW.sender_id,
+    ARRAY[NEW.community_id],
+    'send_community_message'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_community_message_power
+BEFORE INSERT ON messages
+FOR EACH ROW
+WHEN (NEW.community_id IS NOT NULL)
+EXECUTE FUNCTION enforce_community_message_power();
+
+-- Founders are added by community creation, which is not gated here
+CREATE OR REPLACE FUNCTION enforce_join_another_community_power()
+RETURNS TRIGGER AS $$
+DECLARE
+  existing_community_ids UUID[];
+BEGIN
+  existing_community_ids := ARRAY(
+    SELECT community_id
+    FROM community_memberships
+    WHERE user_id = NEW.user_id
+      AND community_id <> NEW.community_id
+  );
+
+  IF cardinality(existing_community_ids) > 0 THEN
+    PERFORM assert_player_action(
+      NEW.user_id,
+      existing_community_ids,
+      'join_another_community'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_join_another_community_power
+BEFORE INSERT ON community_memberships
+FOR EACH ROW
+WHEN (NEW.role IS DISTINCT FROM 'founder')
+EXECUTE FUNCTION enforce_join_another_community_power();
+
+-- ============================================================================
+-- STEP 4: Gated RPCs
+-- ============================================================================
+
+-- Same as before, plus the cold call check for new conversations with users
+-- who are not connections
+CREATE OR REPLACE FUNCTION public.get_or_create_conversation(other_user_id uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+DECLARE
+  conv_id UUID;
+  current_user_id UUID;
+BEGIN
+  -- Get current user
+  current_user_id := auth.uid();
+
+  -- Validate not messaging self
+  IF current_user_id = other_user_id THEN
+    RAISE EXCEPTION 'Cannot create conversation with yourself';
+  END IF;
+
+  -- Check if users share a community
+  IF NOT users_share_community(current_user_id, other_user_id) THEN
+    RAISE EXCEPTION 'Users must share a community to message';
+  END IF;
+
+  -- Check if blocked
+  IF EXISTS (
+    SELECT 1 FROM blocked_users
+    WHERE (blocker_id = current_user_id AND blocked_id = other_user_id)
+    OR (blocker_id = other_user_id AND blocked_id = current_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Cannot create conversation with blocked user';
+  END IF;
+
+  -- Check for existing conversation
+  SELECT c.id INTO conv_id
+  FROM conversations c
+  WHERE EXISTS (
+    SELECT 1 FROM conversation_participants cp1
+    WHERE cp1.conversation_id = c.id AND cp1.user_id = current_user_id
+  ) AND EXISTS (
+    SELECT 1 FROM conversation_participants cp2
+    WHERE cp2.conversation_id = c.id AND cp2.user_id = other_user_id
+  );
+
+  -- Create new conversation if none exists
+  IF conv_id IS NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM user_connections
+      WHERE (user_id = current_user_id AND other_id = other_user_id)
+      OR (user_id = other_user_id AND other_id = current_user_id)
+    ) THEN
+      PERFORM assert_player_action(
+        current_user_id,
+        ARRAY(
+          SELECT cm1.community_id
+          FROM community_memberships cm1
+          JOIN community_memberships cm2 ON cm2.community_id = cm1.community_id
+          WHERE cm1.user_id = current_user_id
+            AND cm2.user_id = other_user_id
+        ),
+        'send_cold_call_message'
+      );
+    END IF;
+
+    INSERT INTO conversations DEFAULT VALUES RETURNING id INTO conv_id;
+    INSERT INTO conversation_participants (conversation_id, user_id)
+    VALUES
+      (conv_id, current_user_id),
+      (conv_id, other_user_id);
+  END IF;
+
+  RETURN conv_id;
+END;
+$function$;
+
+-- Same as before, plus the invite_friend check
+CREATE OR REPLACE FUNCTION regenerate_invitation_code(
+  p_user_id UUID,
+  p_community_id UUID
+) RETURNS TEXT AS $$
+DECLARE
+  new_code TEXT;
+  max_attempts INTEGER := 10;
+  attempt_count INTEGER := 0;
+  old_code_record RECORD;
+BEGIN
+  PERFORM assert_player_action(p_user_id, ARRAY[p_community_id], 'invite_friend');
+
+  -- First, deactivate existing code
+  UPDATE invitation_codes
+  SET is_active = false
+  WHERE user_id = p_user_id AND community_id = p_community_id AND is_active = true
+  RETURNING code INTO old_code_record;
+
+  -- Generate new unique code with retry logic
+  LOOP
+    -- Generate 8-character uppercase code matching JavaScript implementation
+    -- Use same character set: '23456789ABCDEFGHJKLMNPQRSTUVWXYZ' (excludes 0,1,I,O)
+    new_code := '';
+    FOR i IN 1..8 LOOP
+      new_code := new_code || substring('23456789ABCDEFGHJKLMNPQRSTUVWXYZ',
+        floor(random() * 32)::integer + 1, 1);
+    END LOOP;
+
+    -- Try to insert the new code
+    BEGIN
+      INSERT INTO invitation_codes (code, user_id, community_id, is_active)
+      VALUES (new_code, p_user_id, p_community_id, true);
+      EXIT; -- Success, exit loop
+    EXCEPTION WHEN unique_violation THEN
+      -- Code already exists, try again
+      attempt_count := attempt_count + 1;
+      IF attempt_count >= max_attempts THEN
+        RAISE EXCEPTION 'Failed to generate unique invitation code after % attempts', max_attempts;
+      END IF;
+    END;
+  END LOOP;
+
+  RETURN new_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- STEP 5: Grants
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION required_player_level TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION player_level_in_community TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_player_action_access TO authenticated, service_role;
+
+-- Checks for arbitrary users stay internal
+REVOKE EXECUTE ON FUNCTION player_action_access FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION assert_player_action FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION player_action_access TO service_role;
+GRANT EXECUTE ON FUNCTION assert_player_action TO service_role;
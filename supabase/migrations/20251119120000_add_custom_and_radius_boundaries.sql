@@ -0,0 +1,171 @@
+-- ============================================================================
+-- Custom and Radius Community Boundaries
+-- ============================================================================
+-- Communities can now be bounded by:
+-- - isochrone: travel-time polygon from Mapbox (unchanged)
+-- - custom: a hand-drawn GeoJSON Polygon or MultiPolygon, holes allowed
+-- - radius: a circle of radiusKm around the community center
+--
+-- boundary (jsonb) stays the source of truth; boundary_geometry is derived
+-- from it by trigger so spatial queries work the same way for every type.
+
+-- ============================================================================
+-- STEP 1: Allow MultiPolygon geometries
+-- ============================================================================
+
+ALTER TABLE communities DROP CONSTRAINT IF EXISTS boundary_geometry_consistency;
+ALTER TABLE communities DROP CONSTRAINT IF EXISTS communities_boundary_check;
+
+ALTER TABLE communities
+  ALTER COLUMN boundary_geometry TYPE geometry(Geometry, 4326)
+  USING boundary_geometry::geometry(Geometry, 4326);
+
+-- ============================================================================
+-- STEP 2: Derive boundary_geometry from boundary
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_community_boundary_geometry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  radius_km NUMERIC;
+BEGIN
+  IF NEW.boundary IS NULL THEN
+    NEW.boundary_geometry := NULL;
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.boundary->>'type'
+    WHEN 'isochrone' THEN
+      NEW.boundary_geometry := ST_SetSRID(
+        ST_GeomFromGeoJSON(NEW.boundary->'polygon'), 4326
+      );
+    WHEN 'custom' THEN
+      NEW.boundary_geometry := ST_SetSRID(
+        ST_GeomFromGeoJSON(NEW.boundary->'geometry'), 4326
+      );
+
+      IF NOT ST_IsValid(NEW.boundary_geometry) THEN
+        RAISE EXCEPTION 'Invalid custom boundary: %',
+          ST_IsValidReason(NEW.boundary_geometry)
+          USING ERRCODE = 'check_violation';
+      END IF;
+    WHEN 'radius' THEN
+      radius_km := (NEW.boundary->>'radiusKm')::NUMERIC;
+
+      IF NEW.center IS NULL THEN
+        RAISE EXCEPTION 'Radius boundaries require a community center'
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      NEW.boundary_geometry := ST_Buffer(
+        NEW.center::geography, radius_km * 1000
+      )::geometry;
+    ELSE
+      RAISE EXCEPTION 'Unknown boundary type: %', NEW.boundary->>'type'
+        USING ERRCODE = 'check_violation';
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_community_boundary_geometry
+  BEFORE INSERT OR UPDATE OF boundary, boundary_geometry, center ON communities
+  FOR EACH ROW
+  EXECUTE FUNCTION set_community_boundary_geometry();
+
+-- Legacy circular boundaries become radius boundaries around the center
+UPDATE communities
+SET boundary = jsonb_build_object(
+  'type', 'radius',
+  'radiusKm', (boundary->>'radiusKm')::NUMERIC
+)
+WHERE boundary->>'type' = 'circular';
+
+-- ============================================================================
+-- STEP 3: Constraints
+-- ============================================================================
+
+ALTER TABLE communities ADD CONSTRAINT communities_boundary_check CHECK (
+  boundary IS NULL
+  OR (
+    boundary->>'type' = 'isochrone'
+    AND boundary ? 'travelMode'
+    AND boundary ? 'travelTimeMin'
+    AND boundary ? 'polygon'
+    AND boundary ? 'areaSqKm'
+  )
+  OR (
+    boundary->>'type' = 'custom'
+    AND boundary->'geometry'->>'type' IN ('Polygon', 'MultiPolygon')
+  )
+  OR (
+    boundary->>'type' = 'radius'
+    AND (boundary->>'radiusKm')::NUMERIC > 0
+  )
+);
+
+ALTER TABLE communities ADD CONSTRAINT boundary_geometry_consistency CHECK (
+  (boundary IS NULL) = (boundary_geometry IS NULL)
+  AND (
+    boundary_geometry IS NULL
+    OR GeometryType(boundary_geometry) IN ('POLYGON', 'MULTIPOLYGON')
+  )
+);
+
+-- ============================================================================
+-- STEP 4: Point lookups
+-- ============================================================================
+-- The previous definition relied on hierarchy and legacy radius columns that
+-- no longer exist. Every boundary now has a geometry, so containment is a
+-- single spatial test. Communities have no parents, so depth is always 0.
+
+CREATE OR REPLACE FUNCTION communities_containing_point(lat NUMERIC, lng NUMERIC)
+RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  level_name TEXT,
+  depth INTEGER,
+  member_count INTEGER,
+  area_km2 NUMERIC,
+  distance_km NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  search_point geometry := ST_SetSRID(ST_Point(lng, lat), 4326);
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.name,
+    c.type::TEXT AS level_name,
+    0 AS depth,
+    c.member_count,
+    (ST_Area(c.boundary_geometry::geography) / 1000000.0)::NUMERIC AS area_km2,
+    (
+      ST_Distance(
+        COALESCE(c.center, ST_Centroid(c.boundary_geometry))::geography,
+        search_point::geography
+      ) / 1000.0
+    )::NUMERIC AS distance_km
+  FROM communities c
+  WHERE c.boundary_geometry IS NOT NULL
+    AND ST_Covers(c.boundary_geometry, search_point)
+  -- Smallest (most local) community first
+  ORDER BY 6 ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_boundary_polygon(community_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ST_AsGeoJSON(boundary_geometry)::jsonb
+  FROM communities
+  WHERE id = community_id;
+$$;
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Atomic Resource Creation
+-- ============================================================================
+-- create_resource() inserts a resource, its community links and its initial
+-- timeslots in one transaction, so a failure at any step leaves nothing
+-- behind. Image URLs are committed to their permanent paths by the client
+-- before the call (the resource id is generated up front for that), so the
+-- row is written once with its final URLs.
+--
+-- Runs as the caller: RLS, owner_id defaulting to auth.uid() and the
+-- existing triggers (player powers, trust scores, notifications) all apply.
+
+CREATE OR REPLACE FUNCTION create_resource(
+  p_resource JSONB,
+  p_community_ids UUID[],
+  p_timeslots JSONB DEFAULT '[]'
+) RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  -- Columns the caller may set; everything else keeps its default
+  v_columns TEXT;
+  v_resource_id UUID;
+BEGIN
+  IF p_community_ids IS NULL OR cardinality(p_community_ids) = 0 THEN
+    RAISE EXCEPTION 'A resource must belong to at least one community'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(p_resource) AS key
+  WHERE key IN (
+    'id', 'type', 'category', 'title', 'description', 'location_name',
+    'coordinates', 'image_urls', 'image_urls_uncropped', 'status',
+    'claim_limit', 'claim_limit_per', 'requires_approval',
+    'timeslots_flexible', 'is_recurring', 'last_renewed_at',
+    'voting_deadline', 'duration_minutes'
+  );
+
+  EXECUTE format(
+    'INSERT INTO resources (%1$s)
+     SELECT %1$s FROM jsonb_populate_record(NULL::resources, $1)
+     RETURNING id',
+    v_columns
+  )
+  USING p_resource
+  INTO v_resource_id;
+
+  INSERT INTO resource_communities (resource_id, community_id)
+  SELECT v_resource_id, community_id
+  FROM unnest(p_community_ids) AS community_id;
+
+  INSERT INTO resource_timeslots (resource_id, start_time, end_time, status)
+  SELECT
+    v_resource_id,
+    t.start_time,
+    t.end_time,
+    COALESCE(t.status, 'active')
+  FROM jsonb_to_recordset(COALESCE(p_timeslots, '[]')) AS t(
+    start_time TIMESTAMP WITH TIME ZONE,
+    end_time TIMESTAMP WITH TIME ZONE,
+    status resource_timeslot_status
+  );
+
+  RETURN v_resource_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_resource TO authenticated, service_role;
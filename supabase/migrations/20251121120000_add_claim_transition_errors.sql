@@ -0,0 +1,177 @@
+-- ============================================================================
+-- Typed Claim Transition Errors
+-- ============================================================================
+-- Clients read claim_status_transition_rules to offer only the transitions
+-- the current user may make. When an illegal transition is attempted anyway,
+-- validate_claim_state_transition() now fails with SQLSTATE PT409 (HTTP 409
+-- through PostgREST) and a JSON detail describing the rejected transition:
+--   {"resourceType", "fromStatus", "toStatus", "allowedActor"}
+-- allowedActor is null when no one may make the transition.
+
+GRANT SELECT ON claim_status_transition_rules TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION raise_claim_transition_error(
+  p_message TEXT,
+  p_resource_type resource_type,
+  p_from_status resource_claim_status,
+  p_to_status resource_claim_status,
+  p_allowed_actor TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION USING
+    ERRCODE = 'PT409',
+    MESSAGE = p_message,
+    DETAIL = json_build_object(
+      'resourceType', p_resource_type,
+      'fromStatus', p_from_status,
+      'toStatus', p_to_status,
+      'allowedActor', p_allowed_actor
+    )::text;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_claim_state_transition()
+ RETURNS trigger
+ LANGUAGE plpgsql
+AS $function$
+DECLARE
+  resource_record RECORD;
+  user_is_owner BOOLEAN := FALSE;
+  user_is_claimant BOOLEAN := FALSE;
+  actor_role TEXT;
+  is_valid_transition BOOLEAN := FALSE;
+  rule_actor TEXT;
+BEGIN
+  -- Get resource information
+  SELECT r.type, r.requires_approval, r.owner_id, r.status as resource_status
+  INTO resource_record
+  FROM resources r
+  WHERE r.id = NEW.resource_id;
+
+  -- Determine user role
+  user_is_owner := (auth.uid() = resource_record.owner_id);
+  user_is_claimant := (auth.uid() = NEW.claimant_id);
+
+  -- If only commitment_level changed, allow it for claimants on approved claims
+  IF OLD.status = NEW.status AND OLD.commitment_level IS DISTINCT FROM NEW.commitment_level THEN
+    IF NOT user_is_claimant THEN
+      RAISE EXCEPTION 'Only the claimant can update their commitment level';
+    END IF;
+
+    -- Don't allow commitment level changes on terminal states
+    IF NEW.status IN ('rejected', 'completed', 'cancelled', 'attended', 'flaked') THEN
+      RAISE EXCEPTION 'Cannot change commitment level on % claims', NEW.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Validate initial states
+  IF TG_OP = 'INSERT' THEN
+    -- Allow 'vote' status for voting events
+    IF NEW.status = 'vote' THEN
+      IF resource_record.resource_status != 'voting' THEN
+        RAISE EXCEPTION 'Vote claims can only be created for voting resources';
+      END IF;
+      RETURN NEW;
+    END IF;
+
+    -- Standard initial status validation
+    IF resource_record.type = 'event' THEN
+      IF resource_record.requires_approval AND NEW.status != 'pending' THEN
+        RAISE EXCEPTION 'New event registrations requiring approval must start with pending status';
+      ELSIF NOT resource_record.requires_approval AND NEW.status != 'approved' THEN
+        RAISE EXCEPTION 'New event registrations not requiring approval must start with approved status';
+      END IF;
+    ELSE
+      IF resource_record.requires_approval AND NEW.status != 'pending' THEN
+        RAISE EXCEPTION 'New % claims requiring approval must start with pending status', resource_record.type;
+      ELSIF NOT resource_record.requires_approval AND NEW.status != 'approved' THEN
+        RAISE EXCEPTION 'New % claims not requiring approval must start with approved status', resource_record.type;
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Handle vote status transitions (special case, not in rules table)
+  IF OLD.status = 'vote' THEN
+    -- Vote can transition to: pending, going, cancelled
+    IF NEW.status NOT IN ('pending', 'going', 'cancelled') THEN
+      PERFORM raise_claim_transition_error(
+        'Vote status can only transition to pending, going, or cancelled',
+        resource_record.type, OLD.status, NEW.status, NULL
+      );
+    END IF;
+
+    -- Only claimant can cancel their vote
+    IF NEW.status = 'cancelled' AND NOT user_is_claimant THEN
+      PERFORM raise_claim_transition_error(
+        'Only the claimant can cancel their vote',
+        resource_record.type, OLD.status, NEW.status, 'claimant'
+      );
+    END IF;
+
+    -- Only finalization function can convert to pending/going (done via SECURITY DEFINER)
+    RETURN NEW;
+  END IF;
+
+  -- Terminal states cannot be changed
+  IF OLD.status IN ('rejected', 'completed', 'cancelled', 'attended', 'flaked') THEN
+    PERFORM raise_claim_transition_error(
+      format('Cannot transition from %s status', OLD.status),
+      resource_record.type, OLD.status, NEW.status, NULL
+    );
+  END IF;
+
+  -- Determine actor role
+  actor_role := CASE
+    WHEN user_is_owner THEN 'owner'
+    WHEN user_is_claimant THEN 'claimant'
+    ELSE 'none'
+  END;
+
+  -- Check if transition is valid using rules table
+  SELECT EXISTS (
+    SELECT 1
+    FROM claim_status_transition_rules
+    WHERE resource_type = resource_record.type
+      AND from_status = OLD.status
+      AND to_status = NEW.status
+      AND allowed_actor = actor_role
+  ) INTO is_valid_transition;
+
+  -- If not valid, raise exception with helpful message
+  IF NOT is_valid_transition THEN
+    -- Check if transition exists but with wrong actor
+    SELECT allowed_actor INTO rule_actor
+    FROM claim_status_transition_rules
+    WHERE resource_type = resource_record.type
+      AND from_status = OLD.status
+      AND to_status = NEW.status
+    LIMIT 1;
+
+    IF rule_actor IS NOT NULL THEN
+      PERFORM raise_claim_transition_error(
+        format(
+          'Only the %s can transition %s claims from %s to %s',
+          rule_actor, resource_record.type, OLD.status, NEW.status
+        ),
+        resource_record.type, OLD.status, NEW.status, rule_actor
+      );
+    ELSE
+      PERFORM raise_claim_transition_error(
+        format(
+          'Invalid status transition for %s: %s -> %s',
+          resource_record.type, OLD.status, NEW.status
+        ),
+        resource_record.type, OLD.status, NEW.status, NULL
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,9 @@
+-- Claim waitlist enum values
+-- Kept apart from the waitlist migration because PostgreSQL does not allow
+-- newly added enum values to be used in the transaction that adds them.
+
+-- Claims that arrive after claim_limit is reached wait in line
+ALTER TYPE resource_claim_status ADD VALUE 'waitlisted';
+
+-- Sent to a waitlisted claimant when a spot opens up for them
+ALTER TYPE action_type ADD VALUE 'claim.promoted';
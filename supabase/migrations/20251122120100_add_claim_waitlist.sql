@@ -0,0 +1,603 @@
+-- ============================================================================
+-- Claim Waitlist
+-- ============================================================================
+-- Once a resource reaches its claim_limit (per timeslot or in total, as set
+-- by claim_limit_per), new claims are stored as 'waitlisted' instead of being
+-- refused. The line is ordered by waitlisted_at within the waitlist scope:
+-- the timeslot for 'timeslot' limits, the whole resource for 'total' limits.
+-- waitlist_position(resource_claims) exposes the 1-based place in line as a
+-- computed column.
+--
+-- When a claim that holds a spot is cancelled, rejected, marked flaked or
+-- deleted, the first waitlisted claim in the scope is promoted to the status
+-- a new claim would get (pending or approved) and its claimant receives a
+-- claim.promoted notification.
+
+-- ============================================================================
+-- STEP 1: Waitlist order
+-- ============================================================================
+
+ALTER TABLE resource_claims ADD COLUMN waitlisted_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE resource_claims ADD CONSTRAINT resource_claims_waitlisted_at_check
+  CHECK (status <> 'waitlisted' OR waitlisted_at IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_resource_claims_waitlist
+  ON resource_claims (resource_id, timeslot_id, waitlisted_at)
+  WHERE status = 'waitlisted';
+
+COMMENT ON COLUMN resource_claims.waitlisted_at IS
+  'When the claim joined the waitlist; kept after promotion';
+
+-- ============================================================================
+-- STEP 2: Capacity helpers
+-- ============================================================================
+
+-- A claim holds a spot unless it was rejected, cancelled, flaked, is only a
+-- vote, or is still waiting for one
+CREATE OR REPLACE FUNCTION claim_holds_spot(p_status resource_claim_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_status NOT IN ('rejected', 'cancelled', 'flaked', 'vote', 'waitlisted');
+$$;
+
+-- True when the resource's claim_limit is reached for the given timeslot
+-- (or in total). Counts every claim regardless of who may see it.
+CREATE OR REPLACE FUNCTION claim_slot_is_full(
+  p_resource_id UUID,
+  p_timeslot_id UUID
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_resource RECORD;
+  v_taken INTEGER;
+BEGIN
+  SELECT claim_limit, claim_limit_per INTO v_resource
+  FROM resources
+  WHERE id = p_resource_id;
+
+  IF v_resource.claim_limit IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT count(*) INTO v_taken
+  FROM resource_claims rc
+  WHERE rc.resource_id = p_resource_id
+    AND (v_resource.claim_limit_per = 'total' OR rc.timeslot_id = p_timeslot_id)
+    AND claim_holds_spot(rc.status);
+
+  RETURN v_taken >= v_resource.claim_limit;
+END;
+$$;
+
+-- Serializes claim bookkeeping per resource so two claimants cannot take the
+-- last spot (or the same waitlist position) at once
+CREATE OR REPLACE FUNCTION lock_resource_claims(p_resource_id UUID)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  SELECT pg_advisory_xact_lock(hashtext('resource_claims:' || p_resource_id::text));
+$$;
+
+-- Place in line (1 = next) of a waitlisted claim, NULL for any other claim.
+-- Exposed to PostgREST as a computed column.
+CREATE OR REPLACE FUNCTION waitlist_position(resource_claims)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT CASE WHEN $1.status = 'waitlisted' THEN (
+    SELECT count(*)::INTEGER + 1
+    FROM resource_claims rc
+    JOIN resources r ON r.id = rc.resource_id
+    WHERE rc.resource_id = $1.resource_id
+      AND (r.claim_limit_per = 'total' OR rc.timeslot_id = $1.timeslot_id)
+      AND rc.status = 'waitlisted'
+      AND (rc.waitlisted_at, rc.id) < ($1.waitlisted_at, $1.id)
+  ) END;
+$$;
+
+-- Availability now also ignores waitlisted claims
+CREATE OR REPLACE FUNCTION has_available_slots(resources)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM resource_timeslots ts
+    WHERE ts.resource_id = $1.id
+      AND ts.status IN ('active', 'proposed')
+      AND ts.end_time >= now()
+      AND (
+        $1.claim_limit IS NULL
+        OR (
+          $1.claim_limit_per = 'timeslot'
+          AND (
+            SELECT count(*)
+            FROM resource_claims rc
+            WHERE rc.timeslot_id = ts.id
+              AND claim_holds_spot(rc.status)
+          ) < $1.claim_limit
+        )
+        OR (
+          $1.claim_limit_per = 'total'
+          AND (
+            SELECT count(*)
+            FROM resource_claims rc
+            WHERE rc.resource_id = $1.id
+              AND claim_holds_spot(rc.status)
+          ) < $1.claim_limit
+        )
+      )
+  );
+$$;
+
+COMMENT ON FUNCTION has_available_slots(resources) IS '@return_type_nullable false';
+
+-- ============================================================================
+-- STEP 3: Joining the waitlist
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION assign_claim_waitlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_resource RECORD;
+BEGIN
+  -- Votes never take a spot
+  IF NEW.status NOT IN ('pending', 'approved', 'waitlisted') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT requires_approval INTO v_resource
+  FROM resources
+  WHERE id = NEW.resource_id;
+
+  PERFORM lock_resource_claims(NEW.resource_id);
+
+  IF claim_slot_is_full(NEW.resource_id, NEW.timeslot_id) THEN
+    NEW.status := 'waitlisted';
+    NEW.waitlisted_at := clock_timestamp();
+  ELSIF NEW.status = 'waitlisted' THEN
+    -- Nothing to wait for
+    NEW.status := CASE WHEN v_resource.requires_approval THEN 'pending' ELSE 'approved' END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_claim_waitlist_trigger
+  BEFORE INSERT ON resource_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_claim_waitlist();
+
+-- ============================================================================
+-- STEP 4: Promotion
+-- ============================================================================
+
+-- Promotes waitlisted claims in the scope of p_timeslot_id while spots are
+-- free. Returns the number of claims promoted.
+CREATE OR REPLACE FUNCTION promote_waitlisted_claims(
+  p_resource_id UUID,
+  p_timeslot_id UUID
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_resource RECORD;
+  v_next RECORD;
+  v_promoted INTEGER := 0;
+BEGIN
+  SELECT owner_id, requires_approval, claim_limit_per INTO v_resource
+  FROM resources
+  WHERE id = p_resource_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM lock_resource_claims(p_resource_id);
+
+  WHILE NOT claim_slot_is_full(p_resource_id, p_timeslot_id) LOOP
+    SELECT rc.id, rc.claimant_id INTO v_next
+    FROM resource_claims rc
+    WHERE rc.resource_id = p_resource_id
+      AND (v_resource.claim_limit_per = 'total' OR rc.timeslot_id = p_timeslot_id)
+      AND rc.status = 'waitlisted'
+    ORDER BY rc.waitlisted_at, rc.id
+    LIMIT 1;
+
+    EXIT WHEN NOT FOUND;
+
+    UPDATE resource_claims
+    SET status = CASE WHEN v_resource.requires_approval THEN 'pending' ELSE 'approved' END::resource_claim_status
+    WHERE id = v_next.id;
+
+    PERFORM create_notification_base(
+      p_user_id := v_next.claimant_id,
+      p_action := 'claim.promoted',
+      p_actor_id := v_resource.owner_id,
+      p_resource_id := p_resource_id,
+      p_claim_id := v_next.id,
+      p_community_id := (SELECT community_id FROM resource_communities WHERE resource_id = p_resource_id LIMIT 1)
+    );
+
+    v_promoted := v_promoted + 1;
+  END LOOP;
+
+  RETURN v_promoted;
+END;
+$$;
+
+-- A spot opens up when a claim holding one is cancelled, rejected, flaked or
+-- deleted
+CREATE OR REPLACE FUNCTION promote_waitlist_on_release()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF claim_holds_spot(OLD.status)
+    AND (TG_OP = 'DELETE' OR NOT claim_holds_spot(NEW.status)) THEN
+    PERFORM promote_waitlisted_claims(OLD.resource_id, OLD.timeslot_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_waitlist_on_release_trigger
+  AFTER UPDATE OF status OR DELETE ON resource_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_waitlist_on_release();
+
+-- ============================================================================
+-- STEP 5: Transition rules
+-- ============================================================================
+
+INSERT INTO claim_status_transition_rules (resource_type, from_status, to_status, allowed_actor, description)
+SELECT t.resource_type, 'waitlisted', r.to_status, r.allowed_actor, r.description
+FROM unnest(ARRAY['offer', 'request', 'event']::resource_type[]) AS t(resource_type)
+CROSS JOIN (VALUES
+  ('pending'::resource_claim_status, 'system', 'Promoted off the waitlist (approval required)'),
+  ('approved'::resource_claim_status, 'system', 'Promoted off the waitlist'),
+  ('cancelled'::resource_claim_status, 'claimant', 'Claimant leaves the waitlist'),
+  ('rejected'::resource_claim_status, 'owner', 'Owner removes claim from the waitlist')
+) AS r(to_status, allowed_actor, description);
+
+-- Waitlisted claims may only be promoted when they are first in line and a
+-- spot is free, which is exactly what promote_waitlisted_claims() does
+CREATE OR REPLACE FUNCTION public.validate_claim_state_transition()
+ RETURNS trigger
+ LANGUAGE plpgsql
+AS $function$
+DECLARE
+  resource_record RECORD;
+  user_is_owner BOOLEAN := FALSE;
+  user_is_claimant BOOLEAN := FALSE;
+  actor_role TEXT;
+  is_valid_transition BOOLEAN := FALSE;
+  rule_actor TEXT;
+BEGIN
+  -- Get resource information
+  SELECT r.type, r.requires_approval, r.owner_id, r.status as resource_status
+  INTO resource_record
+  FROM resources r
+  WHERE r.id = NEW.resource_id;
+
+  -- Determine user role
+  user_is_owner := (auth.uid() = resource_record.owner_id);
+  user_is_claimant := (auth.uid() = NEW.claimant_id);
+
+  -- If only commitment_level changed, allow it for claimants on approved claims
+  IF OLD.status = NEW.status AND OLD.commitment_level IS DISTINCT FROM NEW.commitment_level THEN
+    IF NOT user_is_claimant THEN
+      RAISE EXCEPTION 'Only the claimant can update their commitment level';
+    END IF;
+
+    -- Don't allow commitment level changes on terminal states
+    IF NEW.status IN ('rejected', 'completed', 'cancelled', 'attended', 'flaked') THEN
+      RAISE EXCEPTION 'Cannot change commitment level on % claims', NEW.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Validate initial states
+  IF TG_OP = 'INSERT' THEN
+    -- Allow 'vote' status for voting events
+    IF NEW.status = 'vote' THEN
+      IF resource_record.resource_status != 'voting' THEN
+        RAISE EXCEPTION 'Vote claims can only be created for voting resources';
+      END IF;
+      RETURN NEW;
+    END IF;
+
+    -- Standard initial status validation
+    IF resource_record.type = 'event' THEN
+      IF resource_record.requires_approval AND NEW.status != 'pending' THEN
+        RAISE EXCEPTION 'New event registrations requiring approval must start with pending status';
+      ELSIF NOT resource_record.requires_approval AND NEW.status != 'approved' THEN
+        RAISE EXCEPTION 'New event registrations not requiring approval must start with approved status';
+      END IF;
+    ELSE
+      IF resource_record.requires_approval AND NEW.status != 'pending' THEN
+        RAISE EXCEPTION 'New % claims requiring approval must start with pending status', resource_record.type;
+      ELSIF NOT resource_record.requires_approval AND NEW.status != 'approved' THEN
+        RAISE EXCEPTION 'New % claims not requiring approval must start with approved status', resource_record.type;
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Handle vote status transitions (special case, not in rules table)
+  IF OLD.status = 'vote' THEN
+    -- Vote can transition to: pending, going, cancelled
+    IF NEW.status NOT IN ('pending', 'going', 'cancelled') THEN
+      PERFORM raise_claim_transition_error(
+        'Vote status can only transition to pending, going, or cancelled',
+        resource_record.type, OLD.status, NEW.status, NULL
+      );
+    END IF;
+
+    -- Only claimant can cancel their vote
+    IF NEW.status = 'cancelled' AND NOT user_is_claimant THEN
+      PERFORM raise_claim_transition_error(
+        'Only the claimant can cancel their vote',
+        resource_record.type, OLD.status, NEW.status, 'claimant'
+      );
+    END IF;
+
+    -- Only finalization function can convert to pending/going (done via SECURITY DEFINER)
+    RETURN NEW;
+  END IF;
+
+  -- Promotion off the waitlist
+  IF OLD.status = 'waitlisted' AND NEW.status IN ('pending', 'approved') THEN
+    IF NEW.status <> CASE WHEN resource_record.requires_approval THEN 'pending' ELSE 'approved' END::resource_claim_status
+      OR waitlist_position(OLD) <> 1
+      OR claim_slot_is_full(NEW.resource_id, NEW.timeslot_id) THEN
+      PERFORM raise_claim_transition_error(
+        'Waitlisted claims are promoted automatically when a spot opens up',
+        resource_record.type, OLD.status, NEW.status, 'system'
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Terminal states cannot be changed
+  IF OLD.status IN ('rejected', 'completed', 'cancelled', 'attended', 'flaked') THEN
+    PERFORM raise_claim_transition_error(
+      format('Cannot transition from %s status', OLD.status),
+      resource_record.type, OLD.status, NEW.status, NULL
+    );
+  END IF;
+
+  -- Determine actor role
+  actor_role := CASE
+    WHEN user_is_owner THEN 'owner'
+    WHEN user_is_claimant THEN 'claimant'
+    ELSE 'none'
+  END;
+
+  -- Check if transition is valid using rules table
+  SELECT EXISTS (
+    SELECT 1
+    FROM claim_status_transition_rules
+    WHERE resource_type = resource_record.type
+      AND from_status = OLD.status
+      AND to_status = NEW.status
+      AND allowed_actor = actor_role
+  ) INTO is_valid_transition;
+
+  -- If not valid, raise exception with helpful message
+  IF NOT is_valid_transition THEN
+    -- Check if transition exists but with wrong actor
+    SELECT allowed_actor INTO rule_actor
+    FROM claim_status_transition_rules
+    WHERE resource_type = resource_record.type
+      AND from_status = OLD.status
+      AND to_status = NEW.status
+    LIMIT 1;
+
+    IF rule_actor IS NOT NULL THEN
+      PERFORM raise_claim_transition_error(
+        format(
+          'Only the %s can transition %s claims from %s to %s',
+          rule_actor, resource_record.type, OLD.status, NEW.status
+        ),
+        resource_record.type, OLD.status, NEW.status, rule_actor
+      );
+    ELSE
+      PERFORM raise_claim_transition_error(
+        format(
+          'Invalid status transition for %s: %s -> %s',
+          resource_record.type, OLD.status, NEW.status
+        ),
+        resource_record.type, OLD.status, NEW.status, NULL
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- ============================================================================
+-- STEP 6: Notifications
+-- ============================================================================
+
+-- Promoted claimants hear about it through claim.responded preferences
+INSERT INTO action_to_notification_type_mapping (action, notification_type)
+VALUES ('claim.promoted', 'claim.responded');
+
+CREATE OR REPLACE FUNCTION notify_on_claim_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  resource_owner_id UUID;
+  resource_type_val resource_type;
+  notification_id UUID;
+  action_to_notify action_type;
+  recipient_id UUID;
+BEGIN
+  -- Skip if status didn't change
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Promotions off the waitlist are announced as claim.promoted by
+  -- promote_waitlisted_claims()
+  IF OLD.status = 'waitlisted' AND NEW.status IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get resource owner and type
+  SELECT owner_id, type INTO resource_owner_id, resource_type_val
+  FROM resources
+  WHERE id = NEW.resource_id;
+
+  -- Handle approved/rejected
+  IF NEW.status IN ('approved', 'rejected') THEN
+    action_to_notify := CASE NEW.status
+      WHEN 'approved' THEN 'claim.approved'::action_type
+      ELSE 'claim.rejected'::action_type
+    END;
+
+    PERFORM create_notification_base(
+      p_user_id := NEW.claimant_id,
+      p_action := action_to_notify,
+      p_actor_id := resource_owner_id,
+      p_resource_id := NEW.resource_id,
+      p_claim_id := NEW.id,
+      p_community_id := (SELECT community_id FROM resource_communities WHERE resource_id = NEW.resource_id LIMIT 1)
+    );
+  END IF;
+
+  -- Handle cancelled
+  IF NEW.status = 'cancelled' THEN
+    PERFORM create_notification_base(
+      p_user_id := resource_owner_id,
+      p_action := 'claim.cancelled',
+      p_actor_id := NEW.claimant_id,
+      p_resource_id := NEW.resource_id,
+      p_claim_id := NEW.id,
+      p_community_id := (SELECT community_id FROM resource_communities WHERE resource_id = NEW.resource_id LIMIT 1)
+    );
+  END IF;
+
+  -- Handle approved → given
+  IF OLD.status = 'approved' AND NEW.status = 'given' THEN
+    -- For offers: owner marked as given, notify claimant
+    -- For requests: claimant marked as given, notify owner
+    recipient_id := CASE resource_type_val
+      WHEN 'offer' THEN NEW.claimant_id
+      WHEN 'request' THEN resource_owner_id
+    END;
+
+    IF recipient_id IS NOT NULL THEN
+      PERFORM create_notification_base(
+        p_user_id := recipient_id,
+        p_action := 'resource.given',
+        p_actor_id := CASE resource_type_val
+          WHEN 'offer' THEN resource_owner_id
+          WHEN 'request' THEN NEW.claimant_id
+        END,
+        p_resource_id := NEW.resource_id,
+        p_claim_id := NEW.id,
+        p_community_id := (SELECT community_id FROM resource_communities WHERE resource_id = NEW.resource_id LIMIT 1)
+      );
+    END IF;
+  END IF;
+
+  -- Handle approved → received
+  IF OLD.status = 'approved' AND NEW.status = 'received' THEN
+    -- For offers: claimant marked as received, notify owner
+    -- For requests: owner marked as received, notify claimant
+    recipient_id := CASE resource_type_val
+      WHEN 'offer' THEN resource_owner_id
+      WHEN 'request' THEN NEW.claimant_id
+    END;
+
+    IF recipient_id IS NOT NULL THEN
+      PERFORM create_notification_base(
+        p_user_id := recipient_id,
+        p_action := 'resource.received',
+        p_actor_id := CASE resource_type_val
+          WHEN 'offer' THEN NEW.claimant_id
+          WHEN 'request' THEN resource_owner_id
+        END,
+        p_resource_id := NEW.resource_id,
+        p_claim_id := NEW.id,
+        p_community_id := (SELECT community_id FROM resource_communities WHERE resource_id = NEW.resource_id LIMIT 1)
+      );
+    END IF;
+  END IF;
+
+  -- Handle given → completed
+  IF OLD.status = 'given' AND NEW.status = 'completed' THEN
+    -- For offers: claimant confirmed, notify owner
+    -- For requests: owner confirmed, notify claimant
+    recipient_id := CASE resource_type_val
+      WHEN 'offer' THEN resource_owner_id
+      WHEN 'request' THEN NEW.claimant_id
+    END;
+
+    IF recipient_id IS NOT NULL THEN
+      PERFORM create_notification_base(
+        p_user_id := recipient_id,
+        p_action := 'claim.completed',
+        p_actor_id := CASE resource_type_val
+          WHEN 'offer' THEN NEW.claimant_id
+          WHEN 'request' THEN resource_owner_id
+        END,
+        p_resource_id := NEW.resource_id,
+        p_claim_id := NEW.id,
+        p_community_id := (SELECT community_id FROM resource_communities WHERE resource_id = NEW.resource_id LIMIT 1)
+      );
+    END IF;
+  END IF;
+
+  -- Handle received → completed
+  IF OLD.status = 'received' AND NEW.status = 'completed' THEN
+    -- For offers: owner confirmed, notify claimant
+    -- For requests: claimant confirmed, notify owner
+    recipient_id := CASE resource_type_val
+      WHEN 'offer' THEN NEW.claimant_id
+      WHEN 'request' THEN resource_owner_id
+    END;
+
+    IF recipient_id IS NOT NULL THEN
+      PERFORM create_notification_base(
+        p_user_id := recipient_id,
+        p_action := 'claim.completed',
+        p_actor_id := CASE resource_type_val
+          WHEN 'offer' THEN resource_owner_id
+          WHEN 'request' THEN NEW.claimant_id
+        END,
+        p_resource_id := NEW.resource_id,
+        p_claim_id := NEW.id,
+        p_community_id := (SELECT community_id FROM resource_communities WHERE resource_id = NEW.resource_id LIMIT 1)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+
+GRANT EXECUTE ON FUNCTION claim_slot_is_full TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION waitlist_position(resource_claims) TO anon, authenticated, service_role;
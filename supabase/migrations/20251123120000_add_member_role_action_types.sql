@@ -0,0 +1,9 @@
+-- Member management action types
+-- Kept apart from the role management migration because PostgreSQL does not
+-- allow newly added enum values to be used in the transaction that adds them.
+
+-- Sent to a member whose role was changed by an organizer or founder
+ALTER TYPE action_type ADD VALUE 'member.role_changed';
+
+-- Sent to a member removed from a community by an organizer or founder
+ALTER TYPE action_type ADD VALUE 'member.removed';
@@ -0,0 +1,241 @@
+-- ============================================================================
+-- Community Role Management
+-- ============================================================================
+-- Organizers and founders can promote members to organizer, demote
+-- organizers and remove members. Founder changes are reserved for founders:
+-- only a founder can grant or revoke the founder role, or remove a founder,
+-- and a community always keeps at least one founder.
+--
+-- Foundership is handed over with transfer_community_foundership(), which
+-- promotes the new founder and demotes the caller to organizer in one step.
+--
+-- The affected member is notified with member.role_changed or member.removed.
+--
+-- Organizers may only change a member's role: the user, community and join
+-- time of a membership never change, and only the member can change their
+-- own chat read time.
+
+-- ============================================================================
+-- STEP 1: RLS
+-- ============================================================================
+
+CREATE POLICY "Organizers can update member roles"
+ON community_memberships FOR UPDATE
+TO authenticated
+USING (is_community_organizer(community_id, auth.uid()))
+WITH CHECK (is_community_organizer(community_id, auth.uid()));
+
+CREATE POLICY "Organizers can remove members"
+ON community_memberships FOR DELETE
+TO authenticated
+USING (is_community_organizer(community_id, auth.uid()));
+
+-- ============================================================================
+-- STEP 2: Guards
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION guard_community_membership_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_is_founder BOOLEAN;
+BEGIN
+  -- Deletions cascading from a deleted community or account are not guarded
+  IF TG_OP = 'DELETE' AND (
+    NOT EXISTS (SELECT 1 FROM communities WHERE id = OLD.community_id)
+    OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = OLD.user_id)
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_actor_id IS NOT NULL THEN
+    IF (NEW.user_id, NEW.community_id, NEW.created_at)
+      IS DISTINCT FROM (OLD.user_id, OLD.community_id, OLD.created_at) THEN
+      RAISE EXCEPTION 'Only the role of a membership can be changed'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF OLD.user_id != v_actor_id
+      AND NEW.chat_read_at IS DISTINCT FROM OLD.chat_read_at THEN
+      RAISE EXCEPTION 'Only the role of a membership can be changed'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role = OLD.role THEN
+    RETURN NEW;
+  END IF;
+
+  -- Service role and internal jobs have no auth.uid() and are trusted
+  IF v_actor_id IS NOT NULL THEN
+    v_actor_is_founder := EXISTS (
+      SELECT 1
+      FROM community_memberships
+      WHERE community_id = OLD.community_id
+        AND user_id = v_actor_id
+        AND role = 'founder'
+    );
+
+    IF TG_OP = 'UPDATE' AND (OLD.role = 'founder' OR NEW.role = 'founder')
+      AND NOT v_actor_is_founder THEN
+      RAISE EXCEPTION 'Only founders can grant or revoke the founder role'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF TG_OP = 'DELETE' AND OLD.role = 'founder'
+      AND OLD.user_id != v_actor_id
+      AND NOT v_actor_is_founder THEN
+      RAISE EXCEPTION 'Only founders can remove a founder'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  -- The last founder can neither step down nor be removed
+  IF OLD.role = 'founder' AND NOT EXISTS (
+    SELECT 1
+    FROM community_memberships
+    WHERE community_id = OLD.community_id
+      AND role = 'founder'
+      AND user_id != OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'A community must keep at least one founder'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires on every update, not just role updates, so the guard also sees
+-- changes to the other columns
+CREATE TRIGGER guard_community_membership_change_trigger
+  BEFORE UPDATE OR DELETE ON community_memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_community_membership_change();
+
+-- ============================================================================
+-- STEP 3: Foundership transfer
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION transfer_community_foundership(
+  p_community_id UUID,
+  p_new_founder_id UUID
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+BEGIN
+  IF p_new_founder_id = v_actor_id THEN
+    RAISE EXCEPTION 'You are already a founder of this community'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM community_memberships
+    WHERE community_id = p_community_id
+      AND user_id = v_actor_id
+      AND role = 'founder'
+  ) THEN
+    RAISE EXCEPTION 'Only a founder can transfer foundership'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Promote first so the community is never left without a founder
+  UPDATE community_memberships
+  SET role = 'founder'
+  WHERE community_id = p_community_id
+    AND user_id = p_new_founder_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The new founder must be a member of the community'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE community_memberships
+  SET role = 'organizer'
+  WHERE community_id = p_community_id
+    AND user_id = v_actor_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transfer_community_foundership TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 4: Notifications
+-- ============================================================================
+
+INSERT INTO action_to_notification_type_mapping (action, notification_type) VALUES
+  ('member.role_changed', 'membership.updated'),
+  ('member.removed', 'membership.updated');
+
+CREATE OR REPLACE FUNCTION notify_on_member_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.role = OLD.role OR NEW.user_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_notification_base(
+    p_user_id := NEW.user_id,
+    p_action := 'member.role_changed',
+    p_actor_id := auth.uid(),
+    p_community_id := NEW.community_id,
+    p_changes := ARRAY['role']
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_on_member_role_change_trigger
+  AFTER UPDATE OF role ON community_memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_member_role_change();
+
+-- Members who leave on their own are handled by leaveCommunity(); removals
+-- by someone else notify the member and clear their invitation code so they
+-- can rejoin later
+CREATE OR REPLACE FUNCTION on_community_member_removed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR OLD.user_id = auth.uid()
+    OR NOT EXISTS (SELECT 1 FROM communities WHERE id = OLD.community_id)
+    OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  DELETE FROM invitation_codes
+  WHERE community_id = OLD.community_id
+    AND user_id = OLD.user_id;
+
+  PERFORM create_notification_base(
+    p_user_id := OLD.user_id,
+    p_action := 'member.removed',
+    p_actor_id := auth.uid(),
+    p_community_id := OLD.community_id
+  );
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER on_community_member_removed_trigger
+  AFTER DELETE ON community_memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION on_community_member_removed();
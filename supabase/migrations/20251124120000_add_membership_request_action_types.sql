@@ -0,0 +1,10 @@
+-- Membership request action types
+-- Kept apart from the membership requests migration because PostgreSQL does
+-- not allow newly added enum values to be used in the transaction that adds them.
+
+-- Sent to organizers when someone asks to join their community
+ALTER TYPE action_type ADD VALUE 'membership.requested';
+
+-- Sent to the requester once an organizer decides
+ALTER TYPE action_type ADD VALUE 'membership.approved';
+ALTER TYPE action_type ADD VALUE 'membership.rejected';
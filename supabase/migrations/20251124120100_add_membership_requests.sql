@@ -0,0 +1,270 @@
+-- ============================================================================
+-- Community Join Policies and Membership Requests
+-- ============================================================================
+-- Each community chooses how people get in:
+-- - open: anyone can join directly (the default, and the previous behaviour)
+-- - invite_only: only with an invitation code
+-- - request: people ask to join and an organizer approves or rejects them;
+--   invitation codes still let people in directly
+--
+-- Invitation codes are redeemed through join_community_with_code(), which
+-- validates the code in the database so it can bypass the join policy.
+
+-- ============================================================================
+-- STEP 1: Join policy
+-- ============================================================================
+
+CREATE TYPE community_join_policy AS ENUM ('open', 'invite_only', 'request');
+
+ALTER TABLE communities
+  ADD COLUMN join_policy community_join_policy NOT NULL DEFAULT 'open';
+
+COMMENT ON COLUMN communities.join_policy IS 'How people become members: open, invite_only (invitation code) or request (organizer approval)';
+
+-- Direct joins are only allowed for open communities
+DROP POLICY IF EXISTS "Users can join as members" ON community_memberships;
+
+CREATE POLICY "Users can join open communities as members"
+ON community_memberships FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND role = 'member'
+  AND EXISTS (
+    SELECT 1 FROM communities
+    WHERE communities.id = community_memberships.community_id
+      AND communities.join_policy = 'open'
+  )
+);
+
+-- ============================================================================
+-- STEP 2: Membership requests
+-- ============================================================================
+
+CREATE TYPE membership_request_status AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE TABLE community_membership_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  message TEXT,
+  status membership_request_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+-- One open request per user and community; rejected users may ask again
+CREATE UNIQUE INDEX idx_membership_requests_one_pending
+  ON community_membership_requests (community_id, user_id)
+  WHERE status = 'pending';
+CREATE INDEX idx_membership_requests_community_status
+  ON community_membership_requests (community_id, status, created_at);
+CREATE INDEX idx_membership_requests_user
+  ON community_membership_requests (user_id);
+
+ALTER TABLE community_membership_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests start pending, only for request-policy communities the user has
+-- not joined yet
+CREATE POLICY "Users can request to join communities"
+ON community_membership_requests FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND status = 'pending'
+  AND reviewed_at IS NULL
+  AND reviewed_by IS NULL
+  AND EXISTS (
+    SELECT 1 FROM communities
+    WHERE communities.id = community_membership_requests.community_id
+      AND communities.join_policy = 'request'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM community_memberships
+    WHERE community_memberships.community_id = community_membership_requests.community_id
+      AND community_memberships.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Requesters and community organizers can view requests"
+ON community_membership_requests FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR is_community_organizer(community_id, auth.uid())
+);
+
+-- Requesters may withdraw a request while it is pending
+CREATE POLICY "Requesters can withdraw pending requests"
+ON community_membership_requests FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() AND status = 'pending');
+
+-- No UPDATE policy: decisions go through review_membership_request()
+
+GRANT SELECT, INSERT, DELETE ON community_membership_requests TO authenticated;
+GRANT ALL ON community_membership_requests TO service_role;
+
+-- ============================================================================
+-- STEP 3: Invitation codes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION join_community_with_code(p_code TEXT)
+RETURNS community_memberships
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_code invitation_codes%ROWTYPE;
+  v_membership community_memberships%ROWTYPE;
+BEGIN
+  SELECT * INTO v_code
+  FROM invitation_codes
+  WHERE code = p_code
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Connection code not found or inactive'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_code.user_id = v_user_id THEN
+    RAISE EXCEPTION 'Cannot create connection with yourself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM community_memberships
+    WHERE community_id = v_code.community_id
+      AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'User is already a member of this community'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO community_memberships (community_id, user_id, role)
+  VALUES (v_code.community_id, v_user_id, 'member')
+  RETURNING * INTO v_membership;
+
+  -- The invitation answers any request the user had pending
+  UPDATE community_membership_requests
+  SET status = 'approved',
+      reviewed_at = now(),
+      reviewed_by = v_code.user_id
+  WHERE community_id = v_code.community_id
+    AND user_id = v_user_id
+    AND status = 'pending';
+
+  RETURN v_membership;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Review
+-- ============================================================================
+-- Atomically records the decision, adds the member when approved and tells
+-- the requester
+
+CREATE OR REPLACE FUNCTION review_membership_request(
+  p_request_id UUID,
+  p_status membership_request_status
+) RETURNS community_membership_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request community_membership_requests%ROWTYPE;
+BEGIN
+  IF p_status = 'pending' THEN
+    RAISE EXCEPTION 'A membership request can only be approved or rejected'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM community_membership_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR NOT is_community_organizer(v_request.community_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only community organizers can review this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Membership request has already been reviewed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE community_membership_requests
+  SET status = p_status,
+      reviewed_at = now(),
+      reviewed_by = auth.uid()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  IF p_status = 'approved' THEN
+    INSERT INTO community_memberships (community_id, user_id, role)
+    VALUES (v_request.community_id, v_request.user_id, 'member')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  PERFORM create_notification_base(
+    p_user_id := v_request.user_id,
+    p_action := CASE
+      WHEN p_status = 'approved' THEN 'membership.approved'
+      ELSE 'membership.rejected'
+    END::action_type,
+    p_actor_id := auth.uid(),
+    p_community_id := v_request.community_id
+  );
+
+  RETURN v_request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_community_with_code TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION review_membership_request TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 5: Notifications
+-- ============================================================================
+
+INSERT INTO action_to_notification_type_mapping (action, notification_type) VALUES
+  ('membership.requested', 'membership.updated'),
+  ('membership.approved', 'membership.updated'),
+  ('membership.rejected', 'membership.updated');
+
+-- Organizers and founders hear about new requests
+CREATE OR REPLACE FUNCTION notify_on_membership_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  admin_record RECORD;
+BEGIN
+  FOR admin_record IN
+    SELECT user_id
+    FROM community_memberships
+    WHERE community_id = NEW.community_id
+      AND role IN ('organizer', 'founder')
+  LOOP
+    PERFORM create_notification_base(
+      p_user_id := admin_record.user_id,
+      p_action := 'membership.requested',
+      p_actor_id := NEW.user_id,
+      p_community_id := NEW.community_id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_on_membership_request_trigger
+  AFTER INSERT ON community_membership_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_membership_request();
@@ -0,0 +1,499 @@
+-- Configurable and expiring invitation codes
+-- Members keep their personal code (one active per community, generated on
+-- join). Alongside it they can mint extra codes with a use limit, an expiry
+-- and a target role. Every redemption goes through redeem_invitation_code,
+-- which enforces those limits for both joinCommunityWithCode and signup.
+
+-- ============================================================================
+-- STEP 1: Code settings
+-- ============================================================================
+
+ALTER TABLE invitation_codes
+  ADD COLUMN is_personal BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN max_uses INTEGER CHECK (max_uses > 0),
+  ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN expires_at TIMESTAMPTZ,
+  ADD COLUMN role community_membership_role NOT NULL DEFAULT 'member'
+    CHECK (role != 'founder');
+
+-- Only personal codes are limited to one active code per user and community
+DROP INDEX IF EXISTS unique_active_member_code_user_community;
+CREATE UNIQUE INDEX unique_active_member_code_user_community
+ON invitation_codes (user_id, community_id)
+WHERE is_active = true AND is_personal = true;
+
+-- Organizers manage every code in their community
+CREATE POLICY "Organizers can view community invitation codes"
+ON invitation_codes FOR SELECT
+TO authenticated
+USING (is_community_organizer(community_id, auth.uid()));
+
+-- ============================================================================
+-- STEP 2: Redemption history
+-- ============================================================================
+
+CREATE TABLE invitation_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL REFERENCES invitation_codes(code) ON DELETE CASCADE,
+  community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role community_membership_role NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invitation_code_redemptions_code
+ON invitation_code_redemptions (code, created_at DESC);
+
+ALTER TABLE invitation_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by redeem_invitation_code
+CREATE POLICY "Code owners, organizers and redeemers can view redemptions"
+ON invitation_code_redemptions FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR is_community_organizer(community_id, auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM invitation_codes
+    WHERE invitation_codes.code = invitation_code_redemptions.code
+      AND invitation_codes.user_id = auth.uid()
+  )
+);
+
+GRANT SELECT ON invitation_code_redemptions TO authenticated;
+GRANT ALL ON invitation_code_redemptions TO service_role;
+
+-- ============================================================================
+-- STEP 3: Code generation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION random_invitation_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_code TEXT := '';
+BEGIN
+  -- Same character set as the JavaScript implementation (excludes 0,1,I,O)
+  FOR i IN 1..8 LOOP
+    new_code := new_code || substring('23456789ABCDEFGHJKLMNPQRSTUVWXYZ',
+      floor(random() * 32)::integer + 1, 1);
+  END LOOP;
+
+  RETURN new_code;
+END;
+$$;
+
+-- Same as before, but minted codes no longer count as the personal code
+CREATE OR REPLACE FUNCTION generate_invitation_code()
+RETURNS TRIGGER AS $$
+DECLARE
+  max_attempts INTEGER := 10;
+  attempt_count INTEGER := 0;
+BEGIN
+  IF TG_OP != 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM invitation_codes
+    WHERE user_id = NEW.user_id
+      AND community_id = NEW.community_id
+      AND is_active = true
+      AND is_personal = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  LOOP
+    BEGIN
+      INSERT INTO invitation_codes (code, user_id, community_id)
+      VALUES (random_invitation_code(), NEW.user_id, NEW.community_id);
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      attempt_count := attempt_count + 1;
+      IF attempt_count >= max_attempts THEN
+        RAISE EXCEPTION 'Failed to generate unique invitation code after % attempts', max_attempts;
+      END IF;
+    END;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as before, but leaves minted codes alone
+CREATE OR REPLACE FUNCTION regenerate_invitation_code(
+  p_user_id UUID,
+  p_community_id UUID
+) RETURNS TEXT AS $$
+DECLARE
+  new_code TEXT;
+  max_attempts INTEGER := 10;
+  attempt_count INTEGER := 0;
+BEGIN
+  PERFORM assert_player_action(p_user_id, ARRAY[p_community_id], 'invite_friend');
+
+  UPDATE invitation_codes
+  SET is_active = false
+  WHERE user_id = p_user_id
+    AND community_id = p_community_id
+    AND is_active = true
+    AND is_personal = true;
+
+  LOOP
+    new_code := random_invitation_code();
+    BEGIN
+      INSERT INTO invitation_codes (code, user_id, community_id, is_active)
+      VALUES (new_code, p_user_id, p_community_id, true);
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      attempt_count := attempt_count + 1;
+      IF attempt_count >= max_attempts THEN
+        RAISE EXCEPTION 'Failed to generate unique invitation code after % attempts', max_attempts;
+      END IF;
+    END;
+  END LOOP;
+
+  RETURN new_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION create_invitation_code(
+  p_community_id UUID,
+  p_max_uses INTEGER DEFAULT NULL,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_role community_membership_role DEFAULT 'member'
+) RETURNS invitation_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_code invitation_codes%ROWTYPE;
+  max_attempts INTEGER := 10;
+  attempt_count INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM community_memberships
+    WHERE community_id = p_community_id
+      AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only members can create invitation codes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM assert_player_action(v_user_id, ARRAY[p_community_id], 'invite_friend');
+
+  IF p_role = 'founder' THEN
+    RAISE EXCEPTION 'Invitation codes cannot grant the founder role'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_role = 'organizer'
+    AND NOT is_community_organizer(p_community_id, v_user_id) THEN
+    RAISE EXCEPTION 'Only organizers can create organizer invitation codes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Invitation code expiry must be in the future'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  LOOP
+    BEGIN
+      INSERT INTO invitation_codes (
+        code, user_id, community_id, is_personal, max_uses, expires_at, role
+      )
+      VALUES (
+        random_invitation_code(), v_user_id, p_community_id, false,
+        p_max_uses, p_expires_at, p_role
+      )
+      RETURNING * INTO v_code;
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      attempt_count := attempt_count + 1;
+      IF attempt_count >= max_attempts THEN
+        RAISE EXCEPTION 'Failed to generate unique invitation code after % attempts', max_attempts;
+      END IF;
+    END;
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_invitation_code(p_code TEXT)
+RETURNS invitation_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code invitation_codes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_code
+  FROM invitation_codes
+  WHERE code = p_code;
+
+  IF NOT FOUND
+    OR (v_code.user_id != auth.uid()
+      AND NOT is_community_organizer(v_code.community_id, auth.uid())) THEN
+    RAISE EXCEPTION 'Only the code owner or an organizer can revoke this code'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE invitation_codes
+  SET is_active = false,
+      updated_at = now()
+  WHERE code = p_code
+  RETURNING * INTO v_code;
+
+  RETURN v_code;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Redemption
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION redeem_invitation_code(
+  p_code TEXT,
+  p_user_id UUID
+) RETURNS community_memberships
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code invitation_codes%ROWTYPE;
+  v_role community_membership_role;
+  v_membership community_memberships%ROWTYPE;
+BEGIN
+  -- Lock the code so concurrent redemptions respect max_uses
+  SELECT * INTO v_code
+  FROM invitation_codes
+  WHERE code = p_code
+    AND is_active = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Connection code not found or inactive'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_code.expires_at IS NOT NULL AND v_code.expires_at <= now() THEN
+    RAISE EXCEPTION 'Invitation code has expired'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_code.max_uses IS NOT NULL AND v_code.use_count >= v_code.max_uses THEN
+    RAISE EXCEPTION 'Invitation code has reached its maximum number of uses'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_code.user_id = p_user_id THEN
+    RAISE EXCEPTION 'Cannot create connection with yourself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM community_memberships
+    WHERE community_id = v_code.community_id
+      AND user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'User is already a member of this community'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Codes only grant organizer while their creator is still an organizer;
+  -- after a demotion they admit plain members
+  v_role := CASE
+    WHEN v_code.role = 'organizer'
+      AND NOT is_community_organizer(v_code.community_id, v_code.user_id)
+    THEN 'member'
+    ELSE v_code.role
+  END;
+
+  INSERT INTO community_memberships (community_id, user_id, role)
+  VALUES (v_code.community_id, p_user_id, v_role)
+  RETURNING * INTO v_membership;
+
+  UPDATE invitation_codes
+  SET use_count = use_count + 1,
+      updated_at = now()
+  WHERE code = p_code;
+
+  INSERT INTO invitation_code_redemptions (code, community_id, user_id, role)
+  VALUES (p_code, v_code.community_id, p_user_id, v_role);
+
+  -- The invitation answers any request the user had pending
+  UPDATE community_membership_requests
+  SET status = 'approved',
+      reviewed_at = now(),
+      reviewed_by = v_code.user_id
+  WHERE community_id = v_code.community_id
+    AND user_id = p_user_id
+    AND status = 'pending';
+
+  RETURN v_membership;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION join_community_with_code(p_code TEXT)
+RETURNS community_memberships
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN redeem_invitation_code(p_code, auth.uid());
+END;
+$$;
+
+-- Expired and used-up codes no longer show as invitations
+CREATE OR REPLACE FUNCTION get_invitation_details(connection_code TEXT)
+RETURNS TABLE(
+  user_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  community_id UUID,
+  is_active BOOLEAN,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pp.id as user_id,
+    pp.first_name,
+    pp.last_name,
+    pp.full_name,
+    pp.avatar_url,
+    ic.community_id,
+    ic.is_active,
+    ic.created_at
+  FROM public_profiles pp
+  INNER JOIN invitation_codes ic ON pp.id = ic.user_id
+  WHERE ic.code = connection_code
+    AND ic.is_active = true
+    AND (ic.expires_at IS NULL OR ic.expires_at > now())
+    AND (ic.max_uses IS NULL OR ic.use_count < ic.max_uses);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- STEP 5: Signup
+-- ============================================================================
+-- Same as before, but the code is redeemed through redeem_invitation_code.
+-- A code that cannot be redeemed still lets the account be created.
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $$
+DECLARE
+  user_email text;
+  user_meta jsonb;
+  invitation_code text;
+  inviter_id UUID;
+  connection_id UUID;
+BEGIN
+  -- Get the email, handling potential null values
+  user_email := COALESCE(NEW.email, '');
+
+  -- Ensure user_metadata is never null
+  user_meta := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+
+  -- Log the attempt for debugging
+  RAISE LOG 'Creating profile for user: % with email: % and metadata: %', NEW.id, user_email, user_meta;
+
+  -- Insert the profile
+  INSERT INTO public.profiles (
+    id,
+    email,
+    user_metadata,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    NEW.id,
+    user_email,
+    user_meta,
+    COALESCE(NEW.created_at, now()),
+    now()
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    user_metadata = EXCLUDED.user_metadata,
+    updated_at = now();
+
+  -- Create default notification preferences
+  INSERT INTO public.notification_preferences (user_id)
+  VALUES (NEW.id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RAISE LOG 'Successfully created/updated profile and preferences for user: %', NEW.id;
+
+  -- Process invitation code if present
+  invitation_code := user_meta ->> 'invitation_code';
+
+  IF invitation_code IS NOT NULL AND invitation_code != '' THEN
+    RAISE LOG 'Processing invitation code: % for user: %', invitation_code, NEW.id;
+
+    BEGIN
+      -- Auto-join the community
+      PERFORM redeem_invitation_code(invitation_code, NEW.id);
+
+      SELECT user_id INTO inviter_id
+      FROM invitation_codes
+      WHERE code = invitation_code;
+
+      -- Create platform-level connection
+      SELECT create_user_connection(
+        inviter_id,  -- Inviter
+        NEW.id       -- Invitee
+      ) INTO connection_id;
+
+      RAISE LOG 'User % joined with invitation code % from inviter %', NEW.id, invitation_code, inviter_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        RAISE LOG 'Could not redeem invitation code %: %', invitation_code, SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE WARNING 'User profile already exists for user %', NEW.id;
+    RETURN NEW;
+
+  WHEN foreign_key_violation THEN
+    RAISE WARNING 'Foreign key violation creating profile for user %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+
+  WHEN check_violation THEN
+    RAISE WARNING 'Check constraint violation creating profile for user %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+
+  WHEN not_null_violation THEN
+    RAISE WARNING 'Not null violation creating profile for user %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+
+  WHEN OTHERS THEN
+    RAISE WARNING 'Unexpected error creating profile for user %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Grants
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION create_invitation_code TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION revoke_invitation_code TO authenticated, service_role;
+
+-- Redemption is only reachable through join_community_with_code and signup
+REVOKE EXECUTE ON FUNCTION redeem_invitation_code FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_invitation_code TO service_role;
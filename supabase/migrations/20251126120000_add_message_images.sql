@@ -0,0 +1,83 @@
+-- Image attachments on messages
+-- Images are uploaded to the public images bucket as temp uploads, like
+-- resource and shoutout images. On send, commitImageUrls moves them into the
+-- private message-images bucket as {userId}/message-{messageId}-{suffix}, and
+-- the message stores their storage paths. Readers fetch signed URLs, which
+-- storage only issues to users who can see the message.
+
+-- ============================================================================
+-- STEP 1: Messages
+-- ============================================================================
+
+ALTER TABLE messages
+  ADD COLUMN image_paths TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (cardinality(image_paths) <= 10);
+
+COMMENT ON COLUMN messages.image_paths IS 'Storage paths of attached images in the message-images bucket';
+
+-- A message may be images only
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_content_check;
+ALTER TABLE messages ADD CONSTRAINT messages_content_check CHECK (
+  length(trim(content)) > 0
+  OR cardinality(image_paths) > 0
+  OR content = '[Message deleted]'
+);
+
+-- ============================================================================
+-- STEP 2: Bucket
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-images',
+  'message-images',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Message id embedded in a committed file name, or NULL for other files
+CREATE OR REPLACE FUNCTION message_image_message_id(p_name TEXT)
+RETURNS UUID AS $$
+  SELECT (regexp_match(
+    storage.filename(p_name),
+    '^message-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})-'
+  ))[1]::uuid;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- STEP 3: Storage policies
+-- ============================================================================
+
+CREATE POLICY "Users can add message images to their own folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'message-images'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- The messages lookup runs under the reader's RLS, so only conversation
+-- participants and community members who can see the message get its images
+CREATE POLICY "Users who can see a message can view its images"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'message-images'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = public.message_image_message_id(objects.name)
+    )
+  )
+);
+
+CREATE POLICY "Users can delete their own message images"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'message-images'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,85 @@
+-- Typing indicators and online presence
+-- Typing uses broadcast on conversation:{id}:typing and community:{id}:typing,
+-- and online presence uses realtime presence on community:{id}:presence.
+-- Access mirrors the message channels: conversation participants and
+-- community members only.
+
+-- ============================================================================
+-- STEP 1: Typing channels
+-- ============================================================================
+
+CREATE POLICY "Users can read typing in conversations they participate in" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    extension = 'broadcast'
+    AND realtime.topic() LIKE 'conversation:%:typing'
+    AND EXISTS (
+      SELECT 1 FROM conversation_participants
+      WHERE conversation_id = split_part(realtime.topic(), ':', 2)::uuid
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can send typing to conversations they participate in" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    extension = 'broadcast'
+    AND realtime.topic() LIKE 'conversation:%:typing'
+    AND EXISTS (
+      SELECT 1 FROM conversation_participants
+      WHERE conversation_id = split_part(realtime.topic(), ':', 2)::uuid
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can read typing in communities they are members of" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    extension = 'broadcast'
+    AND realtime.topic() LIKE 'community:%:typing'
+    AND EXISTS (
+      SELECT 1 FROM community_memberships
+      WHERE user_id = auth.uid()
+      AND community_id = split_part(realtime.topic(), ':', 2)::uuid
+    )
+  );
+
+CREATE POLICY "Users can send typing to communities they are members of" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    extension = 'broadcast'
+    AND realtime.topic() LIKE 'community:%:typing'
+    AND EXISTS (
+      SELECT 1 FROM community_memberships
+      WHERE user_id = auth.uid()
+      AND community_id = split_part(realtime.topic(), ':', 2)::uuid
+    )
+  );
+
+-- ============================================================================
+-- STEP 2: Presence channel
+-- ============================================================================
+
+CREATE POLICY "Users can see who is online in communities they are members of" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    extension = 'presence'
+    AND realtime.topic() LIKE 'community:%:presence'
+    AND EXISTS (
+      SELECT 1 FROM community_memberships
+      WHERE user_id = auth.uid()
+      AND community_id = split_part(realtime.topic(), ':', 2)::uuid
+    )
+  );
+
+CREATE POLICY "Users can share presence in communities they are members of" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    extension = 'presence'
+    AND realtime.topic() LIKE 'community:%:presence'
+    AND EXISTS (
+      SELECT 1 FROM community_memberships
+      WHERE user_id = auth.uid()
+      AND community_id = split_part(realtime.topic(), ':', 2)::uuid
+    )
+  );
@@ -0,0 +1,182 @@
+-- Read receipts for direct conversations
+-- Each participant has last-delivered and last-read message pointers that the
+-- other participant sees as receipts. The pointers only move through
+-- mark_conversation_delivered and mark_conversation_as_read, which broadcast the
+-- change on the conversation's message channel.
+-- Users can stop sending read receipts by setting
+-- profiles.user_metadata.send_read_receipts to false. Their read_at still
+-- drives their own unread counts, so read_at is no longer visible to the other
+-- participant.
+
+-- ============================================================================
+-- STEP 1: Receipt pointers
+-- ============================================================================
+
+ALTER TABLE conversation_participants
+  ADD COLUMN last_delivered_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  ADD COLUMN last_read_message_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN conversation_participants.last_delivered_message_id IS 'Latest message from others that reached this participant';
+COMMENT ON COLUMN conversation_participants.last_read_message_id IS 'Latest message from others this participant has read, unless they turned off read receipts';
+
+-- ============================================================================
+-- STEP 2: Column access
+-- ============================================================================
+
+-- read_at is private to its owner; read it through get_conversation_read_states.
+-- With column-level grants, select('*') on this table is denied, so callers
+-- must list the columns they need.
+REVOKE SELECT, UPDATE ON conversation_participants FROM anon, authenticated;
+GRANT SELECT (conversation_id, user_id, joined_at, last_delivered_message_id, last_read_message_id)
+  ON conversation_participants TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_conversation_read_states()
+RETURNS TABLE (conversation_id UUID, read_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cp.conversation_id, cp.read_at
+  FROM conversation_participants cp
+  WHERE cp.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_conversation_read_states() TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Privacy setting
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sends_read_receipts(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT (user_metadata->>'send_read_receipts')::boolean
+     FROM profiles
+     WHERE id = p_user_id),
+    true
+  );
+$$;
+
+-- ============================================================================
+-- STEP 4: Advancing receipts
+-- ============================================================================
+
+-- Moves a participant's pointer to the latest message from others and
+-- broadcasts it. Returns the message id, or NULL when there is nothing new.
+CREATE OR REPLACE FUNCTION advance_conversation_receipt(
+  p_conversation_id UUID,
+  p_user_id UUID,
+  p_receipt TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_updated INTEGER;
+BEGIN
+  SELECT * INTO v_message
+  FROM messages
+  WHERE conversation_id = p_conversation_id
+    AND sender_id <> p_user_id
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1;
+
+  IF v_message.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_receipt = 'read' THEN
+    UPDATE conversation_participants
+    SET last_read_message_id = v_message.id,
+        last_delivered_message_id = v_message.id
+    WHERE conversation_id = p_conversation_id
+      AND user_id = p_user_id
+      AND last_read_message_id IS DISTINCT FROM v_message.id;
+  ELSE
+    UPDATE conversation_participants
+    SET last_delivered_message_id = v_message.id
+    WHERE conversation_id = p_conversation_id
+      AND user_id = p_user_id
+      AND last_delivered_message_id IS DISTINCT FROM v_message.id;
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  IF v_updated = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM realtime.send(
+    payload := jsonb_build_object(
+      'user_id', p_user_id,
+      'message_id', v_message.id,
+      'sent_at', v_message.created_at
+    ),
+    event := 'message.' || p_receipt,
+    topic := 'conversation:' || p_conversation_id::text || ':messages',
+    private := true
+  );
+
+  RETURN v_message.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION advance_conversation_receipt(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION mark_conversation_delivered(p_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM advance_conversation_receipt(p_conversation_id, auth.uid(), 'delivered');
+END;
+$$;
+
+-- Reading also counts as delivery; the read pointer only moves for users who
+-- send read receipts
+CREATE OR REPLACE FUNCTION mark_conversation_as_read(p_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_user_id UUID;
+BEGIN
+  v_current_user_id := auth.uid();
+
+  -- Update conversation_participants setting read_at to NOW()
+  UPDATE conversation_participants
+  SET read_at = NOW()
+  WHERE conversation_id = p_conversation_id
+    AND user_id = v_current_user_id;
+
+  -- If no row was updated, the user is not a participant
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User is not a participant in this conversation';
+  END IF;
+
+  IF sends_read_receipts(v_current_user_id) THEN
+    PERFORM advance_conversation_receipt(p_conversation_id, v_current_user_id, 'read');
+  ELSE
+    PERFORM advance_conversation_receipt(p_conversation_id, v_current_user_id, 'delivered');
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_conversation_delivered(UUID) TO authenticated;
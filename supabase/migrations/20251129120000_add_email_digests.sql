@@ -0,0 +1,235 @@
+-- ============================================================================
+-- Daily and weekly email digests
+-- ============================================================================
+-- Each per-type preference can set email_frequency to 'immediate' (default),
+-- 'daily' or 'weekly'. Immediate notifications are emailed one by one as
+-- before. Others are queued in email_digest_queue, and a scheduled job sends
+-- each user one digest email per period with their queued notifications that
+-- they have not already read in the app.
+
+-- ============================================================================
+-- STEP 1: Digest queue
+-- ============================================================================
+
+CREATE TABLE email_digest_queue (
+  notification_id UUID PRIMARY KEY REFERENCES notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_email_digest_queue_frequency_user
+  ON email_digest_queue(frequency, user_id);
+
+COMMENT ON TABLE email_digest_queue IS 'Notifications waiting to be emailed in a daily or weekly digest';
+
+-- Only the digest job reads the queue
+ALTER TABLE email_digest_queue ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 2: Queue digest notifications instead of emailing them
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION deliver_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  notification_type_val TEXT;
+  prefs JSONB;
+  type_pref JSONB;
+  email_enabled BOOLEAN;
+  email_frequency TEXT := 'immediate';
+  push_enabled BOOLEAN;
+  push_enabled_global BOOLEAN;
+  email_enabled_global BOOLEAN;
+BEGIN
+  -- Get user preferences
+  SELECT to_jsonb(np.*) INTO prefs
+  FROM notification_preferences np
+  WHERE user_id = NEW.user_id;
+
+  -- If no preferences, default to enabled
+  IF prefs IS NULL THEN
+    email_enabled := TRUE;
+    push_enabled := TRUE;
+  ELSE
+    -- Check global push and email enabled flags
+    push_enabled_global := COALESCE((prefs->>'push_enabled')::boolean, TRUE);
+    email_enabled_global := COALESCE((prefs->>'email_enabled')::boolean, TRUE);
+
+    -- If both are disabled globally, short-circuit
+    IF push_enabled_global = FALSE AND email_enabled_global = FALSE THEN
+      RETURN NEW;
+    END IF;
+
+    -- Look up notification type from action
+    SELECT notification_type INTO notification_type_val
+    FROM action_to_notification_type_mapping
+    WHERE action = NEW.action;
+
+    -- Critical notifications always send if globally enabled
+    IF NEW.action = 'event.cancelled' THEN
+      email_enabled := email_enabled_global;
+      push_enabled := push_enabled_global;
+    ELSIF notification_type_val IS NULL THEN
+      -- If no mapping found, default to enabled (with global check)
+      email_enabled := email_enabled_global;
+      push_enabled := push_enabled_global;
+    ELSE
+      -- Replace dots with underscores to match column names
+      notification_type_val := replace(notification_type_val, '.', '_');
+
+      -- Get type-specific preference
+      type_pref := prefs -> notification_type_val;
+
+      IF type_pref IS NULL THEN
+        -- If preference not found, default to enabled (with global check)
+        email_enabled := email_enabled_global;
+        push_enabled := push_enabled_global;
+      ELSE
+        -- Check if email and push are enabled for this notification type AND globally
+        email_enabled := email_enabled_global AND COALESCE((type_pref->>'email')::boolean, TRUE);
+        push_enabled := push_enabled_global AND COALESCE((type_pref->>'push')::boolean, TRUE);
+        email_frequency := COALESCE(type_pref->>'email_frequency', 'immediate');
+      END IF;
+    END IF;
+  END IF;
+
+  -- Queue for the user's digest instead of emailing now
+  IF email_enabled AND email_frequency IN ('daily', 'weekly') THEN
+    INSERT INTO email_digest_queue (notification_id, user_id, frequency)
+    VALUES (NEW.id, NEW.user_id, email_frequency);
+  -- Send email notification if enabled
+  ELSIF email_enabled THEN
+    BEGIN
+      PERFORM net.http_post(
+        url := get_project_url() || '/functions/v1/send-email-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || get_anon_key()
+        ),
+        body := jsonb_build_object(
+          'user_id', NEW.user_id,
+          'notification_id', NEW.id
+        )
+      );
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Log error but don't fail the transaction
+        RAISE WARNING 'Failed to send email notification: %', SQLERRM;
+    END;
+  END IF;
+
+  -- Send push notification if enabled
+  IF push_enabled THEN
+    BEGIN
+      PERFORM net.http_post(
+        url := get_project_url() || '/functions/v1/send-push-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || get_anon_key()
+        ),
+        body := jsonb_build_object(
+          'user_id', NEW.user_id,
+          'notification_id', NEW.id
+        )
+      );
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Log error but don't fail the transaction
+        RAISE WARNING 'Failed to send push notification: %', SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION deliver_notification IS 'Delivers notifications via push and email based on user preferences. Checks both global switches (push_enabled, email_enabled) and per-type preferences, and queues digest-frequency emails in email_digest_queue.';
+
+-- ============================================================================
+-- STEP 3: Digest job
+-- ============================================================================
+
+-- Sends one digest email per user with queued notifications of the given
+-- frequency, skipping notifications the user already read in the app.
+-- Returns the number of digests sent.
+CREATE OR REPLACE FUNCTION send_email_digests(p_frequency TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user RECORD;
+  v_digest_count INTEGER := 0;
+BEGIN
+  IF p_frequency NOT IN ('daily', 'weekly') THEN
+    RAISE EXCEPTION 'Unknown digest frequency: %', p_frequency
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_user IN
+    SELECT q.user_id,
+           array_agg(q.notification_id ORDER BY n.created_at) AS notification_ids
+    FROM email_digest_queue q
+    JOIN notifications n ON n.id = q.notification_id
+    WHERE q.frequency = p_frequency
+      AND n.read_at IS NULL
+    GROUP BY q.user_id
+  LOOP
+    BEGIN
+      PERFORM net.http_post(
+        url := get_project_url() || '/functions/v1/send-email-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || get_anon_key()
+        ),
+        body := jsonb_build_object(
+          'user_id', v_user.user_id,
+          'notification_ids', to_jsonb(v_user.notification_ids),
+          'digest', p_frequency
+        )
+      );
+
+      DELETE FROM email_digest_queue
+      WHERE notification_id = ANY(v_user.notification_ids);
+
+      v_digest_count := v_digest_count + 1;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Log error and keep the notifications queued for the next digest
+        RAISE WARNING 'Failed to send % email digest to %: %', p_frequency, v_user.user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  -- Notifications read in the app no longer need emailing
+  DELETE FROM email_digest_queue q
+  USING notifications n
+  WHERE n.id = q.notification_id
+    AND q.frequency = p_frequency
+    AND n.read_at IS NOT NULL;
+
+  RETURN v_digest_count;
+END;
+$$;
+
+-- Jobs run with elevated privileges, so they must not be callable by clients
+REVOKE EXECUTE ON FUNCTION send_email_digests FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION send_email_digests TO service_role;
+
+-- ============================================================================
+-- STEP 4: Schedule with pg_cron
+-- ============================================================================
+
+-- cron.schedule replaces an existing job with the same name
+SELECT cron.schedule(
+  'send-daily-email-digests',
+  '0 8 * * *', -- Every day at 08:00 UTC
+  $$SELECT public.send_email_digests('daily')$$
+);
+
+SELECT cron.schedule(
+  'send-weekly-email-digests',
+  '0 8 * * 1', -- Mondays at 08:00 UTC
+  $$SELECT public.send_email_digests('weekly')$$
+);
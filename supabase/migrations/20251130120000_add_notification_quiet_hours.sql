@@ -0,0 +1,348 @@
+-- ============================================================================
+-- Quiet hours for push notifications
+-- ============================================================================
+-- Users can set a daily quiet hours window in their local time. Push
+-- notifications created during the window are held in push_delivery_queue
+-- and sent when it ends. In-app notifications are still created immediately,
+-- and emails are unaffected.
+-- The window is read in notification_preferences.time_zone, falling back to
+-- the time zone of the first community the user joined, then UTC.
+
+-- ============================================================================
+-- STEP 1: Quiet hours preferences
+-- ============================================================================
+
+ALTER TABLE notification_preferences
+  ADD COLUMN quiet_hours_start TIME,
+  ADD COLUMN quiet_hours_end TIME,
+  ADD COLUMN time_zone TEXT,
+  ADD CONSTRAINT notification_preferences_quiet_hours_check
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+COMMENT ON COLUMN notification_preferences.quiet_hours_start IS 'Local time push notifications start being held; NULL when quiet hours are off';
+COMMENT ON COLUMN notification_preferences.quiet_hours_end IS 'Local time held push notifications are sent; may be earlier than the start for overnight windows';
+COMMENT ON COLUMN notification_preferences.time_zone IS 'IANA time zone for quiet hours; NULL uses the time zone of the user''s first community';
+
+-- ============================================================================
+-- STEP 2: Quiet hours lookup
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION notification_time_zone(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT time_zone
+     FROM notification_preferences
+     WHERE user_id = p_user_id),
+    (SELECT c.time_zone
+     FROM community_memberships cm
+     JOIN communities c ON c.id = cm.community_id
+     WHERE cm.user_id = p_user_id
+       AND c.time_zone IS NOT NULL
+     ORDER BY cm.created_at
+     LIMIT 1),
+    'UTC'
+  );
+$$;
+
+-- Returns when the user's current quiet hours window ends, or NULL when the
+-- given time is outside quiet hours
+CREATE OR REPLACE FUNCTION quiet_hours_end_at(
+  p_user_id UUID,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start TIME;
+  v_end TIME;
+  v_time_zone TEXT;
+  v_local TIMESTAMP;
+  v_local_time TIME;
+  v_end_local TIMESTAMP;
+BEGIN
+  SELECT quiet_hours_start, quiet_hours_end INTO v_start, v_end
+  FROM notification_preferences
+  WHERE user_id = p_user_id;
+
+  IF v_start IS NULL OR v_end IS NULL OR v_start = v_end THEN
+    RETURN NULL;
+  END IF;
+
+  v_time_zone := notification_time_zone(p_user_id);
+
+  BEGIN
+    v_local := p_at AT TIME ZONE v_time_zone;
+  EXCEPTION
+    WHEN invalid_parameter_value THEN
+      -- Unknown time zone names fall back to UTC
+      v_time_zone := 'UTC';
+      v_local := p_at AT TIME ZONE v_time_zone;
+  END;
+
+  v_local_time := v_local::time;
+  v_end_local := v_local::date + v_end;
+
+  IF v_start < v_end THEN
+    -- Same-day window, e.g. 13:00-15:00
+    IF v_local_time < v_start OR v_local_time >= v_end THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    -- Overnight window, e.g. 22:00-07:00
+    IF v_local_time >= v_end AND v_local_time < v_start THEN
+      RETURN NULL;
+    END IF;
+
+    IF v_local_time >= v_start THEN
+      v_end_local := v_end_local + INTERVAL '1 day';
+    END IF;
+  END IF;
+
+  RETURN v_end_local AT TIME ZONE v_time_zone;
+END;
+$$;
+
+-- Only the delivery trigger, job and edge function read other users' quiet hours
+REVOKE EXECUTE ON FUNCTION notification_time_zone(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION quiet_hours_end_at(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION quiet_hours_end_at(UUID, TIMESTAMPTZ) TO service_role;
+
+-- ============================================================================
+-- STEP 3: Held push queue
+-- ============================================================================
+
+CREATE TABLE push_delivery_queue (
+  notification_id UUID PRIMARY KEY REFERENCES notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  deliver_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_push_delivery_queue_deliver_at
+  ON push_delivery_queue(deliver_at);
+
+COMMENT ON TABLE push_delivery_queue IS 'Push notifications held until the end of the user''s quiet hours';
+
+-- Only the delivery job and edge function read the queue
+ALTER TABLE push_delivery_queue ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 4: Hold push notifications during quiet hours
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION deliver_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  notification_type_val TEXT;
+  prefs JSONB;
+  type_pref JSONB;
+  email_enabled BOOLEAN;
+  email_frequency TEXT := 'immediate';
+  push_enabled BOOLEAN;
+  push_enabled_global BOOLEAN;
+  email_enabled_global BOOLEAN;
+  push_held_until TIMESTAMPTZ;
+BEGIN
+  -- Get user preferences
+  SELECT to_jsonb(np.*) INTO prefs
+  FROM notification_preferences np
+  WHERE user_id = NEW.user_id;
+
+  -- If no preferences, default to enabled
+  IF prefs IS NULL THEN
+    email_enabled := TRUE;
+    push_enabled := TRUE;
+  ELSE
+    -- Check global push and email enabled flags
+    push_enabled_global := COALESCE((prefs->>'push_enabled')::boolean, TRUE);
+    email_enabled_global := COALESCE((prefs->>'email_enabled')::boolean, TRUE);
+
+    -- If both are disabled globally, short-circuit
+    IF push_enabled_global = FALSE AND email_enabled_global = FALSE THEN
+      RETURN NEW;
+    END IF;
+
+    -- Look up notification type from action
+    SELECT notification_type INTO notification_type_val
+    FROM action_to_notification_type_mapping
+    WHERE action = NEW.action;
+
+    -- Critical notifications always send if globally enabled
+    IF NEW.action = 'event.cancelled' THEN
+      email_enabled := email_enabled_global;
+      push_enabled := push_enabled_global;
+    ELSIF notification_type_val IS NULL THEN
+      -- If no mapping found, default to enabled (with global check)
+      email_enabled := email_enabled_global;
+      push_enabled := push_enabled_global;
+    ELSE
+      -- Replace dots with underscores to match column names
+      notification_type_val := replace(notification_type_val, '.', '_');
+
+      -- Get type-specific preference
+      type_pref := prefs -> notification_type_val;
+
+      IF type_pref IS NULL THEN
+        -- If preference not found, default to enabled (with global check)
+        email_enabled := email_enabled_global;
+        push_enabled := push_enabled_global;
+      ELSE
+        -- Check if email and push are enabled for this notification type AND globally
+        email_enabled := email_enabled_global AND COALESCE((type_pref->>'email')::boolean, TRUE);
+        push_enabled := push_enabled_global AND COALESCE((type_pref->>'push')::boolean, TRUE);
+        email_frequency := COALESCE(type_pref->>'email_frequency', 'immediate');
+      END IF;
+    END IF;
+
+    -- Quiet hours only apply to users with preferences
+    IF push_enabled THEN
+      push_held_until := quiet_hours_end_at(NEW.user_id);
+    END IF;
+  END IF;
+
+  -- Queue for the user's digest instead of emailing now
+  IF email_enabled AND email_frequency IN ('daily', 'weekly') THEN
+    INSERT INTO email_digest_queue (notification_id, user_id, frequency)
+    VALUES (NEW.id, NEW.user_id, email_frequency);
+  -- Send email notification if enabled
+  ELSIF email_enabled THEN
+    BEGIN
+      PERFORM net.http_post(
+        url := get_project_url() || '/functions/v1/send-email-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || get_anon_key()
+        ),
+        body := jsonb_build_object(
+          'user_id', NEW.user_id,
+          'notification_id', NEW.id
+        )
+      );
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Log error but don't fail the transaction
+        RAISE WARNING 'Failed to send email notification: %', SQLERRM;
+    END;
+  END IF;
+
+  -- Hold push notifications until quiet hours end
+  IF push_held_until IS NOT NULL THEN
+    INSERT INTO push_delivery_queue (notification_id, user_id, deliver_at)
+    VALUES (NEW.id, NEW.user_id, push_held_until);
+  -- Send push notification if enabled
+  ELSIF push_enabled THEN
+    BEGIN
+      PERFORM net.http_post(
+        url := get_project_url() || '/functions/v1/send-push-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || get_anon_key()
+        ),
+        body := jsonb_build_object(
+          'user_id', NEW.user_id,
+          'notification_id', NEW.id
+        )
+      );
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Log error but don't fail the transaction
+        RAISE WARNING 'Failed to send push notification: %', SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION deliver_notification IS 'Delivers notifications via push and email based on user preferences. Checks both global switches (push_enabled, email_enabled) and per-type preferences, queues digest-frequency emails in email_digest_queue and holds push notifications in push_delivery_queue during quiet hours.';
+
+-- ============================================================================
+-- STEP 5: Held push job
+-- ============================================================================
+
+-- Sends held push notifications whose quiet hours have ended. Notifications
+-- read in the app meanwhile are dropped, and ones whose user has since moved
+-- their quiet hours are held again. Returns the number of pushes sent.
+CREATE OR REPLACE FUNCTION send_held_push_notifications()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_held RECORD;
+  v_held_until TIMESTAMPTZ;
+  v_sent_count INTEGER := 0;
+BEGIN
+  DELETE FROM push_delivery_queue q
+  USING notifications n
+  WHERE n.id = q.notification_id
+    AND q.deliver_at <= NOW()
+    AND n.read_at IS NOT NULL;
+
+  FOR v_held IN
+    SELECT notification_id, user_id
+    FROM push_delivery_queue
+    WHERE deliver_at <= NOW()
+    ORDER BY deliver_at
+  LOOP
+    v_held_until := quiet_hours_end_at(v_held.user_id);
+
+    IF v_held_until IS NOT NULL THEN
+      UPDATE push_delivery_queue
+      SET deliver_at = v_held_until
+      WHERE notification_id = v_held.notification_id;
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      PERFORM net.http_post(
+        url := get_project_url() || '/functions/v1/send-push-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || get_anon_key()
+        ),
+        body := jsonb_build_object(
+          'user_id', v_held.user_id,
+          'notification_id', v_held.notification_id
+        )
+      );
+
+      DELETE FROM push_delivery_queue
+      WHERE notification_id = v_held.notification_id;
+
+      v_sent_count := v_sent_count + 1;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Log error and keep the push held for the next run
+        RAISE WARNING 'Failed to send held push notification %: %', v_held.notification_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_sent_count;
+END;
+$$;
+
+-- Jobs run with elevated privileges, so they must not be callable by clients
+REVOKE EXECUTE ON FUNCTION send_held_push_notifications FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION send_held_push_notifications TO service_role;
+
+-- ============================================================================
+-- STEP 6: Schedule with pg_cron
+-- ============================================================================
+
+-- cron.schedule replaces an existing job with the same name
+SELECT cron.schedule(
+  'send-held-push-notifications',
+  '*/5 * * * *', -- Every 5 minutes
+  $$SELECT public.send_held_push_notifications()$$
+);
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Captured notification deliveries
+-- ============================================================================
+-- With EMAIL_TRANSPORT=capture or PUSH_TRANSPORT=capture, the
+-- send-email-notification and send-push-notification edge functions record
+-- what they would have sent here instead of contacting Postmark, an SMTP
+-- server or push services. Integration tests assert on these rows.
+
+CREATE TABLE captured_notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'push')),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  notification_ids UUID[] NOT NULL DEFAULT '{}',
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  html_body TEXT,
+  payload JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_captured_notification_deliveries_user_id
+  ON captured_notification_deliveries(user_id, created_at);
+
+COMMENT ON TABLE captured_notification_deliveries IS 'Emails and pushes recorded by the capture transports instead of being sent';
+COMMENT ON COLUMN captured_notification_deliveries.recipient IS 'Email address, or push subscription endpoint';
+COMMENT ON COLUMN captured_notification_deliveries.payload IS 'Transport-specific details, such as the email template model or the push payload';
+
+-- Only the edge functions and tests (with the service role) use this table
+ALTER TABLE captured_notification_deliveries ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Publish notifications to realtime
+-- ============================================================================
+-- 20250921181434_update_notification_event_types dropped and recreated the
+-- notifications table, which removed it from the supabase_realtime
+-- publication. Without it the realtime notifications channel subscribes but
+-- never receives a change, and the hooks stop polling while it is connected.
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
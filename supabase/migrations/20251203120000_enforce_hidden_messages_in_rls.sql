@@ -0,0 +1,150 @@
+-- ============================================================================
+-- Enforce hidden messages and limit reports to community chats
+-- ============================================================================
+-- Messages hidden by moderation were only filtered out by the client, so
+-- members could still read them directly or over realtime. They are now only
+-- visible to their sender and the community's organizers.
+-- Direct conversation messages have no community, so nobody could review
+-- reports against them. Reporting is limited to community chat messages;
+-- members can block users they have direct conversations with instead.
+
+-- ============================================================================
+-- STEP 1: Hidden messages in the messages SELECT policy
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view messages in conversations they participate in" ON messages;
+
+CREATE POLICY "Users can view messages in conversations they participate in"
+ON messages FOR SELECT
+TO authenticated
+USING (
+  (
+    NOT is_hidden
+    OR sender_id = auth.uid()
+    OR (community_id IS NOT NULL AND is_community_organizer(community_id, auth.uid()))
+  )
+  AND (
+    (conversation_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM conversation_participants
+      WHERE conversation_participants.conversation_id = messages.conversation_id
+      AND conversation_participants.user_id = auth.uid()
+    ))
+    OR
+    (community_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM community_memberships
+      WHERE community_memberships.community_id = messages.community_id
+      AND community_memberships.user_id = auth.uid()
+    ))
+  )
+);
+
+-- ============================================================================
+-- STEP 2: Hidden messages in realtime broadcasts
+-- ============================================================================
+
+-- Broadcasts bypass RLS, so the content of a hidden message is never sent
+CREATE OR REPLACE FUNCTION public.broadcast_message_event()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+DECLARE
+  event_type TEXT;
+  message_content TEXT;
+BEGIN
+  -- Determine event type based on operation and content
+  IF TG_OP = 'INSERT' THEN
+    event_type := 'message.created';
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Check if message was soft-deleted
+    IF NEW.is_deleted = true AND OLD.is_deleted = false THEN
+      event_type := 'message.deleted';
+    ELSE
+      event_type := 'message.updated';
+    END IF;
+  END IF;
+
+  message_content := CASE WHEN NEW.is_hidden THEN NULL ELSE NEW.content END;
+
+  -- Send notifications to other conversation participants (not the sender)
+  -- Only for conversation messages, not community messages
+  IF NEW.conversation_id IS NOT NULL THEN
+    PERFORM realtime.send(
+      payload := jsonb_build_object(
+        'conversationId', NEW.conversation_id,
+        'messageId', NEW.id,
+        'senderId', NEW.sender_id,
+        'content', message_content,
+        'createdAt', NEW.created_at,
+        'eventType', event_type
+      ),
+      event := 'message.created',
+      topic := 'user:' || participant_id || ':notifications',
+      private := true
+    )
+    FROM (
+      SELECT user_id as participant_id
+      FROM conversation_participants
+      WHERE conversation_id = NEW.conversation_id
+      AND user_id != NEW.sender_id
+    ) participants;
+  END IF;
+
+  -- Send notifications to other community members (not the sender)
+  -- Only for community messages, not conversation messages
+  IF NEW.community_id IS NOT NULL THEN
+    PERFORM realtime.send(
+      payload := jsonb_build_object(
+        'communityId', NEW.community_id,
+        'messageId', NEW.id,
+        'senderId', NEW.sender_id,
+        'content', message_content,
+        'createdAt', NEW.created_at,
+        'eventType', event_type
+      ),
+      event := 'message.created',
+      topic := 'user:' || member_id || ':notifications',
+      private := true
+    )
+    FROM (
+      SELECT user_id as member_id
+      FROM community_memberships
+      WHERE community_id = NEW.community_id
+      AND user_id != NEW.sender_id
+    ) members;
+  END IF;
+
+  -- Return the appropriate record based on operation
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSE
+    RETURN NEW;
+  END IF;
+END;
+$function$;
+
+-- ============================================================================
+-- STEP 3: Only community chat messages can be reported
+-- ============================================================================
+
+-- Existing reports on direct messages can never be reviewed
+DELETE FROM message_reports WHERE community_id IS NULL;
+
+CREATE OR REPLACE FUNCTION set_message_report_community()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  SELECT community_id, conversation_id
+  INTO NEW.community_id, v_conversation_id
+  FROM messages
+  WHERE id = NEW.message_id;
+
+  IF v_conversation_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only community chat messages can be reported'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,72 @@
+-- ============================================================================
+-- Dequeue email digests only after delivery
+-- ============================================================================
+-- net.http_post only queues the request to send-email-notification, so
+-- send_email_digests cannot see whether a digest was delivered. It used to
+-- dequeue the notifications straight away, losing the digest when sending
+-- failed. send-email-notification now removes them from email_digest_queue
+-- once its transport confirms the email was sent; anything left is included
+-- in the next digest.
+
+CREATE OR REPLACE FUNCTION send_email_digests(p_frequency TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user RECORD;
+  v_digest_count INTEGER := 0;
+BEGIN
+  IF p_frequency NOT IN ('daily', 'weekly') THEN
+    RAISE EXCEPTION 'Unknown digest frequency: %', p_frequency
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Notifications read in the app no longer need emailing
+  DELETE FROM email_digest_queue q
+  USING notifications n
+  WHERE n.id = q.notification_id
+    AND q.frequency = p_frequency
+    AND n.read_at IS NOT NULL;
+
+  FOR v_user IN
+    SELECT q.user_id,
+           array_agg(q.notification_id ORDER BY n.created_at) AS notification_ids
+    FROM email_digest_queue q
+    JOIN notifications n ON n.id = q.notification_id
+    WHERE q.frequency = p_frequency
+    GROUP BY q.user_id
+  LOOP
+    BEGIN
+      -- The edge function dequeues the notifications once the email is sent
+      PERFORM net.http_post(
+        url := get_project_url() || '/functions/v1/send-email-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || get_anon_key()
+        ),
+        body := jsonb_build_object(
+          'user_id', v_user.user_id,
+          'notification_ids', to_jsonb(v_user.notification_ids),
+          'digest', p_frequency
+        )
+      );
+
+      v_digest_count := v_digest_count + 1;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- The request could not be queued; the notifications stay queued
+        RAISE WARNING 'Failed to request % email digest for %: %', p_frequency, v_user.user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_digest_count;
+END;
+$$;
+
+COMMENT ON FUNCTION send_email_digests IS 'Requests one digest email per user with queued, unread notifications of the given frequency. Returns the number of digests requested; send-email-notification dequeues notifications once their digest is sent.';
+
+-- Jobs run with elevated privileges, so they must not be callable by clients
+REVOKE EXECUTE ON FUNCTION send_email_digests FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION send_email_digests TO service_role;
@@ -0,0 +1,83 @@
+-- ============================================================================
+-- Derive the feed user on the server
+-- ============================================================================
+-- get_feed took the user from the client, so any caller could read another
+-- user's feed by passing their id. The feed is now always the authenticated
+-- user's.
+
+DROP FUNCTION IF EXISTS get_feed(UUID, INTEGER, TIMESTAMPTZ, UUID);
+
+-- Returns up to p_limit + 1 rows so the caller can tell whether another page exists.
+-- The cursor is the (created_at, id) of the last item of the previous page.
+CREATE OR REPLACE FUNCTION get_feed(
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  item_type TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+  WITH user_communities AS (
+    SELECT cm.community_id
+    FROM community_memberships cm
+    WHERE cm.user_id = auth.uid()
+  ),
+  feed_resources AS (
+    SELECT
+      r.id,
+      CASE WHEN r.type = 'event' THEN 'event' ELSE 'resource' END AS item_type,
+      r.created_at
+    FROM resources r
+    WHERE r.status IN ('voting', 'active')
+      AND is_resource_active(r.type, r.last_renewed_at)
+      AND EXISTS (
+        SELECT 1
+        FROM resource_communities rc
+        JOIN user_communities uc ON uc.community_id = rc.community_id
+        WHERE rc.resource_id = r.id
+      )
+      -- Events stay in the feed while at least one timeslot has not ended
+      -- (or when they have no timeslots at all)
+      AND (
+        r.type <> 'event'
+        OR NOT EXISTS (
+          SELECT 1 FROM resource_timeslots ts WHERE ts.resource_id = r.id
+        )
+        OR EXISTS (
+          SELECT 1
+          FROM resource_timeslots ts
+          WHERE ts.resource_id = r.id AND ts.end_time >= now()
+        )
+      )
+      AND (
+        p_cursor_created_at IS NULL
+        OR (r.created_at, r.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    ORDER BY r.created_at DESC, r.id DESC
+    LIMIT p_limit + 1
+  ),
+  feed_shoutouts AS (
+    SELECT
+      s.id,
+      'shoutout' AS item_type,
+      s.created_at
+    FROM shoutouts s
+    JOIN user_communities uc ON uc.community_id = s.community_id
+    WHERE p_cursor_created_at IS NULL
+      OR (s.created_at, s.id) < (p_cursor_created_at, p_cursor_id)
+    ORDER BY s.created_at DESC, s.id DESC
+    LIMIT p_limit + 1
+  )
+  SELECT items.id, items.item_type, items.created_at
+  FROM (
+    SELECT * FROM feed_resources
+    UNION ALL
+    SELECT * FROM feed_shoutouts
+  ) items
+  ORDER BY items.created_at DESC, items.id DESC
+  LIMIT p_limit + 1;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION get_feed FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_feed TO authenticated, service_role;
@@ -0,0 +1,255 @@
+-- ============================================================================
+-- Calendar feed subscriptions
+-- ============================================================================
+-- Calendar apps subscribe to a URL and poll it without signing in. Each user
+-- gets a secret feed token, and the calendar-feed edge function serves the
+-- user's feed as iCalendar to anyone holding that token.
+-- Timeslots also get a stored revision counter, used as the iCalendar
+-- SEQUENCE, so calendar apps can tell which copy of an event is newer.
+
+-- ============================================================================
+-- STEP 1: Timeslot revisions
+-- ============================================================================
+
+ALTER TABLE resource_timeslots
+  ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN resource_timeslots.sequence IS 'Revision counter, incremented whenever the timeslot or the details of its resource change';
+
+CREATE OR REPLACE FUNCTION increment_timeslot_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.sequence = OLD.sequence
+    AND (NEW.start_time, NEW.end_time, NEW.status)
+      IS DISTINCT FROM (OLD.start_time, OLD.end_time, OLD.status) THEN
+    NEW.sequence := OLD.sequence + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER increment_timeslot_sequence
+BEFORE UPDATE ON resource_timeslots
+FOR EACH ROW
+EXECUTE FUNCTION increment_timeslot_sequence();
+
+-- Calendar events show the resource's details, so changing them revises
+-- every timeslot of the resource
+CREATE OR REPLACE FUNCTION increment_resource_timeslot_sequences()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE resource_timeslots
+  SET sequence = sequence + 1
+  WHERE resource_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER increment_resource_timeslot_sequences
+AFTER UPDATE OF title, description, location_name, coordinates, status ON resources
+FOR EACH ROW
+WHEN (
+  (NEW.title, NEW.description, NEW.location_name, NEW.coordinates, NEW.status)
+    IS DISTINCT FROM
+  (OLD.title, OLD.description, OLD.location_name, OLD.coordinates, OLD.status)
+)
+EXECUTE FUNCTION increment_resource_timeslot_sequences();
+
+-- ============================================================================
+-- STEP 2: Feed events
+-- ============================================================================
+
+-- A user's calendar: timeslots they claimed, and the timeslots of events they
+-- own. Attended and completed claims keep past events in the calendar, and
+-- cancelled claims are kept so calendars that already have the event drop it.
+-- Proposed timeslots of events still being voted on are tentative.
+-- An owner's view of their own event wins over a claim on it.
+CREATE OR REPLACE FUNCTION calendar_feed_events(
+  p_user_id UUID,
+  p_since TIMESTAMPTZ
+)
+RETURNS TABLE (
+  timeslot_id UUID,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  title TEXT,
+  description TEXT,
+  location_name TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  status TEXT,
+  sequence INTEGER,
+  last_modified TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH owned AS (
+    SELECT
+      ts.id AS timeslot_id,
+      ts.start_time,
+      ts.end_time,
+      r.title,
+      r.description,
+      r.location_name,
+      ST_Y(r.coordinates) AS lat,
+      ST_X(r.coordinates) AS lng,
+      CASE
+        WHEN ts.status = 'cancelled' OR r.status = 'cancelled' THEN 'CANCELLED'
+        WHEN ts.status = 'proposed' THEN 'TENTATIVE'
+        ELSE 'CONFIRMED'
+      END AS status,
+      ts.sequence,
+      GREATEST(r.updated_at, ts.updated_at) AS last_modified
+    FROM resource_timeslots ts
+    JOIN resources r ON r.id = ts.resource_id
+    WHERE r.owner_id = p_user_id
+      AND r.type = 'event'
+      AND ts.end_time >= p_since
+  ),
+  claimed AS (
+    SELECT DISTINCT ON (ts.id)
+      ts.id AS timeslot_id,
+      ts.start_time,
+      ts.end_time,
+      r.title,
+      r.description,
+      r.location_name,
+      ST_Y(r.coordinates) AS lat,
+      ST_X(r.coordinates) AS lng,
+      CASE
+        WHEN c.status = 'cancelled' OR ts.status = 'cancelled' OR r.status = 'cancelled' THEN 'CANCELLED'
+        WHEN ts.status = 'proposed' THEN 'TENTATIVE'
+        ELSE 'CONFIRMED'
+      END AS status,
+      -- Cancelling a claim revises the event for this user only
+      ts.sequence + CASE WHEN c.status = 'cancelled' THEN 1 ELSE 0 END AS sequence,
+      GREATEST(r.updated_at, ts.updated_at, c.updated_at) AS last_modified
+    FROM resource_claims c
+    JOIN resource_timeslots ts ON ts.id = c.timeslot_id
+    JOIN resources r ON r.id = ts.resource_id
+    WHERE c.claimant_id = p_user_id
+      AND c.status IN ('approved', 'going', 'attended', 'completed', 'cancelled')
+      AND ts.end_time >= p_since
+      AND NOT EXISTS (SELECT 1 FROM owned o WHERE o.timeslot_id = ts.id)
+    ORDER BY ts.id, c.updated_at DESC
+  )
+  SELECT * FROM owned
+  UNION ALL
+  SELECT * FROM claimed
+  ORDER BY start_time;
+$$;
+
+REVOKE EXECUTE ON FUNCTION calendar_feed_events(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION calendar_feed_events(UUID, TIMESTAMPTZ) TO service_role;
+
+-- The signed-in user's feed, for downloading it in the app
+CREATE OR REPLACE FUNCTION get_calendar_feed_events(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  timeslot_id UUID,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  title TEXT,
+  description TEXT,
+  location_name TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  status TEXT,
+  sequence INTEGER,
+  last_modified TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM calendar_feed_events(auth.uid(), p_since);
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_calendar_feed_events(TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_events(TIMESTAMPTZ) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 3: Feed tokens
+-- ============================================================================
+
+CREATE TABLE calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE calendar_feed_tokens IS 'Secret tokens in calendar subscription URLs; anyone with a token can read that user''s calendar feed';
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feed token"
+ON calendar_feed_tokens FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+GRANT SELECT ON calendar_feed_tokens TO authenticated;
+GRANT ALL ON calendar_feed_tokens TO service_role;
+
+-- Returns the signed-in user's feed token, creating it on first use
+CREATE OR REPLACE FUNCTION get_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT token INTO v_token
+  FROM calendar_feed_tokens
+  WHERE user_id = auth.uid();
+
+  RETURN v_token;
+END;
+$$;
+
+-- Replaces the signed-in user's feed token, so existing subscription URLs
+-- stop working
+CREATE OR REPLACE FUNCTION reset_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = encode(extensions.gen_random_bytes(24), 'hex'),
+      created_at = NOW()
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_calendar_feed_token() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reset_calendar_feed_token() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_calendar_feed_token() TO authenticated;
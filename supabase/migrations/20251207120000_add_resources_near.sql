@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Filter nearby resources in the database
+-- ============================================================================
+-- resources_within_distance only returns IDs, so callers passed every ID in
+-- the radius back to PostgREST in an `id=in.(...)` filter, with no limit.
+-- resources_near returns the rows themselves, so the distance filter, the
+-- attribute filters, embedding and the limit all run in one request.
+
+-- Resources with coordinates within p_radius_km of the given point, nearest first
+CREATE OR REPLACE FUNCTION resources_near(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION
+) RETURNS SETOF resources AS $$
+  SELECT r.*
+  FROM resources r
+  WHERE r.coordinates IS NOT NULL
+    AND ST_DWithin(
+      r.coordinates::geography,
+      ST_SetSRID(ST_Point(p_lng, p_lat), 4326)::geography,
+      p_radius_km * 1000.0
+    )
+  ORDER BY
+    ST_Distance(
+      r.coordinates::geography,
+      ST_SetSRID(ST_Point(p_lng, p_lat), 4326)::geography
+    ) ASC,
+    r.id ASC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION resources_near TO anon, authenticated, service_role;
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Enforce player powers by default
+-- ============================================================================
+-- enforce_player_powers defaulted to false, so new communities did not
+-- enforce player powers unless they opted in. Enforce them in new communities
+-- unless they opt out. Existing communities keep their setting, so their
+-- members do not suddenly lose actions they could take before; each can opt
+-- in on its own.
+
+ALTER TABLE communities
+  ALTER COLUMN enforce_player_powers SET DEFAULT true;
+
+COMMENT ON COLUMN communities.enforce_player_powers IS 'When true (the default for new communities), gated actions in this community require the player level that unlocks them';
@@ -0,0 +1,7 @@
+-- ============================================================================
+-- Drop resources_within_distance
+-- ============================================================================
+-- Nearby resources are fetched with resources_near, so nothing calls
+-- resources_within_distance anymore.
+
+DROP FUNCTION IF EXISTS resources_within_distance(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
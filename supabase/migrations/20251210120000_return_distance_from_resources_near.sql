@@ -0,0 +1,93 @@
+-- ============================================================================
+-- Return the distance from resources_near
+-- ============================================================================
+-- resources_near ordered resources by their PostGIS distance but returned
+-- plain resources rows, so clients computed the distance again themselves.
+-- It now returns nearby_resources rows, resources rows with distance_km, so
+-- the order and the distance shown come from the same calculation.
+
+-- ============================================================================
+-- STEP 1: Row type
+-- ============================================================================
+
+-- Only describes the rows resources_near returns and never has rows of its
+-- own. PostgREST traces its columns back to resources, so communities,
+-- timeslots and claims can still be embedded. LIMIT keeps it read-only.
+CREATE VIEW nearby_resources
+WITH (security_invoker = true) AS
+SELECT
+  r.*,
+  NULL::DOUBLE PRECISION AS distance_km
+FROM resources r
+LIMIT 0;
+
+REVOKE ALL ON nearby_resources FROM anon, authenticated;
+GRANT SELECT ON nearby_resources TO anon, authenticated, service_role;
+
+-- The computed columns that resource queries select and filter on
+CREATE OR REPLACE FUNCTION expires_at(nearby_resources)
+RETURNS timestamp with time zone
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT calculate_resource_expiration($1.type, $1.last_renewed_at);
+$$;
+
+CREATE OR REPLACE FUNCTION search_vector(nearby_resources)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce($1.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce($1.description, '')), 'B');
+$$;
+
+CREATE OR REPLACE FUNCTION has_available_slots(nearby_resources)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT has_available_slots(r)
+  FROM resources r
+  WHERE r.id = $1.id;
+$$;
+
+COMMENT ON FUNCTION expires_at(nearby_resources) IS 'Returns expiration timestamp for resources that auto-expire, null for events';
+COMMENT ON FUNCTION has_available_slots(nearby_resources) IS '@return_type_nullable false';
+
+GRANT EXECUTE ON FUNCTION expires_at(nearby_resources) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION search_vector(nearby_resources) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION has_available_slots(nearby_resources) TO anon, authenticated, service_role;
+
+-- ============================================================================
+-- STEP 2: resources_near
+-- ============================================================================
+
+-- The return type changes, so the function is recreated
+DROP FUNCTION resources_near(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+
+-- Resources with coordinates within p_radius_km of the given point, nearest
+-- first, with their distance in kilometers
+CREATE FUNCTION resources_near(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION
+) RETURNS SETOF nearby_resources AS $$
+  SELECT
+    r.*,
+    ST_Distance(
+      r.coordinates::geography,
+      ST_SetSRID(ST_Point(p_lng, p_lat), 4326)::geography
+    ) / 1000.0 AS distance_km
+  FROM resources r
+  WHERE r.coordinates IS NOT NULL
+    AND ST_DWithin(
+      r.coordinates::geography,
+      ST_SetSRID(ST_Point(p_lng, p_lat), 4326)::geography,
+      p_radius_km * 1000.0
+    )
+  ORDER BY distance_km ASC, r.id ASC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION resources_near TO anon, authenticated, service_role;
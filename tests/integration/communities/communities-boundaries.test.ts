@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import { createTestUser, TEST_PREFIX } from '../helpers/test-data';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import * as api from '@/features/communities/api';
+import { createFakeCommunityInput } from '@/features/communities/__fakes__';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { CommunityBoundary } from '@/features/communities/types';
+
+// Remote coordinates so other test communities never contain these points
+const CENTER = { lng: -150.5, lat: 60.5 };
+
+describe('Communities API - Custom and Radius Boundaries', () => {
+  let supabase: SupabaseClient<Database>;
+
+  async function createBoundedCommunity(boundary: CommunityBoundary) {
+    return api.createCommunity(
+      supabase,
+      createFakeCommunityInput({
+        name: `${TEST_PREFIX}Boundary_${Date.now()}`,
+        type: 'close',
+        center: CENTER,
+        boundary,
+      }),
+    );
+  }
+
+  async function communityIdsContaining(lng: number, lat: number) {
+    const { data, error } = await supabase.rpc('communities_containing_point', {
+      lat,
+      lng,
+    });
+    if (error) throw error;
+    return (data ?? []).map((row) => row.id);
+  }
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+    await createTestUser(supabase);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('finds points inside a custom polygon but not inside its hole', async () => {
+    const community = await createBoundedCommunity({
+      type: 'custom',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-151, 60],
+            [-150, 60],
+            [-150, 61],
+            [-151, 61],
+            [-151, 60],
+          ],
+          [
+            [-150.6, 60.4],
+            [-150.4, 60.4],
+            [-150.4, 60.6],
+            [-150.6, 60.6],
+            [-150.6, 60.4],
+          ],
+        ],
+      },
+    });
+
+    expect(community?.boundary).toMatchObject({ type: 'custom' });
+    expect(await communityIdsContaining(-150.8, 60.8)).toContain(community!.id);
+    expect(await communityIdsContaining(-150.5, 60.5)).not.toContain(
+      community!.id,
+    );
+  });
+
+  it('finds points inside any polygon of a multipolygon', async () => {
+    const community = await createBoundedCommunity({
+      type: 'custom',
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            [
+              [-152, 62],
+              [-151.5, 62],
+              [-151.5, 62.5],
+              [-152, 62.5],
+              [-152, 62],
+            ],
+          ],
+          [
+            [
+              [-149, 62],
+              [-148.5, 62],
+              [-148.5, 62.5],
+              [-149, 62.5],
+              [-149, 62],
+            ],
+          ],
+        ],
+      },
+    });
+
+    expect(await communityIdsContaining(-151.8, 62.2)).toContain(community!.id);
+    expect(await communityIdsContaining(-148.8, 62.2)).toContain(community!.id);
+    expect(await communityIdsContaining(-150, 62.2)).not.toContain(
+      community!.id,
+    );
+  });
+
+  it('finds points within the radius of the community center', async () => {
+    const community = await createBoundedCommunity({
+      type: 'radius',
+      radiusKm: 5,
+    });
+
+    // ~2.2 km and ~11 km north of the center
+    expect(
+      await communityIdsContaining(CENTER.lng, CENTER.lat + 0.02),
+    ).toContain(community!.id);
+    expect(
+      await communityIdsContaining(CENTER.lng, CENTER.lat + 0.1),
+    ).not.toContain(community!.id);
+  });
+
+  it('rejects self-intersecting custom boundaries', async () => {
+    await expect(
+      createBoundedCommunity({
+        type: 'custom',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [-151, 60],
+              [-150, 61],
+              [-150, 60],
+              [-151, 61],
+              [-151, 60],
+            ],
+          ],
+        },
+      }),
+    ).rejects.toThrow(/Invalid custom boundary/);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import { createTestUser, createTestCommunity } from '../helpers/test-data';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import * as api from '@/features/communities/api';
+import { signIn } from '@/features/auth/api';
+import { getInvitationCode } from '@/features/invitations/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Community } from '@/features/communities/types';
+
+describe('Communities API - Membership Requests', () => {
+  let supabase: SupabaseClient<Database>;
+  let founder: Account;
+  let approvedUser: Account;
+  let rejectedUser: Account;
+  let community: Community;
+
+  const isMember = async (userId: string) => {
+    const memberships = await api.fetchCommunityMemberships(
+      supabase,
+      community.id,
+    );
+    return memberships.some((m) => m.userId === userId);
+  };
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+
+    // Founder creates the community (automatically signed in)
+    founder = await createTestUser(supabase);
+    community = await createTestCommunity(supabase);
+    await api.updateCommunity(supabase, {
+      id: community.id,
+      joinPolicy: 'request',
+    });
+
+    approvedUser = await createTestUser(supabase);
+    rejectedUser = await createTestUser(supabase);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('does not let users join a request-only community directly', async () => {
+    await signIn(supabase, approvedUser.email, 'TestPass123!');
+
+    await expect(
+      api.joinCommunity(supabase, approvedUser.id, community.id),
+    ).rejects.toThrow();
+  });
+
+  it('creates one pending request per user and notifies organizers', async () => {
+    await signIn(supabase, approvedUser.email, 'TestPass123!');
+
+    const request = await api.requestToJoinCommunity(supabase, {
+      communityId: community.id,
+      message: 'I live down the street',
+    });
+    expect(request.status).toBe('pending');
+    expect(request.userId).toBe(approvedUser.id);
+
+    await expect(
+      api.requestToJoinCommunity(supabase, { communityId: community.id }),
+    ).rejects.toThrow();
+
+    await signIn(supabase, founder.email, 'TestPass123!');
+    const { data } = await supabase
+      .from('notifications')
+      .select('action, actor_id')
+      .eq('community_id', community.id)
+      .eq('action', 'membership.requested');
+
+    expect(data).toEqual([
+      { action: 'membership.requested', actor_id: approvedUser.id },
+    ]);
+  });
+
+  it('does not let requesters review their own request', async () => {
+    await signIn(supabase, approvedUser.email, 'TestPass123!');
+    const [request] = await api.fetchPendingMembershipRequests(
+      supabase,
+      community.id,
+    );
+
+    await expect(
+      api.reviewMembershipRequest(supabase, {
+        requestId: request.id,
+        status: 'approved',
+      }),
+    ).rejects.toThrow();
+  });
+
+  it('adds the requester as a member when an organizer approves', async () => {
+    await signIn(supabase, founder.email, 'TestPass123!');
+    const [request] = await api.fetchPendingMembershipRequests(
+      supabase,
+      community.id,
+    );
+
+    const reviewed = await api.reviewMembershipRequest(supabase, {
+      requestId: request.id,
+      status: 'approved',
+    });
+
+    expect(reviewed.status).toBe('approved');
+    expect(reviewed.reviewedBy).toBe(founder.id);
+    expect(await isMember(approvedUser.id)).toBe(true);
+    expect(
+      await api.fetchPendingMembershipRequests(supabase, community.id),
+    ).toEqual([]);
+
+    await signIn(supabase, approvedUser.email, 'TestPass123!');
+    const { data } = await supabase
+      .from('notifications')
+      .select('action, actor_id')
+      .eq('community_id', community.id)
+      .eq('action', 'membership.approved');
+
+    expect(data).toEqual([
+      { action: 'membership.approved', actor_id: founder.id },
+    ]);
+  });
+
+  it('does not add the requester when an organizer rejects', async () => {
+    await signIn(supabase, rejectedUser.email, 'TestPass123!');
+    const request = await api.requestToJoinCommunity(supabase, {
+      communityId: community.id,
+    });
+
+    await signIn(supabase, founder.email, 'TestPass123!');
+    const reviewed = await api.reviewMembershipRequest(supabase, {
+      requestId: request.id,
+      status: 'rejected',
+    });
+
+    expect(reviewed.status).toBe('rejected');
+    expect(await isMember(rejectedUser.id)).toBe(false);
+  });
+
+  it('only lets users into invite-only communities with a code', async () => {
+    await signIn(supabase, founder.email, 'TestPass123!');
+    await api.updateCommunity(supabase, {
+      id: community.id,
+      joinPolicy: 'invite_only',
+    });
+    const code = await getInvitationCode(supabase, founder.id, community.id);
+
+    await signIn(supabase, rejectedUser.email, 'TestPass123!');
+    await expect(
+      api.joinCommunity(supabase, rejectedUser.id, community.id),
+    ).rejects.toThrow();
+    await expect(
+      api.requestToJoinCommunity(supabase, { communityId: community.id }),
+    ).rejects.toThrow();
+
+    const membership = await api.joinCommunityWithCode(
+      supabase,
+      rejectedUser.id,
+      code.code,
+    );
+    expect(membership.userId).toBe(rejectedUser.id);
+    expect(membership.role).toBe('member');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import { createTestUser, createTestCommunity } from '../helpers/test-data';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import * as api from '@/features/communities/api';
+import { signIn } from '@/features/auth/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Community } from '@/features/communities/types';
+
+describe('Communities API - Role Management', () => {
+  let supabase: SupabaseClient<Database>;
+  let founder: Account;
+  let organizer: Account;
+  let member: Account;
+  let community: Community;
+
+  const roleOf = async (userId: string) => {
+    const memberships = await api.fetchCommunityMemberships(
+      supabase,
+      community.id,
+    );
+    return memberships.find((m) => m.userId === userId)?.role;
+  };
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+
+    // Founder creates the community (automatically signed in)
+    founder = await createTestUser(supabase);
+    community = await createTestCommunity(supabase);
+
+    organizer = await createTestUser(supabase);
+    await api.joinCommunity(supabase, organizer.id, community.id);
+
+    member = await createTestUser(supabase);
+    await api.joinCommunity(supabase, member.id, community.id);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('does not let members change roles', async () => {
+    await signIn(supabase, member.email, 'TestPass123!');
+
+    await expect(
+      api.updateMemberRole(supabase, community.id, organizer.id, 'organizer'),
+    ).rejects.toThrow();
+    expect(await roleOf(organizer.id)).toBe('member');
+  });
+
+  it('lets the founder promote a member to organizer', async () => {
+    await signIn(supabase, founder.email, 'TestPass123!');
+
+    const membership = await api.updateMemberRole(
+      supabase,
+      community.id,
+      organizer.id,
+      'organizer',
+    );
+
+    expect(membership.role).toBe('organizer');
+  });
+
+  it('notifies the member whose role changed', async () => {
+    await signIn(supabase, organizer.email, 'TestPass123!');
+
+    const { data } = await supabase
+      .from('notifications')
+      .select('action, actor_id')
+      .eq('community_id', community.id)
+      .eq('action', 'member.role_changed');
+
+    expect(data).toEqual([
+      { action: 'member.role_changed', actor_id: founder.id },
+    ]);
+  });
+
+  it('does not let organizers change anything but the role', async () => {
+    const outsider = await createTestUser(supabase);
+
+    await signIn(supabase, organizer.email, 'TestPass123!');
+    const { error } = await supabase
+      .from('community_memberships')
+      .update({ user_id: outsider.id })
+      .eq('community_id', community.id)
+      .eq('user_id', member.id);
+
+    expect(error).not.toBeNull();
+    expect(await roleOf(outsider.id)).toBeUndefined();
+    expect(await roleOf(member.id)).toBe('member');
+  });
+
+  it('does not let organizers demote or remove the founder', async () => {
+    await signIn(supabase, organizer.email, 'TestPass123!');
+
+    await expect(
+      api.updateMemberRole(supabase, community.id, founder.id, 'member'),
+    ).rejects.toThrow();
+    await expect(
+      api.removeMember(supabase, community.id, founder.id),
+    ).rejects.toThrow();
+    expect(await roleOf(founder.id)).toBe('founder');
+  });
+
+  it('does not let the last founder step down', async () => {
+    await signIn(supabase, founder.email, 'TestPass123!');
+
+    await expect(
+      api.updateMemberRole(supabase, community.id, founder.id, 'organizer'),
+    ).rejects.toThrow();
+    await expect(
+      api.leaveCommunity(supabase, founder.id, community.id),
+    ).rejects.toThrow();
+  });
+
+  it('lets organizers remove members and notifies them', async () => {
+    await signIn(supabase, organizer.email, 'TestPass123!');
+
+    await api.removeMember(supabase, community.id, member.id);
+    expect(await roleOf(member.id)).toBeUndefined();
+
+    await signIn(supabase, member.email, 'TestPass123!');
+    const { data } = await supabase
+      .from('notifications')
+      .select('action, actor_id')
+      .eq('community_id', community.id)
+      .eq('action', 'member.removed');
+
+    expect(data).toEqual([
+      { action: 'member.removed', actor_id: organizer.id },
+    ]);
+  });
+
+  it('transfers foundership and demotes the previous founder', async () => {
+    await signIn(supabase, founder.email, 'TestPass123!');
+
+    await api.transferFoundership(supabase, community.id, organizer.id);
+
+    expect(await roleOf(organizer.id)).toBe('founder');
+    expect(await roleOf(founder.id)).toBe('organizer');
+  });
+
+  it('does not let non-founders transfer foundership', async () => {
+    await signIn(supabase, founder.email, 'TestPass123!');
+
+    await expect(
+      api.transferFoundership(supabase, community.id, founder.id),
+    ).rejects.toThrow();
+  });
+});
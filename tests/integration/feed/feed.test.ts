@@ -357,4 +357,37 @@ describe('Feed API - Integration Tests', () => {
       });
     });
   });
+
+  describe('pagination', () => {
+    beforeAll(async () => {
+      await signIn(supabase, testUser.email, 'TestPass123!');
+    });
+
+    it('pages through the feed without skipping or repeating items', async () => {
+      const fullFeed = await fetchFeed(supabase, testUser.id, { limit: 100 });
+
+      const pagedItems = [];
+      let cursor: string | undefined;
+      do {
+        const page = await fetchFeed(supabase, testUser.id, {
+          cursor,
+          limit: 2,
+        });
+        expect(page.items.length).toBeLessThanOrEqual(2);
+        pagedItems.push(...page.items);
+        cursor = page.nextCursor;
+        expect(page.hasMore).toBe(!!cursor);
+      } while (cursor);
+
+      expect(pagedItems).toEqual(fullFeed.items);
+    });
+
+    it('reports hasMore when more items exist than the page size', async () => {
+      const feed = await fetchFeed(supabase, testUser.id, { limit: 1 });
+
+      expect(feed.items).toHaveLength(1);
+      expect(feed.hasMore).toBe(true);
+      expect(feed.nextCursor).toBeDefined();
+    });
+  });
 });
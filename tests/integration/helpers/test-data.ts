@@ -53,6 +53,8 @@ export async function createTestCommunity(supabase: SupabaseClient<Database>) {
   const data = createFakeCommunityInput({
     name: `${TEST_PREFIX}Community_${Date.now()}`,
     description: `${TEST_PREFIX} test community`,
+    // Most tests use new users below the levels that unlock gated actions
+    enforcePlayerPowers: false,
   });
 
   const community = await createCommunity(supabase, data);
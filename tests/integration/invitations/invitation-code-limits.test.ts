@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient, createServiceClient } from '../helpers/test-client';
+import {
+  createTestUser,
+  createTestCommunity,
+  TEST_PREFIX,
+} from '../helpers/test-data';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import { signIn, signUp } from '@/features/auth/api';
+import {
+  fetchCommunityMemberships,
+  joinCommunity,
+  joinCommunityWithCode,
+  updateMemberRole,
+} from '@/features/communities/api';
+import * as invitationsApi from '@/features/invitations/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Community } from '@/features/communities';
+import type { Account } from '@/features/auth/types';
+import { faker } from '@faker-js/faker';
+
+describe('Invitation Codes - Limits', () => {
+  let supabase: SupabaseClient<Database>;
+  let organizer: Account;
+  let member: Account;
+  let community: Community;
+
+  const roleOf = async (userId: string) => {
+    const memberships = await fetchCommunityMemberships(supabase, community.id);
+    return memberships.find((m) => m.userId === userId)?.role;
+  };
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+
+    // Organizer creates the community (automatically signed in)
+    organizer = await createTestUser(supabase);
+    community = await createTestCommunity(supabase);
+
+    member = await createTestUser(supabase);
+    await joinCommunity(supabase, member.id, community.id);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('stops admitting members once a code is used up', async () => {
+    await signIn(supabase, member.email, 'TestPass123!');
+    const invitationCode = await invitationsApi.createInvitationCode(supabase, {
+      communityId: community.id,
+      maxUses: 1,
+    });
+    expect(invitationCode.isPersonal).toBe(false);
+    expect(invitationCode.maxUses).toBe(1);
+
+    const first = await createTestUser(supabase);
+    await joinCommunityWithCode(supabase, first.id, invitationCode.code);
+
+    const second = await createTestUser(supabase);
+    await expect(
+      joinCommunityWithCode(supabase, second.id, invitationCode.code),
+    ).rejects.toThrow();
+
+    await signIn(supabase, member.email, 'TestPass123!');
+    const redemptions = await invitationsApi.fetchInvitationCodeRedemptions(
+      supabase,
+      invitationCode.code,
+    );
+    expect(redemptions.map((r) => r.userId)).toEqual([first.id]);
+
+    const [listed] = await invitationsApi.fetchInvitationCodes(supabase, {
+      communityId: community.id,
+      userId: member.id,
+    });
+    expect(listed.useCount).toBe(1);
+  });
+
+  it('keeps personal codes separate from minted codes', async () => {
+    await signIn(supabase, member.email, 'TestPass123!');
+
+    const personalCode = await invitationsApi.getInvitationCode(
+      supabase,
+      member.id,
+      community.id,
+    );
+
+    expect(personalCode.isPersonal).toBe(true);
+    expect(personalCode.maxUses).toBeUndefined();
+  });
+
+  it('rejects expired codes on join and on signup', async () => {
+    await signIn(supabase, member.email, 'TestPass123!');
+    const invitationCode = await invitationsApi.createInvitationCode(supabase, {
+      communityId: community.id,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+
+    // Move the expiry into the past
+    await createServiceClient()
+      .from('invitation_codes')
+      .update({ expires_at: new Date(Date.now() - 1000).toISOString() })
+      .eq('code', invitationCode.code);
+
+    const joiner = await createTestUser(supabase);
+    await expect(
+      joinCommunityWithCode(supabase, joiner.id, invitationCode.code),
+    ).rejects.toThrow();
+
+    const newUser = await signUp(
+      createTestClient(),
+      `${TEST_PREFIX}${faker.internet.email()}`,
+      'TestPass123!',
+      faker.person.firstName(),
+      faker.person.lastName(),
+      invitationCode.code,
+    );
+
+    await signIn(supabase, organizer.email, 'TestPass123!');
+    expect(await roleOf(newUser.id)).toBeUndefined();
+  });
+
+  it('admits members with the role of the code', async () => {
+    await signIn(supabase, member.email, 'TestPass123!');
+    await expect(
+      invitationsApi.createInvitationCode(supabase, {
+        communityId: community.id,
+        role: 'organizer',
+      }),
+    ).rejects.toThrow();
+
+    await signIn(supabase, organizer.email, 'TestPass123!');
+    const invitationCode = await invitationsApi.createInvitationCode(supabase, {
+      communityId: community.id,
+      role: 'organizer',
+    });
+
+    const joiner = await createTestUser(supabase);
+    const membership = await joinCommunityWithCode(
+      supabase,
+      joiner.id,
+      invitationCode.code,
+    );
+
+    expect(membership.role).toBe('organizer');
+  });
+
+  it('stops granting organizer once the code creator is demoted', async () => {
+    const creator = await createTestUser(supabase);
+    await joinCommunity(supabase, creator.id, community.id);
+
+    await signIn(supabase, organizer.email, 'TestPass123!');
+    await updateMemberRole(supabase, community.id, creator.id, 'organizer');
+
+    await signIn(supabase, creator.email, 'TestPass123!');
+    const invitationCode = await invitationsApi.createInvitationCode(supabase, {
+      communityId: community.id,
+      role: 'organizer',
+    });
+
+    await signIn(supabase, organizer.email, 'TestPass123!');
+    await updateMemberRole(supabase, community.id, creator.id, 'member');
+
+    const joiner = await createTestUser(supabase);
+    const membership = await joinCommunityWithCode(
+      supabase,
+      joiner.id,
+      invitationCode.code,
+    );
+
+    expect(membership.role).toBe('member');
+  });
+
+  it('lets organizers revoke codes minted by members', async () => {
+    await signIn(supabase, member.email, 'TestPass123!');
+    const invitationCode = await invitationsApi.createInvitationCode(supabase, {
+      communityId: community.id,
+    });
+
+    await signIn(supabase, organizer.email, 'TestPass123!');
+    const revoked = await invitationsApi.revokeInvitationCode(
+      supabase,
+      invitationCode.code,
+    );
+    expect(revoked.isActive).toBe(false);
+
+    const joiner = await createTestUser(supabase);
+    await expect(
+      joinCommunityWithCode(supabase, joiner.id, invitationCode.code),
+    ).rejects.toThrow();
+  });
+});
@@ -76,7 +76,7 @@ describe('Community Conversations Integration', () => {
 
       // Verify both messages exist in the conversation
       await signInAsUser(supabase, userA);
-      const messages = await api.fetchMessages(supabase, {
+      const { messages } = await api.fetchMessages(supabase, {
         communityId: community.id,
       });
 
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import { createTestUser, TEST_PREFIX } from '../helpers/test-data';
+import {
+  setupMessagingUsers,
+  createTestConversation,
+  signInAsUser,
+} from './messaging-helpers';
+import { createTestImageFile } from '../images/image-helpers-optimized';
+import { uploadImage } from '@/features/images/api';
+import * as api from '@/features/messaging/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Conversation, Message } from '@/features/messaging/types';
+
+describe('Message Images', () => {
+  let supabase: SupabaseClient<Database>;
+  let userA: Account;
+  let userB: Account;
+  let outsider: Account;
+  let conversation: Conversation;
+  let message: Message;
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+
+    const setup = await setupMessagingUsers(supabase);
+    userA = setup.userA;
+    userB = setup.userB;
+    conversation = await createTestConversation(supabase, userB.id);
+
+    outsider = await createTestUser(supabase);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('commits uploaded images under the message id', async () => {
+    await signInAsUser(supabase, userA);
+    const tempUrl = await uploadImage({
+      supabase,
+      file: createTestImageFile({ name: `${TEST_PREFIX}message-image.jpg` }),
+    });
+
+    message = await api.sendMessage(supabase, userA.id, {
+      conversationId: conversation.id,
+      content: '',
+      imageUrls: [tempUrl],
+    });
+
+    expect(message.imagePaths).toHaveLength(1);
+    expect(message.imagePaths[0]).toMatch(
+      new RegExp(`^${userA.id}/message-${message.id}-`),
+    );
+  });
+
+  it('signs image URLs for conversation participants', async () => {
+    await signInAsUser(supabase, userB);
+
+    const urls = await api.fetchMessageImageUrls(supabase, message.imagePaths);
+
+    expect(urls).toHaveLength(1);
+    expect(urls[0]).toContain('/message-images/');
+  });
+
+  it('does not sign image URLs for users outside the conversation', async () => {
+    await signInAsUser(supabase, outsider);
+
+    const urls = await api
+      .fetchMessageImageUrls(supabase, message.imagePaths)
+      .catch(() => []);
+
+    expect(urls).toEqual([]);
+  });
+});
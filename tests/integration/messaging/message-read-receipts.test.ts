@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import { TEST_PREFIX } from '../helpers/test-data';
+import {
+  setupMessagingUsers,
+  createTestConversation,
+  sendTestMessage,
+  signInAsUser,
+} from './messaging-helpers';
+import * as api from '@/features/messaging/api';
+import { updateUser } from '@/features/users/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Conversation, Message } from '@/features/messaging/types';
+
+describe('Message Read Receipts', () => {
+  let supabase: SupabaseClient<Database>;
+  let userA: Account;
+  let userB: Account;
+  let conversation: Conversation;
+
+  const statusOf = async (message: Message) => {
+    const page = await api.fetchMessages(supabase, {
+      conversationId: conversation.id,
+    });
+    return page.messages.find((m) => m.id === message.id)?.receiptStatus;
+  };
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+
+    const setup = await setupMessagingUsers(supabase);
+    userA = setup.userA;
+    userB = setup.userB;
+    conversation = await createTestConversation(supabase, userB.id);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('moves messages from sent to delivered to read', async () => {
+    await signInAsUser(supabase, userA);
+    const message = await sendTestMessage(supabase, {
+      conversationId: conversation.id,
+      content: `${TEST_PREFIX} Receipt test`,
+    });
+    expect(await statusOf(message)).toBe('sent');
+
+    await signInAsUser(supabase, userB);
+    await api.markMessageAsDelivered(supabase, conversation.id);
+
+    await signInAsUser(supabase, userA);
+    expect(await statusOf(message)).toBe('delivered');
+
+    await signInAsUser(supabase, userB);
+    await api.markMessageAsRead(supabase, conversation.id);
+
+    await signInAsUser(supabase, userA);
+    expect(await statusOf(message)).toBe('read');
+  });
+
+  it('does not send read receipts when the reader turned them off', async () => {
+    await signInAsUser(supabase, userB);
+    await updateUser(supabase, { id: userB.id, sendReadReceipts: false });
+
+    await signInAsUser(supabase, userA);
+    const message = await sendTestMessage(supabase, {
+      conversationId: conversation.id,
+      content: `${TEST_PREFIX} Private read`,
+    });
+
+    await signInAsUser(supabase, userB);
+    await api.markMessageAsRead(supabase, conversation.id);
+    expect(
+      await api.fetchMessageUnreadCount(supabase, userB.id, conversation.id),
+    ).toBe(0);
+
+    await signInAsUser(supabase, userA);
+    expect(await statusOf(message)).toBe('delivered');
+  });
+
+  it('does not expose read times to the other participant', async () => {
+    await signInAsUser(supabase, userA);
+
+    const { error } = await supabase
+      .from('conversation_participants')
+      .select('read_at')
+      .eq('conversation_id', conversation.id)
+      .eq('user_id', userB.id);
+
+    expect(error).not.toBeNull();
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import {
+  setupMessagingUsers,
+  signInAsUser,
+  sendTestMessage,
+  createTestConversation,
+} from './messaging-helpers';
+import { createTestUser } from '../helpers/test-data';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import { joinCommunity } from '@/features/communities/api';
+import * as api from '@/features/messaging/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Community } from '@/features/communities';
+
+describe('Message reporting and moderation', () => {
+  let supabase: SupabaseClient<Database>;
+  let organizer: Account;
+  let sender: Account;
+  let reporter: Account;
+  let community: Community;
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+    const setup = await setupMessagingUsers(supabase);
+    // userA created the community and is its founder
+    organizer = setup.userA;
+    sender = setup.userB;
+    community = setup.community;
+
+    reporter = await createTestUser(supabase);
+    await joinCommunity(supabase, reporter.id, community.id);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  async function sendAsSender(content: string) {
+    await signInAsUser(supabase, sender);
+    return sendTestMessage(supabase, { communityId: community.id, content });
+  }
+
+  it('lets a member report a message and queues it for organizers', async () => {
+    const message = await sendAsSender('Buy cheap watches!');
+
+    await signInAsUser(supabase, reporter);
+    const report = await api.reportMessage(supabase, {
+      messageId: message.id,
+      reason: 'spam',
+      details: 'Advertising',
+    });
+
+    expect(report).toMatchObject({
+      messageId: message.id,
+      reporterId: reporter.id,
+      communityId: community.id,
+      reason: 'spam',
+      status: 'pending',
+    });
+
+    // Regular members cannot see other members' reports
+    await signInAsUser(supabase, sender);
+    const senderQueue = await api.fetchPendingMessageReports(
+      supabase,
+      community.id,
+    );
+    expect(senderQueue.some((r) => r.id === report.id)).toBe(false);
+
+    await signInAsUser(supabase, organizer);
+    const queue = await api.fetchPendingMessageReports(supabase, community.id);
+    const queued = queue.find((r) => r.id === report.id);
+    expect(queued?.message.id).toBe(message.id);
+  });
+
+  it('does not allow reporting the same message twice', async () => {
+    const message = await sendAsSender('Duplicate report target');
+
+    await signInAsUser(supabase, reporter);
+    await api.reportMessage(supabase, {
+      messageId: message.id,
+      reason: 'other',
+    });
+
+    await expect(
+      api.reportMessage(supabase, { messageId: message.id, reason: 'other' }),
+    ).rejects.toThrow();
+  });
+
+  it('does not allow reporting your own message', async () => {
+    const message = await sendAsSender('My own message');
+
+    await expect(
+      api.reportMessage(supabase, { messageId: message.id, reason: 'spam' }),
+    ).rejects.toThrow();
+  });
+
+  it('does not allow reporting direct messages', async () => {
+    await signInAsUser(supabase, sender);
+    const conversation = await createTestConversation(supabase, reporter.id);
+    const message = await sendTestMessage(supabase, {
+      conversationId: conversation.id,
+      content: 'Direct message',
+    });
+
+    await signInAsUser(supabase, reporter);
+    await expect(
+      api.reportMessage(supabase, { messageId: message.id, reason: 'spam' }),
+    ).rejects.toThrow();
+  });
+
+  it('only lets organizers review reports', async () => {
+    const message = await sendAsSender('Rude message');
+
+    await signInAsUser(supabase, reporter);
+    const report = await api.reportMessage(supabase, {
+      messageId: message.id,
+      reason: 'harassment',
+    });
+
+    await expect(
+      api.reviewMessageReport(supabase, {
+        reportId: report.id,
+        status: 'approved',
+      }),
+    ).rejects.toThrow();
+  });
+
+  it('hides the message when an organizer approves a report', async () => {
+    const message = await sendAsSender('Inappropriate message');
+
+    await signInAsUser(supabase, reporter);
+    const report = await api.reportMessage(supabase, {
+      messageId: message.id,
+      reason: 'inappropriate',
+    });
+
+    await signInAsUser(supabase, organizer);
+    const reviewed = await api.reviewMessageReport(supabase, {
+      reportId: report.id,
+      status: 'approved',
+    });
+
+    expect(reviewed.status).toBe('approved');
+    expect(reviewed.reviewedBy).toBe(organizer.id);
+    expect(reviewed.reviewedAt).toBeInstanceOf(Date);
+
+    const { messages } = await api.fetchMessages(supabase, {
+      communityId: community.id,
+    });
+    expect(messages.some((m) => m.id === message.id)).toBe(false);
+
+    const queue = await api.fetchPendingMessageReports(supabase, community.id);
+    expect(queue.some((r) => r.id === report.id)).toBe(false);
+  });
+
+  it('only shows a hidden message to its sender and organizers', async () => {
+    const message = await sendAsSender('Hidden from members');
+
+    await signInAsUser(supabase, reporter);
+    const report = await api.reportMessage(supabase, {
+      messageId: message.id,
+      reason: 'harassment',
+    });
+
+    await signInAsUser(supabase, organizer);
+    await api.reviewMessageReport(supabase, {
+      reportId: report.id,
+      status: 'approved',
+    });
+
+    const { data: organizerRows } = await supabase
+      .from('messages')
+      .select('id')
+      .eq('id', message.id);
+    expect(organizerRows).toHaveLength(1);
+
+    await signInAsUser(supabase, sender);
+    const { data: senderRows } = await supabase
+      .from('messages')
+      .select('id')
+      .eq('id', message.id);
+    expect(senderRows).toHaveLength(1);
+
+    await signInAsUser(supabase, reporter);
+    const { data: memberRows } = await supabase
+      .from('messages')
+      .select('id')
+      .eq('id', message.id);
+    expect(memberRows).toHaveLength(0);
+  });
+
+  it('keeps the message visible when a report is rejected', async () => {
+    const message = await sendAsSender('Perfectly fine message');
+
+    await signInAsUser(supabase, reporter);
+    const report = await api.reportMessage(supabase, {
+      messageId: message.id,
+      reason: 'other',
+    });
+
+    await signInAsUser(supabase, organizer);
+    const reviewed = await api.reviewMessageReport(supabase, {
+      reportId: report.id,
+      status: 'rejected',
+    });
+
+    expect(reviewed.status).toBe('rejected');
+
+    const { messages } = await api.fetchMessages(supabase, {
+      communityId: community.id,
+    });
+    expect(messages.some((m) => m.id === message.id)).toBe(true);
+
+    // A decision is final
+    await expect(
+      api.reviewMessageReport(supabase, {
+        reportId: report.id,
+        status: 'approved',
+      }),
+    ).rejects.toThrow();
+  });
+
+  it('does not let senders change message visibility', async () => {
+    const message = await sendAsSender('Sender tries to change visibility');
+
+    const { error } = await supabase
+      .from('messages')
+      .update({ is_hidden: true })
+      .eq('id', message.id);
+
+    expect(error).not.toBeNull();
+  });
+});
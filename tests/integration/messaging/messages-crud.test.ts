@@ -85,7 +85,7 @@ describe('Messages CRUD Operations', () => {
       );
 
       // Fetch messages to verify order
-      const messages = await api.fetchMessages(supabase, {
+      const { messages } = await api.fetchMessages(supabase, {
         conversationId: conversation.id,
       });
 
@@ -263,7 +263,7 @@ describe('Messages CRUD Operations', () => {
         content: `${TEST_PREFIX} History test`,
       });
 
-      const messages = await api.fetchMessages(supabase, {
+      const { messages } = await api.fetchMessages(supabase, {
         conversationId: conversation.id,
       });
 
@@ -287,12 +287,66 @@ describe('Messages CRUD Operations', () => {
         userC.id,
       );
 
-      const messages = await api.fetchMessages(supabase, {
+      const { messages } = await api.fetchMessages(supabase, {
         conversationId: emptyConversation.id,
       });
 
       expect(messages).toHaveLength(0);
     });
+
+    it('pages backwards through history without gaps or duplicates', async () => {
+      const userD = await createTestUser(supabase);
+      await joinCommunity(supabase, userD.id, community.id);
+
+      await signInAsUser(supabase, userA);
+      const pagedConversation = await createTestConversation(
+        supabase,
+        userD.id,
+      );
+
+      const sent = [];
+      for (let i = 0; i < 5; i++) {
+        sent.push(
+          await sendTestMessage(supabase, {
+            conversationId: pagedConversation.id,
+            content: `${TEST_PREFIX} Page message ${i}`,
+          }),
+        );
+      }
+
+      const newestPage = await api.fetchMessages(
+        supabase,
+        { conversationId: pagedConversation.id },
+        { limit: 2 },
+      );
+
+      expect(newestPage.messages.map((m) => m.id)).toEqual([
+        sent[3].id,
+        sent[4].id,
+      ]);
+      expect(newestPage.hasMore).toBe(true);
+
+      const olderPage = await api.fetchMessages(
+        supabase,
+        { conversationId: pagedConversation.id },
+        { limit: 2, before: newestPage.nextCursor },
+      );
+
+      expect(olderPage.messages.map((m) => m.id)).toEqual([
+        sent[1].id,
+        sent[2].id,
+      ]);
+
+      const oldestPage = await api.fetchMessages(
+        supabase,
+        { conversationId: pagedConversation.id },
+        { limit: 2, before: olderPage.nextCursor },
+      );
+
+      expect(oldestPage.messages.map((m) => m.id)).toEqual([sent[0].id]);
+      expect(oldestPage.hasMore).toBe(false);
+      expect(oldestPage.nextCursor).toBeUndefined();
+    });
   });
 
   describe('deleteMessage', () => {
@@ -64,7 +64,7 @@ describe('Messages Permissions & Authorization', () => {
     it('non-participants cannot fetch messages for conversation', async () => {
       // UserC should not be able to fetch messages (returns empty instead of error)
       await signInAsUser(supabase, userC);
-      const messages = await api.fetchMessages(supabase, {
+      const { messages } = await api.fetchMessages(supabase, {
         conversationId: conversation.id,
       });
 
@@ -82,19 +82,20 @@ describe.skip('Messages Read Status & Receipts', () => {
       await signInAsUser(supabase, userB);
       await api.markAsRead(supabase, conversation.id);
 
-      // Check conversation_participants was updated
-      const { data: participant } = await supabase
-        .from('conversation_participants')
-        .select('*')
-        .eq('conversation_id', conversation.id)
-        .eq('user_id', userB.id)
-        .single();
+      // Check the read time was updated; read_at is only readable by its
+      // owner through get_conversation_read_states
+      const { data: readStates } = await supabase.rpc(
+        'get_conversation_read_states',
+      );
+      const participant = readStates?.find(
+        (state) => state.conversation_id === conversation.id,
+      );
 
       expect(participant).toBeTruthy();
-      expect(participant!.last_read_at).toBeTruthy();
+      expect(participant!.read_at).toBeTruthy();
 
-      // last_read_at should be recent
-      const lastReadAt = new Date(participant!.last_read_at!);
+      // read_at should be recent
+      const lastReadAt = new Date(participant!.read_at!);
       const now = new Date();
       expect(now.getTime() - lastReadAt.getTime()).toBeLessThan(5000); // Within 5 seconds
     });
@@ -242,14 +243,14 @@ describe.skip('Messages Read Status & Receipts', () => {
       expect(conversationAfter.lastReadAt).toBeTruthy();
 
       // Check that the read status persisted in database
-      const { data: participant } = await supabase
-        .from('conversation_participants')
-        .select('last_read_at')
-        .eq('conversation_id', conversation.id)
-        .eq('user_id', userB.id)
-        .single();
+      const { data: readStates } = await supabase.rpc(
+        'get_conversation_read_states',
+      );
+      const participant = readStates?.find(
+        (state) => state.conversation_id === conversation.id,
+      );
 
-      expect(participant!.last_read_at).toBeTruthy();
+      expect(participant!.read_at).toBeTruthy();
     });
   });
 
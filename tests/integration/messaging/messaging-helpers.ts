@@ -191,7 +191,7 @@ export async function assertMessageDelivered(
     // Check if the recipient is a participant in the conversation
     const { data: participant, error } = await supabase
       .from('conversation_participants')
-      .select('*')
+      .select('user_id')
       .eq('conversation_id', message.conversation_id)
       .eq('user_id', recipientUserId)
       .maybeSingle();
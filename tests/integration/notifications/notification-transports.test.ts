@@ -0,0 +1,131 @@
+/**
+ * Notification Transports Test Suite
+ *
+ * Verifies the emails and pushes the edge functions actually render, using the
+ * capture transports, which record deliveries in
+ * captured_notification_deliveries instead of sending them.
+ *
+ * SETUP:
+ * 1. Serve the edge functions with the capture transports:
+ *    EMAIL_TRANSPORT=capture PUSH_TRANSPORT=capture
+ * 2. Set TEST_CAPTURE_TRANSPORTS=true to enable these tests
+ *
+ * NOTE: Tests are skipped when TEST_CAPTURE_TRANSPORTS is not set, since
+ * deliveries are only captured when the functions use the capture transports
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient, createServiceClient } from '../helpers/test-client';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import {
+  createTestUser,
+  createTestCommunity,
+  createTestResource,
+  signInAsUser,
+} from '../helpers/test-data';
+import { createComment } from '@/features/comments';
+import { joinCommunity } from '@/features/communities/api';
+import { registerPushSubscription } from '@/features/notifications/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Community } from '@/features/communities';
+import type { Resource } from '@/features/resources';
+
+type CapturedDelivery =
+  Database['public']['Tables']['captured_notification_deliveries']['Row'];
+
+// Skip all tests in this suite unless TEST_CAPTURE_TRANSPORTS is explicitly set
+const describeCaptured =
+  process.env.TEST_CAPTURE_TRANSPORTS === 'true' ? describe : describe.skip;
+
+describeCaptured('Notification Transports', () => {
+  let supabase: SupabaseClient<Database>;
+  let serviceClient: SupabaseClient<Database>;
+  let resourceOwner: Account;
+  let commenter: Account;
+  let testCommunity: Community;
+  let resource: Resource;
+  let notificationId: string;
+
+  // Edge functions are called asynchronously through pg_net, so poll
+  const waitForDelivery = async (
+    channel: 'email' | 'push',
+  ): Promise<CapturedDelivery> => {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const { data } = await serviceClient
+        .from('captured_notification_deliveries')
+        .select('*')
+        .eq('channel', channel)
+        .contains('notification_ids', [notificationId]);
+
+      if (data?.length) {
+        return data[0];
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    throw new Error(`No ${channel} delivery captured for ${notificationId}`);
+  };
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+    serviceClient = createServiceClient();
+
+    resourceOwner = await createTestUser(supabase);
+    await registerPushSubscription(supabase, {
+      endpoint: `https://push.example.com/${resourceOwner.id}`,
+      p256dhKey: 'test-p256dh-key',
+      authKey: 'test-auth-key',
+    });
+    testCommunity = await createTestCommunity(supabase);
+    resource = await createTestResource(supabase, testCommunity.id, 'offer');
+
+    commenter = await createTestUser(supabase);
+    await joinCommunity(supabase, commenter.id, testCommunity.id);
+    await createComment(supabase, commenter.id, {
+      content: 'Test captured delivery',
+      resourceId: resource.id,
+    });
+
+    await signInAsUser(supabase, resourceOwner);
+    const { data: notification } = await supabase
+      .from('notifications')
+      .select('id')
+      .eq('user_id', resourceOwner.id)
+      .eq('action', 'resource.commented')
+      .eq('resource_id', resource.id)
+      .single();
+    notificationId = notification!.id;
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('captures the rendered email', async () => {
+    const email = await waitForDelivery('email');
+
+    expect(email.user_id).toBe(resourceOwner.id);
+    expect(email.recipient).toBe(resourceOwner.email);
+    expect(email.subject).toContain(resource.title);
+    expect(email.body).toContain('/notifications/settings');
+    expect(email.html_body).toContain(resource.title);
+    expect(email.payload).toMatchObject({
+      template_alias: 'app-notification',
+      template_model: { notification_type: 'resource.commented' },
+    });
+  });
+
+  it('captures the push payload', async () => {
+    const push = await waitForDelivery('push');
+
+    expect(push.user_id).toBe(resourceOwner.id);
+    expect(push.recipient).toBe(`https://push.example.com/${resourceOwner.id}`);
+    expect(push.subject).toBe('New comment on your resource');
+    expect(push.payload).toMatchObject({
+      data: { notification_id: notificationId, action: 'resource.commented' },
+    });
+  });
+});
@@ -12,6 +12,7 @@ import {
   fetchNotificationUnreadCount,
   markNotificationAsRead,
 } from '@/features/notifications/api';
+import { groupNotifications } from '@/features/notifications';
 import { createComment } from '@/features/comments';
 import { createShoutout } from '@/features/shoutouts';
 import { joinCommunity } from '@/features/communities/api';
@@ -198,6 +199,61 @@ describe('Notification Read Status', () => {
     });
   });
 
+  describe('Mark a notification group as read', () => {
+    it('should mark every notification in the group as read', async () => {
+      const resource1 = await createTestResource(
+        supabase,
+        testCommunity.id,
+        'offer',
+      );
+      const resource2 = await createTestResource(
+        supabase,
+        testCommunity.id,
+        'request',
+      );
+
+      await signInAsUser(supabase, anotherUser);
+      await createComment(supabase, anotherUser.id, {
+        content: 'Group comment 1',
+        resourceId: resource1.id,
+      });
+      await createComment(supabase, anotherUser.id, {
+        content: 'Group comment 2',
+        resourceId: resource1.id,
+      });
+      await createComment(supabase, anotherUser.id, {
+        content: 'Other resource comment',
+        resourceId: resource2.id,
+      });
+
+      await signInAsUser(supabase, testUser);
+
+      const groups = groupNotifications(
+        await fetchNotifications(supabase, testUser.id, { isRead: false }),
+      );
+      const group = groups.find(
+        (g) =>
+          g.action === 'resource.commented' && g.resourceId === resource1.id,
+      );
+
+      expect(group).toBeDefined();
+      expect(group!.count).toBe(2);
+      expect(group!.actorCount).toBe(1);
+
+      await markNotificationAsRead(supabase, group!.notificationIds);
+
+      const afterRead = await fetchNotifications(supabase, testUser.id);
+      const forResource = (resourceId: string) =>
+        afterRead.filter(
+          (n) =>
+            n.action === 'resource.commented' && n.resourceId === resourceId,
+        );
+
+      forResource(resource1.id).forEach((n) => expect(n.readAt).not.toBeNull());
+      forResource(resource2.id).forEach((n) => expect(n.readAt).toBeNull());
+    });
+  });
+
   describe('Mark all notifications as read', () => {
     it('should mark all unread notifications as read', async () => {
       // Create multiple resources and generate notifications
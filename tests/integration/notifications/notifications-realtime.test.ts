@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { createTestClient } from '../helpers/test-client';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import {
+  createTestUser,
+  createTestCommunity,
+  createTestResource,
+  signInAsUser,
+  TEST_PREFIX,
+} from '../helpers/test-data';
+import { createComment } from '@/features/comments';
+import { joinCommunity } from '@/features/communities/api';
+import { createNotificationSubscription } from '@/features/notifications/api/createNotificationSubscription';
+import { notificationKeys } from '@/features/notifications/queries';
+import type { NotificationDetail } from '@/features/notifications';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth';
+import type { Community } from '@/features/communities/types';
+
+describe('Realtime Notifications', () => {
+  let ownerClient: SupabaseClient<Database>;
+  let commenterClient: SupabaseClient<Database>;
+  let queryClient: QueryClient;
+  let owner: Account;
+  let commenter: Account;
+  let testCommunity: Community;
+  let channel: RealtimeChannel;
+  let isSubscribed = false;
+
+  beforeAll(async () => {
+    ownerClient = createTestClient();
+    commenterClient = createTestClient();
+
+    owner = await createTestUser(ownerClient);
+    testCommunity = await createTestCommunity(ownerClient);
+
+    commenter = await createTestUser(commenterClient);
+    await joinCommunity(commenterClient, commenter.id, testCommunity.id);
+
+    await signInAsUser(ownerClient, owner);
+
+    queryClient = new QueryClient();
+    queryClient.setQueryData<NotificationDetail[]>(notificationKeys.list(), []);
+    queryClient.setQueryData<number>(notificationKeys.unreadCount(), 0);
+
+    channel = await createNotificationSubscription({
+      supabase: ownerClient,
+      queryClient,
+      userId: owner.id,
+      onStatusChange: (status) => {
+        isSubscribed = status === 'SUBSCRIBED';
+      },
+    });
+
+    // Give subscription time to establish
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    if (channel) {
+      await ownerClient.removeChannel(channel);
+    }
+    await cleanupAllTestData();
+  });
+
+  it('subscribes to the notifications channel', () => {
+    expect(isSubscribed).toBe(true);
+  });
+
+  it('receives a new notification over realtime', async () => {
+    const resource = await createTestResource(
+      ownerClient,
+      testCommunity.id,
+      'offer',
+    );
+
+    await signInAsUser(commenterClient, commenter);
+    await createComment(commenterClient, commenter.id, {
+      content: `${TEST_PREFIX} realtime notification test`,
+      resourceId: resource.id,
+    });
+
+    // Wait for real-time update to process
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    const notifications = queryClient.getQueryData<NotificationDetail[]>(
+      notificationKeys.list(),
+    );
+    expect(notifications).toContainEqual(
+      expect.objectContaining({ resourceId: resource.id }),
+    );
+    expect(
+      queryClient.getQueryData<number>(notificationKeys.unreadCount()),
+    ).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient, createServiceClient } from '../helpers/test-client';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import {
+  createTestUser,
+  createTestCommunity,
+  createTestResource,
+  signInAsUser,
+} from '../helpers/test-data';
+import { createComment } from '@/features/comments';
+import { joinCommunity } from '@/features/communities/api';
+import { updatePreferences } from '@/features/notifications/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Community } from '@/features/communities';
+
+/**
+ * Quiet hours hold push notifications in push_delivery_queue until the
+ * window ends, while in-app notifications are still created immediately.
+ */
+describe('Notification Quiet Hours', () => {
+  let supabase: SupabaseClient<Database>;
+  let serviceClient: SupabaseClient<Database>;
+  let resourceOwner: Account;
+  let commenter: Account;
+  let testCommunity: Community;
+
+  // "HH:MM:00" in UTC, offset from now by the given number of hours
+  const utcTime = (offsetHours: number) => {
+    const date = new Date(Date.now() + offsetHours * 60 * 60 * 1000);
+    return `${date.toISOString().slice(11, 16)}:00`;
+  };
+
+  const commentOnNewResource = async () => {
+    await signInAsUser(supabase, resourceOwner);
+    const resource = await createTestResource(
+      supabase,
+      testCommunity.id,
+      'offer',
+    );
+
+    await signInAsUser(supabase, commenter);
+    await createComment(supabase, commenter.id, {
+      content: 'Test quiet hours',
+      resourceId: resource.id,
+    });
+
+    await signInAsUser(supabase, resourceOwner);
+    const { data: notifications } = await supabase
+      .from('notifications')
+      .select('id')
+      .eq('user_id', resourceOwner.id)
+      .eq('action', 'resource.commented')
+      .eq('resource_id', resource.id);
+
+    return notifications ?? [];
+  };
+
+  const heldPushes = async (notificationId: string) => {
+    const { data } = await serviceClient
+      .from('push_delivery_queue')
+      .select('*')
+      .eq('notification_id', notificationId);
+
+    return data ?? [];
+  };
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+    serviceClient = createServiceClient();
+
+    resourceOwner = await createTestUser(supabase);
+    testCommunity = await createTestCommunity(supabase);
+
+    commenter = await createTestUser(supabase);
+    await joinCommunity(supabase, commenter.id, testCommunity.id);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('holds push notifications during quiet hours', async () => {
+    await signInAsUser(supabase, resourceOwner);
+    await updatePreferences(supabase, {
+      quiet_hours_start: utcTime(-1),
+      quiet_hours_end: utcTime(1),
+      time_zone: 'UTC',
+    });
+
+    const notifications = await commentOnNewResource();
+    expect(notifications).toHaveLength(1);
+
+    const held = await heldPushes(notifications[0].id);
+    expect(held).toHaveLength(1);
+    expect(new Date(held[0].deliver_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('sends push notifications outside quiet hours', async () => {
+    await signInAsUser(supabase, resourceOwner);
+    await updatePreferences(supabase, {
+      quiet_hours_start: utcTime(2),
+      quiet_hours_end: utcTime(3),
+      time_zone: 'UTC',
+    });
+
+    const notifications = await commentOnNewResource();
+    expect(notifications).toHaveLength(1);
+
+    expect(await heldPushes(notifications[0].id)).toHaveLength(0);
+  });
+
+  it('rejects quiet hours without an end time', async () => {
+    await signInAsUser(supabase, resourceOwner);
+
+    await expect(
+      updatePreferences(supabase, {
+        quiet_hours_start: '22:00:00',
+        quiet_hours_end: null,
+      }),
+    ).rejects.toThrow();
+  });
+});
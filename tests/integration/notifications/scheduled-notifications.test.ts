@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient, createServiceClient } from '../helpers/test-client';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import {
+  createTestUser,
+  createTestCommunity,
+  createTestResource,
+  signInAsUser,
+} from '../helpers/test-data';
+import { joinCommunity } from '@/features/communities/api';
+import {
+  createResourceClaim,
+  createResourceTimeslot,
+} from '@/features/resources/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Community } from '@/features/communities';
+import type { Resource, ResourceTimeslot } from '@/features/resources';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Tests for the scheduled resource.expiring and event.starting jobs.
+ *
+ * The jobs scan the whole database, so assertions only look at notifications
+ * for the users created here.
+ */
+describe('Scheduled Notifications', () => {
+  let supabase: SupabaseClient<Database>;
+  let serviceClient: SupabaseClient<Database>;
+  let owner: Account;
+  let attendee: Account;
+  let optedOutAttendee: Account;
+  let community: Community;
+
+  async function countNotifications(
+    userId: string,
+    action: 'resource.expiring' | 'event.starting',
+    resourceId: string,
+  ): Promise<number> {
+    const { count } = await serviceClient
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('action', action)
+      .eq('resource_id', resourceId);
+
+    return count ?? 0;
+  }
+
+  async function moveTimeslot(timeslotId: string, startsInMs: number) {
+    const startTime = new Date(Date.now() + startsInMs);
+    await serviceClient
+      .from('resource_timeslots')
+      .update({
+        start_time: startTime.toISOString(),
+        end_time: new Date(startTime.getTime() + HOUR).toISOString(),
+      })
+      .eq('id', timeslotId);
+  }
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+    serviceClient = createServiceClient();
+
+    owner = await createTestUser(supabase);
+    community = await createTestCommunity(supabase);
+
+    attendee = await createTestUser(supabase);
+    await joinCommunity(supabase, attendee.id, community.id);
+
+    optedOutAttendee = await createTestUser(supabase);
+    await joinCommunity(supabase, optedOutAttendee.id, community.id);
+    await serviceClient
+      .from('notification_preferences')
+      .update({ event_starting: { in_app: false, push: false, email: false } })
+      .eq('user_id', optedOutAttendee.id);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  describe('resource.expiring', () => {
+    let expiringOffer: Resource;
+    let freshOffer: Resource;
+
+    beforeAll(async () => {
+      await signInAsUser(supabase, owner);
+      expiringOffer = await createTestResource(supabase, community.id, 'offer');
+      freshOffer = await createTestResource(supabase, community.id, 'offer');
+
+      // Offers expire 30 days after renewal; make this one expire in 12 hours
+      await serviceClient
+        .from('resources')
+        .update({
+          last_renewed_at: new Date(
+            Date.now() - 30 * DAY + 12 * HOUR,
+          ).toISOString(),
+        })
+        .eq('id', expiringOffer.id);
+    });
+
+    it('notifies the owner once when a resource expires within 24 hours', async () => {
+      const { error } = await serviceClient.rpc(
+        'send_resource_expiring_notifications',
+      );
+      expect(error).toBeNull();
+
+      // Running the job again must not send a duplicate
+      await serviceClient.rpc('send_resource_expiring_notifications');
+
+      expect(
+        await countNotifications(
+          owner.id,
+          'resource.expiring',
+          expiringOffer.id,
+        ),
+      ).toBe(1);
+      expect(
+        await countNotifications(owner.id, 'resource.expiring', freshOffer.id),
+      ).toBe(0);
+    });
+
+    it('cannot be triggered by regular users', async () => {
+      await signInAsUser(supabase, owner);
+      const { error } = await supabase.rpc(
+        'send_resource_expiring_notifications',
+      );
+
+      expect(error).not.toBeNull();
+    });
+  });
+
+  describe('event.starting', () => {
+    let event: Resource;
+    let timeslot: ResourceTimeslot;
+
+    beforeAll(async () => {
+      await signInAsUser(supabase, owner);
+      event = await createTestResource(supabase, community.id, 'event');
+      timeslot = await createResourceTimeslot(supabase, {
+        resourceId: event.id,
+        startTime: new Date(Date.now() + 3 * HOUR),
+        endTime: new Date(Date.now() + 4 * HOUR),
+        status: 'active',
+      });
+
+      await signInAsUser(supabase, attendee);
+      await createResourceClaim(supabase, {
+        resourceId: event.id,
+        timeslotId: timeslot.id,
+      });
+
+      await signInAsUser(supabase, optedOutAttendee);
+      await createResourceClaim(supabase, {
+        resourceId: event.id,
+        timeslotId: timeslot.id,
+      });
+    });
+
+    it('sends a 24 hour reminder to the owner and attendees', async () => {
+      await serviceClient.rpc('send_event_starting_notifications');
+      await serviceClient.rpc('send_event_starting_notifications');
+
+      expect(
+        await countNotifications(owner.id, 'event.starting', event.id),
+      ).toBe(1);
+      expect(
+        await countNotifications(attendee.id, 'event.starting', event.id),
+      ).toBe(1);
+    });
+
+    it('skips users who disabled every channel for event reminders', async () => {
+      expect(
+        await countNotifications(
+          optedOutAttendee.id,
+          'event.starting',
+          event.id,
+        ),
+      ).toBe(0);
+    });
+
+    it('sends a second reminder within the final hour', async () => {
+      await moveTimeslot(timeslot.id, 30 * 60 * 1000);
+
+      await serviceClient.rpc('send_event_starting_notifications');
+      await serviceClient.rpc('send_event_starting_notifications');
+
+      expect(
+        await countNotifications(owner.id, 'event.starting', event.id),
+      ).toBe(2);
+      expect(
+        await countNotifications(attendee.id, 'event.starting', event.id),
+      ).toBe(2);
+    });
+
+    it('does not remind about events that already started', async () => {
+      await moveTimeslot(timeslot.id, -10 * 60 * 1000);
+
+      await serviceClient.rpc('send_event_starting_notifications');
+
+      expect(
+        await countNotifications(owner.id, 'event.starting', event.id),
+      ).toBe(2);
+    });
+  });
+});
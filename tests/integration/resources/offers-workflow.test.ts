@@ -11,8 +11,10 @@ import { signIn } from '@/features/auth/api';
 import { joinCommunity } from '@/features/communities/api';
 import {
   createResourceClaim,
+  getAllowedClaimTransitions,
   updateResourceClaim,
 } from '@/features/resources/api';
+import { ClaimTransitionError } from '@/features/resources/errors';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/shared/types/database';
 import type { Account } from '@/features/auth/types';
@@ -112,4 +114,53 @@ describe('Resource Offers - Workflow', () => {
 
     expect(updatedClaim.status).toBe('given');
   });
+
+  it('should list the transitions each party may make', async () => {
+    const freshTimeslot = await createTestResourceTimeslot(supabase, offer.id);
+    const claim = await createResourceClaim(supabase, {
+      resourceId: offer.id,
+      timeslotId: freshTimeslot.id,
+    });
+
+    const claimantTransitions = await getAllowedClaimTransitions(
+      supabase,
+      claim,
+      claimant.id,
+      'offer',
+    );
+    expect(claimantTransitions.map((t) => t.toStatus).sort()).toEqual([
+      'cancelled',
+      'received',
+    ]);
+
+    const ownerTransitions = await getAllowedClaimTransitions(
+      supabase,
+      claim,
+      owner.id,
+      'offer',
+    );
+    expect(ownerTransitions.map((t) => t.toStatus)).toEqual(['given']);
+  });
+
+  it('should reject illegal transitions with a ClaimTransitionError', async () => {
+    const freshTimeslot = await createTestResourceTimeslot(supabase, offer.id);
+    const claim = await createResourceClaim(supabase, {
+      resourceId: offer.id,
+      timeslotId: freshTimeslot.id,
+    });
+
+    // Only the owner may mark an offer as given
+    const error = await updateResourceClaim(supabase, {
+      id: claim.id,
+      status: 'given',
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ClaimTransitionError);
+    expect(error).toMatchObject({
+      resourceType: 'offer',
+      fromStatus: 'approved',
+      toStatus: 'given',
+      allowedActor: 'owner',
+    });
+  });
 });
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import {
+  createTestUser,
+  createTestCommunity,
+  createTestResource,
+} from '../helpers/test-data';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import * as resourcesApi from '@/features/resources/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Community } from '@/features/communities/types';
+import type { Resource, ResourceTimeslot } from '@/features/resources/types';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+describe('Resources API - Recurring Events', () => {
+  let supabase: SupabaseClient<Database>;
+  let testCommunity: Community;
+
+  // Tomorrow at the top of the hour, so every occurrence is in the future
+  const startsAt = new Date(
+    Math.ceil(Date.now() / 3600000) * 3600000 + 86400000,
+  );
+
+  function weeksAfterStart(weeks: number): Date {
+    return new Date(startsAt.getTime() + weeks * WEEK_MS);
+  }
+
+  async function fetchSortedTimeslots(
+    resourceId: string,
+  ): Promise<ResourceTimeslot[]> {
+    const timeslots = await resourcesApi.fetchResourceTimeslots(supabase, {
+      resourceId,
+    });
+    return timeslots.sort(
+      (a, b) => a.startTime.getTime() - b.startTime.getTime(),
+    );
+  }
+
+  async function createWeeklyEvent(count: number) {
+    const event = await createTestResource(supabase, testCommunity.id, 'event');
+    const recurrence = await resourcesApi.createEventRecurrence(supabase, {
+      resourceId: event.id,
+      frequency: 'weekly',
+      startsAt,
+      durationMinutes: 60,
+      count,
+    });
+    return { event, recurrence };
+  }
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+    await createTestUser(supabase);
+    testCommunity = await createTestCommunity(supabase);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('generates a timeslot for each occurrence', async () => {
+    const { event, recurrence } = await createWeeklyEvent(4);
+
+    expect(recurrence).toMatchObject({
+      resourceId: event.id,
+      frequency: 'weekly',
+      interval: 1,
+      timezone: 'UTC',
+      count: 4,
+      exceptionDates: [],
+    });
+
+    const timeslots = await fetchSortedTimeslots(event.id);
+    expect(timeslots.map((t) => t.startTime)).toEqual([
+      weeksAfterStart(0),
+      weeksAfterStart(1),
+      weeksAfterStart(2),
+      weeksAfterStart(3),
+    ]);
+    expect(timeslots[0]).toMatchObject({
+      recurrenceId: recurrence.id,
+      occurrenceStart: weeksAfterStart(0),
+      endTime: new Date(startsAt.getTime() + 60 * 60 * 1000),
+      status: 'active',
+      isException: false,
+    });
+
+    const resource = (await resourcesApi.fetchResourceById(
+      supabase,
+      event.id,
+    )) as Resource;
+    expect(resource.isRecurring).toBe(true);
+  });
+
+  it('keeps individually edited occurrences when the series changes', async () => {
+    const { event, recurrence } = await createWeeklyEvent(3);
+    const [first, second] = await fetchSortedTimeslots(event.id);
+
+    const movedStart = new Date(second.startTime.getTime() + 2 * 3600000);
+    const edited = await resourcesApi.updateEventOccurrence(supabase, {
+      id: second.id,
+      startTime: movedStart,
+      endTime: new Date(movedStart.getTime() + 3600000),
+    });
+    expect(edited.isException).toBe(true);
+
+    // Editing from the first occurrence changes the whole series in place
+    const updated = await resourcesApi.updateFutureOccurrences(supabase, {
+      recurrenceId: recurrence.id,
+      from: first.startTime,
+      changes: { durationMinutes: 30 },
+    });
+    expect(updated.id).toBe(recurrence.id);
+    expect(updated.durationMinutes).toBe(30);
+
+    const timeslots = await fetchSortedTimeslots(event.id);
+    expect(timeslots.find((t) => t.id === first.id)?.endTime).toEqual(
+      new Date(first.startTime.getTime() + 30 * 60 * 1000),
+    );
+    expect(timeslots.find((t) => t.id === second.id)?.startTime).toEqual(
+      movedStart,
+    );
+  });
+
+  it('cancels a single occurrence', async () => {
+    const { event } = await createWeeklyEvent(3);
+    const [, second] = await fetchSortedTimeslots(event.id);
+
+    await resourcesApi.cancelEventOccurrence(supabase, second.id);
+
+    const timeslots = await fetchSortedTimeslots(event.id);
+    expect(timeslots.map((t) => t.startTime)).toEqual([
+      weeksAfterStart(0),
+      weeksAfterStart(2),
+    ]);
+
+    const [recurrence] = await resourcesApi.fetchEventRecurrences(
+      supabase,
+      event.id,
+    );
+    expect(recurrence.exceptionDates).toEqual([weeksAfterStart(1)]);
+  });
+
+  it('splits the series when editing all future occurrences', async () => {
+    const { event, recurrence } = await createWeeklyEvent(4);
+
+    const newSeries = await resourcesApi.updateFutureOccurrences(supabase, {
+      recurrenceId: recurrence.id,
+      from: weeksAfterStart(2),
+      changes: { durationMinutes: 120 },
+    });
+
+    expect(newSeries.id).not.toBe(recurrence.id);
+    expect(newSeries).toMatchObject({
+      startsAt: weeksAfterStart(2),
+      durationMinutes: 120,
+      count: 2,
+    });
+
+    const recurrences = await resourcesApi.fetchEventRecurrences(
+      supabase,
+      event.id,
+    );
+    const original = recurrences.find((r) => r.id === recurrence.id);
+    expect(original?.count).toBeUndefined();
+    expect(original?.until?.getTime()).toBeLessThan(
+      weeksAfterStart(2).getTime(),
+    );
+
+    const timeslots = await fetchSortedTimeslots(event.id);
+    expect(timeslots).toHaveLength(4);
+    expect(timeslots.map((t) => t.recurrenceId)).toEqual([
+      recurrence.id,
+      recurrence.id,
+      newSeries.id,
+      newSeries.id,
+    ]);
+    expect(timeslots[1].endTime).toEqual(
+      new Date(weeksAfterStart(1).getTime() + 60 * 60 * 1000),
+    );
+    expect(timeslots[3].endTime).toEqual(
+      new Date(weeksAfterStart(3).getTime() + 120 * 60 * 1000),
+    );
+  });
+
+  it('stops the series when the recurrence is deleted', async () => {
+    const { event, recurrence } = await createWeeklyEvent(3);
+
+    await resourcesApi.deleteEventRecurrence(supabase, recurrence.id);
+
+    expect(await fetchSortedTimeslots(event.id)).toEqual([]);
+    const resource = (await resourcesApi.fetchResourceById(
+      supabase,
+      event.id,
+    )) as Resource;
+    expect(resource.isRecurring).toBe(false);
+  });
+
+  it('only allows events to recur', async () => {
+    const offer = await createTestResource(supabase, testCommunity.id, 'offer');
+
+    await expect(
+      resourcesApi.createEventRecurrence(supabase, {
+        resourceId: offer.id,
+        frequency: 'weekly',
+        startsAt,
+        durationMinutes: 60,
+      }),
+    ).rejects.toThrow('Only events can recur');
+  });
+});
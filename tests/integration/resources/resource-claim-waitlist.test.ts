@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import {
+  createTestUser,
+  createTestCommunity,
+  createTestResource,
+  createTestResourceTimeslot,
+} from '../helpers/test-data';
+import { signIn } from '@/features/auth/api';
+import { joinCommunity } from '@/features/communities/api';
+import {
+  createResourceClaim,
+  fetchResourceClaims,
+  updateResource,
+  updateResourceClaim,
+} from '@/features/resources/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Community } from '@/features/communities/types';
+import type {
+  Resource,
+  ResourceClaim,
+  ResourceTimeslot,
+} from '@/features/resources/types';
+
+describe('Resource Claims - Waitlist', () => {
+  let supabase: SupabaseClient<Database>;
+  let claimants: Account[];
+  let community: Community;
+  let offer: Resource;
+  let timeslot: ResourceTimeslot;
+
+  const fetchClaim = async (claimantId: string): Promise<ResourceClaim> => {
+    const [claim] = await fetchResourceClaims(supabase, {
+      resourceId: offer.id,
+      claimantId,
+    });
+    return claim;
+  };
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+
+    // Owner (automatically signed in)
+    await createTestUser(supabase);
+    community = await createTestCommunity(supabase);
+
+    // One spot per timeslot
+    offer = await createTestResource(supabase, community.id, 'offer');
+    await updateResource(supabase, {
+      id: offer.id,
+      claimLimit: 1,
+      claimLimitPer: 'timeslot',
+    });
+    timeslot = await createTestResourceTimeslot(supabase, offer.id);
+
+    claimants = [];
+    for (let i = 0; i < 3; i++) {
+      const claimant = await createTestUser(supabase);
+      await joinCommunity(supabase, claimant.id, community.id);
+      claimants.push(claimant);
+    }
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('should waitlist claims beyond the claim limit in join order', async () => {
+    const statuses = [];
+    for (const claimant of claimants) {
+      await signIn(supabase, claimant.email, 'TestPass123!');
+      const claim = await createResourceClaim(supabase, {
+        resourceId: offer.id,
+        timeslotId: timeslot.id,
+      });
+      statuses.push([claim.status, claim.waitlistPosition]);
+    }
+
+    expect(statuses).toEqual([
+      ['approved', undefined],
+      ['waitlisted', 1],
+      ['waitlisted', 2],
+    ]);
+  });
+
+  it('should promote the next waitlisted claim when a spot frees up', async () => {
+    await signIn(supabase, claimants[0].email, 'TestPass123!');
+    const firstClaim = await fetchClaim(claimants[0].id);
+    await updateResourceClaim(supabase, {
+      id: firstClaim.id,
+      status: 'cancelled',
+    });
+
+    await signIn(supabase, claimants[1].email, 'TestPass123!');
+    const promoted = await fetchClaim(claimants[1].id);
+    expect(promoted.status).toBe('approved');
+    expect(promoted.waitlistPosition).toBeUndefined();
+
+    await signIn(supabase, claimants[2].email, 'TestPass123!');
+    const stillWaiting = await fetchClaim(claimants[2].id);
+    expect(stillWaiting.status).toBe('waitlisted');
+    expect(stillWaiting.waitlistPosition).toBe(1);
+  });
+
+  it('should not let a waitlisted claimant promote themselves', async () => {
+    await signIn(supabase, claimants[2].email, 'TestPass123!');
+    const claim = await fetchClaim(claimants[2].id);
+
+    await expect(
+      updateResourceClaim(supabase, { id: claim.id, status: 'approved' }),
+    ).rejects.toThrow();
+  });
+});
@@ -239,6 +239,63 @@ describe('Resource API - CRUD Operations (Both Offers and Requests)', () => {
       expect(timeslotRecord).toBeTruthy();
       expect(timeslotRecord!.resource_id).toBe(resource!.id);
     });
+
+    it('creates initial timeslots together with the resource', async () => {
+      const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const endTime = new Date(Date.now() + 25 * 60 * 60 * 1000);
+      const data = createFakeResourceInput({
+        title: `${TEST_PREFIX}Initial_Timeslots_${Date.now()}`,
+        type: 'event',
+        communityIds: [testCommunity.id, testCommunity2.id],
+        imageUrls: undefined,
+      });
+
+      resource = await resourcesApi.createResource(supabase, {
+        ...data,
+        timeslots: [{ startTime, endTime }],
+      });
+
+      expect(resource.communityIds.sort()).toEqual(
+        [testCommunity.id, testCommunity2.id].sort(),
+      );
+      expect(resource.timeslots).toHaveLength(1);
+      expect(resource.timeslots[0]).toMatchObject({
+        resourceId: resource.id,
+        startTime,
+        endTime,
+        status: 'active',
+      });
+    });
+
+    it('leaves nothing behind when any step fails', async () => {
+      const title = `${TEST_PREFIX}Atomic_Failure_${Date.now()}`;
+      const data = createFakeResourceInput({
+        title,
+        type: 'offer',
+        communityIds: [testCommunity.id],
+        imageUrls: undefined,
+      });
+
+      // The end time before the start time fails the timeslot insert
+      await expect(
+        resourcesApi.createResource(supabase, {
+          ...data,
+          timeslots: [
+            {
+              startTime: new Date(Date.now() + 25 * 60 * 60 * 1000),
+              endTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            },
+          ],
+        }),
+      ).rejects.toThrow();
+
+      const { data: rows } = await supabase
+        .from('resources')
+        .select('id')
+        .eq('title', title);
+
+      expect(rows).toEqual([]);
+    });
   });
 
   describe('fetchResources', () => {
@@ -282,6 +339,61 @@ describe('Resource API - CRUD Operations (Both Offers and Requests)', () => {
         }),
       );
     });
+
+    it('filters by type', async () => {
+      const filtered = await resourcesApi.fetchResources(supabase, {
+        communityId: testCommunity.id,
+        type: 'request',
+      });
+
+      expect(filtered.map((r) => r.id)).toContain(readOnlyRequest.id);
+      expect(filtered.map((r) => r.id)).not.toContain(readOnlyOffer.id);
+      expect(filtered.every((r) => r.type === 'request')).toBe(true);
+    });
+
+    it('filters by category', async () => {
+      const filtered = await resourcesApi.fetchResources(supabase, {
+        communityId: testCommunity.id,
+        category: ['food', 'drinks'],
+      });
+
+      // Test resources default to the 'tools' category
+      expect(filtered.map((r) => r.id)).not.toContain(readOnlyOffer.id);
+    });
+
+    it('searches title and description', async () => {
+      const filtered = await resourcesApi.fetchResources(supabase, {
+        communityId: testCommunity.id,
+        searchTerm: readOnlyOffer.title,
+      });
+
+      expect(filtered.map((r) => r.id)).toContain(readOnlyOffer.id);
+      expect(filtered.map((r) => r.id)).not.toContain(readOnlyRequest.id);
+    });
+
+    it('filters by availability', async () => {
+      // Test resources have no timeslots, so none have available slots
+      const available = await resourcesApi.fetchResources(supabase, {
+        communityId: testCommunity.id,
+        hasAvailableSlots: true,
+      });
+      const unavailable = await resourcesApi.fetchResources(supabase, {
+        communityId: testCommunity.id,
+        hasAvailableSlots: false,
+      });
+
+      expect(available.map((r) => r.id)).not.toContain(readOnlyOffer.id);
+      expect(unavailable.map((r) => r.id)).toContain(readOnlyOffer.id);
+    });
+
+    it('returns nothing for claim filters when there are no matching claims', async () => {
+      const filtered = await resourcesApi.fetchResources(supabase, {
+        communityId: testCommunity.id,
+        claimantId: testUser.id,
+      });
+
+      expect(filtered).toEqual([]);
+    });
   });
 
   describe('fetchResourceById', () => {
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import {
+  createTestUser,
+  createTestCommunity,
+  TEST_PREFIX,
+} from '../helpers/test-data';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import * as resourcesApi from '@/features/resources/api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Community } from '@/features/communities/types';
+import type { Resource } from '@/features/resources/types';
+import type { Coordinates } from '@/shared';
+
+describe('Resource API - Proximity Search', () => {
+  let supabase: SupabaseClient<Database>;
+  let testCommunity: Community;
+  let nearOffer: Resource;
+  let midOffer: Resource;
+  let farOffer: Resource;
+
+  // Downtown Austin; 1 degree of latitude is ~111 km
+  const origin: Coordinates = { lat: 30.2672, lng: -97.7431 };
+
+  async function createResourceAt(kmNorth: number): Promise<Resource> {
+    const resource = await resourcesApi.createResource(supabase, {
+      title: `${TEST_PREFIX}Nearby_${kmNorth}km_${Date.now()}`,
+      description: `${TEST_PREFIX} proximity test resource`,
+      type: 'offer',
+      category: 'tools',
+      status: 'active',
+      communityIds: [testCommunity.id],
+      locationName: 'Test Location',
+      coordinates: { lat: origin.lat + kmNorth / 111.195, lng: origin.lng },
+      requiresApproval: false,
+      imageUrls: [],
+    });
+    if (!resource) throw new Error('Failed to create resource');
+    return resource;
+  }
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+    await createTestUser(supabase);
+    testCommunity = await createTestCommunity(supabase);
+
+    farOffer = await createResourceAt(10);
+    nearOffer = await createResourceAt(0.5);
+    midOffer = await createResourceAt(1.5);
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('returns resources within the radius, nearest first', async () => {
+    const resources = await resourcesApi.fetchNearbyResources(supabase, {
+      origin,
+      radiusKm: 2,
+      communityId: testCommunity.id,
+    });
+
+    expect(resources.map((r) => r.id)).toEqual([nearOffer.id, midOffer.id]);
+    expect(resources[0].distanceKm).toBeCloseTo(0.5, 1);
+    expect(resources[1].distanceKm).toBeCloseTo(1.5, 1);
+  });
+
+  it('converts a driving time budget into a search radius', async () => {
+    // 20 minutes covers roughly 12.8 km in a straight line
+    const resources = await resourcesApi.fetchNearbyResources(supabase, {
+      origin,
+      maxDriveMinutes: 20,
+      communityId: testCommunity.id,
+    });
+
+    expect(resources.map((r) => r.id)).toEqual([
+      nearOffer.id,
+      midOffer.id,
+      farOffer.id,
+    ]);
+  });
+
+  it('returns at most limit resources, nearest first', async () => {
+    const resources = await resourcesApi.fetchNearbyResources(supabase, {
+      origin,
+      radiusKm: 20,
+      communityId: testCommunity.id,
+      limit: 2,
+    });
+
+    expect(resources.map((r) => r.id)).toEqual([nearOffer.id, midOffer.id]);
+  });
+
+  it('applies attribute filters', async () => {
+    const resources = await resourcesApi.fetchNearbyResources(supabase, {
+      origin,
+      radiusKm: 20,
+      communityId: testCommunity.id,
+      type: 'request',
+    });
+
+    expect(resources).toEqual([]);
+  });
+
+  it('requires a radius or driving time', async () => {
+    await expect(
+      resourcesApi.fetchNearbyResources(supabase, { origin }),
+    ).rejects.toThrow('Either radiusKm or maxDriveMinutes is required');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestClient } from '../helpers/test-client';
+import { cleanupAllTestData } from '../helpers/cleanup';
+import {
+  createTestUser,
+  createTestCommunity,
+  createTestResource,
+  TEST_PREFIX,
+} from '../helpers/test-data';
+import { createCommunity, updateCommunity } from '@/features/communities/api';
+import { createFakeCommunityInput } from '@/features/communities/__fakes__';
+import { getInvitationCode } from '@/features/invitations/api';
+import { fetchPlayerActionAccess } from '@/features/trust-scores/api';
+import { PlayerPowerError } from '@/features/trust-scores';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/shared/types/database';
+import type { Account } from '@/features/auth/types';
+import type { Community } from '@/features/communities/types';
+
+describe('Trust Scores - Player Powers', () => {
+  let supabase: SupabaseClient<Database>;
+  let founder: Account;
+  let openCommunity: Community;
+  let enforcingCommunity: Community;
+
+  beforeAll(async () => {
+    supabase = createTestClient();
+    founder = await createTestUser(supabase);
+
+    // Founders start at level 5: offers are unlocked, requests are not
+    openCommunity = await createTestCommunity(supabase);
+    enforcingCommunity = await createTestCommunity(supabase);
+    await updateCommunity(supabase, {
+      id: enforcingCommunity.id,
+      enforcePlayerPowers: true,
+    });
+  });
+
+  afterAll(async () => {
+    await cleanupAllTestData();
+  });
+
+  it('enforces powers in new communities by default', async () => {
+    const community = await createCommunity(
+      supabase,
+      createFakeCommunityInput({
+        name: `${TEST_PREFIX}Community_${Date.now()}`,
+      }),
+    );
+
+    expect(community?.enforcePlayerPowers).toBe(true);
+  });
+
+  it('allows every action in communities that do not enforce powers', async () => {
+    const access = await fetchPlayerActionAccess(
+      supabase,
+      'create_request',
+      openCommunity.id,
+    );
+    expect(access.allowed).toBe(true);
+
+    const request = await createTestResource(
+      supabase,
+      openCommunity.id,
+      'request',
+    );
+    expect(request.type).toBe('request');
+  });
+
+  it('reports the level required for a locked action', async () => {
+    const access = await fetchPlayerActionAccess(
+      supabase,
+      'create_request',
+      enforcingCommunity.id,
+    );
+
+    expect(access).toEqual({
+      allowed: false,
+      currentLevel: 5,
+      requiredLevel: 6,
+    });
+  });
+
+  it('allows actions unlocked at or below the current level', async () => {
+    const access = await fetchPlayerActionAccess(
+      supabase,
+      'create_offer',
+      enforcingCommunity.id,
+    );
+    expect(access.allowed).toBe(true);
+
+    const offer = await createTestResource(
+      supabase,
+      enforcingCommunity.id,
+      'offer',
+    );
+    expect(offer.type).toBe('offer');
+  });
+
+  it('rejects locked resource creation with a PlayerPowerError', async () => {
+    const attempt = createTestResource(
+      supabase,
+      enforcingCommunity.id,
+      'request',
+    );
+
+    await expect(attempt).rejects.toBeInstanceOf(PlayerPowerError);
+    await expect(attempt).rejects.toMatchObject({
+      action: 'create_request',
+      communityId: enforcingCommunity.id,
+      currentLevel: 5,
+      requiredLevel: 6,
+    });
+  });
+
+  it('rejects sharing an invitation code below the invite level', async () => {
+    await expect(
+      getInvitationCode(supabase, founder.id, enforcingCommunity.id),
+    ).rejects.toMatchObject({
+      name: 'PlayerPowerError',
+      action: 'invite_friend',
+      requiredLevel: 8,
+    });
+
+    const code = await getInvitationCode(
+      supabase,
+      founder.id,
+      openCommunity.id,
+    );
+    expect(code.communityId).toBe(openCommunity.id);
+  });
+});